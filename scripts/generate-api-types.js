@@ -0,0 +1,74 @@
+/**
+ * Generates src/services/api/generated/operations.ts from api-docs/api-docs.json.
+ *
+ * Emits one entry per `METHOD /path` with its typed query parameters so the
+ * endpoint layer (src/services/api/endpoints.ts) cannot drift from the spec.
+ *
+ * Usage: npm run generate:api
+ */
+const fs = require('fs');
+const path = require('path');
+
+const SPEC_PATH = path.join(__dirname, '..', 'api-docs', 'api-docs.json');
+const OUTPUT_PATH = path.join(__dirname, '..', 'src', 'services', 'api', 'generated', 'operations.ts');
+
+const spec = JSON.parse(fs.readFileSync(SPEC_PATH, 'utf8'));
+
+const toTsType = (schema = {}) => {
+    if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+    switch (schema.type) {
+        case 'integer':
+        case 'number':
+            return 'number';
+        case 'boolean':
+            return 'boolean';
+        case 'array':
+            return `Array<${toTsType(schema.items)}>`;
+        default:
+            return 'string';
+    }
+};
+
+const quoteKey = (key) => (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key));
+
+const lines = [
+    '// AUTO-GENERATED by scripts/generate-api-types.js from api-docs/api-docs.json.',
+    '// Do not edit by hand: update the spec and run `npm run generate:api`.',
+    '',
+    'export interface ApiOperations {',
+];
+
+const paths = new Set();
+
+Object.entries(spec.paths).forEach(([route, methods]) => {
+    paths.add(route);
+    Object.entries(methods).forEach(([method, operation]) => {
+        const query = (operation.parameters || []).filter((param) => param.in === 'query');
+        lines.push(`    /** ${(operation.summary || '').replace(/\*\//g, '')} */`);
+        lines.push(`    '${method.toUpperCase()} ${route}': {`);
+        if (query.length === 0) {
+            lines.push('        query: never;');
+        } else {
+            lines.push('        query: {');
+            query.forEach((param) => {
+                const optional = param.required ? '' : '?';
+                lines.push(`            ${quoteKey(param.name)}${optional}: ${toTsType(param.schema)};`);
+            });
+            lines.push('        };');
+        }
+        lines.push('    };');
+    });
+});
+
+lines.push('}');
+lines.push('');
+lines.push('export type ApiOperationKey = keyof ApiOperations;');
+lines.push('');
+lines.push('export type ApiPath =');
+[...paths].forEach((route, index, all) => {
+    lines.push(`    | '${route}'${index === all.length - 1 ? ';' : ''}`);
+});
+lines.push('');
+
+fs.writeFileSync(OUTPUT_PATH, lines.join('\n'));
+console.log(`Generated ${path.relative(process.cwd(), OUTPUT_PATH)} (${paths.size} paths)`);
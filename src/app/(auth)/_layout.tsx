@@ -7,6 +7,8 @@ export default function AuthLayout() {
             <Stack.Screen name="login" />
             <Stack.Screen name="register" />
             <Stack.Screen name="forgot-password" />
+            <Stack.Screen name="reset" />
+            <Stack.Screen name="verify-email" />
         </Stack>
     );
 }
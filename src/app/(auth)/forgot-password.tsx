@@ -1,13 +1,18 @@
-import { useState } from 'react';
-import { View, Text, TouchableOpacity, Alert, ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, Alert, ScrollView, KeyboardAvoidingView, Platform, ActivityIndicator } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 // Button removed - using TouchableOpacity
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { z } from 'zod';
-import { client } from '../../services/api/client';
+import { getErrorMessage, isCanceledError } from '../../services/api/errors';
+import { usePasswordReset } from '../../hooks/usePasswordReset';
+import { formatCountdown } from '../../hooks/useCountdown';
+import { applyFieldErrors } from '../../utils/formErrors';
 import { ControlledInput } from '../../components/ui/ControlledInput';
+import { PasswordStrengthMeter } from '../../components/auth/PasswordStrengthMeter';
+import { checkPasswordStrength } from '../../schemas/auth';
 import Animated, { SlideInDown } from 'react-native-reanimated';
 import { StatusBar } from 'expo-status-bar';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
@@ -17,58 +22,101 @@ const emailSchema = z.object({
     email: z.string().email('Email inválido'),
 });
 
-// Schema for Step 2: Code + Password
-const resetSchema = z.object({
-    code: z.string().min(6, 'El código debe tener 6 caracteres'),
+// Schema for Step 2: Code + Password (must not contain the account email).
+// Opened from the email link, the token replaces the code.
+const createResetSchema = (email: string, requiresCode: boolean) => z.object({
+    code: requiresCode ? z.string().min(6, 'El código debe tener 6 caracteres') : z.string(),
     password: z.string().min(8, 'La contraseña debe tener al menos 8 caracteres'),
     confirmPassword: z.string()
 }).refine((data) => data.password === data.confirmPassword, {
     message: "Las contraseñas no coinciden",
     path: ["confirmPassword"],
+}).superRefine((data, ctx) => {
+    checkPasswordStrength(data.password, { email }, ctx, 'password');
 });
 
 type EmailData = z.infer<typeof emailSchema>;
-type ResetData = z.infer<typeof resetSchema>;
+type ResetData = z.infer<ReturnType<typeof createResetSchema>>;
 
 export default function ForgotPasswordScreen() {
     const router = useRouter();
+    // Set when opened from the link in the email (helpdesk://reset?token=...)
+    const { token: linkToken } = useLocalSearchParams<{ token?: string }>();
     const [step, setStep] = useState<1 | 2>(1);
-    const [isLoading, setIsLoading] = useState(false);
-    const [email, setEmail] = useState('');
+    const {
+        email,
+        token,
+        isExpired,
+        expiresInSeconds,
+        attemptsRemaining,
+        send,
+        isSending,
+        resend,
+        resendSecondsLeft,
+        checkToken,
+        isChecking,
+        confirm,
+        isConfirming,
+    } = usePasswordReset();
     const [showPassword, setShowPassword] = useState(false);
     const [showConfirmPassword, setShowConfirmPassword] = useState(false);
 
     // Form for Step 1
-    const { control: emailControl, handleSubmit: handleEmailSubmit } = useForm<EmailData>({
+    const { control: emailControl, handleSubmit: handleEmailSubmit, setError: setEmailError } = useForm<EmailData>({
         resolver: zodResolver(emailSchema),
         defaultValues: { email: '' },
     });
 
     // Form for Step 2
-    const { control: resetControl, handleSubmit: handleResetSubmit } = useForm<ResetData>({
+    const resetSchema = useMemo(() => createResetSchema(email, !token), [email, token]);
+    const { control: resetControl, handleSubmit: handleResetSubmit, setError: setResetError, watch: watchReset } = useForm<ResetData>({
         resolver: zodResolver(resetSchema),
         defaultValues: { code: '', password: '', confirmPassword: '' },
     });
 
+    // Step 2 only opens for a link that can still be used
+    useEffect(() => {
+        if (!linkToken) return;
+        const controller = new AbortController();
+        checkToken(linkToken, controller.signal)
+            .then((isValid) => {
+                if (isValid) {
+                    setStep(2);
+                } else {
+                    Alert.alert('Enlace no válido', 'El enlace expiró o ya fue usado. Solicita uno nuevo.');
+                }
+            })
+            .catch((error) => {
+                if (isCanceledError(error)) return;
+                Alert.alert('Error', getErrorMessage(error, 'No se pudo verificar el enlace.'));
+            });
+        return () => controller.abort();
+    }, [linkToken]);
+
     const onEmailSubmit = async (data: EmailData) => {
-        setIsLoading(true);
         try {
-            await client.post('/api/auth/password-reset', data);
-            setEmail(data.email);
+            await send(data.email);
             setStep(2);
             Alert.alert('Código enviado', 'Revisa tu correo electrónico para ver el código de verificación.');
-        } catch (error: any) {
-            Alert.alert('Error', error.response?.data?.message || 'No se pudo enviar el código.');
-        } finally {
-            setIsLoading(false);
+        } catch (error) {
+            if (!applyFieldErrors(error, setEmailError, ['email'])) {
+                Alert.alert('Error', getErrorMessage(error, 'No se pudo enviar el código.'));
+            }
+        }
+    };
+
+    const onResend = async () => {
+        try {
+            await resend();
+            Alert.alert('Código reenviado', 'Te enviamos un nuevo código. El anterior ya no es válido.');
+        } catch (error) {
+            Alert.alert('Error', getErrorMessage(error, 'No se pudo reenviar el código.'));
         }
     };
 
     const onResetSubmit = async (data: ResetData) => {
-        setIsLoading(true);
         try {
-            await client.post('/api/auth/password-reset/confirm', {
-                email,
+            await confirm({
                 code: data.code,
                 password: data.password,
                 passwordConfirmation: data.confirmPassword
@@ -78,13 +126,18 @@ export default function ForgotPasswordScreen() {
                 'Tu contraseña ha sido actualizada exitosamente.',
                 [{ text: 'Iniciar Sesión', onPress: () => router.replace('/(auth)/login') }]
             );
-        } catch (error: any) {
-            Alert.alert('Error', error.response?.data?.message || 'No se pudo restablecer la contraseña.');
-        } finally {
-            setIsLoading(false);
+        } catch (error) {
+            const handled = applyFieldErrors(error, setResetError, ['code', 'password'], {
+                passwordConfirmation: 'confirmPassword',
+            });
+            if (!handled) {
+                Alert.alert('Error', getErrorMessage(error, 'No se pudo restablecer la contraseña.'));
+            }
         }
     };
 
+    const canResend = resendSecondsLeft === 0 && !isSending;
+
     return (
         <View className="flex-1 bg-blue-600">
             <StatusBar style="light" />
@@ -103,7 +156,9 @@ export default function ForgotPasswordScreen() {
                         </TouchableOpacity>
                         <Text className="text-white text-4xl font-bold mb-2">Recuperar Acceso</Text>
                         <Text className="text-blue-100 text-lg">
-                            {step === 1 ? 'Ingresa tu email para recibir un código' : 'Ingresa el código y tu nueva contraseña'}
+                            {step === 1
+                                ? 'Ingresa tu email para recibir un código'
+                                : token ? 'Elige tu nueva contraseña' : 'Ingresa el código y tu nueva contraseña'}
                         </Text>
                     </View>
 
@@ -113,7 +168,12 @@ export default function ForgotPasswordScreen() {
                         className="flex-1 bg-white rounded-t-[32px] px-8 pt-10 shadow-2xl"
                     >
                         <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 40 }}>
-                            {step === 1 ? (
+                            {isChecking ? (
+                                <View className="items-center py-10">
+                                    <ActivityIndicator size="large" color="#2563eb" />
+                                    <Text className="text-gray-500 mt-4">Verificando enlace...</Text>
+                                </View>
+                            ) : step === 1 ? (
                                 <View>
                                     <ControlledInput
                                         control={emailControl}
@@ -126,25 +186,38 @@ export default function ForgotPasswordScreen() {
                                     />
                                     <TouchableOpacity
                                         onPress={handleEmailSubmit(onEmailSubmit)}
-                                        disabled={isLoading}
+                                        disabled={isSending}
                                         className="flex-row items-center justify-center bg-blue-600 rounded-xl h-14 shadow-lg shadow-blue-600/30 mt-4 active:bg-blue-700"
                                     >
                                         <Text className="text-white font-bold text-base">
-                                            {isLoading ? 'Enviando...' : 'Enviar Código'}
+                                            {isSending ? 'Enviando...' : 'Enviar Código'}
                                         </Text>
                                     </TouchableOpacity>
                                 </View>
                             ) : (
                                 <View className="space-y-2">
-                                    <ControlledInput
-                                        control={resetControl}
-                                        name="code"
-                                        label="Código de Verificación (6 dígitos)"
-                                        keyboardType="number-pad"
-                                        maxLength={6}
-                                        leftIcon="shield-check-outline"
-                                        placeholder="123456"
-                                    />
+                                    <View className={isExpired ? 'bg-red-50 rounded-xl p-3 mb-4' : 'bg-blue-50 rounded-xl p-3 mb-4'}>
+                                        <Text className="text-gray-700 text-sm">
+                                            {token ? 'Restableciendo la contraseña de ' : 'Enviamos el código a '}
+                                            <Text className="font-bold">{email}</Text>
+                                        </Text>
+                                        <Text className={isExpired ? 'text-red-600 text-sm mt-1 font-medium' : 'text-gray-500 text-sm mt-1'}>
+                                            {isExpired
+                                                ? `${token ? 'El enlace' : 'El código'} expiró. Solicita uno nuevo.`
+                                                : `${token ? 'El enlace' : 'El código'} expira en ${formatCountdown(expiresInSeconds)}`}
+                                        </Text>
+                                    </View>
+                                    {!token && (
+                                        <ControlledInput
+                                            control={resetControl}
+                                            name="code"
+                                            label="Código de Verificación (6 dígitos)"
+                                            keyboardType="number-pad"
+                                            maxLength={6}
+                                            leftIcon="shield-check-outline"
+                                            placeholder="123456"
+                                        />
+                                    )}
                                     <ControlledInput
                                         control={resetControl}
                                         name="password"
@@ -155,6 +228,7 @@ export default function ForgotPasswordScreen() {
                                         onRightIconPress={() => setShowPassword(!showPassword)}
                                         placeholder="••••••••"
                                     />
+                                    <PasswordStrengthMeter password={watchReset('password')} context={{ email }} />
                                     <ControlledInput
                                         control={resetControl}
                                         name="confirmPassword"
@@ -167,13 +241,33 @@ export default function ForgotPasswordScreen() {
                                     />
                                     <TouchableOpacity
                                         onPress={handleResetSubmit(onResetSubmit)}
-                                        disabled={isLoading}
-                                        className="flex-row items-center justify-center bg-blue-600 rounded-xl h-14 shadow-lg shadow-blue-600/30 mt-6 active:bg-blue-700"
+                                        disabled={isConfirming || isExpired}
+                                        className={`flex-row items-center justify-center rounded-xl h-14 shadow-lg shadow-blue-600/30 mt-6 ${isExpired ? 'bg-gray-400' : 'bg-blue-600 active:bg-blue-700'}`}
                                     >
                                         <Text className="text-white font-bold text-base">
-                                            {isLoading ? 'Restableciendo...' : 'Restablecer Contraseña'}
+                                            {isConfirming ? 'Restableciendo...' : 'Restablecer Contraseña'}
                                         </Text>
                                     </TouchableOpacity>
+                                    <TouchableOpacity
+                                        onPress={token ? () => setStep(1) : onResend}
+                                        disabled={!token && !canResend}
+                                        className="items-center py-4"
+                                    >
+                                        <Text className={token || canResend ? 'text-blue-600 font-medium' : 'text-gray-400'}>
+                                            {token
+                                                ? 'Solicitar un nuevo enlace'
+                                                : isSending
+                                                    ? 'Reenviando...'
+                                                    : resendSecondsLeft > 0
+                                                        ? `Reenviar código en ${formatCountdown(resendSecondsLeft)}`
+                                                        : 'Reenviar código'}
+                                        </Text>
+                                    </TouchableOpacity>
+                                    {attemptsRemaining !== null && (
+                                        <Text className="text-gray-400 text-xs text-center">
+                                            Envíos restantes: {attemptsRemaining}
+                                        </Text>
+                                    )}
                                 </View>
                             )}
                         </ScrollView>
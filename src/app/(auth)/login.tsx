@@ -1,15 +1,18 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { View, Text, TouchableOpacity, ScrollView, Alert, KeyboardAvoidingView, Platform, Dimensions } from 'react-native';
-import { useRouter, Link } from 'expo-router';
-import { useForm } from 'react-hook-form';
+import { useRouter, Link, useLocalSearchParams } from 'expo-router';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Checkbox } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Animated, { FadeInUp, SlideInDown } from 'react-native-reanimated';
 import { useAuthStore } from '../../stores/authStore';
 import { ControlledInput } from '../../components/ui/ControlledInput';
-import { GoogleButton } from '../../components/ui/GoogleButton';
+import { GoogleSignInButton } from '../../components/auth/GoogleSignInButton';
 import { loginSchema, LoginFormData } from '../../schemas/auth';
+import { getErrorMessage } from '../../services/api/errors';
+import { applyFieldErrors } from '../../utils/formErrors';
+import { rememberedLogin } from '../../services/storage/rememberedLogin';
 import { StatusBar } from 'expo-status-bar';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 
@@ -17,32 +20,41 @@ const { height } = Dimensions.get('window');
 
 export default function LoginScreen() {
     const router = useRouter();
+    // Set when the session expired: where the user was before being signed out
+    const { returnTo } = useLocalSearchParams<{ returnTo?: string }>();
     const login = useAuthStore((state) => state.login);
     const isLoading = useAuthStore((state) => state.isLoading);
     const [showPassword, setShowPassword] = useState(false);
-    const [rememberMe, setRememberMe] = useState(false);
 
-    const { control, handleSubmit } = useForm<LoginFormData>({
+    const { control, handleSubmit, setError, setValue, getValues } = useForm<LoginFormData>({
         resolver: zodResolver(loginSchema),
         defaultValues: {
             email: '',
             password: '',
+            rememberDevice: false,
         },
     });
 
+    useEffect(() => {
+        rememberedLogin.getEmail().then((email) => {
+            // Don't overwrite what the user started typing
+            if (!email || getValues('email')) return;
+            setValue('email', email);
+            setValue('rememberDevice', true);
+        });
+    }, []);
+
     const onSubmit = async (data: LoginFormData) => {
         try {
-            await login(data.email, data.password);
-            router.replace('/(tabs)/home');
-        } catch (error: any) {
-            Alert.alert('Error', error.response?.data?.message || 'Credenciales inválidas');
+            // Navigation (home or returnTo) is handled by the store
+            await login(data.email, data.password, returnTo, data.rememberDevice);
+        } catch (error) {
+            if (!applyFieldErrors(error, setError, ['email', 'password'])) {
+                Alert.alert('Error', getErrorMessage(error, 'Credenciales inválidas'));
+            }
         }
     };
 
-    const handleGoogleLogin = () => {
-        Alert.alert('Próximamente', 'Funcionalidad en desarrollo');
-    };
-
     return (
         <View className="flex-1 bg-blue-600">
             <StatusBar style="light" />
@@ -90,14 +102,20 @@ export default function LoginScreen() {
                             </View>
 
                             <View className="flex-row justify-between items-center mt-2 mb-8">
-                                <View className="flex-row items-center">
-                                    <Checkbox.Android
-                                        status={rememberMe ? 'checked' : 'unchecked'}
-                                        onPress={() => setRememberMe(!rememberMe)}
-                                        color="#2563eb"
-                                    />
-                                    <Text className="text-gray-600 ml-1">Recordarme</Text>
-                                </View>
+                                <Controller
+                                    control={control}
+                                    name="rememberDevice"
+                                    render={({ field: { value, onChange } }) => (
+                                        <TouchableOpacity onPress={() => onChange(!value)} className="flex-row items-center">
+                                            <Checkbox.Android
+                                                status={value ? 'checked' : 'unchecked'}
+                                                onPress={() => onChange(!value)}
+                                                color="#2563eb"
+                                            />
+                                            <Text className="text-gray-600 ml-1">Recordarme</Text>
+                                        </TouchableOpacity>
+                                    )}
+                                />
                                 <Link href="/(auth)/forgot-password" asChild>
                                     <TouchableOpacity>
                                         <Text className="text-blue-600 font-bold text-sm">¿Olvidaste tu contraseña?</Text>
@@ -115,7 +133,7 @@ export default function LoginScreen() {
                                 </Text>
                             </TouchableOpacity>
 
-                            <GoogleButton onPress={handleGoogleLogin} />
+                            <GoogleSignInButton returnTo={returnTo} />
 
                             <View className="flex-row justify-center mt-6">
                                 <Text className="text-gray-500 font-medium">¿No tienes cuenta? </Text>
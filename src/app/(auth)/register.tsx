@@ -8,48 +8,16 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import Animated, { SlideInDown, FadeInDown, FadeInUp } from 'react-native-reanimated';
 import { useAuthStore } from '../../stores/authStore';
 import { ControlledInput } from '../../components/ui/ControlledInput';
-import { GoogleButton } from '../../components/ui/GoogleButton';
+import { GoogleSignInButton } from '../../components/auth/GoogleSignInButton';
 import { registerSchema, RegisterFormData } from '../../schemas/auth';
+import { getErrorMessage } from '../../services/api/errors';
+import { applyFieldErrors } from '../../utils/formErrors';
+import { PasswordStrengthMeter } from '../../components/auth/PasswordStrengthMeter';
 import { StatusBar } from 'expo-status-bar';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 
 const { height } = Dimensions.get('window');
 
-// Password Strength Component
-const PasswordStrength = ({ password }: { password?: string }) => {
-    if (!password) return null;
-
-    const hasLength = password.length >= 8;
-    const hasNumber = /\d/.test(password);
-    const hasSpecial = /[!@#$%^&*(),.?":{}|<>]/.test(password);
-    const hasUpper = /[A-Z]/.test(password);
-
-    const strength = [hasLength, hasNumber, hasSpecial, hasUpper].filter(Boolean).length;
-
-    const getColor = () => {
-        if (strength <= 1) return 'bg-red-500';
-        if (strength === 2) return 'bg-orange-500';
-        if (strength === 3) return 'bg-yellow-500';
-        return 'bg-green-500';
-    };
-
-    const getText = () => {
-        if (strength <= 1) return 'Débil';
-        if (strength === 2) return 'Regular';
-        if (strength === 3) return 'Buena';
-        return 'Fuerte';
-    };
-
-    return (
-        <View className="mt-1 mb-4">
-            <View className="flex-row h-1.5 w-full bg-gray-200 rounded-full overflow-hidden mb-1">
-                <View className={`h-full ${getColor()}`} style={{ width: `${(strength / 4) * 100}%` }} />
-            </View>
-            <Text className="text-xs text-gray-500 text-right">{getText()}</Text>
-        </View>
-    );
-};
-
 export default function RegisterScreen() {
     const router = useRouter();
     const register = useAuthStore((state) => state.register);
@@ -57,7 +25,7 @@ export default function RegisterScreen() {
     const [showPassword, setShowPassword] = useState(false);
     const [showConfirmPassword, setShowConfirmPassword] = useState(false);
 
-    const { control, handleSubmit, watch } = useForm<RegisterFormData>({
+    const { control, handleSubmit, watch, setError } = useForm<RegisterFormData>({
         resolver: zodResolver(registerSchema),
         defaultValues: {
             email: '',
@@ -70,25 +38,29 @@ export default function RegisterScreen() {
         },
     });
 
-    const password = watch('password');
+    const [password, email, firstName, lastName] = watch(['password', 'email', 'firstName', 'lastName']);
 
     const onSubmit = async (data: RegisterFormData) => {
         try {
+            // Signed in right away; the store continues to email verification
             await register(data);
-            Alert.alert(
-                'Registro Exitoso',
-                'Por favor verifica tu correo electrónico para activar tu cuenta.',
-                [{ text: 'Ir al Login', onPress: () => router.replace('/(auth)/login') }]
+        } catch (error) {
+            const handled = applyFieldErrors(
+                error,
+                setError,
+                ['email', 'password', 'firstName', 'lastName'],
+                {
+                    passwordConfirmation: 'confirmPassword',
+                    acceptsTerms: 'termsAccepted',
+                    acceptsPrivacyPolicy: 'privacyAccepted',
+                }
             );
-        } catch (error: any) {
-            Alert.alert('Error', error.response?.data?.message || 'No se pudo crear la cuenta');
+            if (!handled) {
+                Alert.alert('Error', getErrorMessage(error, 'No se pudo crear la cuenta'));
+            }
         }
     };
 
-    const handleGoogleLogin = () => {
-        Alert.alert('Próximamente', 'Funcionalidad en desarrollo');
-    };
-
     return (
         <View className="flex-1 bg-blue-600">
             <StatusBar style="light" />
@@ -155,7 +127,7 @@ export default function RegisterScreen() {
                                     onRightIconPress={() => setShowPassword(!showPassword)}
                                     placeholder="••••••••"
                                 />
-                                <PasswordStrength password={password} />
+                                <PasswordStrengthMeter password={password} context={{ email, firstName, lastName }} />
 
                                 <ControlledInput
                                     control={control}
@@ -214,7 +186,7 @@ export default function RegisterScreen() {
                                 </Text>
                             </TouchableOpacity>
 
-                            <GoogleButton onPress={handleGoogleLogin} />
+                            <GoogleSignInButton />
 
                             <View className="flex-row justify-center mt-6">
                                 <Text className="text-gray-500 font-medium">¿Ya tienes cuenta? </Text>
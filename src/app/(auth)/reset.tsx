@@ -0,0 +1,7 @@
+import { Redirect, useLocalSearchParams } from 'expo-router';
+
+// Target of the link in the reset email (helpdesk://reset?token=...)
+export default function ResetPasswordLink() {
+    const { token } = useLocalSearchParams<{ token?: string }>();
+    return <Redirect href={{ pathname: '/(auth)/forgot-password', params: token ? { token } : {} }} />;
+}
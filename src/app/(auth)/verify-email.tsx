@@ -0,0 +1,182 @@
+import { useEffect, useRef } from 'react';
+import { View, Text, TouchableOpacity, Alert, ScrollView, KeyboardAvoidingView, Platform, ActivityIndicator } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { z } from 'zod';
+import Animated, { FadeIn, SlideInDown } from 'react-native-reanimated';
+import { StatusBar } from 'expo-status-bar';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuthStore } from '../../stores/authStore';
+import { useEmailVerification } from '../../hooks/useEmailVerification';
+import { formatCountdown } from '../../hooks/useCountdown';
+import { getErrorMessage } from '../../services/api/errors';
+import { ControlledInput } from '../../components/ui/ControlledInput';
+
+const codeSchema = z.object({
+    code: z.string().trim().min(6, 'Ingresa el código que recibiste por correo'),
+});
+
+type CodeData = z.infer<typeof codeSchema>;
+
+export default function VerifyEmailScreen() {
+    const router = useRouter();
+    // Set when opened from the link in the email (helpdesk://verify-email?token=...)
+    const { token } = useLocalSearchParams<{ token?: string }>();
+    const userEmail = useAuthStore((state) => state.user?.email);
+    const {
+        isAuthenticated,
+        isVerified,
+        email,
+        attemptsRemaining,
+        verify,
+        isVerifying,
+        resend,
+        isResending,
+        resendSecondsLeft,
+    } = useEmailVerification();
+    const autoVerified = useRef(false);
+
+    const { control, handleSubmit, setError } = useForm<CodeData>({
+        resolver: zodResolver(codeSchema),
+        defaultValues: { code: '' },
+    });
+
+    const leave = () => {
+        if (isAuthenticated) {
+            router.replace('/(tabs)/home');
+        } else {
+            router.replace('/(auth)/login');
+        }
+    };
+
+    const submitToken = async (value: string) => {
+        try {
+            const message = await verify(value);
+            if (!isAuthenticated) {
+                Alert.alert('Correo verificado', message, [{ text: 'Iniciar Sesión', onPress: leave }]);
+            }
+        } catch (error) {
+            setError('code', { message: getErrorMessage(error, 'El código no es válido o ya expiró') });
+        }
+    };
+
+    useEffect(() => {
+        if (token && !autoVerified.current) {
+            autoVerified.current = true;
+            submitToken(token);
+        }
+    }, [token]);
+
+    const onResend = async () => {
+        try {
+            const message = await resend();
+            Alert.alert('Correo enviado', message);
+        } catch (error) {
+            Alert.alert('Error', getErrorMessage(error, 'No se pudo reenviar el correo'));
+        }
+    };
+
+    const targetEmail = email ?? userEmail;
+
+    return (
+        <View className="flex-1 bg-blue-600">
+            <StatusBar style="light" />
+            <SafeAreaView className="flex-1" edges={['top']}>
+                <KeyboardAvoidingView
+                    behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+                    className="flex-1"
+                >
+                    {/* Header Section */}
+                    <View className="h-[25%] justify-center px-8">
+                        <TouchableOpacity onPress={leave} className="mb-6 w-10 h-10 bg-white/20 rounded-full items-center justify-center">
+                            <MaterialCommunityIcons name="close" size={24} color="white" />
+                        </TouchableOpacity>
+                        <Text className="text-white text-4xl font-bold mb-2">Verifica tu correo</Text>
+                        <Text className="text-blue-100 text-lg" numberOfLines={2}>
+                            {targetEmail ? `Enviamos un código a ${targetEmail}` : 'Ingresa el código que te enviamos'}
+                        </Text>
+                    </View>
+
+                    {/* Form Section */}
+                    <Animated.View
+                        entering={SlideInDown.duration(500).springify()}
+                        className="flex-1 bg-white rounded-t-[32px] px-8 pt-10 shadow-2xl"
+                    >
+                        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 40 }}>
+                            {isVerified ? (
+                                <Animated.View entering={FadeIn} className="items-center">
+                                    <View className="w-20 h-20 rounded-full bg-green-100 items-center justify-center mb-4">
+                                        <MaterialCommunityIcons name="email-check-outline" size={40} color="#16a34a" />
+                                    </View>
+                                    <Text className="text-gray-900 text-xl font-bold mb-2">¡Correo verificado!</Text>
+                                    <Text className="text-gray-500 text-center mb-8">
+                                        Ya puedes crear tickets y usar todas las funciones de Helpdesk.
+                                    </Text>
+                                    <TouchableOpacity
+                                        onPress={leave}
+                                        className="w-full flex-row items-center justify-center bg-blue-600 rounded-xl h-14 shadow-lg shadow-blue-600/30 active:bg-blue-700"
+                                    >
+                                        <Text className="text-white font-bold text-base">Continuar</Text>
+                                    </TouchableOpacity>
+                                </Animated.View>
+                            ) : (
+                                <View>
+                                    <ControlledInput
+                                        control={control}
+                                        name="code"
+                                        label="Código de Verificación"
+                                        autoCapitalize="none"
+                                        autoCorrect={false}
+                                        leftIcon="shield-check-outline"
+                                        placeholder="123456"
+                                    />
+                                    <TouchableOpacity
+                                        onPress={handleSubmit((data) => submitToken(data.code))}
+                                        disabled={isVerifying}
+                                        className="flex-row items-center justify-center bg-blue-600 rounded-xl h-14 shadow-lg shadow-blue-600/30 mt-4 active:bg-blue-700"
+                                    >
+                                        {isVerifying ? (
+                                            <ActivityIndicator color="white" />
+                                        ) : (
+                                            <Text className="text-white font-bold text-base">Verificar</Text>
+                                        )}
+                                    </TouchableOpacity>
+
+                                    {isAuthenticated && (
+                                        <View className="items-center mt-6">
+                                            <Text className="text-gray-500 text-sm mb-2">¿No recibiste el correo?</Text>
+                                            <TouchableOpacity
+                                                onPress={onResend}
+                                                disabled={isResending || resendSecondsLeft > 0}
+                                                className="px-4 py-2"
+                                            >
+                                                <Text className={`font-bold ${resendSecondsLeft > 0 || isResending ? 'text-gray-400' : 'text-blue-600'}`}>
+                                                    {isResending
+                                                        ? 'Enviando...'
+                                                        : resendSecondsLeft > 0
+                                                            ? `Reenviar en ${formatCountdown(resendSecondsLeft)}`
+                                                            : 'Reenviar correo'}
+                                                </Text>
+                                            </TouchableOpacity>
+                                            {attemptsRemaining !== null && (
+                                                <Text className="text-gray-400 text-xs">
+                                                    Intentos restantes: {attemptsRemaining}
+                                                </Text>
+                                            )}
+                                        </View>
+                                    )}
+
+                                    <TouchableOpacity onPress={leave} className="items-center mt-8">
+                                        <Text className="text-gray-500 font-medium">Verificar más tarde</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            )}
+                        </ScrollView>
+                    </Animated.View>
+                </KeyboardAvoidingView>
+            </SafeAreaView>
+        </View>
+    );
+}
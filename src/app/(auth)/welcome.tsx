@@ -1,11 +1,19 @@
-import { View, Text, TouchableOpacity } from 'react-native';
+import { useCallback, useState } from 'react';
+import { View, Text, TouchableOpacity, Pressable } from 'react-native';
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Animated, { FadeInUp, FadeIn } from 'react-native-reanimated';
 import { StatusBar } from 'expo-status-bar';
+import { useHiddenTrigger } from '../../hooks/useHiddenTrigger';
+import { ENVIRONMENT_LABELS, useEnvironmentStore } from '../../stores/environmentStore';
+import { EnvironmentSheet } from '../../components/settings/EnvironmentSheet';
 
 export default function WelcomeScreen() {
     const router = useRouter();
+    const [showEnvironments, setShowEnvironments] = useState(false);
+    const environmentId = useEnvironmentStore((state) => state.environmentId);
+    // QA: tap the logo 7 times to pick another server before signing in
+    const onLogoPress = useHiddenTrigger(useCallback(() => setShowEnvironments(true), []));
 
     return (
         <View className="flex-1 bg-blue-600">
@@ -17,15 +25,22 @@ export default function WelcomeScreen() {
                         entering={FadeIn.duration(600)}
                         className="items-center"
                     >
-                        <View className="bg-white/20 p-6 rounded-3xl mb-6 backdrop-blur-md">
+                        <Pressable onPress={onLogoPress} className="bg-white/20 p-6 rounded-3xl mb-6 backdrop-blur-md">
                             <Text className="text-white text-6xl font-bold tracking-tighter">HD</Text>
-                        </View>
+                        </Pressable>
                         <Text className="text-3xl font-bold text-center text-white mb-2">
                             Helpdesk Móvil
                         </Text>
                         <Text className="text-blue-100 text-lg text-center font-medium">
                             Tu soporte, en todas partes
                         </Text>
+                        {environmentId !== 'production' && (
+                            <View className="mt-3 bg-amber-400 px-3 py-1 rounded-full">
+                                <Text className="text-amber-900 text-xs font-bold">
+                                    {ENVIRONMENT_LABELS[environmentId]}
+                                </Text>
+                            </View>
+                        )}
                     </Animated.View>
 
                     {/* Botones - Parte inferior con separación */}
@@ -57,6 +72,8 @@ export default function WelcomeScreen() {
                     </Animated.View>
                 </View>
             </SafeAreaView>
+
+            <EnvironmentSheet visible={showEnvironments} onClose={() => setShowEnvironments(false)} />
         </View>
     );
 }
@@ -1,12 +1,22 @@
-import { Tabs } from 'expo-router';
+import { Redirect, Tabs } from 'expo-router';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useTheme } from 'react-native-paper';
 import { GlobalHeader } from '../../components/layout/GlobalHeader';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useOutboxSync } from '../../hooks/useOutboxSync';
+import { useAuthStore } from '../../stores/authStore';
 
 export default function TabsLayout() {
     const theme = useTheme();
     const insets = useSafeAreaInsets();
+    useOutboxSync();
+    // Only an explicit false: a user loaded from /users/me alone does not say
+    const needsOnboarding = useAuthStore((state) => state.user?.onboardingCompleted === false);
+
+    // First sign-in of a new account (login, register or Google) goes through onboarding
+    if (needsOnboarding) {
+        return <Redirect href="/onboarding" />;
+    }
 
     return (
         <Tabs
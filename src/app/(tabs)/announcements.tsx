@@ -9,6 +9,7 @@ import { FilterPill } from '@/components/ui/FilterPill';
 import { ScreenContainer } from '@/components/layout/ScreenContainer';
 import { useDebounceNavigation } from '@/hooks/useDebounceNavigation';
 import { useTabBarPadding } from '@/hooks/useTabBarPadding';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
 
 const FILTERS: { label: string; value: AnnouncementType | 'ALL' }[] = [
     { label: 'Todos', value: 'ALL' },
@@ -26,15 +27,20 @@ export default function AnnouncementsScreen() {
     const [searchQuery, setSearchQuery] = useState('');
     const [selectedType, setSelectedType] = useState<AnnouncementType | 'ALL'>('ALL');
 
+    const debouncedQuery = useDebouncedValue(searchQuery);
+
+    // A newer search or type cancels the previous request; leaving the screen cancels it too
     useEffect(() => {
-        loadAnnouncements();
-    }, [selectedType, searchQuery]); // Debounce search in real app
+        const controller = new AbortController();
+        loadAnnouncements(controller.signal);
+        return () => controller.abort();
+    }, [selectedType, debouncedQuery]);
 
-    const loadAnnouncements = () => {
+    const loadAnnouncements = (signal?: AbortSignal) => {
         fetchAnnouncements({
             type: selectedType === 'ALL' ? undefined : selectedType,
-            search: searchQuery,
-        });
+            search: debouncedQuery,
+        }, { signal }).catch((error) => console.error('Error fetching announcements:', error));
     };
 
     const handlePress = (id: string) => {
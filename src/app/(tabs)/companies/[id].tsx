@@ -32,10 +32,12 @@ export default function CompanyDetailScreen() {
         };
     }, [navigation]);
 
+    // Leaving the screen cancels the request in flight
     useEffect(() => {
-        if (typeof id === 'string') {
-            fetchCompanyDetail(id);
-        }
+        if (typeof id !== 'string') return;
+        const controller = new AbortController();
+        fetchCompanyDetail(id, { signal: controller.signal });
+        return () => controller.abort();
     }, [id]);
 
     if (selectedCompanyLoading || !selectedCompany) {
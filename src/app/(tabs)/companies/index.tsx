@@ -1,4 +1,4 @@
-import { View, FlatList, Text, RefreshControl, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { View, FlatList, Text, RefreshControl, TouchableOpacity, ScrollView } from 'react-native';
 import { IconButton } from 'react-native-paper';
 import { useCompanyStore } from '@/stores/companyStore';
 import { useEffect, useState, useCallback, useRef } from 'react';
@@ -11,6 +11,7 @@ import { SearchInput } from '@/components/ui/SearchInput';
 import { FilterButton } from '@/components/ui/FilterButton';
 import { FilterPill } from '@/components/ui/FilterPill';
 import { useTabBarPadding } from '@/hooks/useTabBarPadding';
+import { ActivityModal } from '@/components/ui/ActivityModal';
 
 export default function ExploreCompaniesScreen() {
     const { companies, industries, fetchCompanies, fetchIndustries, companiesLoading, setFilter, setMultipleFilters, filters, clearFilters } = useCompanyStore();
@@ -34,10 +35,10 @@ export default function ExploreCompaniesScreen() {
         fetchCompanies(1);
     }, [filters.industryId, filters.followedByMe, filters.search]);
 
-    const loadData = async () => {
+    const loadData = async (force = false) => {
         try {
             await Promise.all([
-                fetchCompanies(1),
+                fetchCompanies(1, { force }),
                 fetchIndustries()
             ]);
         } catch (error) {
@@ -65,7 +66,7 @@ export default function ExploreCompaniesScreen() {
 
     const onRefresh = () => {
         setRefreshing(true);
-        loadData();
+        loadData(true);
     };
 
 
@@ -163,7 +164,7 @@ export default function ExploreCompaniesScreen() {
             />
 
             {/* Industry Filter Modal */}
-            <Modal
+            <ActivityModal
                 visible={showIndustryModal}
                 animationType="none"
                 transparent={true}
@@ -209,7 +210,7 @@ export default function ExploreCompaniesScreen() {
                         </ScrollView>
                     </View>
                 </View>
-            </Modal>
+            </ActivityModal>
         </ScreenContainer>
     );
 }
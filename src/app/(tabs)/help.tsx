@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { View, ScrollView, StyleSheet, Text } from 'react-native';
+import { View, ScrollView, StyleSheet, Text, ActivityIndicator } from 'react-native';
 import { useTheme } from 'react-native-paper';
 import { useArticleStore } from '../../stores/articleStore';
 import { CategoryGrid } from '../../components/help/CategoryGrid';
@@ -10,6 +10,7 @@ import { SearchInput } from '@/components/ui/SearchInput';
 import { ScreenContainer } from '@/components/layout/ScreenContainer';
 import { useDebounceNavigation } from '@/hooks/useDebounceNavigation';
 import { useTabBarPadding } from '@/hooks/useTabBarPadding';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
 
 export default function HelpScreen() {
     const theme = useTheme();
@@ -17,6 +18,7 @@ export default function HelpScreen() {
     const tabBarPadding = useTabBarPadding();
     const {
         categories,
+        articles,
         popularArticles,
         fetchCategories,
         fetchArticles,
@@ -25,12 +27,22 @@ export default function HelpScreen() {
     } = useArticleStore();
 
     const [searchQuery, setSearchQuery] = useState('');
+    const debouncedQuery = useDebouncedValue(searchQuery.trim());
 
     useEffect(() => {
         fetchCategories();
         fetchPopularArticles();
     }, []);
 
+    // A newer search cancels the previous request; leaving the screen cancels it too
+    useEffect(() => {
+        if (!debouncedQuery) return;
+        const controller = new AbortController();
+        fetchArticles({ search: debouncedQuery }, { signal: controller.signal })
+            .catch((error) => console.error('Error searching articles:', error));
+        return () => controller.abort();
+    }, [debouncedQuery]);
+
     const handleCategoryPress = (category: ArticleCategory) => {
         push(`/help/category/${category.code}`);
     };
@@ -58,11 +70,33 @@ export default function HelpScreen() {
                         placeholder="Buscar en artículos de ayuda..."
                         onChangeText={setSearchQuery}
                         value={searchQuery}
-                        onSubmitEditing={() => fetchArticles({ search: searchQuery })}
                     />
                 </View>
 
-                {isLoading ? (
+                {debouncedQuery ? (
+                    <View style={styles.section}>
+                        <Text style={[styles.sectionTitle, { color: theme.colors.onSurfaceVariant }]}>
+                            RESULTADOS
+                        </Text>
+                        <View style={styles.popularList}>
+                            {isLoading ? (
+                                <ActivityIndicator color={theme.colors.primary} />
+                            ) : articles.length === 0 ? (
+                                <Text style={{ color: theme.colors.onSurfaceVariant }}>
+                                    No se encontraron artículos para "{debouncedQuery}"
+                                </Text>
+                            ) : (
+                                articles.map((article) => (
+                                    <ArticleCard
+                                        key={article.id}
+                                        article={article}
+                                        onPress={() => handleArticlePress(article.id)}
+                                    />
+                                ))
+                            )}
+                        </View>
+                    </View>
+                ) : isLoading ? (
                     <>
                         <View style={styles.section}>
                             <Text style={[styles.sectionTitle, { color: theme.colors.onSurfaceVariant }]}>
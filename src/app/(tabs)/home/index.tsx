@@ -8,6 +8,7 @@ import { TicketCard } from '../../../components/tickets/TicketCard';
 import { useDebounceNavigation } from '@/hooks/useDebounceNavigation';
 import { ScreenContainer } from '@/components/layout/ScreenContainer';
 import { useTabBarPadding } from '@/hooks/useTabBarPadding';
+import { EmailVerificationBanner } from '@/components/auth/EmailVerificationBanner';
 
 export default function HomeScreen() {
     const { push } = useDebounceNavigation();
@@ -141,6 +142,8 @@ export default function HomeScreen() {
                     </TouchableOpacity>
                 </View>
 
+                <EmailVerificationBanner className="mb-6" />
+
                 {/* Quick Actions */}
                 <Text className="text-lg font-bold text-gray-900 mb-4">Acciones Rápidas</Text>
                 <View className="flex-row flex-wrap justify-between">
@@ -9,9 +9,11 @@ import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { TicketConversation } from '@/components/tickets/TicketConversation';
 import { TicketAttachments } from '@/components/tickets/TicketAttachments';
+import { MissingUploadsBanner } from '@/components/tickets/MissingUploadsBanner';
 import { TicketDetailSkeleton } from '@/components/Skeleton';
 import { useDebounceCallback } from '@/hooks/useDebounceCallback';
 import { ScreenContainer } from '@/components/layout/ScreenContainer';
+import { isCanceledError } from '@/services/api/errors';
 
 export default function TicketDetailScreen() {
     const { ticketCode } = useLocalSearchParams();
@@ -23,13 +25,16 @@ export default function TicketDetailScreen() {
         setTabState(newTab);
     }, 200); // 200ms delay to prevent rapid tab switching
 
+    // Leaving the screen cancels the request in flight
     useEffect(() => {
-        if (typeof ticketCode === 'string') {
-            fetchTicket(ticketCode).catch(() => {
-                Alert.alert('Error', 'No se pudo cargar el ticket');
-                router.back();
-            });
-        }
+        if (typeof ticketCode !== 'string') return;
+        const controller = new AbortController();
+        fetchTicket(ticketCode, { signal: controller.signal }).catch((error) => {
+            if (isCanceledError(error)) return;
+            Alert.alert('Error', 'No se pudo cargar el ticket');
+            router.back();
+        });
+        return () => controller.abort();
     }, [ticketCode]);
 
     const handleShare = useDebounceCallback(async () => {
@@ -138,6 +143,8 @@ export default function TicketDetailScreen() {
                 </TouchableOpacity>
             </View>
 
+            <MissingUploadsBanner ticketCode={currentTicket.ticketCode} />
+
             {/* Content */}
             <View className="flex-1">
                 {tab === 'conversation' && (
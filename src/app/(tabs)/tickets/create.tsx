@@ -4,16 +4,30 @@ import { Button, ProgressBar, Card, Avatar, IconButton, TextInput, HelperText, C
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useCompanyStore } from '@/stores/companyStore';
 import { useTicketStore } from '@/stores/ticketStore';
 import { ControlledInput } from '@/components/ui/ControlledInput';
-import * as ImagePicker from 'expo-image-picker';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { CompanyExploreItem } from '@/types/company';
 import { useDebounceCallback } from '@/hooks/useDebounceCallback';
 import { ScreenContainer } from '@/components/layout/ScreenContainer';
 import { CompanyCardSkeleton, SelectionCardSkeleton } from '@/components/Skeleton';
+import { getErrorMessage } from '@/services/api/errors';
+import { applyFieldErrors } from '@/utils/formErrors';
+import { useAuthStore } from '@/stores/authStore';
+import { EmailVerificationGate } from '@/components/auth/EmailVerificationGate';
+import { TicketDraftsSheet } from '@/components/tickets/TicketDraftsSheet';
+import { NamePromptDialog } from '@/components/ui/NamePromptDialog';
+import { MAX_DRAFT_NAME_LENGTH, getDraftLabel, useTicketDraftStore } from '@/stores/ticketDraftStore';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { UploadableFile } from '@/services/api/uploads';
+import { TicketDraft } from '@/types/ticketDraft';
+import { getBatchProgress, getMissingUploads, isBatchActive, useUploadStore } from '@/stores/uploadStore';
+import { UploadProgressList } from '@/components/tickets/UploadProgressList';
+import { AttachmentErrors } from '@/components/tickets/AttachmentErrors';
+import { useAttachmentPicker } from '@/hooks/useAttachmentPicker';
+import { formatFileSize } from '@/services/attachments/prepare';
 
 const createTicketSchema = z.object({
     title: z.string().min(5, 'El título debe tener al menos 5 caracteres'),
@@ -25,17 +39,44 @@ const createTicketSchema = z.object({
 
 type CreateTicketData = z.infer<typeof createTicketSchema>;
 
+const DRAFT_SAVE_DELAY_MS = 800;
+
+// The backend rejects tickets from unverified accounts; say so before the wizard
 export default function CreateTicketScreen() {
+    const isUnverified = useAuthStore((state) => !!state.user && !state.user.emailVerified);
+    if (isUnverified) return <EmailVerificationGate action="crear tickets" />;
+    return <CreateTicketWizard />;
+}
+
+function CreateTicketWizard() {
     const router = useRouter();
     const { companies, fetchCompanies, companiesLoading, setFilter, clearFilters } = useCompanyStore();
-    const { createTicket, isLoading, categories, fetchCategories, creationStatus, checkCompanyAreasEnabled, fetchAreas } = useTicketStore();
+    const { createTicket, isLoading, categories, fetchCategories, creationStatus, creationUploadBatchId, checkCompanyAreasEnabled, fetchAreas } = useTicketStore();
+    const uploadBatch = useUploadStore((state) => (creationUploadBatchId ? state.batches[creationUploadBatchId] : undefined));
+    const retryUploads = useUploadStore((state) => state.retry);
+    const cancelUploads = useUploadStore((state) => state.cancel);
 
     // Steps: 1=Company, 2=Classification (Area/Category), 3=Priority, 4=Details
     const [step, setStep] = useState(1);
     const [subStep, setSubStep] = useState<'area' | 'category'>('category'); // For Step 2
 
     const [selectedCompanyId, setSelectedCompanyId] = useState<string | null>(null);
-    const [attachments, setAttachments] = useState<ImagePicker.ImagePickerAsset[]>([]);
+    const [attachments, setAttachments] = useState<UploadableFile[]>([]);
+    const attachmentPicker = useAttachmentPicker(selectedCompanyId);
+
+    // Drafts: the wizard is saved as the user goes, per account
+    const draftIdRef = useRef<string | null>(null);
+    const accountId = useAuthStore((state) => state.user?.id);
+    const allDrafts = useTicketDraftStore((state) => state.drafts);
+    const draftsHydrated = useTicketDraftStore((state) => state.hasHydrated);
+    const saveDraft = useTicketDraftStore((state) => state.saveDraft);
+    const renameDraft = useTicketDraftStore((state) => state.renameDraft);
+    const deleteDraft = useTicketDraftStore((state) => state.deleteDraft);
+    const accountDrafts = useMemo(() => allDrafts.filter((d) => d.accountId === accountId), [allDrafts, accountId]);
+    const currentDraft = accountDrafts.find((d) => d.id === draftIdRef.current);
+    // Null until the resume prompt was answered (or there was nothing to resume)
+    const [draftMode, setDraftMode] = useState<'prompt' | 'ready' | null>(null);
+    const [isNamingDraft, setIsNamingDraft] = useState(false);
 
     // Area logic
     const [areasEnabled, setAreasEnabled] = useState(false);
@@ -45,14 +86,17 @@ export default function CreateTicketScreen() {
     // Submission State
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [submissionProgress, setSubmissionProgress] = useState(0);
-    const [submissionStatus, setSubmissionStatus] = useState<'idle' | 'processing' | 'success' | 'error'>('idle');
+    // partial: the ticket exists but some attachments did not upload
+    const [submissionStatus, setSubmissionStatus] = useState<'idle' | 'processing' | 'success' | 'partial' | 'queued' | 'error'>('idle');
+    const [createdTicketCode, setCreatedTicketCode] = useState<string | null>(null);
+    const [submissionError, setSubmissionError] = useState<string | null>(null);
 
     // Animation for progress bar
     const progressAnim = useRef(new Animated.Value(0)).current;
     // Animation for button visibility
     const buttonOpacity = useRef(new Animated.Value(0)).current;
 
-    const { control, handleSubmit, formState: { errors, isValid }, setValue, watch, trigger } = useForm<CreateTicketData>({
+    const { control, handleSubmit, formState: { errors, isValid }, setValue, watch, trigger, setError, reset } = useForm<CreateTicketData>({
         resolver: zodResolver(createTicketSchema),
         mode: 'onChange',
     });
@@ -63,6 +107,63 @@ export default function CreateTicketScreen() {
     const watchedTitle = watch('title');
     const watchedDescription = watch('description');
 
+    // Ask once, after the saved drafts were read
+    useEffect(() => {
+        if (!draftsHydrated || draftMode !== null) return;
+        setDraftMode(accountDrafts.length > 0 ? 'prompt' : 'ready');
+    }, [draftsHydrated]);
+
+    // Every draft was deleted from the prompt
+    useEffect(() => {
+        if (draftMode === 'prompt' && accountDrafts.length === 0) setDraftMode('ready');
+    }, [draftMode, accountDrafts.length]);
+
+    const resumeDraft = (draft: TicketDraft) => {
+        draftIdRef.current = draft.id;
+        reset({
+            title: draft.title,
+            description: draft.description,
+            categoryId: draft.categoryId ?? undefined,
+            areaId: draft.areaId,
+            priority: draft.priority ?? undefined,
+        });
+        setSelectedCompanyId(draft.companyId);
+        setAttachments(draft.attachments);
+        setStep(draft.companyId ? draft.step : 1);
+        setDraftMode('ready');
+    };
+
+    const savedCompanyName = currentDraft?.companyName ?? null;
+    const draftValues = useMemo(() => ({
+        companyId: selectedCompanyId,
+        companyName: companies.find((c) => c.id === selectedCompanyId)?.name ?? savedCompanyName,
+        areaId: watchedAreaId ?? null,
+        categoryId: watchedCategoryId ?? null,
+        priority: watchedPriority ?? null,
+        title: watchedTitle ?? '',
+        description: watchedDescription ?? '',
+        attachments,
+        step,
+    }), [selectedCompanyId, companies, savedCompanyName, watchedAreaId, watchedCategoryId, watchedPriority, watchedTitle, watchedDescription, attachments, step]);
+    const debouncedDraftValues = useDebouncedValue(draftValues, DRAFT_SAVE_DELAY_MS);
+
+    // Auto-save once something was entered; a sent ticket has no draft left to save
+    const saveLatestDraft = useRef<(values: typeof draftValues) => void>(() => {});
+    saveLatestDraft.current = (values) => {
+        if (draftMode !== 'ready' || isSubmitting || !accountId) return;
+        if (!values.companyId && !values.title.trim() && !values.description.trim()) return;
+        draftIdRef.current = saveDraft(accountId, draftIdRef.current, values);
+    };
+    const latestDraftValues = useRef(draftValues);
+    latestDraftValues.current = draftValues;
+
+    useEffect(() => {
+        saveLatestDraft.current(debouncedDraftValues);
+    }, [debouncedDraftValues, draftMode]);
+
+    // Backing out right after typing must not lose the last keystrokes
+    useEffect(() => () => saveLatestDraft.current(latestDraftValues.current), []);
+
     useEffect(() => {
         setFilter('followedByMe', true);
         fetchCompanies();
@@ -156,14 +257,8 @@ export default function CreateTicketScreen() {
     };
 
     const pickImage = async () => {
-        const result = await ImagePicker.launchImageLibraryAsync({
-            mediaTypes: ImagePicker.MediaTypeOptions.Images,
-            allowsMultipleSelection: true,
-            quality: 0.8,
-        });
-        if (!result.canceled) {
-            setAttachments([...attachments, ...result.assets]);
-        }
+        const picked = await attachmentPicker.pick();
+        if (picked.length > 0) setAttachments((current) => [...current, ...picked]);
     };
 
     const removeAttachment = (index: number) => {
@@ -180,24 +275,46 @@ export default function CreateTicketScreen() {
         setSubmissionProgress(0);
 
         try {
-            await createTicket({
+            const companyName = companies.find((c) => c.id === selectedCompanyId)?.name ?? null;
+            const ticket = await createTicket({
                 title: data.title,
                 description: data.description,
                 category_id: data.categoryId,
                 area_id: data.areaId || undefined,
                 priority: data.priority,
                 company_id: selectedCompanyId
-            }, attachments);
+            }, attachments, companyName);
+
+            // Sent or queued in the outbox: either way the draft is done. Its files stay
+            // until the uploads reading them settle, so "Reintentar" still finds them.
+            if (draftIdRef.current) deleteDraft(draftIdRef.current);
+            draftIdRef.current = null;
+
+            const batchId = useTicketStore.getState().creationUploadBatchId;
+            const batch = batchId ? useUploadStore.getState().batches[batchId] : undefined;
+            if (ticket && batch && getMissingUploads(batch).length > 0) {
+                setCreatedTicketCode(ticket.ticketCode);
+                setSubmissionStatus('partial');
+                return;
+            }
 
             setSubmissionProgress(100);
             await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1s at 100%
 
-            setSubmissionStatus('success');
+            // null means no connection: the ticket waits in the outbox
+            setSubmissionStatus(ticket ? 'success' : 'queued');
             setTimeout(() => {
                 router.replace('/(tabs)/tickets');
             }, 1500);
         } catch (error) {
             console.error(error);
+            // Rejected details are shown under their inputs on this step
+            if (applyFieldErrors(error, setError, ['title', 'description'])) {
+                setIsSubmitting(false);
+                setSubmissionStatus('idle');
+                return;
+            }
+            setSubmissionError(getErrorMessage(error, 'No pudimos crear tu ticket. Por favor intenta de nuevo.'));
             setSubmissionStatus('error');
             setTimeout(() => {
                 setIsSubmitting(false);
@@ -206,22 +323,26 @@ export default function CreateTicketScreen() {
         }
     };
 
-    // Update progress based on status text
+    // Update progress: creating the ticket, then the bytes sent of its attachments
     useEffect(() => {
         if (isSubmitting && submissionStatus === 'processing') {
-            if (creationStatus.includes('Creando ticket')) setSubmissionProgress(30);
-            else if (creationStatus.includes('Subiendo')) {
-                const match = creationStatus.match(/(\d+) de (\d+)/);
-                if (match) {
-                    const [_, current, total] = match;
-                    const pct = 30 + (parseInt(current) / parseInt(total)) * 60;
-                    setSubmissionProgress(pct);
-                } else {
-                    setSubmissionProgress(50);
-                }
-            }
+            if (uploadBatch) setSubmissionProgress(30 + getBatchProgress(uploadBatch) * 60);
+            else if (creationStatus.includes('Creando ticket')) setSubmissionProgress(30);
         }
-    }, [creationStatus, submissionStatus, isSubmitting]);
+    }, [creationStatus, uploadBatch, submissionStatus, isSubmitting]);
+
+    const openCreatedTicket = () => {
+        if (createdTicketCode) router.replace(`/(tabs)/tickets/${createdTicketCode}`);
+    };
+
+    const retryMissingUploads = async () => {
+        if (!creationUploadBatchId) return;
+        const { missing } = await retryUploads(creationUploadBatchId);
+        if (missing.length === 0) {
+            setSubmissionStatus('success');
+            setTimeout(openCreatedTicket, 1500);
+        }
+    };
 
 
     const renderStep1 = () => (
@@ -468,7 +589,11 @@ export default function CreateTicketScreen() {
                 className="mb-6"
             />
 
-            <Text className="text-gray-800 font-bold mb-3 text-base">Adjuntos (Opcional)</Text>
+            <Text className="text-gray-800 font-bold mb-1 text-base">Adjuntos (Opcional)</Text>
+            <Text className="text-gray-500 text-xs mb-3">
+                Hasta {formatFileSize(attachmentPicker.limits.maxFileSizeBytes)} por archivo. Las fotos se reducen y se les quita la ubicación.
+            </Text>
+            <AttachmentErrors errors={attachmentPicker.errors} onDismiss={attachmentPicker.clearErrors} />
             <View className="flex-row flex-wrap gap-3 mb-8">
                 {attachments.map((file, index) => (
                     <View key={index} className="relative w-24 h-24 rounded-xl overflow-hidden border border-gray-200 shadow-sm">
@@ -484,10 +609,20 @@ export default function CreateTicketScreen() {
 
                 <TouchableOpacity
                     onPress={pickImage}
+                    disabled={attachmentPicker.isPreparing}
                     className="w-24 h-24 rounded-xl border-2 border-dashed border-gray-300 items-center justify-center bg-gray-50 active:bg-gray-100"
                 >
-                    <MaterialCommunityIcons name="camera-plus" size={28} color="#9ca3af" />
-                    <Text className="text-xs text-gray-400 mt-1 font-medium">Añadir</Text>
+                    {attachmentPicker.isPreparing ? (
+                        <>
+                            <ActivityIndicator size="small" color="#9ca3af" />
+                            <Text className="text-xs text-gray-400 mt-2 font-medium">Procesando</Text>
+                        </>
+                    ) : (
+                        <>
+                            <MaterialCommunityIcons name="camera-plus" size={28} color="#9ca3af" />
+                            <Text className="text-xs text-gray-400 mt-1 font-medium">Añadir</Text>
+                        </>
+                    )}
                 </TouchableOpacity>
             </View>
         </ScrollView>
@@ -496,21 +631,6 @@ export default function CreateTicketScreen() {
     const SubmissionOverlay = () => {
         if (!isSubmitting) return null;
 
-        useEffect(() => {
-            if (submissionStatus === 'processing') {
-                if (creationStatus.includes('Creando ticket')) setSubmissionProgress(30);
-                else if (creationStatus.includes('Subiendo')) {
-                    const match = creationStatus.match(/(\d+) de (\d+)/);
-                    if (match) {
-                        const [_, current, total] = match;
-                        const pct = 30 + (parseInt(current) / parseInt(total)) * 60;
-                        setSubmissionProgress(pct);
-                    } else {
-                        setSubmissionProgress(50);
-                    }
-                }
-            }
-        }, [creationStatus, submissionStatus]);
 
         return (
             <View className="absolute inset-0 bg-white/95 z-50 items-center justify-center px-8">
@@ -522,13 +642,48 @@ export default function CreateTicketScreen() {
                         <Text className="text-2xl font-bold text-gray-900 text-center mb-2">¡Ticket Creado!</Text>
                         <Text className="text-gray-500 text-center">Tu solicitud ha sido registrada correctamente.</Text>
                     </View>
+                ) : submissionStatus === 'partial' && uploadBatch ? (
+                    <View className="w-full">
+                        <View className="items-center">
+                            <View className="bg-amber-100 p-6 rounded-full mb-6">
+                                <MaterialCommunityIcons name="paperclip-off" size={48} color="#92400e" />
+                            </View>
+                            <Text className="text-2xl font-bold text-gray-900 text-center mb-2">Ticket creado</Text>
+                            <Text className="text-gray-500 text-center mb-4">
+                                Algunos adjuntos no se subieron. Puedes reintentarlos ahora o más tarde desde el ticket.
+                            </Text>
+                        </View>
+                        <UploadProgressList batch={uploadBatch} onlyMissing={!isBatchActive(uploadBatch)} />
+                        <View className="flex-row gap-3 mt-6">
+                            <Button mode="outlined" onPress={openCreatedTicket} className="flex-1">
+                                Continuar
+                            </Button>
+                            <Button
+                                mode="contained"
+                                onPress={retryMissingUploads}
+                                loading={isBatchActive(uploadBatch)}
+                                disabled={isBatchActive(uploadBatch)}
+                                className="flex-1"
+                            >
+                                Reintentar
+                            </Button>
+                        </View>
+                    </View>
+                ) : submissionStatus === 'queued' ? (
+                    <View className="items-center">
+                        <View className="bg-amber-100 p-6 rounded-full mb-6">
+                            <MaterialCommunityIcons name="cloud-off-outline" size={48} color="#92400e" />
+                        </View>
+                        <Text className="text-2xl font-bold text-gray-900 text-center mb-2">Guardado sin conexión</Text>
+                        <Text className="text-gray-500 text-center">Tu ticket se enviará automáticamente cuando recuperes la conexión.</Text>
+                    </View>
                 ) : submissionStatus === 'error' ? (
                     <View className="items-center">
                         <View className="bg-red-100 p-6 rounded-full mb-6">
                             <MaterialCommunityIcons name="alert" size={48} color="#991b1b" />
                         </View>
                         <Text className="text-2xl font-bold text-gray-900 text-center mb-2">Algo salió mal</Text>
-                        <Text className="text-gray-500 text-center">No pudimos crear tu ticket. Por favor intenta de nuevo.</Text>
+                        <Text className="text-gray-500 text-center">{submissionError}</Text>
                     </View>
                 ) : (
                     <View className="items-center w-full">
@@ -551,6 +706,11 @@ export default function CreateTicketScreen() {
                             />
                         </View>
                         <Text className="text-xs text-gray-400 mt-2">{Math.round(submissionProgress)}%</Text>
+                        {uploadBatch && isBatchActive(uploadBatch) && (
+                            <TouchableOpacity onPress={() => cancelUploads(uploadBatch.id)} className="mt-6">
+                                <Text className="text-gray-500 font-bold">Cancelar subida de adjuntos</Text>
+                            </TouchableOpacity>
+                        )}
                     </View>
                 )}
             </View>
@@ -587,7 +747,14 @@ export default function CreateTicketScreen() {
                         );
                     })}
                 </View>
-                <View className="w-8" />
+                <TouchableOpacity
+                    onPress={() => setIsNamingDraft(true)}
+                    disabled={!currentDraft}
+                    className="p-2 -mr-2 rounded-full active:bg-gray-100"
+                    style={{ opacity: currentDraft ? 1 : 0 }}
+                >
+                    <MaterialCommunityIcons name={currentDraft?.name ? 'bookmark' : 'bookmark-outline'} size={22} color="#1f2937" />
+                </TouchableOpacity>
             </View>
 
             <View className="flex-1">
@@ -606,7 +773,8 @@ export default function CreateTicketScreen() {
                         mode="contained"
                         onPress={step === 4 ? handleSubmit(onSubmit) : handleNext}
                         loading={isLoading}
-                        disabled={isLoading}
+                        // Files still being processed would be left out of the ticket
+                        disabled={isLoading || attachmentPicker.isPreparing}
                         className="rounded-full shadow-lg"
                         contentStyle={{ height: 50 }}
                         labelStyle={{ fontSize: 16, fontWeight: 'bold' }}
@@ -615,6 +783,23 @@ export default function CreateTicketScreen() {
                     </Button>
                 </Animated.View>
             )}
+
+            <TicketDraftsSheet
+                visible={draftMode === 'prompt' && accountDrafts.length > 0}
+                drafts={accountDrafts}
+                onResume={resumeDraft}
+                onStartNew={() => setDraftMode('ready')}
+            />
+
+            <NamePromptDialog
+                visible={isNamingDraft}
+                title="Guardar borrador"
+                description="Ponle un nombre para encontrarlo después."
+                initialValue={currentDraft ? getDraftLabel(currentDraft) : ''}
+                maxLength={MAX_DRAFT_NAME_LENGTH}
+                onSubmit={(name) => currentDraft && renameDraft(currentDraft.id, name)}
+                onClose={() => setIsNamingDraft(false)}
+            />
         </ScreenContainer>
     );
 }
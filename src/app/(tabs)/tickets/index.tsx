@@ -1,17 +1,26 @@
-import { View, FlatList, Text, RefreshControl, TouchableOpacity, Animated, ScrollView } from 'react-native';
+import { View, FlatList, Text, RefreshControl, TouchableOpacity, Animated, ScrollView, ActivityIndicator } from 'react-native';
 import { FAB } from 'react-native-paper';
 import { useTicketStore } from '@/stores/ticketStore';
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useState, useRef, useMemo } from 'react';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { TicketCard } from '@/components/tickets/TicketCard';
-import { debounce } from 'lodash';
+import { OutboxItemCard } from '@/components/tickets/OutboxItemCard';
+import { useOutboxStore } from '@/stores/outboxStore';
+import { OutboxTicketItem } from '@/types/outbox';
 import { ScreenContainer } from '@/components/layout/ScreenContainer';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useAuthStore } from '@/stores/authStore';
 import { TicketCardSkeleton } from '@/components/Skeleton';
 import { SearchInput } from '@/components/ui/SearchInput';
+import { FilterButton } from '@/components/ui/FilterButton';
+import { TicketFilterSheet } from '@/components/tickets/TicketFilterSheet';
+import { TicketFilterPresets } from '@/components/tickets/TicketFilterPresets';
+import { TicketFilterValues, countSheetFilters, hasClientFilters, parseTicketFilters, toTicketFilterParams } from '@/utils/ticketFilters';
+import { EmailVerificationBanner } from '@/components/auth/EmailVerificationBanner';
 import { useDebounceNavigation } from '@/hooks/useDebounceNavigation';
 import { useTabBarPadding } from '@/hooks/useTabBarPadding';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { useHintsStore, useShouldShowHint } from '@/stores/hintsStore';
 
 const STATUS_FILTERS = [
     { id: 'all', label: 'Todos' },
@@ -23,24 +32,38 @@ const STATUS_FILTERS = [
 
 export default function MyTicketsScreen() {
     const { push } = useDebounceNavigation();
-    const { tickets, fetchTickets, isLoading } = useTicketStore();
+    const router = useRouter();
+    // Filters live in the route params (?status=open&priority=high...)
+    const params = useLocalSearchParams();
+    const filters = useMemo(() => parseTicketFilters(params), [params]);
+    const filtersKey = JSON.stringify(filters);
+    const sheetFilterCount = countSheetFilters(filters);
+    const { tickets, fetchTickets, fetchMoreTickets, isLoading, isLoadingMore, pagination, stats, fetchTicketStats } = useTicketStore();
     const user = useAuthStore((state) => state.user);
     const tabBarPadding = useTabBarPadding();
+    const outboxItems = useOutboxStore((state) => state.items);
+    const pendingTickets = useMemo(
+        () => outboxItems.filter((item): item is OutboxTicketItem => item.kind === 'ticket'),
+        [outboxItems]
+    );
 
     const [searchQuery, setSearchQuery] = useState('');
-    const [statusFilter, setStatusFilter] = useState<string>('all');
+    const debouncedQuery = useDebouncedValue(searchQuery);
     const [refreshing, setRefreshing] = useState(false);
+    const [showFilterSheet, setShowFilterSheet] = useState(false);
+
+    const applyFilters = (next: TicketFilterValues) => router.setParams(toTicketFilterParams(next));
 
     // Hint State
+    const shouldShowCreateHint = useShouldShowHint('create-ticket');
+    const markHintSeen = useHintsStore((state) => state.markSeen);
     const [showHint, setShowHint] = useState(false);
     const fadeAnim = useRef(new Animated.Value(0)).current;
 
-    const loadData = async () => {
+    // A newer search or filter cancels the previous request in the store
+    const loadData = async (force = false, signal?: AbortSignal) => {
         try {
-            await fetchTickets({
-                search: searchQuery,
-                status: statusFilter === 'all' ? undefined : statusFilter as any
-            });
+            await fetchTickets({ ...filters, search: debouncedQuery }, { force, signal });
         } catch (error) {
             console.error(error);
         } finally {
@@ -48,69 +71,65 @@ export default function MyTicketsScreen() {
         }
     };
 
-    // Check for hint
+    // Show the hint once
     useEffect(() => {
-        const checkHint = async () => {
-            try {
-                const hasSeen = await AsyncStorage.getItem('hasSeenCreateTicketHint');
-                if (!hasSeen) {
-                    setShowHint(true);
-                    Animated.timing(fadeAnim, {
-                        toValue: 1,
-                        duration: 500,
-                        useNativeDriver: true,
-                    }).start();
+        if (!shouldShowCreateHint) return;
 
-                    // Mark as seen immediately so it doesn't show again next time
-                    await AsyncStorage.setItem('hasSeenCreateTicketHint', 'true');
+        setShowHint(true);
+        Animated.timing(fadeAnim, {
+            toValue: 1,
+            duration: 500,
+            useNativeDriver: true,
+        }).start();
 
-                    // Auto hide after 8 seconds
-                    setTimeout(() => {
-                        Animated.timing(fadeAnim, {
-                            toValue: 0,
-                            duration: 500,
-                            useNativeDriver: true,
-                        }).start(() => setShowHint(false));
-                    }, 8000);
-                }
-            } catch (error) {
-                console.error('Error checking hint status:', error);
-            }
-        };
+        // Mark as seen immediately so it doesn't show again next time
+        markHintSeen('create-ticket');
 
-        checkHint();
-    }, []);
-
-    // Debounced search
-    const debouncedSearch = useCallback(
-        debounce((query) => {
-            fetchTickets({
-                search: query,
-                status: statusFilter === 'all' ? undefined : statusFilter as any
-            });
-        }, 500),
-        [statusFilter]
-    );
+        // Auto hide after 8 seconds
+        setTimeout(() => {
+            Animated.timing(fadeAnim, {
+                toValue: 0,
+                duration: 500,
+                useNativeDriver: true,
+            }).start(() => setShowHint(false));
+        }, 8000);
+    }, [shouldShowCreateHint]);
 
+    // Leaving the screen cancels the request in flight
     useEffect(() => {
-        loadData();
-    }, [statusFilter]);
+        const controller = new AbortController();
+        loadData(false, controller.signal);
+        return () => controller.abort();
+    }, [filtersKey, debouncedQuery]);
 
-    const onChangeSearch = (query: string) => {
-        setSearchQuery(query);
-        debouncedSearch(query);
+    const loadStats = async (force = false) => {
+        try {
+            await fetchTicketStats({ force });
+        } catch (error) {
+            console.error(error);
+        }
     };
 
+    useEffect(() => {
+        loadStats();
+    }, []);
+
+    // Starts over from page 1
     const onRefresh = () => {
         setRefreshing(true);
-        loadData();
+        loadData(true);
+        loadStats(true);
     };
 
-    // Stats calculation
-    const stats = {
-        total: tickets.length,
-        open: tickets.filter(t => ['open', 'pending'].includes(t.status)).length,
-        resolved: tickets.filter(t => ['resolved', 'closed'].includes(t.status)).length,
+    // Filters applied on the device have only seen the pages loaded so far
+    const isPartialList = hasClientFilters(filters) && pagination.currentPage < pagination.lastPage;
+
+    const onEndReached = async () => {
+        try {
+            await fetchMoreTickets();
+        } catch (error) {
+            console.error(error);
+        }
     };
 
     return (
@@ -129,7 +148,7 @@ export default function MyTicketsScreen() {
                             <MaterialCommunityIcons name="ticket-outline" size={18} color="#2563eb" />
                         </View>
                         <View>
-                            <Text className="text-lg font-bold text-gray-900 leading-5">{stats.total}</Text>
+                            <Text className="text-lg font-bold text-gray-900 leading-5">{stats?.total ?? '–'}</Text>
                             <Text className="text-[10px] text-gray-500 font-bold uppercase">Total</Text>
                         </View>
                     </View>
@@ -138,7 +157,7 @@ export default function MyTicketsScreen() {
                             <MaterialCommunityIcons name="progress-clock" size={18} color="#059669" />
                         </View>
                         <View>
-                            <Text className="text-lg font-bold text-gray-900 leading-5">{stats.open}</Text>
+                            <Text className="text-lg font-bold text-gray-900 leading-5">{stats?.active ?? '–'}</Text>
                             <Text className="text-[10px] text-gray-500 font-bold uppercase">Activos</Text>
                         </View>
                     </View>
@@ -147,31 +166,45 @@ export default function MyTicketsScreen() {
                             <MaterialCommunityIcons name="check-circle-outline" size={18} color="#7c3aed" />
                         </View>
                         <View>
-                            <Text className="text-lg font-bold text-gray-900 leading-5">{stats.resolved}</Text>
+                            <Text className="text-lg font-bold text-gray-900 leading-5">{stats?.resolved ?? '–'}</Text>
                             <Text className="text-[10px] text-gray-500 font-bold uppercase">Listos</Text>
                         </View>
                     </View>
                 </View>
 
+                <EmailVerificationBanner className="mx-4 mb-4" />
+
                 {/* Search Input */}
                 <View className="px-4 mb-6">
                     <SearchInput
                         placeholder="Buscar tickets..."
-                        onChangeText={onChangeSearch}
+                        onChangeText={setSearchQuery}
                         value={searchQuery}
                     />
                 </View>
 
                 {/* Dynamic Colored Filters - Carousel Style */}
-                <View className="mb-2">
+                <View className="mb-2 flex-row items-center">
+                    <View className="ml-4">
+                        <FilterButton
+                            onPress={() => setShowFilterSheet(true)}
+                            iconColor={sheetFilterCount > 0 ? '#2563eb' : undefined}
+                            className={sheetFilterCount > 0 ? 'border-blue-500' : ''}
+                        />
+                        {sheetFilterCount > 0 && (
+                            <View className="absolute -top-1.5 -right-1.5 bg-blue-600 rounded-full min-w-[18px] h-[18px] px-1 items-center justify-center">
+                                <Text className="text-white text-[10px] font-bold">{sheetFilterCount}</Text>
+                            </View>
+                        )}
+                    </View>
                     <FlatList
                         horizontal
                         showsHorizontalScrollIndicator={false}
                         data={STATUS_FILTERS}
                         keyExtractor={(item) => item.id}
-                        contentContainerStyle={{ paddingHorizontal: 16 }}
+                        contentContainerStyle={{ paddingHorizontal: 12 }}
                         renderItem={({ item }) => {
-                            const isActive = statusFilter === item.id;
+                            const isActive = (filters.status ?? 'all') === item.id;
 
                             // Define active colors based on filter id
                             let activeBorder = 'border-gray-900';
@@ -201,7 +234,10 @@ export default function MyTicketsScreen() {
 
                             return (
                                 <TouchableOpacity
-                                    onPress={() => setStatusFilter(item.id)}
+                                    onPress={() => applyFilters({
+                                        ...filters,
+                                        status: item.id === 'all' ? undefined : item.id as TicketFilterValues['status'],
+                                    })}
                                     className={`mr-2 px-4 h-10 rounded-lg justify-center items-center border shadow-sm ${isActive
                                             ? `${activeBorder} bg-white`
                                             : 'border-gray-300 bg-white'
@@ -221,6 +257,8 @@ export default function MyTicketsScreen() {
                         }}
                     />
                 </View>
+
+                <TicketFilterPresets filters={filters} onSelect={applyFilters} />
             </View>
 
             {isLoading && !refreshing ? (
@@ -236,7 +274,53 @@ export default function MyTicketsScreen() {
                     keyExtractor={(item) => item.id}
                     contentContainerStyle={{ padding: 16, ...tabBarPadding }}
                     refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
-                    ListEmptyComponent={() => (
+                    onEndReached={onEndReached}
+                    onEndReachedThreshold={0.5}
+                    ListFooterComponent={isLoadingMore ? (
+                        <View className="py-4">
+                            <ActivityIndicator size="small" color="#2563eb" />
+                        </View>
+                    ) : isPartialList ? (
+                        <View className="items-center py-4">
+                            <Text className="text-center text-gray-400 text-xs">
+                                Mostrando coincidencias de los primeros {pagination.scanned} tickets
+                            </Text>
+                            <TouchableOpacity onPress={onEndReached} className="mt-2 px-4 py-2">
+                                <Text className="text-blue-600 font-bold text-sm">Buscar en más tickets</Text>
+                            </TouchableOpacity>
+                        </View>
+                    ) : tickets.length > 0 && pagination.currentPage >= pagination.lastPage && pagination.lastPage > 1 ? (
+                        <Text className="text-center text-gray-400 text-xs py-4">
+                            {/* The server total ignores the filters applied on the device */}
+                            {hasClientFilters(filters) ? tickets.length : pagination.total} tickets
+                        </Text>
+                    ) : null}
+                    ListHeaderComponent={pendingTickets.length > 0 ? (
+                        <View>
+                            {pendingTickets.map((item) => (
+                                <OutboxItemCard key={item.id} item={item} />
+                            ))}
+                        </View>
+                    ) : null}
+                    ListEmptyComponent={pendingTickets.length > 0 ? null : (Object.keys(filters).length > 0 || debouncedQuery) ? (
+                        <View className="items-center justify-center mt-20 px-6">
+                            <MaterialCommunityIcons name="filter-off-outline" size={64} color="#d1d5db" />
+                            <Text className="text-gray-500 text-lg mt-4 font-bold">Sin resultados</Text>
+                            <Text className="text-gray-400 text-center mt-2">
+                                {isPartialList
+                                    ? 'Ninguno de los tickets revisados coincide con los filtros aplicados.'
+                                    : 'Ningún ticket coincide con los filtros aplicados.'}
+                            </Text>
+                            <TouchableOpacity
+                                onPress={() => {
+                                    setSearchQuery('');
+                                    applyFilters({});
+                                }}
+                                className="mt-6 bg-blue-50 px-6 py-3 rounded-full">
+                                <Text className="text-blue-600 font-bold">Quitar filtros</Text>
+                            </TouchableOpacity>
+                        </View>
+                    ) : () => (
                         <View className="items-center justify-center mt-20 px-6">
                             <MaterialCommunityIcons name="ticket-outline" size={64} color="#d1d5db" />
                             <Text className="text-gray-500 text-lg mt-4 font-bold">No tienes tickets</Text>
@@ -265,6 +349,13 @@ export default function MyTicketsScreen() {
                 </Animated.View>
             )}
 
+            <TicketFilterSheet
+                visible={showFilterSheet}
+                filters={filters}
+                onApply={applyFilters}
+                onClose={() => setShowFilterSheet(false)}
+            />
+
             <FAB
                 icon="plus"
                 style={{
@@ -10,6 +10,9 @@ import { theme } from '../constants/theme';
 import { initGlobalErrorHandler } from '../utils/errorHandler';
 
 import { ErrorBoundary } from '../components/ErrorBoundary';
+import { ReauthSheet } from '../components/auth/ReauthSheet';
+import { AppLockGate } from '../components/security/AppLockGate';
+import { InactivityGuard } from '../components/security/InactivityGuard';
 
 // Initialize global error handler
 initGlobalErrorHandler();
@@ -20,7 +23,11 @@ export default function RootLayout() {
             <PaperProvider theme={theme}>
                 <StatusBar style="auto" />
                 <ErrorBoundary>
-                    <Slot />
+                    <InactivityGuard>
+                        <Slot />
+                        <AppLockGate />
+                    </InactivityGuard>
+                    <ReauthSheet />
                 </ErrorBoundary>
             </PaperProvider>
         </SafeAreaProvider>
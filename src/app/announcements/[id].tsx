@@ -9,6 +9,7 @@ import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import Markdown from 'react-native-markdown-display';
 import { AnnouncementDetailSkeleton } from '../../components/Skeleton';
+import { isCanceledError } from '../../services/api/errors';
 
 export default function AnnouncementDetailScreen() {
     const { id } = useLocalSearchParams();
@@ -17,16 +18,19 @@ export default function AnnouncementDetailScreen() {
     const { getAnnouncementById, currentAnnouncement, isLoading } = useAnnouncementStore();
     const [error, setError] = useState<string | null>(null);
 
+    // Leaving the screen cancels the request in flight
     useEffect(() => {
-        if (id && typeof id === 'string') {
-            loadAnnouncement(id);
-        }
+        if (!id || typeof id !== 'string') return;
+        const controller = new AbortController();
+        loadAnnouncement(id, controller.signal);
+        return () => controller.abort();
     }, [id]);
 
-    const loadAnnouncement = async (announcementId: string) => {
+    const loadAnnouncement = async (announcementId: string, signal?: AbortSignal) => {
         try {
-            await getAnnouncementById(announcementId);
+            await getAnnouncementById(announcementId, { signal });
         } catch (err) {
+            if (isCanceledError(err)) return;
             setError('No se pudo cargar el anuncio');
         }
     };
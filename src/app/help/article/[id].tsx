@@ -8,6 +8,7 @@ import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import Markdown from 'react-native-markdown-display';
+import { isCanceledError } from '../../../services/api/errors';
 
 export default function ArticleDetailScreen() {
     const { id } = useLocalSearchParams();
@@ -16,16 +17,19 @@ export default function ArticleDetailScreen() {
     const { getArticleById, currentArticle, isLoading } = useArticleStore();
     const [error, setError] = useState<string | null>(null);
 
+    // Leaving the screen cancels the request in flight
     useEffect(() => {
-        if (id && typeof id === 'string') {
-            loadArticle(id);
-        }
+        if (!id || typeof id !== 'string') return;
+        const controller = new AbortController();
+        loadArticle(id, controller.signal);
+        return () => controller.abort();
     }, [id]);
 
-    const loadArticle = async (articleId: string) => {
+    const loadArticle = async (articleId: string, signal?: AbortSignal) => {
         try {
-            await getArticleById(articleId);
+            await getArticleById(articleId, { signal });
         } catch (err) {
+            if (isCanceledError(err)) return;
             setError('No se pudo cargar el artículo');
         }
     };
@@ -7,6 +7,7 @@ import { useArticleStore } from '../../../stores/articleStore';
 import { ArticleCard } from '../../../components/help/ArticleCard';
 import { ArticleCategoryCode } from '../../../types/article';
 import { useDebounceNavigation } from '@/hooks/useDebounceNavigation';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
 
 export default function ArticlesByCategoryScreen() {
     const { code } = useLocalSearchParams();
@@ -18,17 +19,21 @@ export default function ArticlesByCategoryScreen() {
 
     const categoryName = categories.find(c => c.code === code)?.name || 'Artículos';
 
+    const debouncedQuery = useDebouncedValue(searchQuery);
+
+    // A newer search cancels the previous request; leaving the screen cancels it too
     useEffect(() => {
-        if (code) {
-            loadArticles();
-        }
-    }, [code, searchQuery]);
+        if (!code) return;
+        const controller = new AbortController();
+        loadArticles(controller.signal);
+        return () => controller.abort();
+    }, [code, debouncedQuery]);
 
-    const loadArticles = () => {
+    const loadArticles = (signal?: AbortSignal) => {
         fetchArticles({
             category: code as ArticleCategoryCode,
-            search: searchQuery,
-        });
+            search: debouncedQuery,
+        }, { signal }).catch((error) => console.error('Error fetching articles:', error));
     };
 
     const handlePress = (id: string) => {
@@ -0,0 +1,291 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, FlatList, Alert, ActivityIndicator, Image } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Animated, { FadeInRight } from 'react-native-reanimated';
+import { StatusBar } from 'expo-status-bar';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Notifications from 'expo-notifications';
+import clsx from 'clsx';
+import { useAuthStore } from '../stores/authStore';
+import { useCompanyStore } from '../stores/companyStore';
+import { useUserStore } from '../stores/userStore';
+import { getErrorMessage } from '../services/api/errors';
+import { CompanyExploreItem } from '../types/company';
+import { User } from '../types/user';
+
+type Step = 'companies' | 'preferences' | 'notifications';
+
+const STEPS: Step[] = ['companies', 'preferences', 'notifications'];
+
+const THEMES: { value: User['theme']; label: string; icon: 'white-balance-sunny' | 'weather-night' }[] = [
+    { value: 'light', label: 'Claro', icon: 'white-balance-sunny' },
+    { value: 'dark', label: 'Oscuro', icon: 'weather-night' },
+];
+
+const LANGUAGES: { value: User['language']; label: string }[] = [
+    { value: 'es', label: 'Español' },
+    { value: 'en', label: 'English' },
+];
+
+function CompanyRow({ company }: { company: CompanyExploreItem }) {
+    const followCompany = useCompanyStore((state) => state.followCompany);
+    const unfollowCompany = useCompanyStore((state) => state.unfollowCompany);
+
+    const toggle = async () => {
+        try {
+            await (company.isFollowedByMe ? unfollowCompany(company.id) : followCompany(company.id));
+        } catch (error) {
+            Alert.alert('Error', getErrorMessage(error, 'No se pudo actualizar la empresa'));
+        }
+    };
+
+    return (
+        <TouchableOpacity
+            onPress={toggle}
+            className={clsx(
+                'flex-row items-center p-3 rounded-xl mb-2 border',
+                company.isFollowedByMe ? 'border-blue-500 bg-blue-50' : 'border-gray-100 bg-white'
+            )}
+        >
+            {company.logoUrl ? (
+                <Image source={{ uri: company.logoUrl }} className="w-11 h-11 rounded-lg" />
+            ) : (
+                <View className="w-11 h-11 rounded-lg items-center justify-center" style={{ backgroundColor: company.primaryColor || '#2563eb' }}>
+                    <Text className="text-white font-bold">{company.name.charAt(0)}</Text>
+                </View>
+            )}
+            <View className="flex-1 ml-3">
+                <Text className="text-gray-900 font-semibold" numberOfLines={1}>{company.name}</Text>
+                <Text className="text-gray-500 text-xs" numberOfLines={1}>{company.industry?.name}</Text>
+            </View>
+            <MaterialCommunityIcons
+                name={company.isFollowedByMe ? 'check-circle' : 'plus-circle-outline'}
+                size={26}
+                color={company.isFollowedByMe ? '#2563eb' : '#9ca3af'}
+            />
+        </TouchableOpacity>
+    );
+}
+
+/**
+ * First-run onboarding: follow companies, pick language and theme, allow
+ * notifications. Finishing or skipping records completion on the backend,
+ * which is what keeps the (tabs) layout from sending the user back here.
+ */
+export default function OnboardingScreen() {
+    const router = useRouter();
+    const user = useAuthStore((state) => state.user);
+    const completeOnboarding = useAuthStore((state) => state.completeOnboarding);
+    const updatePreferences = useUserStore((state) => state.updatePreferences);
+    const companies = useCompanyStore((state) => state.companies);
+    const companiesLoading = useCompanyStore((state) => state.companiesLoading);
+    const fetchCompanies = useCompanyStore((state) => state.fetchCompanies);
+    const clearFilters = useCompanyStore((state) => state.clearFilters);
+
+    const [step, setStep] = useState<Step>('companies');
+    const [theme, setTheme] = useState<User['theme']>(user?.theme ?? 'light');
+    const [language, setLanguage] = useState<User['language']>(user?.language ?? 'es');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        clearFilters();
+        fetchCompanies();
+    }, []);
+
+    const followedCount = companies.filter((company) => company.isFollowedByMe).length;
+    const stepIndex = STEPS.indexOf(step);
+
+    const finish = async () => {
+        setIsSaving(true);
+        try {
+            await completeOnboarding();
+            router.replace('/(tabs)/home');
+        } catch (error) {
+            Alert.alert('Error', getErrorMessage(error, 'No se pudo guardar tu progreso'), [
+                { text: 'Cancelar', style: 'cancel' },
+                { text: 'Reintentar', onPress: finish },
+            ]);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const savePreferences = async () => {
+        if (theme === user?.theme && language === user?.language) return;
+        try {
+            await updatePreferences({ theme, language });
+        } catch (error) {
+            // Not blocking: they can be changed later in Preferencias
+            console.error('Failed to save onboarding preferences', error);
+        }
+    };
+
+    const enableNotifications = async () => {
+        setIsSaving(true);
+        try {
+            const { granted } = await Notifications.requestPermissionsAsync();
+            if (granted) {
+                await updatePreferences({ notificationsTickets: true, pushWebNotifications: true });
+            } else {
+                Alert.alert('Notificaciones desactivadas', 'Puedes activarlas más tarde desde los ajustes del teléfono.');
+            }
+        } catch (error) {
+            console.error('Failed to enable notifications', error);
+        } finally {
+            setIsSaving(false);
+        }
+        await finish();
+    };
+
+    const next = async () => {
+        if (step === 'companies') {
+            setStep('preferences');
+        } else if (step === 'preferences') {
+            setIsSaving(true);
+            await savePreferences();
+            setIsSaving(false);
+            setStep('notifications');
+        }
+    };
+
+    return (
+        <View className="flex-1 bg-white">
+            <StatusBar style="dark" />
+            <SafeAreaView className="flex-1">
+                {/* Progress + skip */}
+                <View className="flex-row items-center justify-between px-6 pt-2 pb-4">
+                    <View className="flex-row gap-1">
+                        {STEPS.map((item, index) => (
+                            <View
+                                key={item}
+                                className={clsx('h-1.5 w-8 rounded-full', index <= stepIndex ? 'bg-blue-600' : 'bg-gray-200')}
+                            />
+                        ))}
+                    </View>
+                    <TouchableOpacity onPress={finish} disabled={isSaving}>
+                        <Text className="text-gray-500 font-medium">Omitir</Text>
+                    </TouchableOpacity>
+                </View>
+
+                {step === 'companies' && (
+                    <Animated.View entering={FadeInRight} className="flex-1 px-6">
+                        <Text className="text-3xl font-bold text-gray-900 mb-2">Sigue a tus empresas</Text>
+                        <Text className="text-gray-500 mb-6">
+                            Solo puedes crear tickets y ver anuncios de las empresas que sigues.
+                        </Text>
+                        {companiesLoading && companies.length === 0 ? (
+                            <ActivityIndicator color="#2563eb" className="mt-8" />
+                        ) : (
+                            <FlatList
+                                data={companies}
+                                keyExtractor={(item) => item.id}
+                                renderItem={({ item }) => <CompanyRow company={item} />}
+                                showsVerticalScrollIndicator={false}
+                                ListEmptyComponent={
+                                    <Text className="text-gray-400 text-center mt-8">No hay empresas disponibles por ahora.</Text>
+                                }
+                            />
+                        )}
+                    </Animated.View>
+                )}
+
+                {step === 'preferences' && (
+                    <Animated.View entering={FadeInRight} className="flex-1 px-6">
+                        <Text className="text-3xl font-bold text-gray-900 mb-2">Hazla tuya</Text>
+                        <Text className="text-gray-500 mb-8">Elige el idioma y el tema de la aplicación.</Text>
+
+                        <Text className="text-gray-900 font-semibold mb-3">Idioma</Text>
+                        <View className="flex-row gap-3 mb-8">
+                            {LANGUAGES.map((item) => (
+                                <TouchableOpacity
+                                    key={item.value}
+                                    onPress={() => setLanguage(item.value)}
+                                    className={clsx(
+                                        'flex-1 items-center py-4 rounded-xl border',
+                                        language === item.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                                    )}
+                                >
+                                    <Text className={clsx('font-medium', language === item.value ? 'text-blue-700' : 'text-gray-700')}>
+                                        {item.label}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        <Text className="text-gray-900 font-semibold mb-3">Tema</Text>
+                        <View className="flex-row gap-3">
+                            {THEMES.map((item) => (
+                                <TouchableOpacity
+                                    key={item.value}
+                                    onPress={() => setTheme(item.value)}
+                                    className={clsx(
+                                        'flex-1 items-center py-4 rounded-xl border',
+                                        theme === item.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                                    )}
+                                >
+                                    <MaterialCommunityIcons
+                                        name={item.icon}
+                                        size={28}
+                                        color={theme === item.value ? '#2563eb' : '#6b7280'}
+                                    />
+                                    <Text className={clsx('font-medium mt-2', theme === item.value ? 'text-blue-700' : 'text-gray-700')}>
+                                        {item.label}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    </Animated.View>
+                )}
+
+                {step === 'notifications' && (
+                    <Animated.View entering={FadeInRight} className="flex-1 px-6 items-center justify-center">
+                        <View className="w-24 h-24 rounded-full bg-blue-50 items-center justify-center mb-6">
+                            <MaterialCommunityIcons name="bell-ring-outline" size={48} color="#2563eb" />
+                        </View>
+                        <Text className="text-3xl font-bold text-gray-900 mb-2 text-center">No te pierdas nada</Text>
+                        <Text className="text-gray-500 text-center">
+                            Te avisaremos cuando un agente responda tus tickets o cambie su estado.
+                        </Text>
+                    </Animated.View>
+                )}
+
+                {/* Actions */}
+                <View className="px-6 pb-6 pt-2">
+                    {step === 'notifications' ? (
+                        <>
+                            <TouchableOpacity
+                                onPress={enableNotifications}
+                                disabled={isSaving}
+                                className="flex-row items-center justify-center bg-blue-600 rounded-xl h-14 active:bg-blue-700"
+                            >
+                                {isSaving ? (
+                                    <ActivityIndicator color="white" />
+                                ) : (
+                                    <Text className="text-white font-bold text-base">Activar notificaciones</Text>
+                                )}
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={finish} disabled={isSaving} className="items-center py-4">
+                                <Text className="text-gray-500 font-medium">Ahora no</Text>
+                            </TouchableOpacity>
+                        </>
+                    ) : (
+                        <TouchableOpacity
+                            onPress={next}
+                            disabled={isSaving}
+                            className="flex-row items-center justify-center bg-blue-600 rounded-xl h-14 active:bg-blue-700"
+                        >
+                            {isSaving ? (
+                                <ActivityIndicator color="white" />
+                            ) : (
+                                <Text className="text-white font-bold text-base">
+                                    {step === 'companies' && followedCount > 0 ? `Continuar (${followedCount})` : 'Continuar'}
+                                </Text>
+                            )}
+                        </TouchableOpacity>
+                    )}
+                </View>
+            </SafeAreaView>
+        </View>
+    );
+}
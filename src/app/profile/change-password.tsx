@@ -5,18 +5,28 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from 'react-native-paper';
 import { ControlledInput } from '../../components/ui/ControlledInput';
-import { passwordChangeSchema, PasswordChangeFormData } from '../../schemas/profile';
+import { createPasswordChangeSchema, PasswordChangeFormData } from '../../schemas/profile';
 import { client } from '../../services/api/client';
-import { useState } from 'react';
+import { getErrorMessage } from '../../services/api/errors';
+import { applyFieldErrors } from '../../utils/formErrors';
+import { useMemo, useState } from 'react';
 import { useDebounceCallback } from '../../hooks/useDebounceCallback';
+import { useAuthStore } from '../../stores/authStore';
+import { PasswordStrengthMeter } from '../../components/auth/PasswordStrengthMeter';
 
 export default function ChangePasswordScreen() {
     const router = useRouter();
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [showPassword, setShowPassword] = useState(false);
+    const user = useAuthStore((state) => state.user);
+    const passwordContext = useMemo(
+        () => ({ email: user?.email, firstName: user?.firstName, lastName: user?.lastName }),
+        [user?.email, user?.firstName, user?.lastName]
+    );
+    const schema = useMemo(() => createPasswordChangeSchema(passwordContext), [passwordContext]);
 
-    const { control, handleSubmit, reset } = useForm<PasswordChangeFormData>({
-        resolver: zodResolver(passwordChangeSchema),
+    const { control, handleSubmit, reset, setError, watch } = useForm<PasswordChangeFormData>({
+        resolver: zodResolver(schema),
         defaultValues: {
             currentPassword: '',
             newPassword: '',
@@ -35,8 +45,13 @@ export default function ChangePasswordScreen() {
             Alert.alert('Éxito', 'Contraseña actualizada correctamente');
             reset();
             router.back();
-        } catch (error: any) {
-            Alert.alert('Error', error.response?.data?.message || 'No se pudo actualizar la contraseña');
+        } catch (error) {
+            const handled = applyFieldErrors(error, setError, ['currentPassword', 'newPassword'], {
+                newPasswordConfirmation: 'confirmNewPassword',
+            });
+            if (!handled) {
+                Alert.alert('Error', getErrorMessage(error, 'No se pudo actualizar la contraseña'));
+            }
         } finally {
             setIsSubmitting(false);
         }
@@ -61,6 +76,7 @@ export default function ChangePasswordScreen() {
                     rightIcon={showPassword ? "eye-off" : "eye"}
                     onRightIconPress={() => setShowPassword(!showPassword)}
                 />
+                <PasswordStrengthMeter password={watch('newPassword')} context={passwordContext} />
 
                 <ControlledInput
                     control={control}
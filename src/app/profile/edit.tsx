@@ -8,6 +8,8 @@ import { useAuthStore } from '../../stores/authStore';
 import { useUserStore } from '../../stores/userStore';
 import { ControlledInput } from '../../components/ui/ControlledInput';
 import { profileSchema, ProfileFormData } from '../../schemas/profile';
+import { getErrorMessage } from '../../services/api/errors';
+import { applyFieldErrors } from '../../utils/formErrors';
 import * as ImagePicker from 'expo-image-picker';
 import { useState } from 'react';
 import { useDebounceCallback } from '../../hooks/useDebounceCallback';
@@ -19,7 +21,7 @@ export default function EditProfileScreen() {
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [avatar, setAvatar] = useState(user?.avatarUrl);
 
-    const { control, handleSubmit } = useForm<ProfileFormData>({
+    const { control, handleSubmit, setError } = useForm<ProfileFormData>({
         resolver: zodResolver(profileSchema),
         defaultValues: {
             firstName: user?.firstName || '',
@@ -53,7 +55,9 @@ export default function EditProfileScreen() {
             Alert.alert('Éxito', 'Perfil actualizado correctamente');
             router.back();
         } catch (error) {
-            Alert.alert('Error', 'No se pudo actualizar el perfil');
+            if (!applyFieldErrors(error, setError, ['firstName', 'lastName', 'phoneNumber'])) {
+                Alert.alert('Error', getErrorMessage(error, 'No se pudo actualizar el perfil'));
+            }
         } finally {
             setIsSubmitting(false);
         }
@@ -1,5 +1,5 @@
 import React from 'react';
-import { View, Text, TouchableOpacity, ScrollView, Alert, ActivityIndicator, Modal, Platform, Dimensions, TouchableWithoutFeedback } from 'react-native';
+import { View, Text, TouchableOpacity, ScrollView, Alert, ActivityIndicator, Platform, Dimensions, TouchableWithoutFeedback } from 'react-native';
 import Animated, { FadeIn, ZoomIn, FadeOut, ZoomOut } from 'react-native-reanimated';
 import { Avatar, List, Divider, Button } from 'react-native-paper';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -12,13 +12,23 @@ import * as ImagePicker from 'expo-image-picker';
 import { BlurView } from 'expo-blur';
 import { useDebounceNavigation } from '@/hooks/useDebounceNavigation';
 import { useDebounceCallback } from '@/hooks/useDebounceCallback';
+import { useHiddenTrigger } from '@/hooks/useHiddenTrigger';
+import { ENVIRONMENT_LABELS, useApiUrl, useEnvironmentStore } from '@/stores/environmentStore';
+import { EnvironmentSheet } from '../../components/settings/EnvironmentSheet';
+import { AccountSwitcherSheet } from '../../components/auth/AccountSwitcherSheet';
 
 import { ProfileSkeleton } from '../../components/Skeleton';
+import { ActivityModal } from '../../components/ui/ActivityModal';
 
 export default function ProfileScreen() {
-    const { push, replace } = useDebounceNavigation();
-    const { user, logout, isLoading, refreshToken, invalidateToken, updateAvatar, isUploadingAvatar } = useAuthStore();
+    const { push } = useDebounceNavigation();
+    const { user, accounts, logout, isLoading, refreshToken, invalidateToken, updateAvatar, isUploadingAvatar } = useAuthStore();
     const [showImagePreview, setShowImagePreview] = React.useState(false);
+    const [showEnvironments, setShowEnvironments] = React.useState(false);
+    const [showAccounts, setShowAccounts] = React.useState(false);
+    const environmentId = useEnvironmentStore((state) => state.environmentId);
+    const apiUrl = useApiUrl();
+    const onVersionPress = useHiddenTrigger(React.useCallback(() => setShowEnvironments(true), []));
     const insets = useSafeAreaInsets();
     const { height: screenHeight } = Dimensions.get('screen');
 
@@ -31,10 +41,8 @@ export default function ProfileScreen() {
                 {
                     text: 'Cerrar Sesión',
                     style: 'destructive',
-                    onPress: async () => {
-                        await logout();
-                        replace('/(auth)/login');
-                    }
+                    // Continues with another signed-in account, or goes to login
+                    onPress: () => logout(),
                 },
             ]
         );
@@ -105,11 +113,19 @@ export default function ProfileScreen() {
                     </Text>
                     <Text className="text-gray-500">{user.email}</Text>
 
-                    {user.emailVerified && (
+                    {user.emailVerified ? (
                         <View className="flex-row items-center mt-1 bg-green-100 px-2 py-0.5 rounded-full">
                             <MaterialCommunityIcons name="check-circle" size={14} color="#166534" />
                             <Text className="text-green-800 text-xs ml-1 font-medium">Verificado</Text>
                         </View>
+                    ) : (
+                        <TouchableOpacity
+                            onPress={() => push('/(auth)/verify-email')}
+                            className="flex-row items-center mt-1 bg-amber-100 px-2 py-0.5 rounded-full"
+                        >
+                            <MaterialCommunityIcons name="alert-circle" size={14} color="#92400e" />
+                            <Text className="text-amber-800 text-xs ml-1 font-medium">Sin verificar · Verificar ahora</Text>
+                        </TouchableOpacity>
                     )}
 
                     {user.createdAt && (
@@ -165,6 +181,14 @@ export default function ProfileScreen() {
                         right={(props) => <List.Icon {...props} icon="chevron-right" />}
                         onPress={() => push('/profile/sessions')}
                     />
+                    <Divider />
+                    <List.Item
+                        title={accounts.length > 1 ? 'Cambiar de cuenta' : 'Agregar cuenta'}
+                        description={accounts.length > 1 ? `${accounts.length} cuentas en este dispositivo` : undefined}
+                        left={(props) => <List.Icon {...props} icon="account-switch" color="#4b5563" />}
+                        right={(props) => <List.Icon {...props} icon="chevron-right" />}
+                        onPress={() => setShowAccounts(true)}
+                    />
 
                 </View>
 
@@ -178,13 +202,18 @@ export default function ProfileScreen() {
                     >
                         Cerrar Sesión
                     </Button>
-                    <Text className="text-center text-gray-400 text-xs mt-4">
-                        Versión 1.0.0
+                    <Text className="text-center text-gray-400 text-xs mt-4" onPress={onVersionPress}>
+                        Versión 1.0.0 · {ENVIRONMENT_LABELS[environmentId]}
                     </Text>
+                    {environmentId !== 'production' && (
+                        <Text className="text-center text-amber-600 text-xs mt-1" numberOfLines={1}>
+                            {apiUrl}
+                        </Text>
+                    )}
                 </View>
             </ScrollView>
 
-            <Modal
+            <ActivityModal
                 visible={showImagePreview}
                 transparent={true}
                 onRequestClose={() => setShowImagePreview(false)}
@@ -233,7 +262,10 @@ export default function ProfileScreen() {
                         </TouchableWithoutFeedback>
                     </BlurView>
                 </TouchableWithoutFeedback>
-            </Modal>
+            </ActivityModal>
+
+            <EnvironmentSheet visible={showEnvironments} onClose={() => setShowEnvironments(false)} />
+            <AccountSwitcherSheet visible={showAccounts} onClose={() => setShowAccounts(false)} />
         </View>
     );
 }
@@ -1,19 +1,42 @@
-import { View, ScrollView, Text } from 'react-native';
+import { View, ScrollView, Text, Alert } from 'react-native';
 import { ScreenHeader } from '../../components/layout/ScreenHeader';
 import { List, Switch, Divider, RadioButton } from 'react-native-paper';
 import { useAuthStore } from '../../stores/authStore';
 import { useUserStore } from '../../stores/userStore';
-import { useState, useCallback } from 'react';
+import { useHintsStore } from '../../stores/hintsStore';
+import { isBiometricsAvailable, LOCK_TIMEOUT_OPTIONS, useAppLockStore } from '../../stores/appLockStore';
+import { IDLE_TIMEOUT_OPTIONS, useInactivityStore } from '../../stores/inactivityStore';
+import { PinSetupSheet } from '../../components/security/PinSetupSheet';
+import { useState, useCallback, useEffect } from 'react';
 import { debounce } from 'lodash';
 
 export default function PreferencesScreen() {
     const user = useAuthStore((state) => state.user);
     const updatePreferences = useUserStore((state) => state.updatePreferences);
+    const resetHints = useHintsStore((state) => state.reset);
+    const lockEnabled = useAppLockStore((state) => state.enabled);
+    const biometricsEnabled = useAppLockStore((state) => state.biometricsEnabled);
+    const lockTimeout = useAppLockStore((state) => state.timeoutSeconds);
+    const enableLock = useAppLockStore((state) => state.enable);
+    const changePin = useAppLockStore((state) => state.changePin);
+    const disableLock = useAppLockStore((state) => state.disable);
+    const setBiometricsEnabled = useAppLockStore((state) => state.setBiometricsEnabled);
+    const setLockTimeout = useAppLockStore((state) => state.setTimeoutSeconds);
+    const idleTimeout = useInactivityStore((state) => state.timeoutMinutes);
+    const revokeServerSession = useInactivityStore((state) => state.revokeServerSession);
+    const setIdleTimeout = useInactivityStore((state) => state.setTimeoutMinutes);
+    const setRevokeServerSession = useInactivityStore((state) => state.setRevokeServerSession);
 
     const [theme, setTheme] = useState(user?.theme || 'light');
     const [language, setLanguage] = useState(user?.language || 'es');
     const [pushEnabled, setPushEnabled] = useState(user?.pushWebNotifications || false);
     const [ticketsEnabled, setTicketsEnabled] = useState(user?.notificationsTickets || false);
+    const [pinSheet, setPinSheet] = useState<'enable' | 'change' | null>(null);
+    const [canUseBiometrics, setCanUseBiometrics] = useState(false);
+
+    useEffect(() => {
+        isBiometricsAvailable().then(setCanUseBiometrics);
+    }, []);
 
     // Debounced save
     const debouncedSave = useCallback(
@@ -47,6 +70,34 @@ export default function PreferencesScreen() {
         debouncedSave({ notificationsTickets: value });
     };
 
+    const handleResetHints = () => {
+        resetHints();
+        Alert.alert('Consejos restablecidos', 'Volverás a ver los consejos de la aplicación.');
+    };
+
+    const handleLockChange = (value: boolean) => {
+        if (value) {
+            setPinSheet('enable');
+            return;
+        }
+        Alert.alert('Desactivar bloqueo', 'La aplicación ya no pedirá tu PIN al abrirse.', [
+            { text: 'Cancelar', style: 'cancel' },
+            { text: 'Desactivar', style: 'destructive', onPress: () => disableLock() },
+        ]);
+    };
+
+    const handlePinSubmit = async (pin: string) => {
+        if (pinSheet === 'enable') {
+            await enableLock(pin);
+        } else {
+            await changePin(pin);
+            Alert.alert('PIN actualizado', 'Usa tu nuevo PIN la próxima vez que desbloquees la aplicación.');
+        }
+    };
+
+    const lockTimeoutLabel = LOCK_TIMEOUT_OPTIONS.find((option) => option.value === lockTimeout)?.label;
+    const idleTimeoutLabel = IDLE_TIMEOUT_OPTIONS.find((option) => option.value === idleTimeout)?.label;
+
     if (!user) return null;
 
     return (
@@ -97,7 +148,95 @@ export default function PreferencesScreen() {
                         )}
                     />
                 </List.Section>
+
+                <Divider />
+
+                <List.Section title="Seguridad">
+                    <List.Item
+                        title="Bloqueo de la app"
+                        description="Pedir un PIN al abrir la aplicación"
+                        left={(props) => <List.Icon {...props} icon="lock-outline" />}
+                        right={() => (
+                            <Switch value={lockEnabled} onValueChange={handleLockChange} color="#2563eb" />
+                        )}
+                    />
+                    {lockEnabled && (
+                        <>
+                            {canUseBiometrics && (
+                                <List.Item
+                                    title="Usar biometría"
+                                    description="Huella o reconocimiento facial"
+                                    left={(props) => <List.Icon {...props} icon="fingerprint" />}
+                                    right={() => (
+                                        <Switch value={biometricsEnabled} onValueChange={setBiometricsEnabled} color="#2563eb" />
+                                    )}
+                                />
+                            )}
+                            <List.Accordion
+                                title="Bloquear"
+                                description={lockTimeoutLabel}
+                                left={(props) => <List.Icon {...props} icon="timer-outline" />}
+                            >
+                                <RadioButton.Group
+                                    onValueChange={(value) => setLockTimeout(Number(value))}
+                                    value={String(lockTimeout)}
+                                >
+                                    {LOCK_TIMEOUT_OPTIONS.map((option) => (
+                                        <RadioButton.Item key={option.value} label={option.label} value={String(option.value)} />
+                                    ))}
+                                </RadioButton.Group>
+                            </List.Accordion>
+                            <List.Item
+                                title="Cambiar PIN"
+                                left={(props) => <List.Icon {...props} icon="form-textbox-password" />}
+                                onPress={() => setPinSheet('change')}
+                            />
+                        </>
+                    )}
+                    <List.Accordion
+                        title="Cerrar sesión por inactividad"
+                        description={idleTimeoutLabel}
+                        left={(props) => <List.Icon {...props} icon="timer-lock-outline" />}
+                    >
+                        <RadioButton.Group
+                            onValueChange={(value) => setIdleTimeout(Number(value))}
+                            value={String(idleTimeout)}
+                        >
+                            {IDLE_TIMEOUT_OPTIONS.map((option) => (
+                                <RadioButton.Item key={option.value} label={option.label} value={String(option.value)} />
+                            ))}
+                        </RadioButton.Group>
+                    </List.Accordion>
+                    {idleTimeout > 0 && (
+                        <List.Item
+                            title="Cerrar también en el servidor"
+                            description="La sesión de este dispositivo quedará revocada"
+                            left={(props) => <List.Icon {...props} icon="server-remove" />}
+                            right={() => (
+                                <Switch value={revokeServerSession} onValueChange={setRevokeServerSession} color="#2563eb" />
+                            )}
+                        />
+                    )}
+                </List.Section>
+
+                <Divider />
+
+                <List.Section title="Ayuda">
+                    <List.Item
+                        title="Volver a mostrar consejos"
+                        description="Las sugerencias que ya viste aparecerán de nuevo"
+                        left={(props) => <List.Icon {...props} icon="lightbulb-on-outline" />}
+                        onPress={handleResetHints}
+                    />
+                </List.Section>
             </ScrollView>
+
+            <PinSetupSheet
+                visible={pinSheet !== null}
+                title={pinSheet === 'change' ? 'Nuevo PIN' : 'Crea tu PIN'}
+                onClose={() => setPinSheet(null)}
+                onSubmit={handlePinSubmit}
+            />
         </View>
     );
 }
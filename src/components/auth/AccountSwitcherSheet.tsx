@@ -0,0 +1,105 @@
+import { View, Text, TouchableOpacity, Image, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import clsx from 'clsx';
+import { useAuthStore } from '@/stores/authStore';
+import { User } from '@/types/user';
+import { ActivityModal } from '../ui/ActivityModal';
+
+interface AccountSwitcherSheetProps {
+    visible: boolean;
+    onClose: () => void;
+}
+
+const getInitials = (account: User) =>
+    (account.firstName && account.lastName
+        ? `${account.firstName[0]}${account.lastName[0]}`
+        : (account.displayName || account.email).substring(0, 2)
+    ).toUpperCase();
+
+function AccountRow({ account, isCurrent, onPress }: { account: User; isCurrent: boolean; onPress: () => void }) {
+    return (
+        <TouchableOpacity
+            onPress={onPress}
+            disabled={isCurrent}
+            className={clsx(
+                'flex-row items-center border rounded-xl px-4 py-3 mb-2',
+                isCurrent ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+            )}
+        >
+            {account.avatarUrl ? (
+                <Image source={{ uri: account.avatarUrl }} className="w-10 h-10 rounded-full" />
+            ) : (
+                <View className="w-10 h-10 rounded-full bg-blue-600 items-center justify-center">
+                    <Text className="text-white font-bold">{getInitials(account)}</Text>
+                </View>
+            )}
+            <View className="ml-3 flex-1">
+                <Text className="text-gray-900 font-medium" numberOfLines={1}>{account.displayName}</Text>
+                <Text className="text-gray-500 text-xs" numberOfLines={1}>{account.email}</Text>
+            </View>
+            {isCurrent && <MaterialCommunityIcons name="check-circle" size={22} color="#2563eb" />}
+        </TouchableOpacity>
+    );
+}
+
+/**
+ * Lists the accounts signed in on this device. Picking one switches to it
+ * (its cached data starts over); "Agregar cuenta" signs in one more without
+ * signing out of the current one.
+ */
+export function AccountSwitcherSheet({ visible, onClose }: AccountSwitcherSheetProps) {
+    const user = useAuthStore((state) => state.user);
+    const accounts = useAuthStore((state) => state.accounts);
+    const switchAccount = useAuthStore((state) => state.switchAccount);
+    const isLoading = useAuthStore((state) => state.isLoading);
+
+    const onSelect = async (accountId: string) => {
+        onClose();
+        await switchAccount(accountId);
+    };
+
+    const onAddAccount = () => {
+        onClose();
+        router.push('/(auth)/login');
+    };
+
+    return (
+        <ActivityModal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+            <View className="flex-1 justify-end bg-black/50">
+                <View className="bg-white rounded-t-3xl px-6 pt-6 pb-10">
+                    <View className="flex-row items-center justify-between mb-4">
+                        <Text className="text-xl font-bold text-gray-900">Cuentas</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <MaterialCommunityIcons name="close" size={24} color="#6b7280" />
+                        </TouchableOpacity>
+                    </View>
+
+                    {accounts.map((account) => (
+                        <AccountRow
+                            key={account.id}
+                            account={account}
+                            isCurrent={account.id === user?.id}
+                            onPress={() => onSelect(account.id)}
+                        />
+                    ))}
+
+                    <TouchableOpacity
+                        onPress={onAddAccount}
+                        disabled={isLoading}
+                        className="flex-row items-center border border-dashed border-gray-300 rounded-xl px-4 py-3 mt-2"
+                    >
+                        <View className="w-10 h-10 rounded-full bg-gray-100 items-center justify-center">
+                            {isLoading ? (
+                                <ActivityIndicator size="small" color="#4b5563" />
+                            ) : (
+                                <MaterialCommunityIcons name="account-plus-outline" size={22} color="#4b5563" />
+                            )}
+                        </View>
+                        <Text className="ml-3 text-gray-900 font-medium">Agregar cuenta</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </ActivityModal>
+    );
+}
@@ -0,0 +1,33 @@
+import { View, Text, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuthStore } from '../../stores/authStore';
+
+interface EmailVerificationBannerProps {
+    className?: string;
+}
+
+/**
+ * Reminder shown while the signed-in user has not verified their email.
+ * Renders nothing once verified.
+ */
+export function EmailVerificationBanner({ className = '' }: EmailVerificationBannerProps) {
+    const router = useRouter();
+    const isUnverified = useAuthStore((state) => !!state.user && !state.user.emailVerified);
+
+    if (!isUnverified) return null;
+
+    return (
+        <TouchableOpacity
+            onPress={() => router.push('/(auth)/verify-email')}
+            className={`flex-row items-center bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 ${className}`}
+        >
+            <MaterialCommunityIcons name="email-alert-outline" size={22} color="#b45309" />
+            <View className="flex-1 ml-3">
+                <Text className="text-amber-900 font-semibold text-sm">Verifica tu correo</Text>
+                <Text className="text-amber-800 text-xs">Necesitas verificarlo para crear tickets.</Text>
+            </View>
+            <MaterialCommunityIcons name="chevron-right" size={20} color="#b45309" />
+        </TouchableOpacity>
+    );
+}
@@ -0,0 +1,41 @@
+import { View, Text, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { ScreenContainer } from '../layout/ScreenContainer';
+
+interface EmailVerificationGateProps {
+    // What the user was trying to do, e.g. "crear tickets"
+    action: string;
+}
+
+/**
+ * Full-screen block for features that require a verified email.
+ */
+export function EmailVerificationGate({ action }: EmailVerificationGateProps) {
+    const router = useRouter();
+
+    return (
+        <ScreenContainer backgroundColor="white">
+            <View className="p-4">
+                <TouchableOpacity onPress={() => router.back()} className="p-2 -ml-2 rounded-full active:bg-gray-100 self-start">
+                    <MaterialCommunityIcons name="arrow-left" size={24} color="#1f2937" />
+                </TouchableOpacity>
+            </View>
+            <View className="flex-1 items-center justify-center px-8 pb-20">
+                <View className="w-20 h-20 rounded-full bg-amber-100 items-center justify-center mb-4">
+                    <MaterialCommunityIcons name="email-lock" size={40} color="#b45309" />
+                </View>
+                <Text className="text-gray-900 text-xl font-bold mb-2 text-center">Verifica tu correo</Text>
+                <Text className="text-gray-500 text-center mb-8">
+                    Para {action} primero debes confirmar tu dirección de correo electrónico.
+                </Text>
+                <TouchableOpacity
+                    onPress={() => router.push('/(auth)/verify-email')}
+                    className="w-full flex-row items-center justify-center bg-blue-600 rounded-xl h-14 active:bg-blue-700"
+                >
+                    <Text className="text-white font-bold text-base">Verificar ahora</Text>
+                </TouchableOpacity>
+            </View>
+        </ScreenContainer>
+    );
+}
@@ -0,0 +1,29 @@
+import { Alert } from 'react-native';
+import { GoogleButton } from '../ui/GoogleButton';
+import { isGoogleSignInConfigured, useGoogleSignIn } from '../../hooks/useGoogleSignIn';
+
+interface GoogleSignInButtonProps {
+    // Screen to land on after signing in (defaults to home)
+    returnTo?: string;
+}
+
+function ConfiguredGoogleSignInButton({ returnTo }: GoogleSignInButtonProps) {
+    const { signIn, isReady, isSigningIn } = useGoogleSignIn(returnTo);
+    return <GoogleButton onPress={signIn} disabled={!isReady} loading={isSigningIn} />;
+}
+
+/**
+ * "Continuar con Google" wired to the real sign-in flow. Builds without a
+ * Google client id for the current platform keep the button but explain why
+ * it does not work, instead of crashing inside expo-auth-session.
+ */
+export function GoogleSignInButton({ returnTo }: GoogleSignInButtonProps) {
+    if (!isGoogleSignInConfigured()) {
+        return (
+            <GoogleButton
+                onPress={() => Alert.alert('No disponible', 'El inicio de sesión con Google no está configurado en esta versión.')}
+            />
+        );
+    }
+    return <ConfiguredGoogleSignInButton returnTo={returnTo} />;
+}
@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import { View, Text } from 'react-native';
+import clsx from 'clsx';
+import { evaluatePassword, PasswordContext, PasswordScore } from '@/utils/passwordStrength';
+
+const SCORE_COLORS: Record<PasswordScore, string> = {
+    0: 'bg-red-500',
+    1: 'bg-orange-500',
+    2: 'bg-yellow-500',
+    3: 'bg-lime-500',
+    4: 'bg-green-500',
+};
+
+interface PasswordStrengthMeterProps {
+    password?: string;
+    // Name and email the password should not contain
+    context?: PasswordContext;
+}
+
+/**
+ * Live strength bar for a new password, with the main reason it is weak.
+ * Uses the same evaluator the form schemas use to reject very weak passwords.
+ */
+export function PasswordStrengthMeter({ password, context }: PasswordStrengthMeterProps) {
+    const evaluation = useMemo(
+        () => (password ? evaluatePassword(password, context) : null),
+        [password, context?.email, context?.firstName, context?.lastName]
+    );
+
+    if (!evaluation) return null;
+
+    return (
+        <View className="mt-1 mb-4">
+            <View className="flex-row gap-1 mb-1">
+                {[0, 1, 2, 3].map((segment) => (
+                    <View
+                        key={segment}
+                        className={clsx(
+                            'flex-1 h-1.5 rounded-full',
+                            segment < Math.max(evaluation.score, 1) ? SCORE_COLORS[evaluation.score] : 'bg-gray-200'
+                        )}
+                    />
+                ))}
+            </View>
+            <View className="flex-row justify-between">
+                <Text className="text-xs text-gray-500 flex-1 mr-2" numberOfLines={2}>
+                    {evaluation.warnings[0] ?? ''}
+                </Text>
+                <Text className={clsx('text-xs font-medium', evaluation.isTooWeak ? 'text-red-600' : 'text-gray-500')}>
+                    {evaluation.label}
+                </Text>
+            </View>
+        </View>
+    );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, KeyboardAvoidingView, Platform } from 'react-native';
+import { usePathname } from 'expo-router';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuthStore } from '@/stores/authStore';
+import { reauth } from '@/services/api/reauth';
+import { getErrorMessage } from '@/services/api/errors';
+import { ControlledInput } from '@/components/ui/ControlledInput';
+import { reauthSchema, ReauthFormData } from '@/schemas/auth';
+import { ActivityModal } from '../ui/ActivityModal';
+
+/**
+ * Asks for the password when the session can no longer be refreshed, so the
+ * user keeps the current screen (and any draft) instead of being sent to login.
+ * Requests that failed meanwhile are replayed by the API client on success.
+ */
+export function ReauthSheet() {
+    const pathname = usePathname();
+    const email = useAuthStore((state) => state.user?.email);
+    const reauthenticate = useAuthStore((state) => state.reauthenticate);
+    const expireSession = useAuthStore((state) => state.expireSession);
+    const [visible, setVisible] = useState(false);
+    const [showPassword, setShowPassword] = useState(false);
+    const resolveRef = useRef<((reauthenticated: boolean) => void) | null>(null);
+    const pathnameRef = useRef(pathname);
+    pathnameRef.current = pathname;
+
+    const { control, handleSubmit, reset, setError, formState: { isSubmitting } } = useForm<ReauthFormData>({
+        resolver: zodResolver(reauthSchema),
+        defaultValues: { password: '' },
+    });
+
+    useEffect(() => reauth.setHandler(() => {
+        const { isAuthenticated, user } = useAuthStore.getState();
+        // Nothing to resume (e.g. the session check on the splash screen)
+        if (!isAuthenticated || !user?.email) return Promise.resolve(false);
+
+        return new Promise<boolean>((resolve) => {
+            resolveRef.current = resolve;
+            reset({ password: '' });
+            setVisible(true);
+        });
+    }), []);
+
+    const finish = (reauthenticated: boolean) => {
+        setVisible(false);
+        resolveRef.current?.(reauthenticated);
+        resolveRef.current = null;
+    };
+
+    const onSubmit = async ({ password }: ReauthFormData) => {
+        try {
+            await reauthenticate(password);
+            finish(true);
+        } catch (error) {
+            setError('password', { message: getErrorMessage(error, 'Contraseña incorrecta') });
+        }
+    };
+
+    const onSignOut = async () => {
+        finish(false);
+        await expireSession(pathnameRef.current);
+    };
+
+    return (
+        <ActivityModal
+            visible={visible}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onSignOut}
+        >
+            <KeyboardAvoidingView
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+                className="flex-1 justify-end bg-black/50"
+            >
+                <View className="bg-white rounded-t-3xl px-6 pt-6 pb-10">
+                    <View className="items-center mb-4">
+                        <View className="w-14 h-14 bg-blue-50 rounded-full items-center justify-center mb-3">
+                            <MaterialCommunityIcons name="lock-clock" size={28} color="#2563eb" />
+                        </View>
+                        <Text className="text-xl font-bold text-gray-900">Tu sesión ha expirado</Text>
+                        <Text className="text-gray-500 text-center mt-1">
+                            Ingresa tu contraseña para continuar donde lo dejaste
+                        </Text>
+                        {email && <Text className="text-gray-900 font-medium mt-2">{email}</Text>}
+                    </View>
+
+                    <ControlledInput
+                        control={control}
+                        name="password"
+                        label="Contraseña"
+                        secureTextEntry={!showPassword}
+                        leftIcon="lock-outline"
+                        rightIcon={showPassword ? 'eye-off-outline' : 'eye-outline'}
+                        onRightIconPress={() => setShowPassword(!showPassword)}
+                        placeholder="••••••••"
+                        autoFocus
+                        onSubmitEditing={handleSubmit(onSubmit)}
+                    />
+
+                    <TouchableOpacity
+                        onPress={handleSubmit(onSubmit)}
+                        disabled={isSubmitting}
+                        className="flex-row items-center justify-center bg-blue-600 rounded-xl h-14 mt-2 active:bg-blue-700"
+                    >
+                        <Text className="text-white font-bold text-base">
+                            {isSubmitting ? 'Verificando...' : 'Continuar'}
+                        </Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity onPress={onSignOut} disabled={isSubmitting} className="items-center mt-4">
+                        <Text className="text-gray-500 font-bold">Cerrar sesión</Text>
+                    </TouchableOpacity>
+                </View>
+            </KeyboardAvoidingView>
+        </ActivityModal>
+    );
+}
@@ -1,13 +1,15 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, Image, StyleSheet, Platform } from 'react-native';
 import { useAuthStore } from '../../stores/authStore';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useTheme } from 'react-native-paper';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useDebounceNavigation } from '@/hooks/useDebounceNavigation';
+import { AccountSwitcherSheet } from '../auth/AccountSwitcherSheet';
 
 export const GlobalHeader = () => {
-    const { user } = useAuthStore();
+    const { user, accounts } = useAuthStore();
+    const [showAccounts, setShowAccounts] = useState(false);
     const { push } = useDebounceNavigation();
     const theme = useTheme();
     const insets = useSafeAreaInsets();
@@ -46,7 +48,12 @@ export const GlobalHeader = () => {
                         <MaterialCommunityIcons name="bell-outline" size={24} color={theme.colors.onSurfaceVariant} />
                     </TouchableOpacity>
 
-                    <TouchableOpacity onPress={handleProfilePress} style={styles.avatarContainer}>
+                    {/* Long press: switch between signed-in accounts */}
+                    <TouchableOpacity
+                        onPress={handleProfilePress}
+                        onLongPress={() => setShowAccounts(true)}
+                        style={styles.avatarContainer}
+                    >
                         {user?.avatarUrl ? (
                             <Image
                                 source={{ uri: user.avatarUrl }}
@@ -58,8 +65,15 @@ export const GlobalHeader = () => {
                             </View>
                         )}
                     </TouchableOpacity>
+                    {accounts.length > 1 && (
+                        <View style={[styles.accountsBadge, { backgroundColor: theme.colors.primary[600], borderColor: theme.colors.surface }]}>
+                            <Text style={styles.accountsBadgeText}>{accounts.length}</Text>
+                        </View>
+                    )}
                 </View>
             </View>
+
+            <AccountSwitcherSheet visible={showAccounts} onClose={() => setShowAccounts(false)} />
         </View>
     );
 };
@@ -118,4 +132,20 @@ const styles = StyleSheet.create({
         fontWeight: 'bold',
         fontSize: 14,
     },
+    accountsBadge: {
+        position: 'absolute',
+        right: -4,
+        bottom: -4,
+        minWidth: 16,
+        height: 16,
+        borderRadius: 8,
+        borderWidth: 2,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    accountsBadgeText: {
+        color: '#fff',
+        fontWeight: 'bold',
+        fontSize: 9,
+    },
 });
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, Alert, Modal, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { BlurView } from 'expo-blur';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuthStore } from '../../stores/authStore';
+import { isBiometricsAvailable, PIN_LENGTH, useAppLockStore } from '../../stores/appLockStore';
+import { useAppLockLifecycle } from '../../hooks/useAppLockLifecycle';
+import { useCountdown } from '../../hooks/useCountdown';
+import { PinPad } from './PinPad';
+
+function LockScreen() {
+    const biometricsEnabled = useAppLockStore((state) => state.biometricsEnabled);
+    const failedAttempts = useAppLockStore((state) => state.failedAttempts);
+    const lockedOutUntil = useAppLockStore((state) => state.lockedOutUntil);
+    const unlockWithPin = useAppLockStore((state) => state.unlockWithPin);
+    const unlockWithBiometrics = useAppLockStore((state) => state.unlockWithBiometrics);
+    const logout = useAuthStore((state) => state.logout);
+
+    const [canUseBiometrics, setCanUseBiometrics] = useState(false);
+    const [resetKey, setResetKey] = useState(0);
+    const [isChecking, setIsChecking] = useState(false);
+    const lockoutSecondsLeft = useCountdown(lockedOutUntil);
+
+    useEffect(() => {
+        if (!biometricsEnabled) return;
+        isBiometricsAvailable().then((available) => {
+            setCanUseBiometrics(available);
+            // Offer it right away; cancelling falls back to the PIN pad
+            if (available) unlockWithBiometrics();
+        });
+    }, [biometricsEnabled]);
+
+    const onComplete = async (pin: string) => {
+        setIsChecking(true);
+        const unlocked = await unlockWithPin(pin);
+        setIsChecking(false);
+        if (!unlocked) setResetKey((key) => key + 1);
+    };
+
+    const onForgotPin = () => {
+        Alert.alert(
+            '¿Olvidaste tu PIN?',
+            'Se cerrará la sesión de todas las cuentas de este dispositivo y se desactivará el bloqueo. Podrás volver a iniciar sesión con tu contraseña.',
+            [
+                { text: 'Cancelar', style: 'cancel' },
+                {
+                    text: 'Cerrar sesión',
+                    style: 'destructive',
+                    // Every account: resuming another stored one would hand over an unlocked session.
+                    // logout turns the lock off itself once no account is left, not before.
+                    onPress: () => logout(false, { allAccounts: true }),
+                },
+            ]
+        );
+    };
+
+    const message = lockoutSecondsLeft > 0
+        ? `Demasiados intentos. Espera ${lockoutSecondsLeft} s`
+        : failedAttempts > 0
+            ? 'PIN incorrecto'
+            : `Ingresa tu PIN de ${PIN_LENGTH} dígitos`;
+
+    return (
+        <SafeAreaView className="flex-1 bg-blue-600 items-center justify-center">
+            <View className="w-16 h-16 rounded-2xl bg-white/20 items-center justify-center mb-4">
+                <MaterialCommunityIcons name="lock" size={32} color="white" />
+            </View>
+            <Text className="text-white text-2xl font-bold mb-2">Helpdesk bloqueado</Text>
+            <Text className="text-blue-100 mb-10">{message}</Text>
+
+            <PinPad
+                length={PIN_LENGTH}
+                onComplete={onComplete}
+                resetKey={resetKey}
+                disabled={isChecking || lockoutSecondsLeft > 0}
+                accessory={canUseBiometrics ? { icon: 'fingerprint', onPress: unlockWithBiometrics } : null}
+                dark
+            />
+
+            <TouchableOpacity onPress={onForgotPin} className="mt-10 px-4 py-2">
+                <Text className="text-blue-100 font-medium">¿Olvidaste tu PIN?</Text>
+            </TouchableOpacity>
+        </SafeAreaView>
+    );
+}
+
+/**
+ * Sits in front of the (tabs) layout and every screen opened from it: the PIN
+ * or biometric lock while locked, and a blur while the app is in the app
+ * switcher so ticket contents do not show in the snapshot. Drawn in a Modal
+ * because sheets are Modals too, each in its own native window above the
+ * root view; presented later, this one covers any sheet already open.
+ */
+export function AppLockGate() {
+    const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+    const hasHydrated = useAppLockStore((state) => state.hasHydrated);
+    const enabled = useAppLockStore((state) => state.enabled);
+    const isLocked = useAppLockStore((state) => state.isLocked);
+    const isObscured = useAppLockLifecycle();
+
+    if (!isAuthenticated) return null;
+
+    // Settings not read yet: cover instead of flashing content that may be locked
+    const cover = !hasHydrated ? 'hydrating' : enabled && isLocked ? 'locked' : enabled && isObscured ? 'obscured' : null;
+
+    // Transparent so the blur shows the app behind it; the other covers are opaque.
+    // Back does nothing: the lock is only dismissed by unlocking.
+    return (
+        <Modal visible={cover !== null} transparent={true} animationType="none" statusBarTranslucent={true} onRequestClose={() => {}}>
+            {cover === 'hydrating' && <View style={StyleSheet.absoluteFill} className="bg-blue-600" />}
+            {cover === 'locked' && (
+                <View style={StyleSheet.absoluteFill}>
+                    <LockScreen />
+                </View>
+            )}
+            {cover === 'obscured' && <BlurView intensity={60} tint="light" style={StyleSheet.absoluteFill} />}
+        </Modal>
+    );
+}
@@ -0,0 +1,45 @@
+import { ReactNode } from 'react';
+import { View, Text, TouchableOpacity, Modal } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { captureActivity, useInactivityTimeout } from '../../hooks/useInactivityTimeout';
+import { formatCountdown } from '../../hooks/useCountdown';
+
+/**
+ * Watches touches on everything it wraps and, with an idle timeout set in
+ * Preferencias, warns before signing out a session nobody is using. Modals
+ * and text inputs report their own activity (ActivityModal, recordActivity).
+ */
+export function InactivityGuard({ children }: { children: ReactNode }) {
+    const { isWarningVisible, warningSecondsLeft, stayActive, signOut } = useInactivityTimeout();
+
+    return (
+        <View className="flex-1" onStartShouldSetResponderCapture={captureActivity}>
+            {children}
+
+            <Modal visible={isWarningVisible} animationType="fade" transparent={true} onRequestClose={stayActive}>
+                <View className="flex-1 items-center justify-center bg-black/50 px-8">
+                    <View className="w-full bg-white rounded-3xl px-6 pt-6 pb-4 items-center">
+                        <View className="w-14 h-14 bg-amber-50 rounded-full items-center justify-center mb-3">
+                            <MaterialCommunityIcons name="timer-sand" size={28} color="#d97706" />
+                        </View>
+                        <Text className="text-xl font-bold text-gray-900">¿Sigues ahí?</Text>
+                        <Text className="text-gray-500 text-center mt-1">
+                            Por seguridad cerraremos tu sesión por inactividad en
+                        </Text>
+                        <Text className="text-3xl font-bold text-gray-900 my-3">{formatCountdown(warningSecondsLeft)}</Text>
+
+                        <TouchableOpacity
+                            onPress={stayActive}
+                            className="w-full flex-row items-center justify-center bg-blue-600 rounded-xl h-14 active:bg-blue-700"
+                        >
+                            <Text className="text-white font-bold text-base">Seguir conectado</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={signOut} className="items-center py-4">
+                            <Text className="text-gray-500 font-bold">Cerrar sesión</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+        </View>
+    );
+}
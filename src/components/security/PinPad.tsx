@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import clsx from 'clsx';
+
+interface PinPadProps {
+    length: number;
+    onComplete: (pin: string) => void;
+    disabled?: boolean;
+    // Changing it clears the digits entered so far (e.g. after a wrong PIN)
+    resetKey?: number;
+    // Extra key in the bottom-left corner (biometrics)
+    accessory?: { icon: keyof typeof MaterialCommunityIcons.glyphMap; onPress: () => void } | null;
+    dark?: boolean;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+export function PinPad({ length, onComplete, disabled = false, resetKey = 0, accessory = null, dark = false }: PinPadProps) {
+    const [digits, setDigits] = useState('');
+
+    useEffect(() => {
+        setDigits('');
+    }, [resetKey]);
+
+    const press = (digit: string) => {
+        if (disabled || digits.length >= length) return;
+        const next = digits + digit;
+        setDigits(next);
+        if (next.length === length) onComplete(next);
+    };
+
+    const keyClass = clsx('w-20 h-20 rounded-full items-center justify-center', dark ? 'active:bg-white/20' : 'active:bg-gray-100');
+    const textClass = clsx('text-3xl font-light', dark ? 'text-white' : 'text-gray-900');
+    const iconColor = dark ? 'white' : '#1f2937';
+
+    return (
+        <View className={clsx('items-center', disabled && 'opacity-50')}>
+            <View className="flex-row gap-4 mb-10">
+                {Array.from({ length }).map((_, index) => (
+                    <View
+                        key={index}
+                        className={clsx(
+                            'w-4 h-4 rounded-full border-2',
+                            dark ? 'border-white' : 'border-blue-600',
+                            index < digits.length && (dark ? 'bg-white' : 'bg-blue-600')
+                        )}
+                    />
+                ))}
+            </View>
+
+            <View className="flex-row flex-wrap justify-center w-72 gap-y-3">
+                {KEYS.map((key) => (
+                    <View key={key} className="w-1/3 items-center">
+                        <TouchableOpacity onPress={() => press(key)} disabled={disabled} className={keyClass}>
+                            <Text className={textClass}>{key}</Text>
+                        </TouchableOpacity>
+                    </View>
+                ))}
+                <View className="w-1/3 items-center">
+                    {accessory && (
+                        <TouchableOpacity onPress={accessory.onPress} disabled={disabled} className={keyClass}>
+                            <MaterialCommunityIcons name={accessory.icon} size={30} color={iconColor} />
+                        </TouchableOpacity>
+                    )}
+                </View>
+                <View className="w-1/3 items-center">
+                    <TouchableOpacity onPress={() => press('0')} disabled={disabled} className={keyClass}>
+                        <Text className={textClass}>0</Text>
+                    </TouchableOpacity>
+                </View>
+                <View className="w-1/3 items-center">
+                    <TouchableOpacity
+                        onPress={() => setDigits((value) => value.slice(0, -1))}
+                        disabled={disabled || digits.length === 0}
+                        className={keyClass}
+                    >
+                        <MaterialCommunityIcons name="backspace-outline" size={26} color={iconColor} />
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </View>
+    );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { PinPad } from './PinPad';
+import { PIN_LENGTH } from '../../stores/appLockStore';
+import { ActivityModal } from '../ui/ActivityModal';
+
+interface PinSetupSheetProps {
+    visible: boolean;
+    title: string;
+    onClose: () => void;
+    // Called with the confirmed PIN; the sheet closes when it resolves
+    onSubmit: (pin: string) => Promise<void>;
+}
+
+/**
+ * Asks for a new PIN twice and hands it over only when both entries match.
+ */
+export function PinSetupSheet({ visible, title, onClose, onSubmit }: PinSetupSheetProps) {
+    const [firstPin, setFirstPin] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [resetKey, setResetKey] = useState(0);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!visible) return;
+        setFirstPin(null);
+        setError(null);
+        setResetKey((key) => key + 1);
+    }, [visible]);
+
+    const onComplete = async (pin: string) => {
+        if (firstPin === null) {
+            setFirstPin(pin);
+            setError(null);
+            setResetKey((key) => key + 1);
+            return;
+        }
+        if (pin !== firstPin) {
+            setFirstPin(null);
+            setError('Los PIN no coinciden. Inténtalo de nuevo.');
+            setResetKey((key) => key + 1);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await onSubmit(pin);
+            onClose();
+        } catch (submitError) {
+            console.error('Failed to save PIN', submitError);
+            setFirstPin(null);
+            setError('No se pudo guardar el PIN.');
+            setResetKey((key) => key + 1);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <ActivityModal visible={visible} animationType="slide" onRequestClose={onClose}>
+            <SafeAreaView className="flex-1 bg-white">
+                <View className="flex-row items-center justify-between px-6 pt-2">
+                    <Text className="text-xl font-bold text-gray-900">{title}</Text>
+                    <TouchableOpacity onPress={onClose} disabled={isSaving}>
+                        <MaterialCommunityIcons name="close" size={24} color="#6b7280" />
+                    </TouchableOpacity>
+                </View>
+
+                <View className="flex-1 items-center justify-center">
+                    <Text className="text-gray-900 text-lg font-semibold mb-2">
+                        {firstPin === null ? `Elige un PIN de ${PIN_LENGTH} dígitos` : 'Confirma tu PIN'}
+                    </Text>
+                    <Text className="text-red-500 text-sm mb-6 h-5">{error ?? ''}</Text>
+                    {isSaving ? (
+                        <ActivityIndicator color="#2563eb" />
+                    ) : (
+                        <PinPad length={PIN_LENGTH} onComplete={onComplete} resetKey={resetKey} />
+                    )}
+                </View>
+            </SafeAreaView>
+        </ActivityModal>
+    );
+}
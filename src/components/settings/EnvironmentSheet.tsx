@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, ActivityIndicator, Alert } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import clsx from 'clsx';
+import { useAuthStore } from '@/stores/authStore';
+import { EnvironmentId, ENVIRONMENT_LABELS, getEnvironmentOptions, useApiUrl, useEnvironmentStore } from '@/stores/environmentStore';
+import { parseApiUrl } from '@/constants/config';
+import { checkServerHealth } from '@/services/api/health';
+import { ApiContractError, ApiError, getErrorMessage } from '@/services/api/errors';
+import { mockServer, MockFailureMode } from '@/services/api/mock/server';
+import { ActivityModal } from '../ui/ActivityModal';
+import { recordActivity } from '../../hooks/useInactivityTimeout';
+
+const FAILURE_MODES: { id: MockFailureMode; label: string }[] = [
+    { id: 'none', label: 'Normal' },
+    { id: 'slow', label: 'Red lenta' },
+    { id: 'offline', label: 'Sin red' },
+    { id: 'rate-limit', label: '429' },
+    { id: 'server-error', label: '500' },
+];
+
+// Reachable, but not answering like this API (404, HTML page, another service)
+const UNEXPECTED_RESPONSE = 'El servidor no respondió como se esperaba.';
+
+interface EnvironmentSheetProps {
+    visible: boolean;
+    onClose: () => void;
+}
+
+/**
+ * QA-only server switcher (opened through a hidden gesture). The target is
+ * pinged before switching, and switching signs the user out so no token or
+ * cached data crosses servers.
+ */
+export function EnvironmentSheet({ visible, onClose }: EnvironmentSheetProps) {
+    const environmentId = useEnvironmentStore((state) => state.environmentId);
+    const customUrl = useEnvironmentStore((state) => state.customUrl);
+    const activeUrl = useApiUrl();
+    const switchEnvironment = useAuthStore((state) => state.switchEnvironment);
+    const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+
+    const [selected, setSelected] = useState<EnvironmentId>(environmentId);
+    const [customInput, setCustomInput] = useState(customUrl ?? '');
+    const [isChecking, setIsChecking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [failureMode, setFailureMode] = useState<MockFailureMode>(mockServer.getFailureMode());
+
+    useEffect(() => {
+        if (!visible) return;
+        setSelected(environmentId);
+        setCustomInput(customUrl ?? '');
+        setError(null);
+        setFailureMode(mockServer.getFailureMode());
+    }, [visible]);
+
+    const onFailureMode = (mode: MockFailureMode) => {
+        mockServer.setFailureMode(mode);
+        setFailureMode(mode);
+    };
+
+    const options = getEnvironmentOptions();
+
+    const apply = (id: EnvironmentId, url: string) => {
+        switchEnvironment(id, id === 'custom' ? url : null);
+        onClose();
+    };
+
+    const onSubmit = async () => {
+        const url = selected === 'custom'
+            ? parseApiUrl(customInput)
+            : options.find((option) => option.id === selected)?.apiUrl ?? null;
+
+        if (!url) {
+            setError('Ingresa una URL válida (http:// o https://)');
+            return;
+        }
+        if (url === activeUrl) {
+            onClose();
+            return;
+        }
+
+        setError(null);
+        setIsChecking(true);
+        try {
+            await checkServerHealth(url);
+        } catch (healthError) {
+            // The health check uses plain axios, so its errors are not normalized yet
+            const reason = healthError instanceof ApiContractError
+                ? UNEXPECTED_RESPONSE
+                : getErrorMessage(ApiError.from(healthError), UNEXPECTED_RESPONSE);
+            setError(`No se pudo conectar con ${url}. ${reason}`);
+            return;
+        } finally {
+            setIsChecking(false);
+        }
+
+        if (!isAuthenticated) {
+            apply(selected, url);
+            return;
+        }
+
+        Alert.alert(
+            'Cambiar servidor',
+            'Se cerrará tu sesión y se descartarán los envíos pendientes.',
+            [
+                { text: 'Cancelar', style: 'cancel' },
+                { text: 'Cambiar', style: 'destructive', onPress: () => apply(selected, url) },
+            ]
+        );
+    };
+
+    return (
+        <ActivityModal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+            <KeyboardAvoidingView
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+                className="flex-1 justify-end bg-black/50"
+            >
+                <View className="bg-white rounded-t-3xl px-6 pt-6 pb-10">
+                    <View className="flex-row items-center justify-between mb-1">
+                        <Text className="text-xl font-bold text-gray-900">Servidor</Text>
+                        <TouchableOpacity onPress={onClose} disabled={isChecking}>
+                            <MaterialCommunityIcons name="close" size={24} color="#6b7280" />
+                        </TouchableOpacity>
+                    </View>
+                    <Text className="text-gray-500 text-xs mb-4" numberOfLines={1}>
+                        Actual: {ENVIRONMENT_LABELS[environmentId]} · {activeUrl}
+                    </Text>
+
+                    {options.map((option) => (
+                        <TouchableOpacity
+                            key={option.id}
+                            onPress={() => setSelected(option.id)}
+                            disabled={!option.apiUrl || isChecking}
+                            className={clsx(
+                                'flex-row items-center border rounded-xl px-4 py-3 mb-2',
+                                selected === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200',
+                                !option.apiUrl && 'opacity-50'
+                            )}
+                        >
+                            <MaterialCommunityIcons
+                                name={selected === option.id ? 'radiobox-marked' : 'radiobox-blank'}
+                                size={20}
+                                color={selected === option.id ? '#2563eb' : '#9ca3af'}
+                            />
+                            <View className="ml-3 flex-1">
+                                <Text className="text-gray-900 font-medium">{option.label}</Text>
+                                <Text className="text-gray-500 text-xs" numberOfLines={1}>
+                                    {option.apiUrl ?? 'No configurado en esta versión'}
+                                </Text>
+                            </View>
+                        </TouchableOpacity>
+                    ))}
+
+                    <TouchableOpacity
+                        onPress={() => setSelected('custom')}
+                        disabled={isChecking}
+                        className={clsx(
+                            'border rounded-xl px-4 py-3 mb-2',
+                            selected === 'custom' ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                        )}
+                    >
+                        <View className="flex-row items-center">
+                            <MaterialCommunityIcons
+                                name={selected === 'custom' ? 'radiobox-marked' : 'radiobox-blank'}
+                                size={20}
+                                color={selected === 'custom' ? '#2563eb' : '#9ca3af'}
+                            />
+                            <Text className="ml-3 text-gray-900 font-medium">{ENVIRONMENT_LABELS.custom}</Text>
+                        </View>
+                        {selected === 'custom' && (
+                            <TextInput
+                                value={customInput}
+                                onChangeText={setCustomInput}
+                                onChange={recordActivity}
+                                placeholder="https://api.ejemplo.com"
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                                keyboardType="url"
+                                editable={!isChecking}
+                                className="mt-3 bg-white border border-gray-200 rounded-lg px-3 h-11 text-gray-900"
+                            />
+                        )}
+                    </TouchableOpacity>
+
+                    {environmentId === 'mock' && (
+                        <View className="border border-dashed border-amber-300 bg-amber-50 rounded-xl px-4 py-3 mt-2">
+                            <Text className="text-amber-800 font-semibold text-sm mb-2">Simulación de fallos</Text>
+                            <View className="flex-row flex-wrap gap-2">
+                                {FAILURE_MODES.map((mode) => (
+                                    <TouchableOpacity
+                                        key={mode.id}
+                                        onPress={() => onFailureMode(mode.id)}
+                                        className={clsx(
+                                            'px-3 py-1.5 rounded-full border',
+                                            failureMode === mode.id ? 'bg-amber-500 border-amber-500' : 'bg-white border-amber-200'
+                                        )}
+                                    >
+                                        <Text className={clsx('text-xs font-medium', failureMode === mode.id ? 'text-white' : 'text-amber-800')}>
+                                            {mode.label}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                            <View className="flex-row flex-wrap gap-2 mt-3">
+                                <TouchableOpacity onPress={mockServer.expireAccessTokens} className="px-3 py-1.5 rounded-lg bg-white border border-amber-200">
+                                    <Text className="text-xs text-amber-800">Expirar token (401)</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity onPress={mockServer.revokeSession} className="px-3 py-1.5 rounded-lg bg-white border border-amber-200">
+                                    <Text className="text-xs text-amber-800">Revocar sesión</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    onPress={() => {
+                                        mockServer.reset();
+                                        setFailureMode('none');
+                                    }}
+                                    className="px-3 py-1.5 rounded-lg bg-white border border-amber-200"
+                                >
+                                    <Text className="text-xs text-amber-800">Restablecer datos</Text>
+                                </TouchableOpacity>
+                            </View>
+                        </View>
+                    )}
+
+                    {error && <Text className="text-red-500 text-sm mt-1">{error}</Text>}
+
+                    <TouchableOpacity
+                        onPress={onSubmit}
+                        disabled={isChecking}
+                        className="flex-row items-center justify-center bg-blue-600 rounded-xl h-14 mt-4 active:bg-blue-700"
+                    >
+                        {isChecking ? (
+                            <ActivityIndicator color="white" />
+                        ) : (
+                            <Text className="text-white font-bold text-base">Probar y cambiar</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            </KeyboardAvoidingView>
+        </ActivityModal>
+    );
+}
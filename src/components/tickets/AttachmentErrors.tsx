@@ -0,0 +1,31 @@
+import { View, Text, TouchableOpacity } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+
+interface AttachmentErrorsProps {
+    errors: string[];
+    onDismiss: () => void;
+}
+
+/**
+ * Picked files that were left out (wrong type, too big, unreadable), one line each.
+ */
+export function AttachmentErrors({ errors, onDismiss }: AttachmentErrorsProps) {
+    if (errors.length === 0) return null;
+
+    return (
+        <View className="flex-row bg-red-50 border border-red-200 rounded-xl px-3 py-2 mb-3">
+            <MaterialCommunityIcons name="alert-circle-outline" size={18} color="#dc2626" />
+            <View className="flex-1 ml-2">
+                <Text className="text-red-800 font-bold text-xs mb-0.5">
+                    {errors.length === 1 ? 'No se adjuntó 1 archivo' : `No se adjuntaron ${errors.length} archivos`}
+                </Text>
+                {errors.map((error, index) => (
+                    <Text key={index} className="text-red-700 text-xs">{error}</Text>
+                ))}
+            </View>
+            <TouchableOpacity onPress={onDismiss} className="pl-2">
+                <MaterialCommunityIcons name="close" size={16} color="#b91c1c" />
+            </TouchableOpacity>
+        </View>
+    );
+}
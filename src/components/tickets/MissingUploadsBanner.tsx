@@ -0,0 +1,61 @@
+import { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { getMissingUploads, isBatchActive, useUploadStore } from '@/stores/uploadStore';
+import { UploadProgressList } from './UploadProgressList';
+
+interface MissingUploadsBannerProps {
+    ticketCode: string;
+}
+
+/**
+ * Attachments of this ticket (or its responses) that did not upload, with the
+ * option to send just those again or give up on them.
+ */
+export function MissingUploadsBanner({ ticketCode }: MissingUploadsBannerProps) {
+    const allBatches = useUploadStore((state) => state.batches);
+    const retry = useUploadStore((state) => state.retry);
+    const dismiss = useUploadStore((state) => state.dismiss);
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    // Batches still uploading are shown too, so a retry stays visible until it finishes
+    const batches = useMemo(
+        () => Object.values(allBatches).filter((batch) =>
+            batch.target.ticketCode === ticketCode && (getMissingUploads(batch).length > 0 || isBatchActive(batch))
+        ),
+        [allBatches, ticketCode]
+    );
+    const missingCount = batches.reduce((count, batch) => count + getMissingUploads(batch).length, 0);
+    const isUploading = batches.some(isBatchActive);
+
+    if (batches.length === 0) return null;
+
+    return (
+        <View className="mx-4 mt-3 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3">
+            <TouchableOpacity onPress={() => setIsExpanded(!isExpanded)} className="flex-row items-center">
+                <MaterialCommunityIcons name={isUploading ? 'cloud-upload-outline' : 'paperclip-off'} size={20} color="#b45309" />
+                <Text className="flex-1 ml-2 text-amber-900 font-medium text-sm">
+                    {isUploading
+                        ? 'Subiendo adjuntos...'
+                        : missingCount === 1 ? '1 adjunto no se subió' : `${missingCount} adjuntos no se subieron`}
+                </Text>
+                <MaterialCommunityIcons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={20} color="#b45309" />
+            </TouchableOpacity>
+
+            {isExpanded && batches.map((batch) => (
+                <UploadProgressList key={batch.id} batch={batch} onlyMissing={!isBatchActive(batch)} />
+            ))}
+
+            {!isUploading && (
+                <View className="flex-row justify-end gap-4 mt-2">
+                    <TouchableOpacity onPress={() => batches.forEach((batch) => dismiss(batch.id))}>
+                        <Text className="text-gray-500 font-bold text-xs">Descartar</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => batches.forEach((batch) => retry(batch.id))}>
+                        <Text className="text-blue-600 font-bold text-xs">Reintentar todos</Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+        </View>
+    );
+}
@@ -0,0 +1,78 @@
+import { View, Text, TouchableOpacity, Alert } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { OutboxTicketItem } from '@/types/outbox';
+import { useOutboxStore } from '@/stores/outboxStore';
+
+interface OutboxItemCardProps {
+    item: OutboxTicketItem;
+}
+
+/**
+ * Card for a ticket that is still waiting in the offline outbox.
+ * Mirrors TicketCard so queued tickets sit naturally at the top of the list.
+ */
+export function OutboxItemCard({ item }: OutboxItemCardProps) {
+    const retry = useOutboxStore((state) => state.retry);
+    const discard = useOutboxStore((state) => state.discard);
+    const isFailed = item.status === 'failed';
+
+    const handleDiscard = () => {
+        Alert.alert(
+            'Descartar ticket',
+            'Este ticket no se ha enviado. ¿Deseas descartarlo?',
+            [
+                { text: 'Cancelar', style: 'cancel' },
+                { text: 'Descartar', style: 'destructive', onPress: () => discard(item.id) },
+            ]
+        );
+    };
+
+    return (
+        <View className={`bg-white p-4 rounded-xl mb-3 shadow-sm border border-dashed ${isFailed ? 'border-red-300' : 'border-amber-300'}`}>
+            <View className="flex-row justify-between items-center mb-2">
+                <View className={`flex-row items-center px-2 py-0.5 rounded-full ${isFailed ? 'bg-red-100' : 'bg-amber-100'}`}>
+                    <MaterialCommunityIcons
+                        name={isFailed ? 'alert-circle-outline' : item.status === 'sending' ? 'cloud-upload-outline' : 'cloud-off-outline'}
+                        size={12}
+                        color={isFailed ? '#991b1b' : '#92400e'}
+                    />
+                    <Text className={`text-xs font-bold ml-1 ${isFailed ? 'text-red-800' : 'text-amber-800'}`}>
+                        {isFailed ? 'ERROR AL ENVIAR' : item.status === 'sending' ? 'ENVIANDO' : 'PENDIENTE DE ENVÍO'}
+                    </Text>
+                </View>
+                <Text className="text-gray-400 text-xs">
+                    {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true, locale: es })}
+                </Text>
+            </View>
+
+            <Text className="font-bold text-lg text-gray-900 mb-1" numberOfLines={2}>
+                {item.data.title}
+            </Text>
+            <Text className="text-gray-600 text-xs font-medium">
+                {item.companyName || 'Sin Empresa'}
+                {item.attachments.length > 0 ? ` · ${item.attachments.length} archivo(s)` : ''}
+            </Text>
+            {!!item.skippedAttachments?.length && (
+                <Text className="text-amber-700 text-xs mt-1">
+                    Se enviará sin {item.skippedAttachments.join(', ')}: no se pudo guardar en el dispositivo.
+                </Text>
+            )}
+
+            {isFailed && (
+                <>
+                    {item.error && <Text className="text-red-600 text-xs mt-2">{item.error}</Text>}
+                    <View className="flex-row justify-end mt-3 gap-4">
+                        <TouchableOpacity onPress={handleDiscard}>
+                            <Text className="text-gray-500 font-bold text-sm">Descartar</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => retry(item.id)}>
+                            <Text className="text-blue-600 font-bold text-sm">Reintentar</Text>
+                        </TouchableOpacity>
+                    </View>
+                </>
+            )}
+        </View>
+    );
+}
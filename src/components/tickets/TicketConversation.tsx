@@ -1,13 +1,19 @@
 import { View, FlatList, Text, TextInput, TouchableOpacity, Alert, Keyboard, StyleSheet } from 'react-native';
 import { Avatar, IconButton, ActivityIndicator } from 'react-native-paper';
 import { useTicketStore } from '@/stores/ticketStore';
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState, useRef, useMemo } from 'react';
 import { Ticket, TicketResponse } from '@/types/ticket';
 import { useAuthStore } from '@/stores/authStore';
 import { formatDistanceToNow } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
+import { useOutboxStore } from '@/stores/outboxStore';
+import { OutboxResponseItem } from '@/types/outbox';
+import { UploadableFile } from '@/services/api/uploads';
+import { useAttachmentPicker } from '@/hooks/useAttachmentPicker';
+import { AttachmentErrors } from './AttachmentErrors';
+import { recordActivity } from '@/hooks/useInactivityTimeout';
 
 interface TicketConversationProps {
     ticket: Ticket;
@@ -18,15 +24,30 @@ export function TicketConversation({ ticket }: TicketConversationProps) {
     const user = useAuthStore((state) => state.user);
     const [message, setMessage] = useState('');
     const [sending, setSending] = useState(false);
-    const [attachments, setAttachments] = useState<ImagePicker.ImagePickerAsset[]>([]);
+    const [attachments, setAttachments] = useState<UploadableFile[]>([]);
+    const attachmentPicker = useAttachmentPicker(ticket.company?.id ?? null, ImagePicker.MediaTypeOptions.All);
     const flatListRef = useRef<FlatList>(null);
+    const { items: outboxItems, retry, discard } = useOutboxStore();
+    const pendingResponses = useMemo(
+        () => outboxItems.filter((item): item is OutboxResponseItem =>
+            item.kind === 'response' && item.ticketCode === ticket.ticketCode
+        ),
+        [outboxItems, ticket.ticketCode]
+    );
 
+    // Unmounting stops the polling and cancels the request in flight
     useEffect(() => {
-        fetchTicketResponses(ticket.ticketCode);
-        const interval = setInterval(() => {
-            fetchTicketResponses(ticket.ticketCode);
-        }, 10000);
-        return () => clearInterval(interval);
+        const controller = new AbortController();
+        const load = (force = false) =>
+            fetchTicketResponses(ticket.ticketCode, { force, signal: controller.signal })
+                .catch((error) => console.error('Error fetching responses:', error));
+
+        load();
+        const interval = setInterval(() => load(true), 10000);
+        return () => {
+            clearInterval(interval);
+            controller.abort();
+        };
     }, [ticket.ticketCode]);
 
     const handleSend = async () => {
@@ -47,16 +68,8 @@ export function TicketConversation({ ticket }: TicketConversationProps) {
     };
 
     const pickImage = async () => {
-        const result = await ImagePicker.launchImageLibraryAsync({
-            mediaTypes: ImagePicker.MediaTypeOptions.All,
-            allowsEditing: false,
-            quality: 0.8,
-            allowsMultipleSelection: true,
-        });
-
-        if (!result.canceled) {
-            setAttachments([...attachments, ...result.assets]);
-        }
+        const picked = await attachmentPicker.pick();
+        if (picked.length > 0) setAttachments((current) => [...current, ...picked]);
     };
 
     const renderItem = ({ item }: { item: TicketResponse }) => {
@@ -108,6 +121,57 @@ export function TicketConversation({ ticket }: TicketConversationProps) {
         );
     };
 
+    // Responses written offline, waiting in the outbox
+    const renderPendingItem = (item: OutboxResponseItem) => {
+        const isFailed = item.status === 'failed';
+
+        return (
+            <View key={item.id} className="flex-row mb-4 justify-end">
+                <View className={`max-w-[80%] p-3 rounded-2xl rounded-tr-none ${isFailed ? 'bg-red-50 border border-red-200' : 'bg-blue-300'}`}>
+                    {!!item.content && (
+                        <Text className={`text-base ${isFailed ? 'text-gray-800' : 'text-white'}`}>
+                            {item.content}
+                        </Text>
+                    )}
+
+                    {item.attachments.length > 0 && (
+                        <Text className={`text-xs mt-2 ${isFailed ? 'text-gray-500' : 'text-blue-50'}`}>
+                            {item.attachments.length} archivo(s) adjunto(s)
+                        </Text>
+                    )}
+
+                    {!!item.skippedAttachments?.length && (
+                        <Text className={`text-xs mt-1 ${isFailed ? 'text-amber-700' : 'text-blue-50'}`}>
+                            Se enviará sin {item.skippedAttachments.join(', ')}: no se pudo guardar en el dispositivo.
+                        </Text>
+                    )}
+
+                    <View className="flex-row items-center justify-end mt-1">
+                        <MaterialCommunityIcons
+                            name={isFailed ? 'alert-circle-outline' : 'clock-outline'}
+                            size={12}
+                            color={isFailed ? '#dc2626' : '#eff6ff'}
+                        />
+                        <Text className={`text-[10px] ml-1 ${isFailed ? 'text-red-600' : 'text-blue-50'}`}>
+                            {isFailed ? (item.error || 'No se pudo enviar') : item.status === 'sending' ? 'Enviando...' : 'Pendiente de envío'}
+                        </Text>
+                    </View>
+
+                    {isFailed && (
+                        <View className="flex-row justify-end mt-2 gap-4">
+                            <TouchableOpacity onPress={() => discard(item.id)}>
+                                <Text className="text-gray-500 font-bold text-xs">Descartar</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={() => retry(item.id)}>
+                                <Text className="text-blue-600 font-bold text-xs">Reintentar</Text>
+                            </TouchableOpacity>
+                        </View>
+                    )}
+                </View>
+            </View>
+        );
+    };
+
     return (
         <View style={styles.container}>
             <FlatList
@@ -118,17 +182,24 @@ export function TicketConversation({ ticket }: TicketConversationProps) {
                 contentContainerStyle={styles.listContent}
                 onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: false })}
                 keyboardShouldPersistTaps="handled"
+                ListFooterComponent={pendingResponses.length > 0 ? (
+                    <View>
+                        {pendingResponses.map(renderPendingItem)}
+                    </View>
+                ) : null}
             />
 
             {ticket.status !== 'closed' ? (
                 <View style={styles.inputContainer}>
+                    <AttachmentErrors errors={attachmentPicker.errors} onDismiss={attachmentPicker.clearErrors} />
+
                     {attachments.length > 0 && (
                         <View className="flex-row p-2">
                             {attachments.map((file, index) => (
                                 <View key={index} className="bg-gray-100 rounded-lg p-1 mr-2 flex-row items-center">
                                     <MaterialCommunityIcons name="file" size={14} color="#6b7280" />
                                     <Text className="text-xs text-gray-600 ml-1 max-w-[100px]" numberOfLines={1}>
-                                        Archivo {index + 1}
+                                        {file.fileName || `Archivo ${index + 1}`}
                                     </Text>
                                     <TouchableOpacity onPress={() => setAttachments(attachments.filter((_, i) => i !== index))}>
                                         <MaterialCommunityIcons name="close-circle" size={16} color="#ef4444" />
@@ -139,11 +210,16 @@ export function TicketConversation({ ticket }: TicketConversationProps) {
                     )}
 
                     <View className="flex-row items-end">
-                        <IconButton icon="paperclip" onPress={pickImage} />
+                        {attachmentPicker.isPreparing ? (
+                            <ActivityIndicator size="small" color="#6b7280" className="m-4" />
+                        ) : (
+                            <IconButton icon="paperclip" onPress={pickImage} />
+                        )}
 
                         <TextInput
                             value={message}
                             onChangeText={setMessage}
+                            onChange={recordActivity}
                             placeholder="Escribe una respuesta..."
                             multiline
                             style={styles.textInput}
@@ -155,7 +231,7 @@ export function TicketConversation({ ticket }: TicketConversationProps) {
                             ) : (
                                 <TouchableOpacity
                                     onPress={handleSend}
-                                    disabled={!message.trim() && attachments.length === 0}
+                                    disabled={(!message.trim() && attachments.length === 0) || attachmentPicker.isPreparing}
                                     className={`p-2 rounded-full ${(!message.trim() && attachments.length === 0) ? 'bg-gray-200' : 'bg-blue-600'}`}
                                 >
                                     <MaterialCommunityIcons name="send" size={20} color="white" />
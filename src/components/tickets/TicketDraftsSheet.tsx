@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { TicketDraft } from '@/types/ticketDraft';
+import { MAX_DRAFT_NAME_LENGTH, getDraftLabel, useTicketDraftStore } from '@/stores/ticketDraftStore';
+import { NamePromptDialog } from '@/components/ui/NamePromptDialog';
+import { ActivityModal } from '../ui/ActivityModal';
+
+interface TicketDraftsSheetProps {
+    visible: boolean;
+    drafts: TicketDraft[];
+    onResume: (draft: TicketDraft) => void;
+    onStartNew: () => void;
+}
+
+/**
+ * "¿Continuar un borrador?" prompt shown when the create-ticket wizard opens
+ * with saved drafts. Drafts can also be renamed or deleted from here.
+ */
+export function TicketDraftsSheet({ visible, drafts, onResume, onStartNew }: TicketDraftsSheetProps) {
+    const renameDraft = useTicketDraftStore((state) => state.renameDraft);
+    const deleteDraft = useTicketDraftStore((state) => state.deleteDraft);
+    const [renaming, setRenaming] = useState<TicketDraft | null>(null);
+
+    const onDelete = (draft: TicketDraft) => {
+        Alert.alert('Eliminar borrador', `¿Eliminar "${getDraftLabel(draft)}"? No se puede deshacer.`, [
+            { text: 'Cancelar', style: 'cancel' },
+            { text: 'Eliminar', style: 'destructive', onPress: () => deleteDraft(draft.id) },
+        ]);
+    };
+
+    return (
+        <ActivityModal visible={visible} animationType="slide" transparent={true} onRequestClose={onStartNew}>
+            <View className="flex-1 justify-end bg-black/50">
+                <View className="bg-white rounded-t-3xl px-6 pt-6 pb-10 max-h-[75%]">
+                    <Text className="text-xl font-bold text-gray-900 mb-1">¿Continuar un borrador?</Text>
+                    <Text className="text-gray-500 mb-4">Guardamos lo que escribiste la última vez.</Text>
+
+                    <ScrollView showsVerticalScrollIndicator={false}>
+                        {drafts.map((draft) => (
+                            <TouchableOpacity
+                                key={draft.id}
+                                onPress={() => onResume(draft)}
+                                className="flex-row items-center border border-gray-200 rounded-xl px-4 py-3 mb-2"
+                            >
+                                <MaterialCommunityIcons name="file-document-edit-outline" size={24} color="#2563eb" />
+                                <View className="ml-3 flex-1">
+                                    <Text className="text-gray-900 font-medium" numberOfLines={1}>{getDraftLabel(draft)}</Text>
+                                    <Text className="text-gray-500 text-xs" numberOfLines={1}>
+                                        {[
+                                            draft.companyName,
+                                            `Paso ${draft.step} de 4`,
+                                            formatDistanceToNow(new Date(draft.updatedAt), { addSuffix: true, locale: es }),
+                                        ].filter(Boolean).join(' · ')}
+                                    </Text>
+                                </View>
+                                <TouchableOpacity onPress={() => setRenaming(draft)} className="p-2">
+                                    <MaterialCommunityIcons name="pencil-outline" size={20} color="#6b7280" />
+                                </TouchableOpacity>
+                                <TouchableOpacity onPress={() => onDelete(draft)} className="p-2">
+                                    <MaterialCommunityIcons name="trash-can-outline" size={20} color="#dc2626" />
+                                </TouchableOpacity>
+                            </TouchableOpacity>
+                        ))}
+                    </ScrollView>
+
+                    <TouchableOpacity
+                        onPress={onStartNew}
+                        className="flex-row items-center justify-center border border-dashed border-gray-300 rounded-xl h-12 mt-2"
+                    >
+                        <MaterialCommunityIcons name="plus" size={20} color="#4b5563" />
+                        <Text className="ml-2 text-gray-900 font-medium">Empezar un ticket nuevo</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+
+            <NamePromptDialog
+                visible={renaming !== null}
+                title="Nombre del borrador"
+                initialValue={renaming ? getDraftLabel(renaming) : ''}
+                maxLength={MAX_DRAFT_NAME_LENGTH}
+                onSubmit={(name) => renaming && renameDraft(renaming.id, name)}
+                onClose={() => setRenaming(null)}
+            />
+        </ActivityModal>
+    );
+}
@@ -0,0 +1,89 @@
+import { useMemo, useState } from 'react';
+import { Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import clsx from 'clsx';
+import { useAuthStore } from '@/stores/authStore';
+import { MAX_PRESET_NAME_LENGTH, useTicketFilterPresetsStore } from '@/stores/ticketFilterPresetsStore';
+import { NamePromptDialog } from '@/components/ui/NamePromptDialog';
+import { TicketFilterValues, areSameFilters } from '@/utils/ticketFilters';
+
+interface TicketFilterPresetsProps {
+    filters: TicketFilterValues;
+    onSelect: (filters: TicketFilterValues) => void;
+}
+
+/**
+ * Saved filters of the signed-in account as pills under the list header.
+ * Tapping one applies it, long-pressing deletes it, and "Guardar" names the
+ * filters currently applied.
+ */
+export function TicketFilterPresets({ filters, onSelect }: TicketFilterPresetsProps) {
+    const accountId = useAuthStore((state) => state.user?.id);
+    const allPresets = useTicketFilterPresetsStore((state) => state.presets);
+    const savePreset = useTicketFilterPresetsStore((state) => state.savePreset);
+    const deletePreset = useTicketFilterPresetsStore((state) => state.deletePreset);
+    const presets = useMemo(() => allPresets.filter((p) => p.accountId === accountId), [allPresets, accountId]);
+
+    const [isNaming, setIsNaming] = useState(false);
+
+    const hasFilters = Object.keys(filters).length > 0;
+    const activePreset = presets.find((p) => areSameFilters(p.filters, filters));
+
+    if (!accountId || (presets.length === 0 && !hasFilters)) return null;
+
+    const onDelete = (id: string, presetName: string) => {
+        Alert.alert('Eliminar filtro', `¿Eliminar "${presetName}"?`, [
+            { text: 'Cancelar', style: 'cancel' },
+            { text: 'Eliminar', style: 'destructive', onPress: () => deletePreset(id) },
+        ]);
+    };
+
+    return (
+        <>
+            <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={{ paddingHorizontal: 16, paddingTop: 8 }}
+            >
+                {presets.map((preset) => {
+                    const isActive = preset.id === activePreset?.id;
+                    return (
+                        <TouchableOpacity
+                            key={preset.id}
+                            onPress={() => onSelect(isActive ? {} : preset.filters)}
+                            onLongPress={() => onDelete(preset.id, preset.name)}
+                            className={clsx(
+                                'mr-2 px-3 h-8 rounded-full flex-row items-center border',
+                                isActive ? 'bg-blue-600 border-blue-600' : 'bg-blue-50 border-blue-100'
+                            )}
+                        >
+                            <MaterialCommunityIcons name="bookmark-outline" size={14} color={isActive ? 'white' : '#2563eb'} />
+                            <Text className={clsx('ml-1 text-xs font-medium', isActive ? 'text-white' : 'text-blue-700')}>
+                                {preset.name}
+                            </Text>
+                        </TouchableOpacity>
+                    );
+                })}
+                {hasFilters && !activePreset && (
+                    <TouchableOpacity
+                        onPress={() => setIsNaming(true)}
+                        className="px-3 h-8 rounded-full flex-row items-center border border-dashed border-gray-300"
+                    >
+                        <MaterialCommunityIcons name="bookmark-plus-outline" size={14} color="#4b5563" />
+                        <Text className="ml-1 text-xs font-medium text-gray-600">Guardar filtro</Text>
+                    </TouchableOpacity>
+                )}
+            </ScrollView>
+
+            <NamePromptDialog
+                visible={isNaming}
+                title="Guardar filtro"
+                description="Ponle un nombre para encontrarlo rápido."
+                placeholder="Mis abiertos de alta prioridad"
+                maxLength={MAX_PRESET_NAME_LENGTH}
+                onSubmit={(name) => savePreset(accountId, name, filters)}
+                onClose={() => setIsNaming(false)}
+            />
+        </>
+    );
+}
@@ -0,0 +1,271 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import clsx from 'clsx';
+import { useTicketStore } from '@/stores/ticketStore';
+import { CompanyRef, fetchCompanyDirectoryPage } from '@/stores/entityStore';
+import { Area } from '@/types/ticket';
+import {
+    TicketFilterValues,
+    PRIORITY_OPTIONS,
+    SORT_OPTIONS,
+    RECENT_RANGE_OPTIONS,
+    daysAgo,
+    getSortOption,
+    isValidFilterDate,
+    removeEmpty,
+} from '@/utils/ticketFilters';
+import { recordActivity } from '@/hooks/useInactivityTimeout';
+import { ActivityModal } from '../ui/ActivityModal';
+
+interface TicketFilterSheetProps {
+    visible: boolean;
+    filters: TicketFilterValues;
+    onApply: (filters: TicketFilterValues) => void;
+    onClose: () => void;
+}
+
+type DateRangeKey = 'created' | 'updated';
+
+// The API can't filter by these: they only narrow down the tickets already loaded
+const CLIENT_FILTER_NOTE = 'Se aplica en el dispositivo a los tickets cargados';
+
+function Section({ title, note, children }: { title: string; note?: string; children: ReactNode }) {
+    return (
+        <View className="mb-6">
+            <Text className={clsx('text-sm font-semibold text-gray-500 uppercase', note ? 'mb-0.5' : 'mb-3')}>{title}</Text>
+            {note && <Text className="text-xs text-gray-400 mb-3">{note}</Text>}
+            {children}
+        </View>
+    );
+}
+
+function Chip({ label, isSelected, onPress }: { label: string; isSelected: boolean; onPress: () => void }) {
+    return (
+        <TouchableOpacity
+            onPress={onPress}
+            className={clsx(
+                'px-3 py-2 rounded-lg border',
+                isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white'
+            )}
+        >
+            <Text className={clsx('text-sm font-medium', isSelected ? 'text-blue-700' : 'text-gray-700')}>{label}</Text>
+        </TouchableOpacity>
+    );
+}
+
+function DateInput({ value, placeholder, onChangeText }: { value?: string; placeholder: string; onChangeText: (value: string) => void }) {
+    return (
+        <TextInput
+            value={value ?? ''}
+            onChangeText={onChangeText}
+            onChange={recordActivity}
+            placeholder={placeholder}
+            autoCorrect={false}
+            keyboardType="numbers-and-punctuation"
+            maxLength={10}
+            className="flex-1 bg-white border border-gray-200 rounded-lg px-3 h-11 text-gray-900"
+        />
+    );
+}
+
+const validateRange = (from?: string, to?: string) => {
+    if ((from && !isValidFilterDate(from)) || (to && !isValidFilterDate(to))) return 'Usa el formato AAAA-MM-DD';
+    if (from && to && from > to) return 'La fecha inicial es posterior a la final';
+    return null;
+};
+
+/**
+ * Advanced filters for the tickets list. Works on a draft: nothing changes
+ * until "Aplicar", which hands the filters back to the screen (the route params).
+ */
+export function TicketFilterSheet({ visible, filters, onApply, onClose }: TicketFilterSheetProps) {
+    const categories = useTicketStore((state) => state.categories);
+    const fetchCategories = useTicketStore((state) => state.fetchCategories);
+    const checkCompanyAreasEnabled = useTicketStore((state) => state.checkCompanyAreasEnabled);
+    const fetchAreas = useTicketStore((state) => state.fetchAreas);
+
+    const [draft, setDraft] = useState<TicketFilterValues>(filters);
+    const [companies, setCompanies] = useState<CompanyRef[]>([]);
+    const [areas, setAreas] = useState<Area[]>([]);
+    const [errors, setErrors] = useState<Partial<Record<DateRangeKey, string>>>({});
+
+    useEffect(() => {
+        if (!visible) return;
+        setDraft(filters);
+        setErrors({});
+        fetchCompanyDirectoryPage(1)
+            .then(({ data }) => setCompanies([...data].sort((a, b) => a.name.localeCompare(b.name))))
+            .catch((error) => console.error('Error loading companies:', error));
+    }, [visible]);
+
+    // Categories and areas depend on the company
+    useEffect(() => {
+        const companyId = draft.company_id;
+        setAreas([]);
+        if (!visible || !companyId) return;
+
+        fetchCategories(companyId).catch((error) => console.error('Error loading categories:', error));
+        checkCompanyAreasEnabled(companyId).then(async (enabled) => {
+            if (enabled) setAreas(await fetchAreas(companyId));
+        });
+    }, [visible, draft.company_id]);
+
+    const update = (changes: Partial<TicketFilterValues>) => setDraft((current) => ({ ...current, ...changes }));
+
+    const toggle = <K extends keyof TicketFilterValues>(key: K, value: TicketFilterValues[K]) =>
+        update({ [key]: draft[key] === value ? undefined : value } as Partial<TicketFilterValues>);
+
+    const selectCompany = (companyId: string) =>
+        update({
+            company_id: draft.company_id === companyId ? undefined : companyId,
+            category_id: undefined,
+            area_id: undefined,
+        });
+
+    const apply = () => {
+        const nextErrors = {
+            created: validateRange(draft.created_from, draft.created_to) ?? undefined,
+            updated: validateRange(draft.updated_from, draft.updated_to) ?? undefined,
+        };
+        setErrors(nextErrors);
+        if (nextErrors.created || nextErrors.updated) return;
+        onApply(removeEmpty(draft));
+        onClose();
+    };
+
+    // Status has its own pills on the screen, so "Limpiar" keeps it
+    const clear = () => setDraft({ status: draft.status });
+
+    const renderDateRange = (key: DateRangeKey) => {
+        const fromKey = `${key}_from` as const;
+        const toKey = `${key}_to` as const;
+        return (
+            <>
+                <View className="flex-row flex-wrap gap-2 mb-3">
+                    {RECENT_RANGE_OPTIONS.map((option) => {
+                        const from = daysAgo(option.days);
+                        return (
+                            <Chip
+                                key={option.days}
+                                label={option.label}
+                                isSelected={draft[fromKey] === from && !draft[toKey]}
+                                onPress={() => update({ [fromKey]: from, [toKey]: undefined })}
+                            />
+                        );
+                    })}
+                </View>
+                <View className="flex-row items-center gap-2">
+                    <DateInput value={draft[fromKey]} placeholder="Desde AAAA-MM-DD" onChangeText={(value) => update({ [fromKey]: value })} />
+                    <Text className="text-gray-400">–</Text>
+                    <DateInput value={draft[toKey]} placeholder="Hasta AAAA-MM-DD" onChangeText={(value) => update({ [toKey]: value })} />
+                </View>
+                {errors[key] && <Text className="text-red-600 text-xs mt-2">{errors[key]}</Text>}
+            </>
+        );
+    };
+
+    const sort = getSortOption(draft);
+
+    return (
+        <ActivityModal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+            <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} className="flex-1 justify-end bg-black/50">
+                <View className="bg-white rounded-t-3xl h-[85%]">
+                    <View className="px-6 pt-6 pb-4 border-b border-gray-100 flex-row items-center justify-between">
+                        <Text className="text-xl font-bold text-gray-900">Filtros</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <MaterialCommunityIcons name="close" size={24} color="#6b7280" />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView className="flex-1 px-6 pt-4" keyboardShouldPersistTaps="handled">
+                        <Section title="Empresa" note={CLIENT_FILTER_NOTE}>
+                            <View className="flex-row flex-wrap gap-2">
+                                {companies.map((company) => (
+                                    <Chip
+                                        key={company.id}
+                                        label={company.name}
+                                        isSelected={draft.company_id === company.id}
+                                        onPress={() => selectCompany(company.id)}
+                                    />
+                                ))}
+                            </View>
+                        </Section>
+
+                        <Section title="Prioridad" note={CLIENT_FILTER_NOTE}>
+                            <View className="flex-row flex-wrap gap-2">
+                                {PRIORITY_OPTIONS.map((option) => (
+                                    <Chip
+                                        key={option.id}
+                                        label={option.label}
+                                        isSelected={draft.priority === option.id}
+                                        onPress={() => toggle('priority', option.id)}
+                                    />
+                                ))}
+                            </View>
+                        </Section>
+
+                        {draft.company_id && categories.length > 0 && (
+                            <Section title="Categoría">
+                                <View className="flex-row flex-wrap gap-2">
+                                    {categories.map((category) => (
+                                        <Chip
+                                            key={category.id}
+                                            label={category.name}
+                                            isSelected={draft.category_id === category.id}
+                                            onPress={() => toggle('category_id', category.id)}
+                                        />
+                                    ))}
+                                </View>
+                            </Section>
+                        )}
+
+                        {draft.company_id && areas.length > 0 && (
+                            <Section title="Área" note={CLIENT_FILTER_NOTE}>
+                                <View className="flex-row flex-wrap gap-2">
+                                    {areas.map((area) => (
+                                        <Chip
+                                            key={area.id}
+                                            label={area.name}
+                                            isSelected={draft.area_id === area.id}
+                                            onPress={() => toggle('area_id', area.id)}
+                                        />
+                                    ))}
+                                </View>
+                            </Section>
+                        )}
+
+                        <Section title="Creado">{renderDateRange('created')}</Section>
+                        <Section title="Última actualización" note={CLIENT_FILTER_NOTE}>{renderDateRange('updated')}</Section>
+
+                        <Section title="Ordenar por">
+                            {SORT_OPTIONS.map((option) => (
+                                <TouchableOpacity
+                                    key={option.id}
+                                    onPress={() => update({ sort_by: option.sort_by, sort_order: option.sort_order })}
+                                    className="flex-row items-center py-2"
+                                >
+                                    <MaterialCommunityIcons
+                                        name={sort.id === option.id ? 'radiobox-marked' : 'radiobox-blank'}
+                                        size={20}
+                                        color={sort.id === option.id ? '#2563eb' : '#9ca3af'}
+                                    />
+                                    <Text className="ml-3 text-gray-900">{option.label}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </Section>
+                    </ScrollView>
+
+                    <View className="flex-row gap-3 px-6 pt-4 pb-10 border-t border-gray-100">
+                        <TouchableOpacity onPress={clear} className="flex-1 h-12 rounded-xl border border-gray-200 items-center justify-center">
+                            <Text className="text-gray-700 font-medium">Limpiar</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={apply} className="flex-1 h-12 rounded-xl bg-blue-600 items-center justify-center">
+                            <Text className="text-white font-bold">Aplicar</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </KeyboardAvoidingView>
+        </ActivityModal>
+    );
+}
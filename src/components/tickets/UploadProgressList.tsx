@@ -0,0 +1,72 @@
+import { View, Text, TouchableOpacity } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import clsx from 'clsx';
+import { UploadBatch, UploadItem, useUploadStore } from '@/stores/uploadStore';
+
+interface UploadProgressListProps {
+    batch: UploadBatch;
+    // Only the files that still need attention (failed or canceled)
+    onlyMissing?: boolean;
+}
+
+const STATUS_ICONS: Record<UploadItem['status'], keyof typeof MaterialCommunityIcons.glyphMap> = {
+    queued: 'clock-outline',
+    uploading: 'upload',
+    done: 'check-circle',
+    failed: 'alert-circle-outline',
+    canceled: 'cancel',
+};
+
+const fileLabel = (item: UploadItem, index: number) => item.file.fileName || `Archivo ${index + 1}`;
+
+/**
+ * One row per file of an upload batch with its progress bar; queued or
+ * uploading files can be canceled and failed ones retried one by one.
+ */
+export function UploadProgressList({ batch, onlyMissing = false }: UploadProgressListProps) {
+    const retry = useUploadStore((state) => state.retry);
+    const cancel = useUploadStore((state) => state.cancel);
+
+    return (
+        <View>
+            {batch.items.map((item, index) => {
+                if (onlyMissing && item.status !== 'failed' && item.status !== 'canceled') return null;
+                const isActive = item.status === 'queued' || item.status === 'uploading';
+                const isMissing = item.status === 'failed' || item.status === 'canceled';
+
+                return (
+                    <View key={item.id} className="py-2">
+                        <View className="flex-row items-center">
+                            <MaterialCommunityIcons
+                                name={STATUS_ICONS[item.status]}
+                                size={16}
+                                color={item.status === 'done' ? '#16a34a' : isMissing ? '#dc2626' : '#2563eb'}
+                            />
+                            <Text className="flex-1 ml-2 text-sm text-gray-800" numberOfLines={1}>{fileLabel(item, index)}</Text>
+                            {isActive && (
+                                <TouchableOpacity onPress={() => cancel(batch.id, item.id)} className="ml-2">
+                                    <Text className="text-xs font-bold text-gray-500">Cancelar</Text>
+                                </TouchableOpacity>
+                            )}
+                            {isMissing && (
+                                <TouchableOpacity onPress={() => retry(batch.id, [item.id])} className="ml-2">
+                                    <Text className="text-xs font-bold text-blue-600">Reintentar</Text>
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                        {isActive && (
+                            <View className="h-1 bg-gray-100 rounded-full overflow-hidden mt-1.5">
+                                <View className="h-full bg-blue-600 rounded-full" style={{ width: `${Math.round(item.progress * 100)}%` }} />
+                            </View>
+                        )}
+                        {isMissing && (
+                            <Text className={clsx('text-xs mt-0.5', item.status === 'failed' ? 'text-red-600' : 'text-gray-500')}>
+                                {item.status === 'failed' ? item.error : 'Cancelado'}
+                            </Text>
+                        )}
+                    </View>
+                );
+            })}
+        </View>
+    );
+}
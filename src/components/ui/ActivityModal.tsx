@@ -0,0 +1,22 @@
+import { Modal, ModalProps, View } from 'react-native';
+import { captureActivity } from '../../hooks/useInactivityTimeout';
+import { useAppLockStore } from '../../stores/appLockStore';
+
+/**
+ * Modal that counts touches inside it as activity for the inactivity timeout.
+ * A modal is its own native view tree, so the InactivityGuard around the app
+ * never sees them. Hidden while the app is locked, so a sheet opened behind the
+ * lock screen (a session check, a late callback) can't be drawn above it; it
+ * comes back on unlock.
+ */
+export function ActivityModal({ children, visible, ...props }: ModalProps) {
+    const isLocked = useAppLockStore((state) => state.enabled && state.isLocked);
+
+    return (
+        <Modal visible={(visible ?? true) && !isLocked} {...props}>
+            <View className="flex-1" onStartShouldSetResponderCapture={captureActivity}>
+                {children}
+            </View>
+        </Modal>
+    );
+}
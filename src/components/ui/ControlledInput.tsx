@@ -3,6 +3,7 @@ import { View, Text, TextInput, TextInputProps, TouchableOpacity } from 'react-n
 import { Controller, Control, FieldValues, Path } from 'react-hook-form';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import clsx from 'clsx';
+import { recordActivity } from '../../hooks/useInactivityTimeout';
 
 interface ControlledInputProps<T extends FieldValues> extends TextInputProps {
     control: Control<T>;
@@ -59,7 +60,11 @@ export function ControlledInput<T extends FieldValues>({
                                 setIsFocused(false);
                             }}
                             onFocus={() => setIsFocused(true)}
-                            onChangeText={onChange}
+                            onChangeText={(text) => {
+                                // Typing produces no touches for the inactivity timeout to see
+                                recordActivity();
+                                onChange(text);
+                            }}
                             placeholderTextColor="#9ca3af"
                             className="flex-1 text-base text-gray-900 h-full"
                             style={{ fontFamily: 'System' }}
@@ -1,9 +1,11 @@
 import React from 'react';
-import { TouchableOpacity, Text, View } from 'react-native';
+import { TouchableOpacity, Text, View, ActivityIndicator } from 'react-native';
 import Svg, { Path } from 'react-native-svg';
 
 interface GoogleButtonProps {
     onPress: () => void;
+    disabled?: boolean;
+    loading?: boolean;
 }
 
 // Custom Google Icon with all 4 colors
@@ -32,14 +34,15 @@ const GoogleIcon = ({ size = 24 }: { size?: number }) => (
     </Svg>
 );
 
-export const GoogleButton = ({ onPress }: GoogleButtonProps) => {
+export const GoogleButton = ({ onPress, disabled = false, loading = false }: GoogleButtonProps) => {
     return (
         <TouchableOpacity
             onPress={onPress}
-            className="flex-row items-center justify-center bg-white border border-gray-200 rounded-xl h-14 shadow-sm active:bg-gray-50 mb-4"
+            disabled={disabled || loading}
+            className={`flex-row items-center justify-center bg-white border border-gray-200 rounded-xl h-14 shadow-sm active:bg-gray-50 mb-4 ${disabled ? 'opacity-60' : ''}`}
         >
             <View className="mr-3">
-                <GoogleIcon size={24} />
+                {loading ? <ActivityIndicator color="#4285F4" /> : <GoogleIcon size={24} />}
             </View>
             <Text className="text-gray-700 font-bold text-base">
                 Continuar con Google
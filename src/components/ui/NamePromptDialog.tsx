@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform } from 'react-native';
+import clsx from 'clsx';
+import { ActivityModal } from './ActivityModal';
+import { recordActivity } from '../../hooks/useInactivityTimeout';
+
+interface NamePromptDialogProps {
+    visible: boolean;
+    title: string;
+    description?: string;
+    placeholder?: string;
+    initialValue?: string;
+    maxLength?: number;
+    onSubmit: (name: string) => void;
+    onClose: () => void;
+}
+
+// Cross-platform replacement for Alert.prompt (iOS only) to name something
+export function NamePromptDialog({
+    visible,
+    title,
+    description,
+    placeholder,
+    initialValue = '',
+    maxLength,
+    onSubmit,
+    onClose,
+}: NamePromptDialogProps) {
+    const [name, setName] = useState(initialValue);
+
+    useEffect(() => {
+        if (visible) setName(initialValue);
+    }, [visible]);
+
+    const submit = () => {
+        if (!name.trim()) return;
+        onSubmit(name.trim());
+        onClose();
+    };
+
+    return (
+        <ActivityModal visible={visible} animationType="fade" transparent={true} onRequestClose={onClose}>
+            <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} className="flex-1 justify-center bg-black/50 px-6">
+                <View className="bg-white rounded-2xl p-6">
+                    <Text className="text-lg font-bold text-gray-900 mb-1">{title}</Text>
+                    {description && <Text className="text-gray-500 text-sm mb-4">{description}</Text>}
+                    <TextInput
+                        value={name}
+                        onChangeText={setName}
+                        onChange={recordActivity}
+                        placeholder={placeholder}
+                        maxLength={maxLength}
+                        autoFocus
+                        onSubmitEditing={submit}
+                        className="bg-white border border-gray-200 rounded-lg px-3 h-11 text-gray-900"
+                    />
+                    <View className="flex-row justify-end gap-4 mt-6">
+                        <TouchableOpacity onPress={onClose}>
+                            <Text className="text-gray-600 font-medium">Cancelar</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={submit} disabled={!name.trim()}>
+                            <Text className={clsx('font-bold', name.trim() ? 'text-blue-600' : 'text-gray-300')}>Guardar</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </KeyboardAvoidingView>
+        </ActivityModal>
+    );
+}
@@ -1,11 +1,12 @@
 import { View, TextInput, TextInputProps, StyleProp, ViewStyle } from 'react-native';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { recordActivity } from '../../hooks/useInactivityTimeout';
 
 interface SearchInputProps extends TextInputProps {
     containerStyle?: StyleProp<ViewStyle>;
 }
 
-export function SearchInput({ containerStyle, style, ...props }: SearchInputProps) {
+export function SearchInput({ containerStyle, style, onChangeText, ...props }: SearchInputProps) {
     return (
         <View
             className="flex-row items-center bg-white border border-gray-200 rounded-xl px-3 h-12 shadow-sm"
@@ -16,6 +17,10 @@ export function SearchInput({ containerStyle, style, ...props }: SearchInputProp
                 placeholderTextColor="#9CA3AF"
                 className="flex-1 ml-2 text-base text-gray-900 h-full"
                 style={[{ fontFamily: 'System' }, style]}
+                onChangeText={(text) => {
+                    recordActivity();
+                    onChangeText?.(text);
+                }}
                 {...props}
             />
         </View>
@@ -0,0 +1,30 @@
+/**
+ * Most common passwords from public breach corpora, plus Spanish ones seen in
+ * our region. Compared after lowercasing and removing trailing digits and
+ * symbols, so "Password123!" matches "password". Bundled to work offline.
+ */
+export const COMMON_PASSWORDS = new Set([
+    '123456', '12345678', '123456789', '1234567890', '12345', '1234567', '111111', '000000',
+    '123123', '654321', '666666', '121212', '112233', '123321', '159753', '147258', '987654321',
+    'password', 'passw0rd', 'pass', 'contraseña', 'contrasena', 'clave', 'secreto', 'admin',
+    'administrator', 'administrador', 'root', 'toor', 'guest', 'invitado', 'user', 'usuario',
+    'login', 'welcome', 'bienvenido', 'letmein', 'changeme', 'default', 'test', 'prueba',
+    'qwerty', 'qwertyuiop', 'asdfgh', 'asdfghjkl', 'zxcvbn', 'zxcvbnm', 'qazwsx', 'qweasd',
+    'abc', 'abcd', 'abcdef', 'abcdefg', 'abc123', 'a1b2c3', 'aaaaaa', 'iloveyou', 'teamo',
+    'tequiero', 'amor', 'amoramor', 'miamor', 'princess', 'princesa', 'dragon', 'monkey',
+    'mono', 'master', 'shadow', 'sunshine', 'superman', 'batman', 'spiderman', 'pokemon',
+    'starwars', 'football', 'futbol', 'soccer', 'baseball', 'basketball', 'hockey', 'jordan',
+    'michael', 'jessica', 'charlie', 'daniel', 'andrea', 'carlos', 'alejandro', 'maria',
+    'mariana', 'jose', 'juan', 'luis', 'sofia', 'valentina', 'camila', 'martina', 'lucas',
+    'mateo', 'santiago', 'sebastian', 'nicolas', 'diego', 'gabriel', 'fernanda', 'isabella',
+    'hello', 'hola', 'holahola', 'freedom', 'whatever', 'trustno1', 'ninja', 'mustang',
+    'access', 'flower', 'hunter', 'ranger', 'buster', 'thomas', 'tigger', 'jennifer',
+    'killer', 'pepper', 'cheese', 'computer', 'internet', 'google', 'facebook', 'samsung',
+    'iphone', 'apple', 'microsoft', 'windows', 'linux', 'server', 'helpdesk', 'soporte',
+    'support', 'ticket', 'tickets', 'empresa', 'company', 'oficina', 'trabajo', 'work',
+    'secret', 'love', 'lovely', 'baby', 'bebe', 'angel', 'angelito', 'estrella', 'chocolate',
+    'naranja', 'manzana', 'perro', 'gato', 'america', 'mexico', 'colombia', 'argentina',
+    'peru', 'chile', 'bolivia', 'venezuela', 'ecuador', 'espana', 'barcelona', 'madrid',
+    'realmadrid', 'boca', 'river', 'summer', 'winter', 'verano', 'invierno', 'monday',
+    'lunes', 'enero', 'january', 'qwerty123', '1q2w3e4r', '1q2w3e', 'zaq12wsx', '1qaz2wsx',
+]);
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+/**
+ * Build-time configuration, validated once at startup so a missing or
+ * malformed variable fails loudly instead of sending requests to "undefined".
+ *
+ * Expo only inlines EXPO_PUBLIC_* variables accessed statically, so each one
+ * is read by name below.
+ */
+
+const apiUrlSchema = z
+    .string()
+    .trim()
+    .url('debe ser una URL válida')
+    .refine((url) => /^https?:\/\//.test(url), 'debe usar http o https')
+    .transform((url) => url.replace(/\/+$/, ''));
+
+const configSchema = z.object({
+    apiUrl: apiUrlSchema,
+    // Optional: enables the "staging" option in the environment switcher
+    stagingApiUrl: apiUrlSchema.optional(),
+    // Enables the in-app mock backend outside development builds (QA builds)
+    enableMockApi: z.boolean(),
+    // OAuth client ids per platform; Google sign-in is hidden where missing
+    googleClientIds: z.object({
+        web: z.string().trim().min(1).optional(),
+        ios: z.string().trim().min(1).optional(),
+        android: z.string().trim().min(1).optional(),
+    }),
+});
+
+export type AppConfig = z.output<typeof configSchema>;
+
+const parseConfig = (): AppConfig => {
+    const result = configSchema.safeParse({
+        apiUrl: process.env.EXPO_PUBLIC_API_URL,
+        stagingApiUrl: process.env.EXPO_PUBLIC_STAGING_API_URL || undefined,
+        enableMockApi: process.env.EXPO_PUBLIC_ENABLE_MOCK_API === 'true',
+        googleClientIds: {
+            web: process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID || undefined,
+            ios: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID || undefined,
+            android: process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID || undefined,
+        },
+    });
+
+    if (!result.success) {
+        const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+        throw new Error(`Invalid app configuration (check EXPO_PUBLIC_* variables): ${issues}`);
+    }
+    return result.data;
+};
+
+export const config = parseConfig();
+
+// Normalizes a user-typed server URL; returns null when it is not usable
+export const parseApiUrl = (value: string): string | null => {
+    const result = apiUrlSchema.safeParse(value);
+    return result.success ? result.data : null;
+};
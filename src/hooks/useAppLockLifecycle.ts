@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { useAppLockStore } from '../stores/appLockStore';
+
+/**
+ * Feeds AppState into the app lock: time spent in the background decides
+ * whether to lock on return. Returns true while the app is not in the
+ * foreground (app switcher, incoming call), when content should be hidden.
+ */
+export const useAppLockLifecycle = () => {
+    const [isObscured, setIsObscured] = useState(AppState.currentState !== 'active');
+
+    useEffect(() => {
+        const subscription = AppState.addEventListener('change', (state) => {
+            setIsObscured(state !== 'active');
+            // "inactive" alone (iOS app switcher, Face ID prompt) only hides the content
+            if (state === 'background') useAppLockStore.getState().onBackground();
+            if (state === 'active') useAppLockStore.getState().onForeground();
+        });
+        return () => subscription.remove();
+    }, []);
+
+    return isObscured;
+};
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as ImagePicker from 'expo-image-picker';
+import { AttachmentLimits } from '../types/company';
+import { UploadableFile } from '../services/api/uploads';
+import { DEFAULT_ATTACHMENT_LIMITS, prepareAttachments } from '../services/attachments/prepare';
+import { useTicketStore } from '../stores/ticketStore';
+import { logger } from '../utils/logger';
+
+/**
+ * Picks attachments for a ticket of `companyId` and runs them through the
+ * preprocessing pipeline (type and size limits of the company, image resize,
+ * metadata removal). Rejected files are left out and described in `errors`
+ * until the next pick or `clearErrors`.
+ */
+export const useAttachmentPicker = (
+    companyId: string | null,
+    mediaTypes: ImagePicker.ImagePickerOptions['mediaTypes'] = ImagePicker.MediaTypeOptions.Images
+) => {
+    const fetchAttachmentLimits = useTicketStore((state) => state.fetchAttachmentLimits);
+    const [limits, setLimits] = useState<AttachmentLimits>(DEFAULT_ATTACHMENT_LIMITS);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [isPreparing, setIsPreparing] = useState(false);
+    // A pick right after choosing the company waits for its limits instead of using the defaults
+    const limitsRequest = useRef<Promise<AttachmentLimits>>(Promise.resolve(DEFAULT_ATTACHMENT_LIMITS));
+
+    useEffect(() => {
+        let isCurrent = true;
+        const request = companyId ? fetchAttachmentLimits(companyId) : Promise.resolve(DEFAULT_ATTACHMENT_LIMITS);
+        limitsRequest.current = request;
+        request.then((next) => isCurrent && setLimits(next));
+        return () => {
+            isCurrent = false;
+        };
+    }, [companyId, fetchAttachmentLimits]);
+
+    const pick = useCallback(async (): Promise<UploadableFile[]> => {
+        const result = await ImagePicker.launchImageLibraryAsync({
+            mediaTypes,
+            allowsMultipleSelection: true,
+            // Images are recompressed once, by the pipeline
+            quality: 1,
+        });
+        if (result.canceled) return [];
+
+        setIsPreparing(true);
+        setErrors([]);
+        try {
+            const prepared = await prepareAttachments(result.assets, await limitsRequest.current);
+            setErrors(prepared.errors);
+            return prepared.files;
+        } catch (error) {
+            logger.error('Error preparing attachments', error, 'Attachments');
+            setErrors(['No se pudieron procesar los archivos seleccionados.']);
+            return [];
+        } finally {
+            setIsPreparing(false);
+        }
+    }, [mediaTypes]);
+
+    const clearErrors = useCallback(() => setErrors([]), []);
+
+    return { pick, limits, errors, clearErrors, isPreparing };
+};
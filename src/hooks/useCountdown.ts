@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+
+const secondsUntil = (target: number | null) =>
+    target === null ? 0 : Math.max(0, Math.ceil((target - Date.now()) / 1000));
+
+/**
+ * Seconds left until `target` (epoch ms), updated every second and 0 once it
+ * passed or when there is no target. Computed from the clock, so it stays
+ * right after the app was in the background.
+ *
+ * @example
+ * ```tsx
+ * const [resendAt, setResendAt] = useState<number | null>(null);
+ * const secondsLeft = useCountdown(resendAt);
+ * <Button disabled={secondsLeft > 0}>Reenviar {secondsLeft > 0 && `(${secondsLeft}s)`}</Button>
+ * ```
+ */
+export const useCountdown = (target: number | null) => {
+    const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(target));
+
+    useEffect(() => {
+        setSecondsLeft(secondsUntil(target));
+        if (secondsUntil(target) === 0) return;
+
+        const interval = setInterval(() => {
+            const left = secondsUntil(target);
+            setSecondsLeft(left);
+            if (left === 0) clearInterval(interval);
+        }, 1000);
+        return () => clearInterval(interval);
+    }, [target]);
+
+    return secondsLeft;
+};
+
+// 75 → "1:15"
+export const formatCountdown = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Returns `value` once it stopped changing for `delay` ms. Effects that fetch
+ * on the debounced value run once per pause instead of once per keystroke.
+ *
+ * @example
+ * ```tsx
+ * const debouncedQuery = useDebouncedValue(searchQuery);
+ * useEffect(() => { fetchArticles({ search: debouncedQuery }); }, [debouncedQuery]);
+ * ```
+ */
+export const useDebouncedValue = <T>(value: T, delay: number = 500): T => {
+    const [debounced, setDebounced] = useState(value);
+
+    useEffect(() => {
+        const timeout = setTimeout(() => setDebounced(value), delay);
+        return () => clearTimeout(timeout);
+    }, [value, delay]);
+
+    return debounced;
+};
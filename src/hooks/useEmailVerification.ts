@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { api } from '../services/api/endpoints';
+import { ApiError, isCanceledError } from '../services/api/errors';
+import { EmailStatus } from '../services/api/decoders/auth';
+import { useAuthStore } from '../stores/authStore';
+import { useCountdown } from './useCountdown';
+import { logger } from '../utils/logger';
+
+const POLL_INTERVAL_MS = 10000;
+// Used when the backend does not say when the next resend is allowed
+const DEFAULT_RESEND_COOLDOWN_MS = 60 * 1000;
+// Resend is limited to 3 attempts every 5 minutes
+const RATE_LIMIT_COOLDOWN_MS = 5 * 60 * 1000;
+
+const parseTimestamp = (value?: string | null) => {
+    const time = value ? Date.parse(value) : NaN;
+    return Number.isNaN(time) ? null : time;
+};
+
+// Both endpoints answer 200 with success: false instead of an error status
+const rejected = (message: string | null | undefined, code: string) =>
+    new ApiError({ message: message ?? '', status: 422, code, hasServerMessage: !!message });
+
+/**
+ * Email verification state for the signed-in user: checks the code, resends
+ * the email with a cooldown and polls GET /api/auth/email/status while the
+ * app is in the foreground, so a link opened on another device also counts.
+ * Verification is reflected in authStore (`user.emailVerified`).
+ */
+export const useEmailVerification = () => {
+    const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+    const isVerified = useAuthStore((state) => state.user?.emailVerified ?? false);
+    const markEmailVerified = useAuthStore((state) => state.markEmailVerified);
+
+    const [status, setStatus] = useState<EmailStatus | null>(null);
+    const [resendAt, setResendAt] = useState<number | null>(null);
+    const [isVerifying, setIsVerifying] = useState(false);
+    const [isResending, setIsResending] = useState(false);
+    const resendSecondsLeft = useCountdown(resendAt);
+    const isPolling = useRef(false);
+
+    const applyStatus = useCallback((next: EmailStatus) => {
+        setStatus(next);
+        if (next.isVerified) {
+            markEmailVerified(next.verifiedAt);
+            return;
+        }
+        if (next.canResend === false) {
+            setResendAt(parseTimestamp(next.resendAvailableAt) ?? Date.now() + DEFAULT_RESEND_COOLDOWN_MS);
+        }
+    }, [markEmailVerified]);
+
+    useEffect(() => {
+        // Status needs a session; a link opened while signed out can still verify
+        if (!isAuthenticated || isVerified) return;
+        const controller = new AbortController();
+
+        const poll = async () => {
+            if (isPolling.current || AppState.currentState !== 'active') return;
+            isPolling.current = true;
+            try {
+                applyStatus(await api.auth.emailStatus(controller.signal));
+            } catch (error) {
+                if (!isCanceledError(error)) logger.warn('Could not check email verification status', error, 'Auth');
+            } finally {
+                isPolling.current = false;
+            }
+        };
+
+        poll();
+        const interval = setInterval(poll, POLL_INTERVAL_MS);
+        // Coming back from the mail app is the most likely moment to be verified
+        const subscription = AppState.addEventListener('change', (state) => {
+            if (state === 'active') poll();
+        });
+
+        return () => {
+            clearInterval(interval);
+            subscription.remove();
+            controller.abort();
+        };
+    }, [isAuthenticated, isVerified, applyStatus]);
+
+    // Resolves with the backend message; throws when the code is rejected
+    const verify = async (token: string) => {
+        setIsVerifying(true);
+        try {
+            const result = await api.auth.verifyEmail(token.trim());
+            if (!result.success) throw rejected(result.message, 'INVALID_VERIFICATION_TOKEN');
+            if (isAuthenticated) markEmailVerified();
+            return result.message ?? '¡Correo verificado!';
+        } finally {
+            setIsVerifying(false);
+        }
+    };
+
+    const resend = async () => {
+        setIsResending(true);
+        try {
+            const result = await api.auth.resendVerificationEmail();
+            setResendAt(parseTimestamp(result.resendAvailableAt) ?? Date.now() + DEFAULT_RESEND_COOLDOWN_MS);
+            if (!result.success) throw rejected(result.message, 'RESEND_NOT_AVAILABLE');
+            return result.message ?? 'Te enviamos un nuevo correo de verificación';
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 429) {
+                setResendAt(Date.now() + RATE_LIMIT_COOLDOWN_MS);
+            }
+            throw error;
+        } finally {
+            setIsResending(false);
+        }
+    };
+
+    return {
+        isAuthenticated,
+        isVerified,
+        email: status?.email ?? null,
+        attemptsRemaining: status?.attemptsRemaining ?? null,
+        verify,
+        isVerifying,
+        resend,
+        isResending,
+        resendSecondsLeft,
+    };
+};
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { Alert, Platform } from 'react-native';
+import * as Google from 'expo-auth-session/providers/google';
+import * as WebBrowser from 'expo-web-browser';
+import { config } from '../constants/config';
+import { useAuthStore } from '../stores/authStore';
+import { ApiError, getErrorMessage } from '../services/api/errors';
+import { logger } from '../utils/logger';
+
+// Closes the auth popup when the app is reopened through the redirect (web)
+WebBrowser.maybeCompleteAuthSession();
+
+// expo-auth-session throws when the client id of the running platform is missing
+export const isGoogleSignInConfigured = () => {
+    const { web, ios, android } = config.googleClientIds;
+    return !!Platform.select({ ios, android, default: web });
+};
+
+/**
+ * Google sign-in: opens the Google consent screen, then exchanges the ID token
+ * with the backend through authStore.loginWithGoogle. Only call it when
+ * `isGoogleSignInConfigured()` is true.
+ *
+ * @example
+ * ```tsx
+ * const { signIn, isReady, isSigningIn } = useGoogleSignIn(returnTo);
+ * <GoogleButton onPress={signIn} disabled={!isReady} loading={isSigningIn} />
+ * ```
+ */
+export const useGoogleSignIn = (returnTo?: string) => {
+    const loginWithGoogle = useAuthStore((state) => state.loginWithGoogle);
+    const [isSigningIn, setIsSigningIn] = useState(false);
+
+    const [request, response, promptAsync] = Google.useIdTokenAuthRequest({
+        webClientId: config.googleClientIds.web,
+        iosClientId: config.googleClientIds.ios,
+        androidClientId: config.googleClientIds.android,
+        selectAccount: true,
+    });
+
+    useEffect(() => {
+        if (!response) return;
+
+        if (response.type === 'error') {
+            logger.warn('Google sign-in failed', response.error, 'Auth');
+            setIsSigningIn(false);
+            Alert.alert('Error', 'No se pudo iniciar sesión con Google');
+            return;
+        }
+        if (response.type !== 'success') {
+            // Dismissed or cancelled by the user
+            setIsSigningIn(false);
+            return;
+        }
+
+        const idToken = response.params.id_token;
+        if (!idToken) {
+            logger.warn('Google sign-in returned no ID token', response.params, 'Auth');
+            setIsSigningIn(false);
+            Alert.alert('Error', 'Google no devolvió una credencial válida');
+            return;
+        }
+
+        // Navigation is handled by the store
+        loginWithGoogle(idToken, returnTo)
+            .catch((error) => {
+                const message = error instanceof ApiError && error.status === 501
+                    ? 'El inicio de sesión con Google aún no está disponible'
+                    : getErrorMessage(error, 'No se pudo iniciar sesión con Google');
+                Alert.alert('Error', message);
+            })
+            .finally(() => setIsSigningIn(false));
+    }, [response]);
+
+    const signIn = async () => {
+        setIsSigningIn(true);
+        try {
+            await promptAsync();
+        } catch (error) {
+            logger.error('Could not open Google sign-in', error, 'Auth');
+            setIsSigningIn(false);
+            Alert.alert('Error', 'No se pudo abrir el inicio de sesión de Google');
+        }
+    };
+
+    return { signIn, isReady: !!request, isSigningIn };
+};
@@ -0,0 +1,27 @@
+import { useCallback, useRef } from 'react';
+
+/**
+ * Calls `onTrigger` after `taps` consecutive taps, each within `windowMs` of
+ * the previous one. Used for QA-only screens that should stay out of sight.
+ *
+ * @example
+ * ```tsx
+ * const onVersionPress = useHiddenTrigger(() => setShowSwitcher(true));
+ * <Text onPress={onVersionPress}>Versión 1.0.0</Text>
+ * ```
+ */
+export const useHiddenTrigger = (onTrigger: () => void, taps: number = 7, windowMs: number = 1500) => {
+    const count = useRef(0);
+    const lastTap = useRef(0);
+
+    return useCallback(() => {
+        const now = Date.now();
+        count.current = now - lastTap.current <= windowMs ? count.current + 1 : 1;
+        lastTap.current = now;
+
+        if (count.current >= taps) {
+            count.current = 0;
+            onTrigger();
+        }
+    }, [onTrigger, taps, windowMs]);
+};
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Alert, AppState, Keyboard } from 'react-native';
+import { useAuthStore } from '../stores/authStore';
+import { IDLE_WARNING_SECONDS, lastActivityStorage, useInactivityStore } from '../stores/inactivityStore';
+import { useCountdown } from './useCountdown';
+
+const CHECK_INTERVAL_MS = 5000;
+// Touches come in bursts: the stored time may lag by this much (going to the background saves it exactly)
+const SAVE_INTERVAL_MS = 15000;
+
+// Module-level so inputs and modals outside the guard's view tree can report activity too
+let lastActivityAt = Date.now();
+let lastSavedAt = 0;
+let isWarningShown = false;
+
+const touch = () => {
+    lastActivityAt = Date.now();
+    if (lastActivityAt - lastSavedAt < SAVE_INTERVAL_MS) return;
+    lastSavedAt = lastActivityAt;
+    lastActivityStorage.save(lastActivityAt);
+};
+
+/**
+ * Resets the idle timer. Called for touches on the app and inside modals, and
+ * for typing, which produces no touches. While the warning is up it does
+ * nothing: only "Seguir conectado" dismisses it.
+ */
+export const recordActivity = () => {
+    if (!isWarningShown) touch();
+};
+
+// For `onStartShouldSetResponderCapture`: sees every touch start without taking the responder
+export const captureActivity = () => {
+    recordActivity();
+    return false;
+};
+
+/**
+ * Signs the user out after the configured time without interaction. Activity
+ * reported through `recordActivity` resets the timer; time in the background
+ * counts as idle. Shortly before the deadline a warning counts down
+ * (`warningSecondsLeft`) until `stayActive` is called or the time runs out.
+ */
+export const useInactivityTimeout = () => {
+    const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+    const logout = useAuthStore((state) => state.logout);
+    const timeoutMinutes = useInactivityStore((state) => state.timeoutMinutes);
+    const revokeServerSession = useInactivityStore((state) => state.revokeServerSession);
+
+    const [deadline, setDeadline] = useState<number | null>(null);
+    const warningSecondsLeft = useCountdown(deadline);
+    const isSigningOut = useRef(false);
+
+    const isActive = isAuthenticated && timeoutMinutes > 0;
+
+    const signOut = useCallback(async () => {
+        if (isSigningOut.current) return;
+        isSigningOut.current = true;
+        setDeadline(null);
+        try {
+            // A shared device must not fall through to another stored account
+            await logout(false, { revokeSession: revokeServerSession, allAccounts: true });
+            Alert.alert('Sesión cerrada', 'Cerramos tu sesión por inactividad.');
+        } finally {
+            isSigningOut.current = false;
+        }
+    }, [logout, revokeServerSession]);
+
+    useEffect(() => {
+        isWarningShown = deadline !== null;
+    }, [deadline]);
+
+    const stayActive = useCallback(() => {
+        isWarningShown = false;
+        touch();
+        setDeadline(null);
+    }, []);
+
+    // A fresh session (or a new policy) starts the timer from now. A restored one
+    // was already checked against the stored time by checkAuth.
+    useEffect(() => {
+        isWarningShown = false;
+        lastSavedAt = 0;
+        touch();
+        setDeadline(null);
+    }, [isAuthenticated, timeoutMinutes]);
+
+    useEffect(() => {
+        if (!isActive) return;
+        const timeoutMs = timeoutMinutes * 60 * 1000;
+
+        const check = () => {
+            const expiresAt = lastActivityAt + timeoutMs;
+            const now = Date.now();
+            if (now >= expiresAt) {
+                signOut();
+            } else if (now >= expiresAt - IDLE_WARNING_SECONDS * 1000) {
+                setDeadline((current) => current ?? expiresAt);
+            }
+        };
+
+        const interval = setInterval(check, CHECK_INTERVAL_MS);
+        // Timers do not run in the background: check as soon as the app returns
+        const subscription = AppState.addEventListener('change', (state) => {
+            if (state === 'active') check();
+            // The app may be killed from the background: leave the exact time behind
+            if (state === 'background') lastActivityStorage.save(lastActivityAt);
+        });
+        const keyboard = Keyboard.addListener('keyboardDidShow', recordActivity);
+        return () => {
+            clearInterval(interval);
+            subscription.remove();
+            keyboard.remove();
+        };
+    }, [isActive, timeoutMinutes, signOut]);
+
+    useEffect(() => {
+        // The countdown reads 0 for a render before it starts, so check the clock too
+        if (deadline !== null && warningSecondsLeft === 0 && Date.now() >= deadline) signOut();
+    }, [deadline, warningSecondsLeft, signOut]);
+
+    return {
+        isWarningVisible: isActive && deadline !== null,
+        warningSecondsLeft,
+        stayActive,
+        signOut,
+    };
+};
@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { useOutboxStore } from '@/stores/outboxStore';
+import { useTicketStore } from '@/stores/ticketStore';
+import { logger } from '@/utils/logger';
+
+/**
+ * Replays the offline outbox whenever connectivity comes back or the app returns
+ * to the foreground, then refreshes the ticket data that the replay touched.
+ *
+ * Mount once inside the authenticated layout.
+ */
+export const useOutboxSync = () => {
+    useEffect(() => {
+        const flush = async () => {
+            if (useOutboxStore.getState().items.every((item) => item.status !== 'pending')) return;
+
+            const { sent } = await useOutboxStore.getState().flush();
+            if (sent.length === 0) return;
+
+            const ticketStore = useTicketStore.getState();
+            try {
+                if (sent.some((item) => item.kind === 'ticket')) {
+                    await ticketStore.fetchTickets(undefined, { force: true });
+                }
+
+                const currentCode = ticketStore.currentTicket?.ticketCode;
+                if (currentCode && sent.some((item) => item.ticketCode === currentCode)) {
+                    await ticketStore.fetchTicketResponses(currentCode, { force: true });
+                }
+            } catch (error) {
+                logger.warn('Could not refresh tickets after outbox flush', error, 'Outbox');
+            }
+        };
+
+        // Queue persisted from a previous session
+        const unsubscribeHydration = useOutboxStore.persist.onFinishHydration(() => flush());
+        if (useOutboxStore.persist.hasHydrated()) flush();
+
+        let wasConnected: boolean | null = null;
+        const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+            const connected = state.isConnected !== false && state.isInternetReachable !== false;
+            if (connected && wasConnected === false) {
+                logger.info('Connectivity restored, flushing outbox', null, 'Outbox');
+                flush();
+            }
+            wasConnected = connected;
+        });
+
+        const appStateSubscription = AppState.addEventListener('change', (nextState) => {
+            if (nextState === 'active') flush();
+        });
+
+        return () => {
+            unsubscribeHydration();
+            unsubscribeNetInfo();
+            appStateSubscription.remove();
+        };
+    }, []);
+};
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { api } from '../services/api/endpoints';
+import { ApiError } from '../services/api/errors';
+import { useCountdown } from './useCountdown';
+
+const RESEND_COOLDOWN_MS = 60 * 1000;
+// Requests are limited to 3 emails every 5 minutes
+const RATE_LIMIT_COOLDOWN_MS = 5 * 60 * 1000;
+// Codes are valid for an hour; the link's status says exactly when it expires
+const CODE_TTL_MS = 60 * 60 * 1000;
+
+const parseTimestamp = (value?: string | null) => {
+    const time = value ? Date.parse(value) : NaN;
+    return Number.isNaN(time) ? null : time;
+};
+
+interface ConfirmPasswordResetInput {
+    code?: string;
+    password: string;
+    passwordConfirmation: string;
+}
+
+/**
+ * State of a password reset while signed out: sends the email (with a resend
+ * cooldown), checks a link token with GET /api/auth/password-reset/status and
+ * confirms the new password with either that token or the 6-digit code.
+ */
+export const usePasswordReset = () => {
+    const [email, setEmail] = useState('');
+    const [token, setToken] = useState<string | null>(null);
+    const [expiresAt, setExpiresAt] = useState<number | null>(null);
+    const [resendAt, setResendAt] = useState<number | null>(null);
+    const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(null);
+    const [isSending, setIsSending] = useState(false);
+    const [isChecking, setIsChecking] = useState(false);
+    const [isConfirming, setIsConfirming] = useState(false);
+    const expiresInSeconds = useCountdown(expiresAt);
+    const resendSecondsLeft = useCountdown(resendAt);
+
+    const send = async (address: string) => {
+        setIsSending(true);
+        try {
+            await api.auth.requestPasswordReset(address);
+            setEmail(address);
+            setToken(null);
+            setExpiresAt(Date.now() + CODE_TTL_MS);
+            setResendAt(Date.now() + RESEND_COOLDOWN_MS);
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 429) {
+                setResendAt(Date.now() + RATE_LIMIT_COOLDOWN_MS);
+            }
+            throw error;
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const resend = () => send(email);
+
+    // Resolves false when the link is unknown, already used or expired
+    const checkToken = async (value: string, signal?: AbortSignal) => {
+        setIsChecking(true);
+        try {
+            const status = await api.auth.passwordResetStatus(value, signal);
+            if (!status.isValid || status.canReset === false) return false;
+            setToken(value);
+            if (status.email) setEmail(status.email);
+            setExpiresAt(parseTimestamp(status.expiresAt) ?? Date.now() + CODE_TTL_MS);
+            setAttemptsRemaining(status.attemptsRemaining ?? null);
+            return true;
+        } catch (error) {
+            if (error instanceof ApiError && (error.status === 404 || error.status === 410)) return false;
+            throw error;
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    const confirm = async ({ code, password, passwordConfirmation }: ConfirmPasswordResetInput) => {
+        setIsConfirming(true);
+        try {
+            await api.auth.confirmPasswordReset(
+                token ? { token, password, passwordConfirmation } : { email, code, password, passwordConfirmation }
+            );
+        } finally {
+            setIsConfirming(false);
+        }
+    };
+
+    return {
+        email,
+        token,
+        // The countdown reads 0 for a render before it starts
+        isExpired: expiresAt !== null && Date.now() >= expiresAt,
+        expiresInSeconds,
+        attemptsRemaining,
+        send,
+        isSending,
+        resend,
+        resendSecondsLeft,
+        checkToken,
+        isChecking,
+        confirm,
+        isConfirming,
+    };
+};
@@ -1,4 +1,23 @@
 import { z } from 'zod';
+import { evaluatePassword, PasswordContext } from '../utils/passwordStrength';
+
+// Rejects what the strength evaluator scores as very weak (common passwords,
+// the user's own name or email), on top of the length and character rules
+export const checkPasswordStrength = (
+    password: string,
+    context: PasswordContext,
+    ctx: z.RefinementCtx,
+    path: string
+) => {
+    const { isTooWeak, warnings } = evaluatePassword(password, context);
+    if (isTooWeak) {
+        ctx.addIssue({
+            code: 'custom',
+            message: warnings[0] ? `Contraseña muy débil: ${warnings[0].toLowerCase()}` : 'Contraseña muy débil',
+            path: [path],
+        });
+    }
+};
 
 export const loginSchema = z.object({
     email: z.string().email('Email inválido'),
@@ -8,6 +27,12 @@ export const loginSchema = z.object({
 
 export type LoginFormData = z.infer<typeof loginSchema>;
 
+export const reauthSchema = z.object({
+    password: z.string().min(1, 'Ingresa tu contraseña'),
+});
+
+export type ReauthFormData = z.infer<typeof reauthSchema>;
+
 export const registerSchema = z.object({
     email: z.string().email('Email inválido'),
     password: z.string()
@@ -27,6 +52,8 @@ export const registerSchema = z.object({
 }).refine((data) => data.password === data.confirmPassword, {
     message: "Las contraseñas no coinciden",
     path: ["confirmPassword"],
+}).superRefine((data, ctx) => {
+    checkPasswordStrength(data.password, { email: data.email, firstName: data.firstName, lastName: data.lastName }, ctx, 'password');
 });
 
 export type RegisterFormData = z.infer<typeof registerSchema>;
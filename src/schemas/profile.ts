@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { checkPasswordStrength } from './auth';
+import { PasswordContext } from '../utils/passwordStrength';
 
 export const profileSchema = z.object({
     firstName: z.string().min(2, 'Mínimo 2 caracteres'),
@@ -8,7 +10,8 @@ export const profileSchema = z.object({
 
 export type ProfileFormData = z.infer<typeof profileSchema>;
 
-export const passwordChangeSchema = z.object({
+// context: the signed-in user, whose name and email the new password must avoid
+export const createPasswordChangeSchema = (context: PasswordContext = {}) => z.object({
     currentPassword: z.string().min(1, 'Requerido'),
     newPassword: z.string()
         .min(8, 'Mínimo 8 caracteres')
@@ -19,6 +22,10 @@ export const passwordChangeSchema = z.object({
 }).refine((data) => data.newPassword === data.confirmNewPassword, {
     message: "Las contraseñas no coinciden",
     path: ["confirmNewPassword"],
+}).superRefine((data, ctx) => {
+    checkPasswordStrength(data.newPassword, context, ctx, 'newPassword');
 });
 
+export const passwordChangeSchema = createPasswordChangeSchema();
+
 export type PasswordChangeFormData = z.infer<typeof passwordChangeSchema>;
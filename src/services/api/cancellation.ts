@@ -0,0 +1,53 @@
+/**
+ * Latest-wins cancellation for requests whose parameters change quickly
+ * (search boxes, filter pills): starting a request aborts the previous one,
+ * so a slow response for an old query can never replace newer results.
+ *
+ * @example
+ * const searchRequest = createLatestRequest();
+ * const signal = searchRequest.start(options.signal);
+ * const results = await api.helpCenter.articles(query, signal);
+ * if (searchRequest.isCurrent(signal)) set({ articles: results });
+ */
+type LatestRequest = ReturnType<typeof createLatestRequest>;
+
+const latestRequests = new Set<LatestRequest>();
+
+export const createLatestRequest = () => {
+    let current: AbortController | null = null;
+
+    const request = {
+        // `external` (e.g. the screen's unmount signal) also aborts the new request
+        start: (external?: AbortSignal): AbortSignal => {
+            current?.abort();
+            const controller = new AbortController();
+            current = controller;
+
+            if (external?.aborted) {
+                controller.abort();
+            } else {
+                external?.addEventListener('abort', () => controller.abort());
+            }
+            return controller.signal;
+        },
+
+        // Results for `signal` may still be applied
+        isCurrent: (signal: AbortSignal) => current?.signal === signal && !signal.aborted,
+
+        // A newer request replaced this one (and now owns the loading state)
+        isSuperseded: (signal: AbortSignal) => current?.signal !== signal,
+
+        // Aborts the request in flight; its signal is no longer current, so its results are dropped
+        cancel: () => {
+            current?.abort();
+            current = null;
+        },
+    };
+    latestRequests.add(request);
+    return request;
+};
+
+// On account change: nothing requested for the previous account may still be applied
+export const cancelLatestRequests = () => {
+    latestRequests.forEach((request) => request.cancel());
+};
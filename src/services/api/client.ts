@@ -1,12 +1,15 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { tokenStorage } from '../storage/tokenStorage';
-import { router } from 'expo-router';
 import { logger } from '../../utils/logger';
-
-const BASE_URL = process.env.EXPO_PUBLIC_API_URL;
-
+import { tokenRefresh } from './tokenRefresh';
+import { reauth } from './reauth';
+import { attachRetry } from './retry';
+import { ApiError } from './errors';
+import { getApiUrl, whenEnvironmentReady } from '../../stores/environmentStore';
+import { adapterFor } from './mock/server';
+
+// baseURL is resolved per request: the active environment can change at runtime
 export const client = axios.create({
-    baseURL: BASE_URL,
     headers: {
         'Content-Type': 'application/json',
     },
@@ -16,6 +19,13 @@ export const client = axios.create({
 // Request Interceptor
 client.interceptors.request.use(
     async (config: InternalAxiosRequestConfig) => {
+        await whenEnvironmentReady();
+        config.baseURL = getApiUrl();
+        config.adapter = adapterFor(config.baseURL) ?? config.adapter;
+
+        // Hold the request while the token is being refreshed (or is about to expire)
+        await tokenRefresh.ensureFresh();
+
         const token = await tokenStorage.getAccessToken();
         if (token) {
             config.headers.Authorization = `Bearer ${token}`;
@@ -42,6 +52,9 @@ interface RetryQueueItem {
     config: InternalAxiosRequestConfig;
 }
 
+// A 401 here means wrong credentials, not an expired token
+const NO_REFRESH_URLS = ['/api/auth/login', '/api/auth/register', '/api/auth/refresh'];
+
 let isRefreshing = false;
 let failedQueue: RetryQueueItem[] = [];
 
@@ -77,7 +90,9 @@ client.interceptors.response.use(
             message: error.message
         }, 'API');
 
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        const isCredentialsRequest = NO_REFRESH_URLS.some((url) => originalRequest?.url?.startsWith(url));
+
+        if (error.response?.status === 401 && !originalRequest._retry && !isCredentialsRequest) {
             if (isRefreshing) {
                 return new Promise(function (resolve, reject) {
                     failedQueue.push({ resolve, reject, config: originalRequest });
@@ -89,25 +104,11 @@ client.interceptors.response.use(
 
             try {
                 console.log('🔄 Auto-refresh triggered (401)...');
-                const response = await axios.post(`${BASE_URL}/api/auth/refresh`, {}, {
-                    withCredentials: true,
-                });
-
-                console.log('🔄 Auto-refresh response:', JSON.stringify(response.data, null, 2));
+                const newAccessToken = await tokenRefresh.refresh();
 
-                const { data } = response.data;
-                const newAccessToken = data?.accessToken || response.data.accessToken;
-
-                if (newAccessToken) {
-                    await tokenStorage.setAccessToken(newAccessToken);
-                    client.defaults.headers.common['Authorization'] = `Bearer ${newAccessToken}`;
-                    processQueue(null, newAccessToken);
-                    console.log('✅ Auto-refresh successful');
-                    return client(originalRequest);
-                } else {
-                    console.error('❌ No access token in auto-refresh response:', response.data);
-                    throw new Error("No access token in refresh response");
-                }
+                processQueue(null, newAccessToken);
+                console.log('✅ Auto-refresh successful');
+                return client(originalRequest);
 
             } catch (refreshError: any) {
                 console.error('❌ Auto-refresh failed:', {
@@ -115,9 +116,16 @@ client.interceptors.response.use(
                     status: refreshError.response?.status,
                     data: refreshError.response?.data,
                 });
+
+                // Requests failing meanwhile keep queueing until the user signs in again
+                const reauthenticated = await reauth.request();
+                if (reauthenticated) {
+                    const newAccessToken = await tokenStorage.getAccessToken();
+                    processQueue(null, newAccessToken);
+                    return client(originalRequest);
+                }
+
                 processQueue(refreshError, null);
-                await tokenStorage.clearAccessToken();
-                router.replace('/(auth)/login');
                 return Promise.reject(refreshError);
             } finally {
                 isRefreshing = false;
@@ -127,3 +135,9 @@ client.interceptors.response.use(
         return Promise.reject(error);
     }
 );
+
+// Registered after the 401 handler so refresh/re-auth runs before any backoff
+attachRetry(client);
+
+// Last in the chain: callers only ever see an ApiError
+client.interceptors.response.use(undefined, (error) => Promise.reject(ApiError.from(error)));
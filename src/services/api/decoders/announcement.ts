@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { Announcement } from '../../../types/announcement';
+import { optionalString } from './common';
+
+export const announcementSchema = z.object({
+    id: z.string(),
+    type: z.enum(['MAINTENANCE', 'INCIDENT', 'NEWS', 'ALERT']),
+    title: z.string(),
+    content: z.string(),
+    excerpt: optionalString,
+    companyId: optionalString,
+    companyName: optionalString,
+    company: z.object({
+        id: z.string(),
+        name: optionalString,
+        logoUrl: optionalString,
+    }).nullish(),
+    publishedAt: optionalString,
+    status: z.enum(['PUBLISHED', 'DRAFT', 'ARCHIVED']).nullish(),
+    urgency: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).nullish(),
+    // Shape depends on `type`; keys are already camelized by decode()
+    metadata: z.record(z.string(), z.unknown()).nullish(),
+}).transform((data): Announcement => ({
+    id: data.id,
+    type: data.type,
+    title: data.title,
+    content: data.content,
+    excerpt: data.excerpt || data.content.substring(0, 100) + '...',
+    company: {
+        id: data.company?.id ?? data.companyId ?? '',
+        name: data.company?.name ?? data.companyName ?? '',
+        logoUrl: data.company?.logoUrl ?? null, // API doesn't return logo yet
+    },
+    publishedAt: data.publishedAt ?? '',
+    status: data.status ?? 'PUBLISHED',
+    ...(data.urgency ? { urgency: data.urgency } : {}),
+    metadata: data.metadata ?? {},
+}) as Announcement);
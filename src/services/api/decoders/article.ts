@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { Article, ArticleCategory, ArticleCategoryCode } from '../../../types/article';
+import { optionalNumber, optionalString } from './common';
+
+const categoryCodeSchema = z.enum(['ACCOUNT_PROFILE', 'SECURITY_PRIVACY', 'BILLING_PAYMENTS', 'TECHNICAL_SUPPORT']);
+
+export const articleCategorySchema = z.object({
+    code: categoryCodeSchema,
+    name: z.string(),
+    icon: optionalString,
+    articleCount: optionalNumber,
+    articlesCount: optionalNumber,
+}).transform((data): ArticleCategory => ({
+    code: data.code,
+    name: data.name,
+    icon: data.icon ?? '',
+    articleCount: data.articleCount ?? data.articlesCount ?? 0,
+}));
+
+export const articleSchema = z.object({
+    id: z.string(),
+    title: z.string(),
+    excerpt: optionalString,
+    content: z.string(),
+    category: z.object({
+        code: categoryCodeSchema,
+        name: optionalString,
+    }).nullish(),
+    categoryCode: categoryCodeSchema.nullish(),
+    company: z.object({
+        id: z.string(),
+        name: optionalString,
+        logoUrl: optionalString,
+    }).nullish(),
+    companyId: optionalString,
+    companyName: optionalString,
+    viewsCount: optionalNumber,
+    publishedAt: optionalString,
+    updatedAt: optionalString,
+    status: z.enum(['PUBLISHED', 'DRAFT', 'ARCHIVED']).nullish(),
+}).transform((data): Article => ({
+    id: data.id,
+    title: data.title,
+    excerpt: data.excerpt ?? '',
+    content: data.content,
+    category: {
+        code: (data.category?.code ?? data.categoryCode ?? 'TECHNICAL_SUPPORT') as ArticleCategoryCode,
+        name: data.category?.name ?? '',
+    },
+    company: {
+        id: data.company?.id ?? data.companyId ?? '',
+        name: data.company?.name ?? data.companyName ?? '',
+        logoUrl: data.company?.logoUrl ?? null,
+    },
+    viewsCount: data.viewsCount ?? 0,
+    publishedAt: data.publishedAt ?? '',
+    updatedAt: data.updatedAt ?? '',
+    status: data.status ?? 'PUBLISHED',
+}));
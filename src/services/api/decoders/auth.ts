@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { optionalNumber, optionalString } from './common';
+import { sessionSchema, userSchema } from './user';
+
+export const authResponseSchema = z.object({
+    accessToken: z.string(),
+    tokenType: optionalString,
+    expiresIn: optionalNumber,
+    user: userSchema,
+    sessionId: optionalString,
+    loginTimestamp: optionalString,
+});
+
+export type DecodedAuthResponse = z.output<typeof authResponseSchema>;
+
+// Refresh may answer flat or wrapped in `data`
+export const refreshResponseSchema = z.union([
+    z.object({ accessToken: z.string(), expiresIn: optionalNumber }),
+    z.object({ data: z.object({ accessToken: z.string(), expiresIn: optionalNumber }) }).transform(({ data }) => data),
+]);
+
+export const sessionsResponseSchema = z.object({
+    sessions: z.array(sessionSchema).nullish(),
+}).transform(({ sessions }) => sessions ?? []);
+
+// POST /api/auth/email/verify and /resend always answer 200: check `success`
+export const emailVerificationResultSchema = z.object({
+    success: z.boolean(),
+    message: optionalString,
+    canResend: z.boolean().nullish(),
+    resendAvailableAt: optionalString,
+});
+
+export type EmailVerificationResult = z.output<typeof emailVerificationResultSchema>;
+
+const emailStatusFields = z.object({
+    isVerified: z.boolean(),
+    email: optionalString,
+    verifiedAt: optionalString,
+    canResend: z.boolean().nullish(),
+    resendAvailableAt: optionalString,
+    attemptsRemaining: optionalNumber,
+});
+
+// Documented flat, but tolerate the usual `data` envelope
+export const emailStatusSchema = z.union([
+    emailStatusFields,
+    z.object({ data: emailStatusFields }).transform(({ data }) => data),
+]);
+
+export type EmailStatus = z.output<typeof emailStatusSchema>;
+
+const passwordResetStatusFields = z.object({
+    isValid: z.boolean(),
+    canReset: z.boolean().nullish(),
+    email: optionalString,
+    expiresAt: optionalString,
+    attemptsRemaining: optionalNumber,
+});
+
+// GET /api/auth/password-reset/status: always 200 for known tokens, check `isValid`
+export const passwordResetStatusSchema = z.union([
+    passwordResetStatusFields,
+    z.object({ data: passwordResetStatusFields }).transform(({ data }) => data),
+]);
+
+export type PasswordResetStatus = z.output<typeof passwordResetStatusSchema>;
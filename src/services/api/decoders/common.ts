@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { ApiContractError } from '../errors';
+import { logger } from '../../../utils/logger';
+
+/**
+ * Recursively converts snake_case keys to camelCase. Keys that are already
+ * camelCase are left untouched, so decoders accept either style.
+ */
+export const camelizeKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(camelizeKeys);
+    if (typeof value !== 'object' || value === null) return value;
+
+    return Object.keys(value).reduce((acc, key) => {
+        const camelKey = key.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+        acc[camelKey] = camelizeKeys((value as Record<string, unknown>)[key]);
+        return acc;
+    }, {} as Record<string, unknown>);
+};
+
+/**
+ * Validates a raw response body against a camelCase schema.
+ * Throws ApiContractError (and logs the zod issues) when the backend drifted.
+ */
+export const decode = <T extends z.ZodTypeAny>(schema: T, payload: unknown, endpoint: string): z.output<T> => {
+    const result = schema.safeParse(camelizeKeys(payload));
+    if (!result.success) {
+        logger.error(`Contract mismatch: ${endpoint}`, result.error.issues, 'API');
+        throw new ApiContractError(endpoint, result.error.issues);
+    }
+    return result.data;
+};
+
+export const dataEnvelope = <T extends z.ZodTypeAny>(schema: T) =>
+    z.object({ data: schema }).transform((envelope) => (envelope as { data: z.output<T> }).data);
+
+export const paginationMetaSchema = z.object({
+    currentPage: z.number(),
+    lastPage: z.number(),
+    total: z.number(),
+    perPage: z.number().nullish(),
+});
+
+export type PaginationMeta = z.output<typeof paginationMetaSchema>;
+
+export const paginated = <T extends z.ZodTypeAny>(item: T) =>
+    z.object({
+        data: z.array(item),
+        meta: paginationMetaSchema,
+    });
+
+// Fields the backend sometimes omits or returns as null
+export const optionalString = z.string().nullish();
+export const optionalNumber = z.number().nullish();
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import { AttachmentLimits, CompanyDetail, CompanyExploreItem, Industry } from '../../../types/company';
+import { optionalNumber, optionalString } from './common';
+
+export const industrySchema = z.object({
+    id: z.string(),
+    code: optionalString,
+    name: z.string(),
+}).transform((data): Industry => ({
+    id: data.id,
+    code: data.code ?? '',
+    name: data.name,
+}));
+
+const companyBaseShape = {
+    id: z.string(),
+    companyCode: optionalString,
+    name: z.string(),
+    logoUrl: optionalString,
+    description: optionalString,
+    industry: industrySchema.nullish(),
+    city: optionalString,
+    country: optionalString,
+    contactCity: optionalString,
+    contactCountry: optionalString,
+    primaryColor: optionalString,
+    status: z.enum(['ACTIVE', 'SUSPENDED']).nullish(),
+    followersCount: optionalNumber,
+    isFollowedByMe: z.boolean().nullish(),
+};
+
+const toExploreItem = (data: z.output<z.ZodObject<typeof companyBaseShape>>): CompanyExploreItem => ({
+    id: data.id,
+    companyCode: data.companyCode ?? '',
+    name: data.name,
+    logoUrl: data.logoUrl ?? null,
+    description: data.description ?? '',
+    industry: data.industry ?? { id: '', code: '', name: '' },
+    city: data.city ?? data.contactCity ?? '',
+    country: data.country ?? data.contactCountry ?? '',
+    primaryColor: data.primaryColor ?? '',
+    status: data.status ?? 'ACTIVE',
+    followersCount: data.followersCount ?? 0,
+    isFollowedByMe: data.isFollowedByMe ?? false,
+});
+
+export const companyExploreItemSchema = z.object(companyBaseShape).transform(toExploreItem);
+
+export const companyDetailSchema = z.object({
+    ...companyBaseShape,
+    legalName: optionalString,
+    supportEmail: optionalString,
+    phone: optionalString,
+    website: optionalString,
+    contactAddress: optionalString,
+    contactState: optionalString,
+    contactPostalCode: optionalString,
+    businessHours: z.record(z.string(), z.object({ open: z.string(), close: z.string() }).nullish()).nullish(),
+    timezone: optionalString,
+    faviconUrl: optionalString,
+    secondaryColor: optionalString,
+    myTicketsCount: optionalNumber,
+    lastTicketCreatedAt: optionalString,
+    hasUnreadAnnouncements: z.boolean().nullish(),
+}).transform((data): CompanyDetail => ({
+    ...toExploreItem(data),
+    legalName: data.legalName ?? null,
+    supportEmail: data.supportEmail ?? '',
+    phone: data.phone ?? null,
+    website: data.website ?? null,
+    contactAddress: data.contactAddress ?? null,
+    contactCity: data.contactCity ?? null,
+    contactState: data.contactState ?? null,
+    contactCountry: data.contactCountry ?? null,
+    contactPostalCode: data.contactPostalCode ?? null,
+    businessHours: (data.businessHours ?? {}) as CompanyDetail['businessHours'],
+    timezone: data.timezone ?? '',
+    faviconUrl: data.faviconUrl ?? null,
+    secondaryColor: data.secondaryColor ?? '',
+    myTicketsCount: data.myTicketsCount ?? undefined,
+    lastTicketCreatedAt: data.lastTicketCreatedAt ?? null,
+    hasUnreadAnnouncements: data.hasUnreadAnnouncements ?? undefined,
+}));
+
+export const companyMinimalSchema = z.object({
+    id: z.string(),
+    companyCode: optionalString,
+    name: z.string(),
+    logoUrl: optionalString,
+}).transform((data) => ({
+    id: data.id,
+    name: data.name,
+    logoUrl: data.logoUrl ?? null,
+}));
+
+// Only the limits the company changed; the rest keep the app defaults
+export const attachmentSettingsSchema = z.object({
+    maxFileSizeMb: optionalNumber,
+    allowedMimeTypes: z.array(z.string()).nullish(),
+    maxImageDimension: optionalNumber,
+    imageQuality: optionalNumber,
+}).transform((data): Partial<AttachmentLimits> => ({
+    ...(data.maxFileSizeMb != null && { maxFileSizeBytes: data.maxFileSizeMb * 1024 * 1024 }),
+    ...(data.allowedMimeTypes != null && { allowedMimeTypes: data.allowedMimeTypes }),
+    ...(data.maxImageDimension != null && { maxImageDimension: data.maxImageDimension }),
+    ...(data.imageQuality != null && { imageQuality: data.imageQuality }),
+}));
@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { Area, Attachment, Ticket, TicketCategory, TicketResponse } from '../../../types/ticket';
+import { optionalNumber, optionalString } from './common';
+
+const namedRefSchema = z.object({
+    id: z.string(),
+    name: optionalString,
+});
+
+export const attachmentSchema = z.object({
+    id: z.string(),
+    ticketId: optionalString,
+    responseId: optionalString,
+    fileName: optionalString,
+    name: optionalString,
+    fileUrl: optionalString,
+    url: optionalString,
+    fileType: optionalString,
+    mimeType: optionalString,
+    fileSizeBytes: optionalNumber,
+    size: optionalNumber,
+    uploadedBy: z.object({ id: optionalString, name: optionalString }).nullish(),
+    createdAt: optionalString,
+}).transform((data): Attachment => ({
+    id: data.id,
+    ticketId: data.ticketId ?? '',
+    responseId: data.responseId ?? null,
+    fileName: data.fileName || data.name || '',
+    fileUrl: data.fileUrl || data.url || '',
+    fileType: data.fileType || data.mimeType || '',
+    fileSizeBytes: data.fileSizeBytes || data.size || 0,
+    uploadedBy: {
+        id: data.uploadedBy?.id ?? '',
+        displayName: data.uploadedBy?.name ?? '',
+    },
+    createdAt: data.createdAt ?? '',
+}));
+
+export const ticketSchema = z.object({
+    id: z.string(),
+    ticketCode: z.string(),
+    title: z.string(),
+    description: optionalString,
+    priority: z.enum(['low', 'medium', 'high']).nullish(),
+    status: z.enum(['open', 'pending', 'resolved', 'closed']),
+    lastResponseAuthorType: z.enum(['none', 'user', 'agent']).nullish(),
+    companyId: optionalString,
+    company: z.object({
+        id: z.string(),
+        name: optionalString,
+        logoUrl: optionalString,
+    }).nullish(),
+    category: namedRefSchema.nullish(),
+    area: namedRefSchema.nullish(),
+    createdByUser: z.object({
+        id: z.string(),
+        name: optionalString,
+        email: optionalString,
+    }).nullish(),
+    ownerAgent: z.object({
+        id: z.string(),
+        name: optionalString,
+        avatarUrl: optionalString,
+    }).nullish(),
+    rating: z.object({
+        rating: z.number(),
+        comment: optionalString,
+        createdAt: optionalString,
+    }).nullish(),
+    attachmentsCount: optionalNumber,
+    attachments: z.array(attachmentSchema).nullish(),
+    responsesCount: optionalNumber,
+    createdAt: z.string(),
+    updatedAt: optionalString,
+    timeline: z.object({
+        createdAt: optionalString,
+        firstResponseAt: optionalString,
+        resolvedAt: optionalString,
+        closedAt: optionalString,
+    }).nullish(),
+    resolvedAt: optionalString,
+    closedAt: optionalString,
+}).refine((data) => !!(data.company?.id || data.companyId), {
+    message: 'Ticket without company reference',
+    path: ['companyId'],
+}).transform((data): Ticket => ({
+    id: data.id,
+    ticketCode: data.ticketCode,
+    title: data.title,
+    description: data.description ?? '',
+    priority: data.priority || 'medium', // Default to medium if missing
+    status: data.status,
+    lastResponseAuthorType: data.lastResponseAuthorType ?? 'none',
+    company: {
+        id: (data.company?.id || data.companyId) as string,
+        // Empty when the API only sent company_id; resolved by the stores
+        name: data.company?.name ?? '',
+        logoUrl: data.company?.logoUrl ?? null,
+    },
+    category: data.category ? { id: data.category.id, name: data.category.name ?? '' } : null,
+    area: data.area ? { id: data.area.id, name: data.area.name ?? '' } : null,
+    createdBy: {
+        id: data.createdByUser?.id ?? '',
+        displayName: data.createdByUser?.name ?? '',
+        email: data.createdByUser?.email ?? undefined,
+    },
+    ownerAgent: data.ownerAgent ? {
+        id: data.ownerAgent.id,
+        displayName: data.ownerAgent.name ?? '',
+        avatarUrl: data.ownerAgent.avatarUrl ?? null,
+    } : null,
+    rating: data.rating ? {
+        rating: data.rating.rating,
+        comment: data.rating.comment ?? null,
+        createdAt: data.rating.createdAt ?? '',
+    } : null,
+    attachmentsCount: data.attachmentsCount || 0,
+    attachments: data.attachments ?? [],
+    responsesCount: data.responsesCount || 0,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt ?? data.createdAt,
+    timeline: {
+        createdAt: data.timeline?.createdAt || data.createdAt,
+        firstResponseAt: data.timeline?.firstResponseAt || null,
+        resolvedAt: data.timeline?.resolvedAt || data.resolvedAt || null,
+        closedAt: data.timeline?.closedAt || data.closedAt || null,
+    },
+    firstResponseAt: data.timeline?.firstResponseAt || null,
+    resolvedAt: data.resolvedAt ?? null,
+    closedAt: data.closedAt ?? null,
+}));
+
+export const ticketResponseSchema = z.object({
+    id: z.string(),
+    ticketId: optionalString,
+    authorId: optionalString,
+    content: z.string(),
+    authorType: z.enum(['user', 'agent']),
+    createdAt: z.string(),
+    author: z.object({
+        id: optionalString,
+        name: optionalString,
+        avatarUrl: optionalString,
+    }).nullish(),
+    attachments: z.array(attachmentSchema).nullish(),
+}).transform((data): TicketResponse => ({
+    id: data.id,
+    ticketId: data.ticketId ?? '',
+    authorId: data.authorId ?? '',
+    content: data.content,
+    authorType: data.authorType,
+    createdAt: data.createdAt,
+    author: {
+        id: data.author?.id ?? '',
+        displayName: data.author?.name ?? '',
+        avatarUrl: data.author?.avatarUrl ?? null,
+    },
+    attachments: data.attachments ?? [],
+}));
+
+export const ticketCategorySchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    description: optionalString,
+    isActive: z.boolean().nullish(),
+    activeTicketsCount: optionalNumber,
+    ticketsCount: optionalNumber,
+}).transform((data): TicketCategory => ({
+    id: data.id,
+    name: data.name,
+    description: data.description ?? null,
+    isActive: data.isActive ?? true,
+    ticketsCount: data.ticketsCount ?? data.activeTicketsCount ?? 0,
+}));
+
+export const areaSchema = z.object({
+    id: z.string(),
+    companyId: optionalString,
+    name: z.string(),
+    description: optionalString,
+    isActive: z.boolean().nullish(),
+    activeTicketsCount: optionalNumber,
+}).transform((data): Area => ({
+    id: data.id,
+    companyId: data.companyId ?? '',
+    name: data.name,
+    description: data.description ?? null,
+    isActive: data.isActive ?? true,
+    activeTicketsCount: data.activeTicketsCount ?? 0,
+}));
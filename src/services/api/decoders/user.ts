@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { Session, User } from '../../../types/user';
+import { optionalNumber, optionalString } from './common';
+
+const roleContextSchema = z.object({
+    roleCode: z.string(),
+    roleName: optionalString,
+    dashboardPath: optionalString,
+    company: z.unknown().nullish(),
+});
+
+// /api/users/me nests names and preferences under `profile`; login returns them flat
+const flattenProfile = (value: unknown) => {
+    if (typeof value !== 'object' || value === null) return value;
+    const { profile, ...rest } = value as Record<string, unknown>;
+    return typeof profile === 'object' && profile !== null ? { ...rest, ...profile } : rest;
+};
+
+export const userSchema = z.preprocess(flattenProfile, z.object({
+    id: z.string(),
+    userCode: optionalString,
+    email: z.string(),
+    status: z.enum(['ACTIVE', 'SUSPENDED', 'DELETED']).nullish(),
+    emailVerified: z.boolean().nullish(),
+    emailVerifiedAt: optionalString,
+    onboardingCompleted: z.boolean().nullish(),
+    lastLoginAt: optionalString,
+    createdAt: optionalString,
+    firstName: optionalString,
+    lastName: optionalString,
+    displayName: optionalString,
+    phoneNumber: optionalString,
+    avatarUrl: optionalString,
+    theme: z.enum(['light', 'dark']).nullish(),
+    language: z.enum(['es', 'en']).nullish(),
+    timezone: optionalString,
+    pushWebNotifications: z.boolean().nullish(),
+    notificationsTickets: z.boolean().nullish(),
+    roleContext: z.array(roleContextSchema).nullish(),
+    roleContexts: z.array(roleContextSchema).nullish(),
+    ticketsCount: optionalNumber,
+    resolvedTicketsCount: optionalNumber,
+})).transform((data): User => ({
+    id: data.id,
+    userCode: data.userCode ?? '',
+    email: data.email,
+    status: data.status ?? 'ACTIVE',
+    emailVerified: data.emailVerified ?? false,
+    emailVerifiedAt: data.emailVerifiedAt ?? null,
+    // Only auth responses carry it (not /api/users/me): left undefined when unknown
+    onboardingCompleted: data.onboardingCompleted ?? undefined,
+    lastLoginAt: data.lastLoginAt ?? null,
+    createdAt: data.createdAt ?? '',
+    firstName: data.firstName ?? '',
+    lastName: data.lastName ?? '',
+    displayName: data.displayName || [data.firstName, data.lastName].filter(Boolean).join(' '),
+    phoneNumber: data.phoneNumber ?? null,
+    avatarUrl: data.avatarUrl ?? null,
+    theme: data.theme ?? 'light',
+    language: data.language ?? 'es',
+    timezone: data.timezone ?? '',
+    pushWebNotifications: data.pushWebNotifications ?? false,
+    notificationsTickets: data.notificationsTickets ?? false,
+    roleContext: (data.roleContext ?? data.roleContexts ?? []) as User['roleContext'],
+    ticketsCount: data.ticketsCount ?? 0,
+    resolvedTicketsCount: data.resolvedTicketsCount ?? 0,
+}));
+
+export const sessionSchema = z.object({
+    sessionId: z.string(),
+    deviceName: optionalString,
+    ipAddress: optionalString,
+    userAgent: optionalString,
+    lastUsedAt: z.string(),
+    expiresAt: z.string(),
+    isCurrent: z.boolean().nullish(),
+    location: z.object({
+        city: optionalString,
+        country: optionalString,
+        countryCode: optionalString,
+        latitude: optionalNumber,
+        longitude: optionalNumber,
+        timezone: optionalString,
+    }).nullish(),
+}).transform((data): Session => ({
+    id: data.sessionId,
+    deviceName: data.deviceName ?? null,
+    ipAddress: data.ipAddress ?? null,
+    userAgent: data.userAgent ?? null,
+    lastUsedAt: data.lastUsedAt,
+    expiresAt: data.expiresAt,
+    isCurrent: data.isCurrent ?? false,
+    location: data.location ? {
+        city: data.location.city ?? null,
+        country: data.location.country ?? null,
+        country_code: data.location.countryCode ?? null,
+        latitude: data.location.latitude ?? null,
+        longitude: data.location.longitude ?? null,
+        timezone: data.location.timezone ?? null,
+    } : null,
+}));
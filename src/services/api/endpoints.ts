@@ -0,0 +1,244 @@
+import { z } from 'zod';
+import { AxiosRequestConfig } from 'axios';
+import { client } from './client';
+import { ApiQuery, buildPath } from './paths';
+import { createIdempotencyKey } from './retry';
+import { ApiContractError, ApiError } from './errors';
+import { ApiOperationKey } from './generated/operations';
+import { dataEnvelope, decode, paginated } from './decoders/common';
+import { areaSchema, ticketCategorySchema, ticketResponseSchema, ticketSchema } from './decoders/ticket';
+import {
+    authResponseSchema,
+    emailStatusSchema,
+    emailVerificationResultSchema,
+    passwordResetStatusSchema,
+    sessionsResponseSchema,
+} from './decoders/auth';
+import { userSchema } from './decoders/user';
+import {
+    attachmentSettingsSchema,
+    companyDetailSchema,
+    companyExploreItemSchema,
+    companyMinimalSchema,
+    industrySchema,
+} from './decoders/company';
+import { announcementSchema } from './decoders/announcement';
+import { articleCategorySchema, articleSchema } from './decoders/article';
+import { CreateTicketData } from '../../types/ticket';
+import { User } from '../../types/user';
+
+/**
+ * Typed API surface. Paths and query parameters come from the generated
+ * operations (api-docs/api-docs.json); every response goes through a zod
+ * decoder that converts it to the camelCase domain types in src/types.
+ *
+ * Endpoints the spec does not document yet are typed by hand and marked.
+ */
+
+type Endpoint = ApiOperationKey | `${'GET' | 'POST' | 'PATCH' | 'DELETE'} ${string}`;
+
+const getDecoded = async <T extends z.ZodTypeAny>(
+    schema: T,
+    endpoint: Endpoint,
+    url: string,
+    config?: AxiosRequestConfig
+): Promise<z.output<T>> => {
+    const response = await client.get(url, config);
+    return decode(schema, response.data, endpoint);
+};
+
+const postDecoded = async <T extends z.ZodTypeAny>(
+    schema: T,
+    endpoint: Endpoint,
+    url: string,
+    body?: unknown,
+    config?: AxiosRequestConfig
+): Promise<z.output<T>> => {
+    const response = await client.post(url, body, config);
+    return decode(schema, response.data, endpoint);
+};
+
+const list = <T extends z.ZodTypeAny>(item: T) => dataEnvelope(z.array(item));
+
+export const api = {
+    auth: {
+        // rememberMe: the backend may keep the refresh cookie for longer
+        login: (body: { email: string; password: string; deviceName: string; rememberMe?: boolean }) =>
+            postDecoded(authResponseSchema, 'POST /api/auth/login', '/api/auth/login', body),
+
+        // The ID token comes from the Google OAuth flow (expo-auth-session)
+        loginWithGoogle: (body: { googleToken: string; deviceName: string }) =>
+            postDecoded(authResponseSchema, 'POST /api/auth/login/google', '/api/auth/login/google', body),
+
+        // Answers like login: the new account is signed in right away
+        register: (body: Record<string, unknown>) =>
+            postDecoded(authResponseSchema, 'POST /api/auth/register', '/api/auth/register', body),
+
+        logout: (everywhere: boolean) =>
+            client.post('/api/auth/logout', { everywhere }),
+
+        sessions: () =>
+            getDecoded(sessionsResponseSchema, 'GET /api/auth/sessions', '/api/auth/sessions'),
+
+        verifyEmail: (token: string) =>
+            postDecoded(emailVerificationResultSchema, 'POST /api/auth/email/verify', '/api/auth/email/verify', { token }),
+
+        resendVerificationEmail: () =>
+            postDecoded(emailVerificationResultSchema, 'POST /api/auth/email/verify/resend', '/api/auth/email/verify/resend'),
+
+        emailStatus: (signal?: AbortSignal) =>
+            getDecoded(emailStatusSchema, 'GET /api/auth/email/status', '/api/auth/email/status', { signal }),
+
+        // Always answers 200, whether or not the account exists
+        requestPasswordReset: (email: string) =>
+            client.post('/api/auth/password-reset', { email }),
+
+        // 404 for unknown tokens, 410 once expired
+        passwordResetStatus: (token: string, signal?: AbortSignal) =>
+            getDecoded(passwordResetStatusSchema, 'GET /api/auth/password-reset/status', '/api/auth/password-reset/status', {
+                params: { token },
+                signal,
+            }),
+
+        // Either the token from the email link or the 6-digit code (with the email)
+        confirmPasswordReset: (body: {
+            token?: string;
+            code?: string;
+            email?: string;
+            password: string;
+            passwordConfirmation: string;
+        }) =>
+            client.post('/api/auth/password-reset/confirm', body),
+
+        // Idempotent: answers success when it was already completed
+        completeOnboarding: () =>
+            client.post('/api/auth/onboarding/completed'),
+
+        revokeSession: (sessionId: string) =>
+            client.delete(buildPath('/api/auth/sessions/{sessionId}', { sessionId })),
+    },
+
+    users: {
+        // Accepts both the wrapped and the flat shape
+        me: async () => {
+            const response = await client.get('/api/users/me');
+            return decode(userSchema, response.data?.data ?? response.data, 'GET /api/users/me');
+        },
+
+        updateProfile: (data: Partial<Pick<User, 'firstName' | 'lastName' | 'displayName' | 'phoneNumber' | 'avatarUrl'>>) =>
+            client.patch('/api/users/me/profile', data),
+
+        updatePreferences: (data: Partial<Pick<User, 'theme' | 'language' | 'timezone' | 'pushWebNotifications' | 'notificationsTickets'>>) =>
+            client.patch('/api/users/me/preferences', data),
+
+        // Not documented in the spec yet
+        uploadAvatar: (formData: FormData) =>
+            postDecoded(
+                dataEnvelope(z.object({ avatarUrl: z.string() })),
+                'POST /api/users/me/avatar',
+                '/api/users/me/avatar',
+                formData,
+                { headers: { 'Content-Type': 'multipart/form-data' } }
+            ),
+    },
+
+    tickets: {
+        list: (params: Partial<ApiQuery<'GET /api/tickets'>> & { include?: string }, signal?: AbortSignal) =>
+            getDecoded(paginated(ticketSchema), 'GET /api/tickets', '/api/tickets', { params, signal }),
+
+        get: (ticketCode: string, include?: string, signal?: AbortSignal) =>
+            getDecoded(dataEnvelope(ticketSchema), 'GET /api/tickets/{ticket}', buildPath('/api/tickets/{ticket}', { ticket: ticketCode }), {
+                params: include ? { include } : undefined,
+                signal,
+            }),
+
+        // Pass the same key when replaying a create so the server can deduplicate it
+        create: (data: CreateTicketData, idempotencyKey = createIdempotencyKey()) =>
+            postDecoded(dataEnvelope(ticketSchema), 'POST /api/tickets', '/api/tickets', data, { idempotencyKey }),
+
+        responses: (ticketCode: string, signal?: AbortSignal) =>
+            getDecoded(list(ticketResponseSchema), 'GET /api/tickets/{ticket}/responses', buildPath('/api/tickets/{ticket}/responses', { ticket: ticketCode }), { signal }),
+
+        createResponse: (ticketCode: string, content: string, idempotencyKey = createIdempotencyKey()) =>
+            postDecoded(dataEnvelope(ticketResponseSchema), 'POST /api/tickets/{ticket}/responses', buildPath('/api/tickets/{ticket}/responses', { ticket: ticketCode }), { content }, { idempotencyKey }),
+
+        // Not documented in the spec yet
+        rate: (ticketCode: string, rating: number, comment?: string) =>
+            client.post(`/api/tickets/${encodeURIComponent(ticketCode)}/rate`, { rating, comment }),
+
+        reopen: (ticketCode: string) =>
+            client.post(buildPath('/api/tickets/{ticket}/reopen', { ticket: ticketCode })),
+
+        categories: (params: Partial<ApiQuery<'GET /api/tickets/categories'>>) =>
+            getDecoded(list(ticketCategorySchema), 'GET /api/tickets/categories', '/api/tickets/categories', { params }),
+    },
+
+    // Not documented in the spec yet
+    areas: {
+        list: (companyId: string) =>
+            getDecoded(list(areaSchema), 'GET /api/areas', '/api/areas', { params: { company_id: companyId, is_active: true } }),
+
+        enabled: (companyId: string) =>
+            getDecoded(
+                dataEnvelope(z.object({ areasEnabled: z.boolean() })),
+                'GET /api/companies/{company}/settings/areas-enabled',
+                `/api/companies/${encodeURIComponent(companyId)}/settings/areas-enabled`
+            ),
+    },
+
+    companies: {
+        explore: (params: Partial<ApiQuery<'GET /api/companies/explore'>>) =>
+            getDecoded(paginated(companyExploreItemSchema), 'GET /api/companies/explore', '/api/companies/explore', { params }),
+
+        get: (companyId: string, signal?: AbortSignal) =>
+            getDecoded(dataEnvelope(companyDetailSchema), 'GET /api/companies/{company}', buildPath('/api/companies/{company}', { company: companyId }), { signal }),
+
+        minimal: (params: Partial<ApiQuery<'GET /api/companies/minimal'>> = {}) =>
+            getDecoded(paginated(companyMinimalSchema), 'GET /api/companies/minimal', '/api/companies/minimal', { params }),
+
+        industries: () =>
+            getDecoded(list(industrySchema), 'GET /api/company-industries', '/api/company-industries'),
+
+        follow: (companyId: string) =>
+            client.post(buildPath('/api/companies/{company}/follow', { company: companyId })),
+
+        unfollow: (companyId: string) =>
+            client.delete(buildPath('/api/companies/{company}/unfollow', { company: companyId })),
+
+        // Not in the spec, so optional: null when the server has no such endpoint or answers
+        // something else, and the app defaults apply (DEFAULT_ATTACHMENT_LIMITS)
+        attachmentSettings: async (companyId: string) => {
+            try {
+                return await getDecoded(
+                    dataEnvelope(attachmentSettingsSchema),
+                    'GET /api/companies/{company}/settings/attachments',
+                    `/api/companies/${encodeURIComponent(companyId)}/settings/attachments`
+                );
+            } catch (error) {
+                if (error instanceof ApiContractError || (error instanceof ApiError && (error.status === 404 || error.status === 405))) {
+                    return null;
+                }
+                throw error;
+            }
+        },
+    },
+
+    announcements: {
+        list: (params: Partial<ApiQuery<'GET /api/announcements'>>, signal?: AbortSignal) =>
+            getDecoded(list(announcementSchema), 'GET /api/announcements', '/api/announcements', { params, signal }),
+
+        get: (id: string, signal?: AbortSignal) =>
+            getDecoded(dataEnvelope(announcementSchema), 'GET /api/announcements/{announcement}', buildPath('/api/announcements/{announcement}', { announcement: id }), { signal }),
+    },
+
+    helpCenter: {
+        categories: () =>
+            getDecoded(list(articleCategorySchema), 'GET /api/help-center/categories', '/api/help-center/categories'),
+
+        articles: (params: Partial<ApiQuery<'GET /api/help-center/articles'>>, signal?: AbortSignal) =>
+            getDecoded(list(articleSchema), 'GET /api/help-center/articles', '/api/help-center/articles', { params, signal }),
+
+        article: (id: string, signal?: AbortSignal) =>
+            getDecoded(dataEnvelope(articleSchema), 'GET /api/help-center/articles/{id}', buildPath('/api/help-center/articles/{id}', { id }), { signal }),
+    },
+};
@@ -0,0 +1,145 @@
+import axios from 'axios';
+
+/**
+ * Thrown when a backend response does not match the contract the app was built
+ * against (see src/services/api/decoders). Surfacing it here keeps the failure
+ * in one place instead of rendering `undefined` fields later.
+ */
+export class ApiContractError extends Error {
+    readonly endpoint: string;
+    readonly issues: { path: PropertyKey[]; message: string }[];
+
+    constructor(endpoint: string, issues: { path: PropertyKey[]; message: string }[]) {
+        const summary = issues
+            .slice(0, 3)
+            .map((issue) => `${issue.path.map(String).join('.') || '(root)'}: ${issue.message}`)
+            .join('; ');
+        super(`Unexpected response from ${endpoint}: ${summary}`);
+        this.name = 'ApiContractError';
+        this.endpoint = endpoint;
+        this.issues = issues;
+    }
+}
+
+const DEFAULT_MESSAGES = {
+    network: 'No se pudo conectar con el servidor. Revisa tu conexión.',
+    canceled: 'La solicitud fue cancelada.',
+    tooManyRequests: 'Demasiadas solicitudes. Espera un momento e inténtalo de nuevo.',
+    server: 'El servidor tuvo un problema. Inténtalo más tarde.',
+    unknown: 'Ocurrió un error inesperado.',
+};
+
+const camelize = (key: string) => key.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+/**
+ * Normalized error for every failed request made through the API client.
+ * The client interceptor converts axios errors into this shape, so callers
+ * never dig into `error.response.data` themselves.
+ */
+export class ApiError extends Error {
+    // null when no HTTP response was received (offline, timeout, canceled)
+    readonly status: number | null;
+    // Machine-readable code from the backend (e.g. INVALID_CREDENTIALS)
+    readonly code: string | null;
+    // Validation errors keyed by camelCase field name
+    readonly fieldErrors: Record<string, string[]>;
+    readonly isCanceled: boolean;
+    // Raw response body, for logging
+    readonly data: unknown;
+    // Whether `message` was written by the backend rather than a local default
+    readonly hasServerMessage: boolean;
+
+    constructor(init: {
+        message: string;
+        status: number | null;
+        code?: string | null;
+        fieldErrors?: Record<string, string[]>;
+        isCanceled?: boolean;
+        data?: unknown;
+        hasServerMessage?: boolean;
+    }) {
+        super(init.message);
+        this.name = 'ApiError';
+        this.status = init.status;
+        this.code = init.code ?? null;
+        this.fieldErrors = init.fieldErrors ?? {};
+        this.isCanceled = init.isCanceled ?? false;
+        this.data = init.data;
+        this.hasServerMessage = init.hasServerMessage ?? false;
+    }
+
+    get isNetworkError() {
+        return this.status === null && !this.isCanceled;
+    }
+
+    // The caller stopped waiting (superseded search, screen closed)
+    static canceled(): ApiError {
+        return new ApiError({ message: DEFAULT_MESSAGES.canceled, status: null, isCanceled: true });
+    }
+
+    static from(error: unknown): ApiError {
+        if (error instanceof ApiError) return error;
+
+        if (!axios.isAxiosError(error)) {
+            return new ApiError({
+                message: error instanceof Error ? error.message : DEFAULT_MESSAGES.unknown,
+                status: null,
+                isCanceled: axios.isCancel(error),
+            });
+        }
+
+        if (axios.isCancel(error) || error.code === 'ERR_CANCELED') {
+            return ApiError.canceled();
+        }
+
+        const response = error.response;
+        if (!response) {
+            return new ApiError({ message: DEFAULT_MESSAGES.network, status: null });
+        }
+
+        const body = (typeof response.data === 'object' && response.data !== null ? response.data : {}) as {
+            message?: unknown;
+            code?: unknown;
+            error?: unknown;
+            errors?: unknown;
+        };
+
+        // Laravel style: { message, errors: { field: [messages] } }; codes come as `code` or `error`
+        const fieldErrors: Record<string, string[]> = {};
+        if (typeof body.errors === 'object' && body.errors !== null) {
+            Object.entries(body.errors as Record<string, unknown>).forEach(([field, messages]) => {
+                const list = (Array.isArray(messages) ? messages : [messages]).filter((m): m is string => typeof m === 'string');
+                if (list.length > 0) fieldErrors[camelize(field)] = list;
+            });
+        }
+
+        const serverMessage = typeof body.message === 'string' && body.message ? body.message : null;
+        const code = [body.code, body.error].find((value): value is string => typeof value === 'string') ?? null;
+
+        return new ApiError({
+            message: serverMessage
+                ?? (response.status === 429 ? DEFAULT_MESSAGES.tooManyRequests
+                    : response.status >= 500 ? DEFAULT_MESSAGES.server
+                        : DEFAULT_MESSAGES.unknown),
+            status: response.status,
+            code,
+            fieldErrors,
+            data: response.data,
+            hasServerMessage: serverMessage !== null,
+        });
+    }
+}
+
+/**
+ * Message to show the user: the backend's own message when there is one,
+ * a connectivity/availability message when relevant, otherwise `fallback`.
+ */
+export const getErrorMessage = (error: unknown, fallback: string) => {
+    if (!(error instanceof ApiError)) return fallback;
+    if (error.hasServerMessage || error.isNetworkError) return error.message;
+    if (error.status !== null && (error.status === 429 || error.status >= 500)) return error.message;
+    return fallback;
+};
+
+// Canceled requests are expected (superseded searches, closed screens) and never shown to the user
+export const isCanceledError = (error: unknown) => error instanceof ApiError && error.isCanceled;
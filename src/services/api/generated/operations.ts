@@ -0,0 +1,531 @@
+// AUTO-GENERATED by scripts/generate-api-types.js from api-docs/api-docs.json.
+// Do not edit by hand: update the spec and run `npm run generate:api`.
+
+export interface ApiOperations {
+    /** Register a new user */
+    'POST /api/auth/register': {
+        query: never;
+    };
+    /** Login user */
+    'POST /api/auth/login': {
+        query: never;
+    };
+    /** Login with Google OAuth (NOT IMPLEMENTED) */
+    'POST /api/auth/login/google': {
+        query: never;
+    };
+    /** Get authentication status */
+    'GET /api/auth/status': {
+        query: never;
+    };
+    /** Verify email */
+    'POST /api/auth/email/verify': {
+        query: never;
+    };
+    /** Resend verification email */
+    'POST /api/auth/email/verify/resend': {
+        query: never;
+    };
+    /** Get email verification status */
+    'GET /api/auth/email/status': {
+        query: never;
+    };
+    /** Health check */
+    'GET /api/health': {
+        query: never;
+    };
+    /** Mark onboarding as completed */
+    'POST /api/auth/onboarding/completed': {
+        query: never;
+    };
+    /** Request password reset */
+    'POST /api/auth/password-reset': {
+        query: never;
+    };
+    /** Confirm password reset */
+    'POST /api/auth/password-reset/confirm': {
+        query: never;
+    };
+    /** Get password reset status */
+    'GET /api/auth/password-reset/status': {
+        query: {
+            token: string;
+        };
+    };
+    /** Refresh access token */
+    'POST /api/auth/refresh': {
+        query: never;
+    };
+    /** List user sessions */
+    'GET /api/auth/sessions': {
+        query: never;
+    };
+    /** Logout user */
+    'POST /api/auth/logout': {
+        query: never;
+    };
+    /** Revoke a session */
+    'DELETE /api/auth/sessions/{sessionId}': {
+        query: never;
+    };
+    /** List minimal companies for selectors */
+    'GET /api/companies/minimal': {
+        query: {
+            search?: string;
+            per_page?: number;
+            page?: number;
+        };
+    };
+    /** Explore companies with filters */
+    'GET /api/companies/explore': {
+        query: {
+            search?: string;
+            industry_id?: string;
+            country?: string;
+            followed_by_me?: boolean;
+            sort_by?: string;
+            sort_direction?: "asc" | "desc";
+            per_page?: number;
+            page?: number;
+        };
+    };
+    /** List all companies (admin) */
+    'GET /api/companies': {
+        query: {
+            search?: string;
+            status?: "active" | "suspended" | "inactive";
+            industry_id?: string;
+            sort_by?: string;
+            sort_direction?: "asc" | "desc";
+            per_page?: number;
+            page?: number;
+        };
+    };
+    /** Create new company */
+    'POST /api/companies': {
+        query: never;
+    };
+    /** View complete company details */
+    'GET /api/companies/{company}': {
+        query: never;
+    };
+    /** Update company */
+    'PATCH /api/companies/{company}': {
+        query: never;
+    };
+    /** List companies followed by authenticated user */
+    'GET /api/companies/followed': {
+        query: {
+            page?: number;
+            per_page?: number;
+        };
+    };
+    /** Check if user follows a company */
+    'GET /api/companies/{company}/is-following': {
+        query: never;
+    };
+    /** Follow a company */
+    'POST /api/companies/{company}/follow': {
+        query: never;
+    };
+    /** Unfollow a company */
+    'DELETE /api/companies/{company}/unfollow': {
+        query: never;
+    };
+    /** Listar todas las industrias disponibles */
+    'GET /api/company-industries': {
+        query: {
+            with_counts?: boolean;
+        };
+    };
+    /** Approve company request */
+    'POST /api/company-requests/{companyRequest}/approve': {
+        query: never;
+    };
+    /** Reject company request */
+    'POST /api/company-requests/{companyRequest}/reject': {
+        query: never;
+    };
+    /** List company requests */
+    'GET /api/company-requests': {
+        query: {
+            status?: "PENDING" | "APPROVED" | "REJECTED";
+            search?: string;
+            sort?: string;
+            order?: "asc" | "desc";
+            per_page?: number;
+            page?: number;
+        };
+    };
+    /** Create company request */
+    'POST /api/company-requests': {
+        query: never;
+    };
+    /** Create alert announcement */
+    'POST /api/announcements/alerts': {
+        query: never;
+    };
+    /** Publish announcement immediately */
+    'POST /api/announcements/{id}/publish': {
+        query: never;
+    };
+    /** Schedule announcement for future publication */
+    'POST /api/announcements/{id}/schedule': {
+        query: never;
+    };
+    /** Unschedule announcement */
+    'POST /api/announcements/{id}/unschedule': {
+        query: never;
+    };
+    /** Archive published announcement */
+    'POST /api/announcements/{id}/archive': {
+        query: never;
+    };
+    /** Restore archived announcement to draft */
+    'POST /api/announcements/{id}/restore': {
+        query: never;
+    };
+    /** List announcements with role-based visibility */
+    'GET /api/announcements': {
+        query: {
+            status?: "draft" | "scheduled" | "published" | "archived";
+            type?: "MAINTENANCE" | "INCIDENT" | "NEWS" | "ALERT";
+            search?: string;
+            sort?: "-published_at" | "-created_at" | "title";
+            published_after?: string;
+            published_before?: string;
+            company_id?: string;
+            page?: number;
+            per_page?: number;
+        };
+    };
+    /** Get announcement by ID */
+    'GET /api/announcements/{announcement}': {
+        query: never;
+    };
+    /** Update announcement */
+    'PUT /api/announcements/{announcement}': {
+        query: never;
+    };
+    /** Delete announcement */
+    'DELETE /api/announcements/{announcement}': {
+        query: never;
+    };
+    /** Get announcement type schemas */
+    'GET /api/announcements/schemas': {
+        query: never;
+    };
+    /** List help center articles */
+    'GET /api/help-center/articles': {
+        query: {
+            page?: number;
+            per_page?: number;
+            search?: string;
+            category?: "ACCOUNT_PROFILE" | "SECURITY_PRIVACY" | "BILLING_PAYMENTS" | "TECHNICAL_SUPPORT";
+            status?: "DRAFT" | "PUBLISHED";
+            sort?: "title" | "-title" | "views" | "-views" | "created_at" | "-created_at";
+            company_id?: string;
+        };
+    };
+    /** Create a new article */
+    'POST /api/help-center/articles': {
+        query: never;
+    };
+    /** View a single article */
+    'GET /api/help-center/articles/{id}': {
+        query: never;
+    };
+    /** Update an article */
+    'PUT /api/help-center/articles/{id}': {
+        query: never;
+    };
+    /** Delete an article */
+    'DELETE /api/help-center/articles/{id}': {
+        query: never;
+    };
+    /** Publish an article */
+    'POST /api/help-center/articles/{id}/publish': {
+        query: never;
+    };
+    /** Unpublish an article */
+    'POST /api/help-center/articles/{id}/unpublish': {
+        query: never;
+    };
+    /** List all help center categories */
+    'GET /api/help-center/categories': {
+        query: never;
+    };
+    /** Create a new incident announcement */
+    'POST /api/v1/announcements/incidents': {
+        query: never;
+    };
+    /** Resolve an incident announcement */
+    'POST /api/v1/announcements/incidents/{id}/resolve': {
+        query: never;
+    };
+    /** Create maintenance announcement */
+    'POST /api/announcements/maintenance': {
+        query: never;
+    };
+    /** Mark maintenance as started */
+    'POST /api/announcements/maintenance/{announcement}/start': {
+        query: never;
+    };
+    /** Mark maintenance as completed */
+    'POST /api/announcements/maintenance/{announcement}/complete': {
+        query: never;
+    };
+    /** Create news announcement */
+    'POST /api/announcements/news': {
+        query: never;
+    };
+    /** List ticket categories for a company (paginated) */
+    'GET /api/tickets/categories': {
+        query: {
+            company_id: string;
+            is_active?: "true" | "false" | "1" | "0";
+            per_page?: number;
+            page?: number;
+        };
+    };
+    /** Create a new ticket category */
+    'POST /api/tickets/categories': {
+        query: never;
+    };
+    /** Update a ticket category */
+    'PUT /api/tickets/categories/{id}': {
+        query: never;
+    };
+    /** Delete a ticket category */
+    'DELETE /api/tickets/categories/{id}': {
+        query: never;
+    };
+    /** Resolve a ticket */
+    'POST /api/tickets/{ticket}/resolve': {
+        query: never;
+    };
+    /** Close a ticket */
+    'POST /api/tickets/{ticket}/close': {
+        query: never;
+    };
+    /** Reopen a ticket */
+    'POST /api/tickets/{ticket}/reopen': {
+        query: never;
+    };
+    /** Assign ticket to agent */
+    'POST /api/tickets/{ticket}/assign': {
+        query: never;
+    };
+    /** List all ticket attachments */
+    'GET /api/tickets/{ticket}/attachments': {
+        query: never;
+    };
+    /** Upload attachment to ticket */
+    'POST /api/tickets/{ticket}/attachments': {
+        query: never;
+    };
+    /** Upload attachment to specific response */
+    'POST /api/tickets/{ticket}/responses/{response}/attachments': {
+        query: never;
+    };
+    /** Delete a ticket attachment */
+    'DELETE /api/tickets/{ticket}/attachments/{attachment}': {
+        query: never;
+    };
+    /** Download an attachment file */
+    'GET /api/tickets/attachments/{attachment}/download': {
+        query: never;
+    };
+    /** List tickets with role-based visibility */
+    'GET /api/tickets': {
+        query: {
+            status?: "open" | "pending" | "resolved" | "closed";
+            category_id?: string;
+            owner_agent_id?: string;
+            created_by_user_id?: string;
+            last_response_author_type?: "none" | "user" | "agent";
+            search?: string;
+            created_from?: string;
+            created_to?: string;
+            created_after?: string;
+            created_before?: string;
+            sort_by?: "created_at" | "updated_at" | "title" | "status";
+            sort_order?: "asc" | "desc";
+            sort?: string;
+            per_page?: number;
+            page?: number;
+        };
+    };
+    /** Create a new support ticket */
+    'POST /api/tickets': {
+        query: never;
+    };
+    /** Get a single ticket by ticket_code */
+    'GET /api/tickets/{ticket}': {
+        query: never;
+    };
+    /** Delete a ticket */
+    'DELETE /api/tickets/{ticket}': {
+        query: never;
+    };
+    /** Update a ticket */
+    'PATCH /api/tickets/{ticket}': {
+        query: never;
+    };
+    /** List all responses for a ticket */
+    'GET /api/tickets/{ticket}/responses': {
+        query: never;
+    };
+    /** Create a new response in a ticket */
+    'POST /api/tickets/{ticket}/responses': {
+        query: never;
+    };
+    /** Get a single response by ID */
+    'GET /api/tickets/{ticket}/responses/{response}': {
+        query: never;
+    };
+    /** Delete a response */
+    'DELETE /api/tickets/{ticket}/responses/{response}': {
+        query: never;
+    };
+    /** Update a response */
+    'PATCH /api/tickets/{ticket}/responses/{response}': {
+        query: never;
+    };
+    /** Get authenticated user profile */
+    'GET /api/users/me/profile': {
+        query: never;
+    };
+    /** Update authenticated user profile */
+    'PATCH /api/users/me/profile': {
+        query: never;
+    };
+    /** Update authenticated user preferences */
+    'PATCH /api/users/me/preferences': {
+        query: never;
+    };
+    /** Get all available roles */
+    'GET /api/roles': {
+        query: never;
+    };
+    /** Assign a role to a user */
+    'POST /api/users/{userId}/roles': {
+        query: never;
+    };
+    /** Remove a role from a user */
+    'DELETE /api/users/roles/{roleId}': {
+        query: {
+            reason?: string;
+        };
+    };
+    /** Get authenticated user information */
+    'GET /api/users/me': {
+        query: never;
+    };
+    /** List users with filters and pagination */
+    'GET /api/users': {
+        query: {
+            search?: string;
+            status?: "active" | "suspended" | "deleted";
+            emailVerified?: boolean;
+            role?: "USER" | "AGENT" | "COMPANY_ADMIN" | "PLATFORM_ADMIN";
+            companyId?: string;
+            recentActivity?: boolean;
+            createdAfter?: string;
+            createdBefore?: string;
+            order_by?: "created_at" | "updated_at" | "email" | "status" | "last_login_at" | "last_activity_at";
+            order_direction?: "asc" | "desc";
+            page?: number;
+            per_page?: number;
+        };
+    };
+    /** Get specific user by ID */
+    'GET /api/users/{id}': {
+        query: never;
+    };
+    /** Delete user (soft delete) */
+    'DELETE /api/users/{id}': {
+        query: {
+            reason?: string;
+        };
+    };
+    /** Update user status */
+    'PUT /api/users/{id}/status': {
+        query: never;
+    };
+}
+
+export type ApiOperationKey = keyof ApiOperations;
+
+export type ApiPath =
+    | '/api/auth/register'
+    | '/api/auth/login'
+    | '/api/auth/login/google'
+    | '/api/auth/status'
+    | '/api/auth/email/verify'
+    | '/api/auth/email/verify/resend'
+    | '/api/auth/email/status'
+    | '/api/health'
+    | '/api/auth/onboarding/completed'
+    | '/api/auth/password-reset'
+    | '/api/auth/password-reset/confirm'
+    | '/api/auth/password-reset/status'
+    | '/api/auth/refresh'
+    | '/api/auth/sessions'
+    | '/api/auth/logout'
+    | '/api/auth/sessions/{sessionId}'
+    | '/api/companies/minimal'
+    | '/api/companies/explore'
+    | '/api/companies'
+    | '/api/companies/{company}'
+    | '/api/companies/followed'
+    | '/api/companies/{company}/is-following'
+    | '/api/companies/{company}/follow'
+    | '/api/companies/{company}/unfollow'
+    | '/api/company-industries'
+    | '/api/company-requests/{companyRequest}/approve'
+    | '/api/company-requests/{companyRequest}/reject'
+    | '/api/company-requests'
+    | '/api/announcements/alerts'
+    | '/api/announcements/{id}/publish'
+    | '/api/announcements/{id}/schedule'
+    | '/api/announcements/{id}/unschedule'
+    | '/api/announcements/{id}/archive'
+    | '/api/announcements/{id}/restore'
+    | '/api/announcements'
+    | '/api/announcements/{announcement}'
+    | '/api/announcements/schemas'
+    | '/api/help-center/articles'
+    | '/api/help-center/articles/{id}'
+    | '/api/help-center/articles/{id}/publish'
+    | '/api/help-center/articles/{id}/unpublish'
+    | '/api/help-center/categories'
+    | '/api/v1/announcements/incidents'
+    | '/api/v1/announcements/incidents/{id}/resolve'
+    | '/api/announcements/maintenance'
+    | '/api/announcements/maintenance/{announcement}/start'
+    | '/api/announcements/maintenance/{announcement}/complete'
+    | '/api/announcements/news'
+    | '/api/tickets/categories'
+    | '/api/tickets/categories/{id}'
+    | '/api/tickets/{ticket}/resolve'
+    | '/api/tickets/{ticket}/close'
+    | '/api/tickets/{ticket}/reopen'
+    | '/api/tickets/{ticket}/assign'
+    | '/api/tickets/{ticket}/attachments'
+    | '/api/tickets/{ticket}/responses/{response}/attachments'
+    | '/api/tickets/{ticket}/attachments/{attachment}'
+    | '/api/tickets/attachments/{attachment}/download'
+    | '/api/tickets'
+    | '/api/tickets/{ticket}'
+    | '/api/tickets/{ticket}/responses'
+    | '/api/tickets/{ticket}/responses/{response}'
+    | '/api/users/me/profile'
+    | '/api/users/me/preferences'
+    | '/api/roles'
+    | '/api/users/{userId}/roles'
+    | '/api/users/roles/{roleId}'
+    | '/api/users/me'
+    | '/api/users'
+    | '/api/users/{id}'
+    | '/api/users/{id}/status';
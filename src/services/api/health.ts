@@ -0,0 +1,32 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { decode } from './decoders/common';
+import { logger } from '../../utils/logger';
+import { adapterFor } from './mock/server';
+
+const HEALTH_TIMEOUT_MS = 5000;
+
+const healthSchema = z.object({
+    status: z.string(),
+    timestamp: z.string().nullish(),
+});
+
+/**
+ * Pings GET /api/health on an arbitrary server. Plain axios on purpose: the
+ * shared client is bound to the active environment and its auth interceptors.
+ * Resolves when the server answers "ok", throws otherwise.
+ */
+export const checkServerHealth = async (baseUrl: string) => {
+    const response = await axios.get(`${baseUrl}/api/health`, {
+        timeout: HEALTH_TIMEOUT_MS,
+        retry: false,
+        adapter: adapterFor(baseUrl),
+    });
+    const health = decode(healthSchema, response.data, 'GET /api/health');
+
+    if (health.status !== 'ok') {
+        logger.warn(`Server ${baseUrl} reported status "${health.status}"`, health, 'Config');
+        throw new Error(`El servidor respondió con estado "${health.status}"`);
+    }
+    return health;
+};
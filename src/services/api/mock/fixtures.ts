@@ -0,0 +1,496 @@
+/**
+ * Seed data for the mock backend, in the wire format of the real API
+ * (snake_case, Laravel-style). Dates are relative to the moment the data is
+ * seeded so lists always look recent.
+ */
+
+export interface MockUser {
+    id: string;
+    user_code: string;
+    email: string;
+    password: string;
+    first_name: string;
+    last_name: string;
+    phone_number: string | null;
+    avatar_url: string | null;
+    email_verified: boolean;
+    onboarding_completed: boolean;
+    theme: 'light' | 'dark';
+    language: 'es' | 'en';
+    timezone: string;
+    push_web_notifications: boolean;
+    notifications_tickets: boolean;
+    created_at: string;
+}
+
+export interface MockAgent {
+    id: string;
+    name: string;
+    avatar_url: string | null;
+}
+
+export interface MockIndustry {
+    id: string;
+    code: string;
+    name: string;
+}
+
+export interface MockCompany {
+    id: string;
+    company_code: string;
+    name: string;
+    legal_name: string;
+    logo_url: string | null;
+    description: string;
+    industry_id: string;
+    support_email: string;
+    phone: string;
+    website: string;
+    contact_address: string;
+    contact_city: string;
+    contact_state: string;
+    contact_country: string;
+    contact_postal_code: string;
+    business_hours: Record<string, { open: string; close: string } | null>;
+    timezone: string;
+    primary_color: string;
+    secondary_color: string;
+    followers_count: number;
+    areas_enabled: boolean;
+    // null: the app defaults apply
+    attachment_settings: MockAttachmentSettings | null;
+    created_at: string;
+}
+
+export interface MockAttachmentSettings {
+    max_file_size_mb: number | null;
+    allowed_mime_types: string[] | null;
+    max_image_dimension: number | null;
+    image_quality: number | null;
+}
+
+export interface MockCategory {
+    id: string;
+    company_id: string;
+    name: string;
+    description: string | null;
+}
+
+export interface MockArea {
+    id: string;
+    company_id: string;
+    name: string;
+    description: string | null;
+}
+
+export interface MockAttachment {
+    id: string;
+    ticket_id: string;
+    response_id: string | null;
+    file_name: string;
+    file_url: string;
+    file_type: string;
+    file_size_bytes: number;
+    uploaded_by: { id: string; name: string };
+    created_at: string;
+}
+
+export interface MockTicket {
+    id: string;
+    ticket_code: string;
+    title: string;
+    description: string;
+    priority: 'low' | 'medium' | 'high';
+    status: 'open' | 'pending' | 'resolved' | 'closed';
+    last_response_author_type: 'none' | 'user' | 'agent';
+    company_id: string;
+    category_id: string | null;
+    area_id: string | null;
+    created_by_user_id: string;
+    owner_agent_id: string | null;
+    rating: { rating: number; comment: string | null; created_at: string } | null;
+    created_at: string;
+    updated_at: string;
+    first_response_at: string | null;
+    resolved_at: string | null;
+    closed_at: string | null;
+}
+
+export interface MockResponse {
+    id: string;
+    ticket_id: string;
+    author_id: string;
+    author_type: 'user' | 'agent';
+    content: string;
+    created_at: string;
+}
+
+export interface MockAnnouncement {
+    id: string;
+    company_id: string;
+    type: 'MAINTENANCE' | 'INCIDENT' | 'NEWS' | 'ALERT';
+    title: string;
+    content: string;
+    excerpt: string;
+    urgency: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' | null;
+    metadata: Record<string, unknown>;
+    published_at: string;
+}
+
+export type MockArticleCategoryCode = 'ACCOUNT_PROFILE' | 'SECURITY_PRIVACY' | 'BILLING_PAYMENTS' | 'TECHNICAL_SUPPORT';
+
+export interface MockArticleCategory {
+    code: MockArticleCategoryCode;
+    name: string;
+    icon: string;
+}
+
+export interface MockArticle {
+    id: string;
+    company_id: string;
+    category_code: MockArticleCategoryCode;
+    title: string;
+    excerpt: string;
+    content: string;
+    views_count: number;
+    published_at: string;
+    updated_at: string;
+}
+
+export interface MockDatabase {
+    users: MockUser[];
+    agents: MockAgent[];
+    industries: MockIndustry[];
+    companies: MockCompany[];
+    follows: { user_id: string; company_id: string }[];
+    categories: MockCategory[];
+    areas: MockArea[];
+    tickets: MockTicket[];
+    responses: MockResponse[];
+    attachments: MockAttachment[];
+    announcements: MockAnnouncement[];
+    articleCategories: MockArticleCategory[];
+    articles: MockArticle[];
+}
+
+export const DEMO_CREDENTIALS = {
+    email: 'demo@helpdesk.test',
+    password: 'Demo1234!',
+};
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+const daysAgo = (days: number) => hoursAgo(days * 24);
+
+const OFFICE_HOURS = {
+    monday: { open: '08:00', close: '18:00' },
+    tuesday: { open: '08:00', close: '18:00' },
+    wednesday: { open: '08:00', close: '18:00' },
+    thursday: { open: '08:00', close: '18:00' },
+    friday: { open: '08:00', close: '17:00' },
+    saturday: { open: '09:00', close: '13:00' },
+    sunday: null,
+};
+
+export const createFixtures = (): MockDatabase => {
+    const user: MockUser = {
+        id: 'usr-0001',
+        user_code: 'USR-2025-00001',
+        email: DEMO_CREDENTIALS.email,
+        password: DEMO_CREDENTIALS.password,
+        first_name: 'Daniela',
+        last_name: 'Quiroga',
+        phone_number: '+591 70000000',
+        avatar_url: null,
+        email_verified: true,
+        onboarding_completed: true,
+        theme: 'light',
+        language: 'es',
+        timezone: 'America/La_Paz',
+        push_web_notifications: true,
+        notifications_tickets: true,
+        created_at: daysAgo(120),
+    };
+
+    const agents: MockAgent[] = [
+        { id: 'agt-0001', name: 'Carlos Mendoza', avatar_url: null },
+        { id: 'agt-0002', name: 'Lucía Fernández', avatar_url: null },
+    ];
+
+    const industries: MockIndustry[] = [
+        { id: 'ind-01', code: 'TECHNOLOGY', name: 'Tecnología' },
+        { id: 'ind-02', code: 'TELECOM', name: 'Telecomunicaciones' },
+        { id: 'ind-03', code: 'FINANCE', name: 'Finanzas' },
+        { id: 'ind-04', code: 'RETAIL', name: 'Comercio' },
+    ];
+
+    const company = (
+        id: string,
+        code: string,
+        name: string,
+        industryId: string,
+        city: string,
+        color: string,
+        followers: number,
+        description: string,
+        areasEnabled = false
+    ): MockCompany => ({
+        id,
+        company_code: code,
+        name,
+        legal_name: `${name} S.R.L.`,
+        logo_url: null,
+        description,
+        industry_id: industryId,
+        support_email: `soporte@${name.toLowerCase().replace(/[^a-z]/g, '')}.test`,
+        phone: '+591 2 2000000',
+        website: `https://${name.toLowerCase().replace(/[^a-z]/g, '')}.test`,
+        contact_address: 'Av. Arce 2500',
+        contact_city: city,
+        contact_state: city,
+        contact_country: 'Bolivia',
+        contact_postal_code: '0000',
+        business_hours: OFFICE_HOURS,
+        timezone: 'America/La_Paz',
+        primary_color: color,
+        secondary_color: '#1f2937',
+        followers_count: followers,
+        areas_enabled: areasEnabled,
+        attachment_settings: null,
+        created_at: daysAgo(400),
+    });
+
+    const companies: MockCompany[] = [
+        company('cmp-0001', 'CMP-2025-00001', 'Nexora Cloud', 'ind-01', 'La Paz', '#2563eb', 128,
+            'Infraestructura en la nube y hosting administrado.', true),
+        company('cmp-0002', 'CMP-2025-00002', 'Andes Telecom', 'ind-02', 'Santa Cruz', '#16a34a', 342,
+            'Internet de fibra y telefonía móvil.'),
+        company('cmp-0003', 'CMP-2025-00003', 'Banco Altiplano', 'ind-03', 'Cochabamba', '#7c3aed', 89,
+            'Banca digital para personas y empresas.'),
+        company('cmp-0004', 'CMP-2025-00004', 'MercaRed', 'ind-04', 'Sucre', '#ea580c', 57,
+            'Tiendas en línea y pagos contra entrega.'),
+        company('cmp-0005', 'CMP-2025-00005', 'Pixel Studio', 'ind-01', 'Tarija', '#db2777', 12,
+            'Diseño y desarrollo de aplicaciones.'),
+    ];
+
+    // The bank only takes small photos and PDFs; the rest use the app defaults
+    companies[2].attachment_settings = {
+        max_file_size_mb: 5,
+        allowed_mime_types: ['image/jpeg', 'image/png', 'application/pdf'],
+        max_image_dimension: 1600,
+        image_quality: 0.7,
+    };
+
+    const categories: MockCategory[] = companies.flatMap((c, index) => [
+        { id: `cat-${index}-1`, company_id: c.id, name: 'Soporte técnico', description: 'Fallas y errores del servicio' },
+        { id: `cat-${index}-2`, company_id: c.id, name: 'Facturación', description: 'Cobros, facturas y pagos' },
+        { id: `cat-${index}-3`, company_id: c.id, name: 'Consultas generales', description: null },
+    ]);
+
+    const areas: MockArea[] = [
+        { id: 'area-01', company_id: 'cmp-0001', name: 'Infraestructura', description: 'Servidores y redes' },
+        { id: 'area-02', company_id: 'cmp-0001', name: 'Cuentas', description: 'Accesos y usuarios' },
+        { id: 'area-03', company_id: 'cmp-0001', name: 'Ventas', description: null },
+    ];
+
+    const ticket = (
+        n: number,
+        companyId: string,
+        title: string,
+        status: MockTicket['status'],
+        priority: MockTicket['priority'],
+        ageHours: number,
+        description: string
+    ): MockTicket => {
+        const created = hoursAgo(ageHours);
+        const answered = status !== 'open';
+        return {
+            id: `tkt-${String(n).padStart(4, '0')}`,
+            ticket_code: `TKT-2025-${String(n).padStart(5, '0')}`,
+            title,
+            description,
+            priority,
+            status,
+            last_response_author_type: answered ? 'agent' : 'none',
+            company_id: companyId,
+            category_id: categories.find((c) => c.company_id === companyId)?.id ?? null,
+            area_id: companyId === 'cmp-0001' ? 'area-01' : null,
+            created_by_user_id: user.id,
+            owner_agent_id: answered ? agents[n % agents.length].id : null,
+            rating: status === 'closed' ? { rating: 5, comment: 'Muy rápido, gracias', created_at: hoursAgo(ageHours / 3) } : null,
+            created_at: created,
+            updated_at: hoursAgo(ageHours / 2),
+            first_response_at: answered ? hoursAgo(ageHours - 1) : null,
+            resolved_at: status === 'resolved' || status === 'closed' ? hoursAgo(ageHours / 2) : null,
+            closed_at: status === 'closed' ? hoursAgo(ageHours / 3) : null,
+        };
+    };
+
+    const tickets: MockTicket[] = [
+        ticket(1, 'cmp-0001', 'El servidor de staging no responde', 'open', 'high', 3,
+            'Desde esta mañana el servidor de staging devuelve 502 en todas las rutas.'),
+        ticket(2, 'cmp-0002', 'Internet intermitente en la oficina', 'pending', 'medium', 20,
+            'La conexión se corta cada 10 minutos aproximadamente.'),
+        ticket(3, 'cmp-0003', 'No puedo activar el token digital', 'pending', 'high', 30,
+            'La app del banco dice que el código expiró aunque lo ingreso de inmediato.'),
+        ticket(4, 'cmp-0004', 'Pedido sin entregar', 'resolved', 'medium', 72,
+            'Mi pedido #88231 figura como entregado pero no lo recibí.'),
+        ticket(5, 'cmp-0001', 'Solicitud de aumento de cuota de almacenamiento', 'closed', 'low', 240,
+            'Necesitamos pasar de 100 GB a 250 GB en el plan actual.'),
+        ticket(6, 'cmp-0002', 'Cobro duplicado en la factura de marzo', 'open', 'medium', 50,
+            'Aparecen dos cargos por el mismo plan en la factura.'),
+        ticket(7, 'cmp-0003', 'Cambio de correo de notificaciones', 'resolved', 'low', 160,
+            'Quiero recibir las notificaciones en mi correo personal.'),
+        ticket(8, 'cmp-0001', 'Certificado SSL vencido en el dominio principal', 'closed', 'high', 500,
+            'El navegador muestra que el certificado expiró ayer.'),
+    ];
+
+    const responses: MockResponse[] = tickets
+        .filter((t) => t.status !== 'open')
+        .flatMap((t, index) => [
+            {
+                id: `rsp-${index}-1`,
+                ticket_id: t.id,
+                author_id: t.owner_agent_id as string,
+                author_type: 'agent' as const,
+                content: 'Hola, gracias por escribirnos. Ya estamos revisando tu caso.',
+                created_at: t.first_response_at as string,
+            },
+            {
+                id: `rsp-${index}-2`,
+                ticket_id: t.id,
+                author_id: user.id,
+                author_type: 'user' as const,
+                content: 'Perfecto, quedo atento. ¡Gracias!',
+                created_at: t.updated_at,
+            },
+        ]);
+
+    const attachments: MockAttachment[] = [
+        {
+            id: 'att-0001',
+            ticket_id: 'tkt-0001',
+            response_id: null,
+            file_name: 'captura-502.png',
+            file_url: 'https://picsum.photos/seed/helpdesk-502/800/600',
+            file_type: 'image/png',
+            file_size_bytes: 245_760,
+            uploaded_by: { id: user.id, name: `${user.first_name} ${user.last_name}` },
+            created_at: hoursAgo(3),
+        },
+    ];
+
+    const announcements: MockAnnouncement[] = [
+        {
+            id: 'ann-0001',
+            company_id: 'cmp-0001',
+            type: 'MAINTENANCE',
+            title: 'Mantenimiento programado de la base de datos',
+            content: 'El **sábado de 02:00 a 04:00** migraremos los clústeres de base de datos. Los servicios podrían responder con lentitud.',
+            excerpt: 'Sábado de 02:00 a 04:00 migraremos los clústeres de base de datos.',
+            urgency: 'MEDIUM',
+            metadata: { scheduled_start: daysAgo(-2), scheduled_end: daysAgo(-2), is_emergency: false, affected_services: ['database', 'api'] },
+            published_at: hoursAgo(5),
+        },
+        {
+            id: 'ann-0002',
+            company_id: 'cmp-0002',
+            type: 'INCIDENT',
+            title: 'Corte de fibra en la zona sur',
+            content: 'Un corte de fibra afecta a clientes de la zona sur. Nuestro equipo ya trabaja en la reparación.',
+            excerpt: 'Un corte de fibra afecta a clientes de la zona sur.',
+            urgency: 'HIGH',
+            metadata: { is_resolved: false, started_at: hoursAgo(2), affected_services: ['fibra'] },
+            published_at: hoursAgo(2),
+        },
+        {
+            id: 'ann-0003',
+            company_id: 'cmp-0003',
+            type: 'NEWS',
+            title: 'Nueva app de banca móvil',
+            content: 'Lanzamos una nueva versión de la app con pagos QR y transferencias inmediatas.',
+            excerpt: 'Lanzamos una nueva versión de la app con pagos QR.',
+            urgency: null,
+            metadata: { news_type: 'feature_release', target_audience: ['users'], summary: 'Pagos QR y transferencias inmediatas' },
+            published_at: daysAgo(3),
+        },
+        {
+            id: 'ann-0004',
+            company_id: 'cmp-0003',
+            type: 'ALERT',
+            title: 'Intentos de phishing por SMS',
+            content: 'Nunca te pediremos tu clave por SMS. Reporta cualquier mensaje sospechoso.',
+            excerpt: 'Nunca te pediremos tu clave por SMS.',
+            urgency: 'CRITICAL',
+            metadata: { alert_type: 'security', message: 'No compartas tu clave', action_required: true, action_description: 'Reporta mensajes sospechosos', started_at: daysAgo(1) },
+            published_at: daysAgo(1),
+        },
+        {
+            id: 'ann-0005',
+            company_id: 'cmp-0004',
+            type: 'NEWS',
+            title: 'Envíos gratis este fin de semana',
+            content: 'Todos los pedidos mayores a Bs. 100 tienen envío gratis hasta el domingo.',
+            excerpt: 'Envío gratis en pedidos mayores a Bs. 100.',
+            urgency: null,
+            metadata: { news_type: 'general_update', target_audience: ['users'], summary: 'Envío gratis' },
+            published_at: daysAgo(6),
+        },
+    ];
+
+    const articleCategories: MockArticleCategory[] = [
+        { code: 'ACCOUNT_PROFILE', name: 'Cuenta y perfil', icon: 'account-circle' },
+        { code: 'SECURITY_PRIVACY', name: 'Seguridad y privacidad', icon: 'shield-lock' },
+        { code: 'BILLING_PAYMENTS', name: 'Facturación y pagos', icon: 'credit-card' },
+        { code: 'TECHNICAL_SUPPORT', name: 'Soporte técnico', icon: 'tools' },
+    ];
+
+    const article = (
+        n: number,
+        companyId: string,
+        category: MockArticleCategoryCode,
+        title: string,
+        excerpt: string,
+        views: number,
+        ageDays: number
+    ): MockArticle => ({
+        id: `art-${String(n).padStart(4, '0')}`,
+        company_id: companyId,
+        category_code: category,
+        title,
+        excerpt,
+        content: `# ${title}\n\n${excerpt}\n\n1. Abre la aplicación.\n2. Ve a **Perfil**.\n3. Sigue las instrucciones en pantalla.`,
+        views_count: views,
+        published_at: daysAgo(ageDays),
+        updated_at: daysAgo(ageDays / 2),
+    });
+
+    const articles: MockArticle[] = [
+        article(1, 'cmp-0001', 'ACCOUNT_PROFILE', 'Cómo cambiar tu foto de perfil', 'Actualiza tu avatar desde la app en segundos.', 1520, 30),
+        article(2, 'cmp-0001', 'SECURITY_PRIVACY', 'Activa la verificación en dos pasos', 'Protege tu cuenta con un segundo factor.', 2380, 45),
+        article(3, 'cmp-0002', 'BILLING_PAYMENTS', 'Entiende tu factura mensual', 'Qué significa cada cargo de tu factura.', 980, 12),
+        article(4, 'cmp-0002', 'TECHNICAL_SUPPORT', 'Reinicia tu router correctamente', 'Pasos para resolver cortes intermitentes.', 3410, 60),
+        article(5, 'cmp-0003', 'SECURITY_PRIVACY', 'Reconoce mensajes de phishing', 'Señales para identificar mensajes falsos.', 4120, 8),
+        article(6, 'cmp-0004', 'BILLING_PAYMENTS', 'Solicita un reembolso', 'Cuándo y cómo pedir la devolución de tu dinero.', 640, 20),
+        article(7, 'cmp-0001', 'TECHNICAL_SUPPORT', 'Renueva un certificado SSL', 'Evita que tu sitio muestre advertencias de seguridad.', 870, 90),
+    ];
+
+    return {
+        users: [user],
+        agents,
+        industries,
+        companies,
+        follows: [
+            { user_id: user.id, company_id: 'cmp-0001' },
+            { user_id: user.id, company_id: 'cmp-0002' },
+            { user_id: user.id, company_id: 'cmp-0003' },
+        ],
+        categories,
+        areas,
+        tickets,
+        responses,
+        attachments,
+        announcements,
+        articleCategories,
+        articles,
+    };
+};
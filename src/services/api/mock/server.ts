@@ -0,0 +1,1177 @@
+import {
+    AxiosAdapter,
+    AxiosError,
+    AxiosHeaders,
+    AxiosResponse,
+    CanceledError,
+    GenericAbortSignal,
+    InternalAxiosRequestConfig,
+} from 'axios';
+import { camelizeKeys } from '../decoders/common';
+import { decodeJwtPayload } from '../../../utils/jwt';
+import { logger } from '../../../utils/logger';
+import {
+    createFixtures,
+    MockAnnouncement,
+    MockArticle,
+    MockAttachment,
+    MockCompany,
+    MockDatabase,
+    MockResponse,
+    MockTicket,
+    MockUser,
+} from './fixtures';
+
+/**
+ * In-memory stand-in for the Laravel API, plugged into axios as an adapter.
+ * It implements the endpoints the app calls with the same wire format
+ * (snake_case bodies, Laravel validation errors, paginated `meta`), keeps
+ * state for the lifetime of the JS runtime, and can simulate failures:
+ *
+ * - failure modes: rate limiting (429), server errors (500), slow or no network
+ * - `expireAccessTokens()`: next requests get 401 and the refresh succeeds
+ * - `revokeSession()`: next requests get 401 and the refresh fails too (re-auth)
+ *
+ * Selected through the "mock" environment (see environmentStore).
+ */
+
+export const MOCK_API_URL = 'http://mock.helpdesk.local';
+
+export type MockFailureMode = 'none' | 'rate-limit' | 'server-error' | 'slow' | 'offline';
+
+interface MockRequest {
+    method: string;
+    path: string;
+    params: Record<string, string>; // Path parameters
+    query: Record<string, unknown>;
+    body: Record<string, any>; // camelCase keys
+    files: { name: string; type: string; uri: string }[];
+    userId: string | null;
+    sessionId: string | null;
+}
+
+interface MockResult {
+    status: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+}
+
+interface Route {
+    method: string;
+    regex: RegExp;
+    keys: string[];
+    authenticated: boolean;
+    handler: (request: MockRequest) => MockResult;
+}
+
+interface MockSession {
+    id: string;
+    userId: string;
+    deviceName: string | null;
+    createdAt: string;
+    lastUsedAt: string;
+    expiresAt: string;
+    revoked: boolean;
+}
+
+const ACCESS_TOKEN_TTL_SECONDS = 5 * 60;
+const REFRESH_TTL_MS = 24 * 60 * 60 * 1000;
+// "Recordarme" keeps the refresh cookie for longer
+const REMEMBERED_REFRESH_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_CODE = '123456';
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_CODE = '246810';
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const RESEND_WINDOW_MS = 5 * 60 * 1000;
+const RESEND_MAX_ATTEMPTS = 3;
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+let db: MockDatabase = createFixtures();
+let failureMode: MockFailureMode = 'none';
+let sessions = new Map<string, MockSession>();
+// Tokens issued before the last expireAccessTokens() are rejected
+let tokenGeneration = 0;
+// Stands in for the HttpOnly refresh cookie of this device
+let cookieSessionId: string | null = null;
+let idempotentResults = new Map<string, MockResult>();
+// Verification emails sent per user (timestamps), for the resend rate limit
+let verificationEmails = new Map<string, number[]>();
+// Reset emails per address: the link token, when it expires and send times for the rate limit
+let passwordResets = new Map<string, { token: string; expiresAt: number; sent: number[] }>();
+let sequence = 1000;
+
+const nextId = (prefix: string) => `${prefix}-${++sequence}`;
+const now = () => new Date().toISOString();
+
+const seedSessions = () => {
+    sessions = new Map();
+    const other: MockSession = {
+        id: 'ses-seed-web',
+        userId: db.users[0].id,
+        deviceName: 'Chrome en Windows',
+        createdAt: new Date(Date.now() - 3 * 86400000).toISOString(),
+        lastUsedAt: new Date(Date.now() - 5 * 3600000).toISOString(),
+        expiresAt: new Date(Date.now() + REFRESH_TTL_MS).toISOString(),
+        revoked: false,
+    };
+    sessions.set(other.id, other);
+};
+seedSessions();
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ok = (body: unknown, status = 200): MockResult => ({ status, body });
+
+const fail = (status: number, message: string, code?: string): MockResult => ({
+    status,
+    body: { message, ...(code ? { code } : {}) },
+});
+
+// Laravel validation error: first message on top, every field as an array
+const invalid = (errors: Record<string, string>): MockResult => ({
+    status: 422,
+    body: {
+        message: Object.values(errors)[0],
+        errors: Object.fromEntries(Object.entries(errors).map(([field, message]) => [field, [message]])),
+    },
+});
+
+const notFound = (what: string) => fail(404, `${what} no encontrado`, 'NOT_FOUND');
+
+const asString = (value: unknown) => (value === undefined || value === null ? '' : String(value));
+const asInt = (value: unknown, fallback: number) => {
+    const parsed = parseInt(asString(value), 10);
+    return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+};
+const asBool = (value: unknown) => value === true || value === 'true' || value === '1' || value === 1;
+const matches = (text: string, search: string) => text.toLowerCase().includes(search.toLowerCase());
+
+const paginate = <T>(items: T[], query: Record<string, unknown>, defaultPerPage = 15) => {
+    const perPage = asInt(query.per_page, defaultPerPage);
+    const total = items.length;
+    const lastPage = Math.max(1, Math.ceil(total / perPage));
+    const page = Math.min(asInt(query.page, 1), lastPage);
+    return {
+        data: items.slice((page - 1) * perPage, page * perPage),
+        meta: { current_page: page, last_page: lastPage, total, per_page: perPage },
+    };
+};
+
+const base64Url = (value: string) => btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const issueAccessToken = (session: MockSession) => {
+    const user = db.users.find((u) => u.id === session.userId) as MockUser;
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const header = base64Url(JSON.stringify({ typ: 'JWT', alg: 'none' }));
+    const payload = base64Url(JSON.stringify({
+        iss: 'helpdesk-mock',
+        sub: user.id,
+        user_id: user.id,
+        email: user.email,
+        session_id: session.id,
+        iat: issuedAt,
+        exp: issuedAt + ACCESS_TOKEN_TTL_SECONDS,
+        gen: tokenGeneration,
+    }));
+    return `${header}.${payload}.mock`;
+};
+
+const startSession = (user: MockUser, deviceName: string | null, rememberMe = false) => {
+    const session: MockSession = {
+        id: nextId('ses'),
+        userId: user.id,
+        deviceName,
+        createdAt: now(),
+        lastUsedAt: now(),
+        expiresAt: new Date(Date.now() + (rememberMe ? REMEMBERED_REFRESH_TTL_MS : REFRESH_TTL_MS)).toISOString(),
+        revoked: false,
+    };
+    sessions.set(session.id, session);
+    cookieSessionId = session.id;
+    return session;
+};
+
+const isSessionActive = (session: MockSession | undefined): session is MockSession =>
+    !!session && !session.revoked && Date.parse(session.expiresAt) > Date.now();
+
+const authenticate = (authorization: string): MockSession | null => {
+    const token = authorization.replace(/^Bearer\s+/i, '');
+    const payload = decodeJwtPayload(token);
+    if (!payload || payload.gen !== tokenGeneration) return null;
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) return null;
+
+    const session = sessions.get(asString(payload.session_id));
+    if (!isSessionActive(session)) return null;
+    session.lastUsedAt = now();
+    return session;
+};
+
+// ---------------------------------------------------------------------------
+// Serializers (wire format)
+// ---------------------------------------------------------------------------
+
+const findCompany = (id: string | null) => db.companies.find((c) => c.id === id);
+const isFollowing = (userId: string | null, companyId: string) =>
+    db.follows.some((f) => f.user_id === userId && f.company_id === companyId);
+
+const serializeUser = (user: MockUser) => {
+    const tickets = db.tickets.filter((t) => t.created_by_user_id === user.id);
+    return {
+        id: user.id,
+        user_code: user.user_code,
+        email: user.email,
+        status: 'ACTIVE',
+        email_verified: user.email_verified,
+        onboarding_completed: user.onboarding_completed,
+        email_verified_at: user.email_verified ? user.created_at : null,
+        last_login_at: now(),
+        created_at: user.created_at,
+        first_name: user.first_name,
+        last_name: user.last_name,
+        display_name: `${user.first_name} ${user.last_name}`,
+        phone_number: user.phone_number,
+        avatar_url: user.avatar_url,
+        theme: user.theme,
+        language: user.language,
+        timezone: user.timezone,
+        push_web_notifications: user.push_web_notifications,
+        notifications_tickets: user.notifications_tickets,
+        role_contexts: [{ role_code: 'USER', role_name: 'Usuario', dashboard_path: '/tickets', company: null }],
+        tickets_count: tickets.length,
+        resolved_tickets_count: tickets.filter((t) => t.status === 'resolved' || t.status === 'closed').length,
+    };
+};
+
+const serializeAttachment = (attachment: MockAttachment) => attachment;
+
+const serializeTicket = (ticket: MockTicket, detailed = false) => {
+    const company = findCompany(ticket.company_id) as MockCompany;
+    const category = db.categories.find((c) => c.id === ticket.category_id);
+    const area = db.areas.find((a) => a.id === ticket.area_id);
+    const owner = db.agents.find((a) => a.id === ticket.owner_agent_id);
+    const creator = db.users.find((u) => u.id === ticket.created_by_user_id);
+    const attachments = db.attachments.filter((a) => a.ticket_id === ticket.id);
+
+    return {
+        id: ticket.id,
+        ticket_code: ticket.ticket_code,
+        title: ticket.title,
+        description: ticket.description,
+        priority: ticket.priority,
+        status: ticket.status,
+        last_response_author_type: ticket.last_response_author_type,
+        company_id: company.id,
+        company: { id: company.id, name: company.name, logo_url: company.logo_url },
+        category: category ? { id: category.id, name: category.name } : null,
+        area: area ? { id: area.id, name: area.name } : null,
+        created_by_user: creator
+            ? { id: creator.id, name: `${creator.first_name} ${creator.last_name}`, email: creator.email }
+            : null,
+        owner_agent: owner ? { id: owner.id, name: owner.name, avatar_url: owner.avatar_url } : null,
+        rating: ticket.rating,
+        attachments_count: attachments.length,
+        responses_count: db.responses.filter((r) => r.ticket_id === ticket.id).length,
+        ...(detailed ? { attachments: attachments.map(serializeAttachment) } : {}),
+        created_at: ticket.created_at,
+        updated_at: ticket.updated_at,
+        timeline: {
+            created_at: ticket.created_at,
+            first_response_at: ticket.first_response_at,
+            resolved_at: ticket.resolved_at,
+            closed_at: ticket.closed_at,
+        },
+        resolved_at: ticket.resolved_at,
+        closed_at: ticket.closed_at,
+    };
+};
+
+const serializeResponse = (response: MockResponse) => {
+    const agent = db.agents.find((a) => a.id === response.author_id);
+    const user = db.users.find((u) => u.id === response.author_id);
+    return {
+        id: response.id,
+        ticket_id: response.ticket_id,
+        author_id: response.author_id,
+        author_type: response.author_type,
+        content: response.content,
+        created_at: response.created_at,
+        author: agent
+            ? { id: agent.id, name: agent.name, avatar_url: agent.avatar_url }
+            : { id: user?.id, name: user ? `${user.first_name} ${user.last_name}` : '', avatar_url: user?.avatar_url ?? null },
+        attachments: db.attachments.filter((a) => a.response_id === response.id).map(serializeAttachment),
+    };
+};
+
+const serializeCompany = (company: MockCompany, userId: string | null) => ({
+    id: company.id,
+    company_code: company.company_code,
+    name: company.name,
+    logo_url: company.logo_url,
+    description: company.description,
+    industry: db.industries.find((i) => i.id === company.industry_id) ?? null,
+    contact_city: company.contact_city,
+    contact_country: company.contact_country,
+    primary_color: company.primary_color,
+    status: 'ACTIVE',
+    followers_count: company.followers_count,
+    is_followed_by_me: isFollowing(userId, company.id),
+});
+
+const serializeCompanyDetail = (company: MockCompany, userId: string | null) => {
+    const myTickets = db.tickets
+        .filter((t) => t.company_id === company.id && t.created_by_user_id === userId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return {
+        ...serializeCompany(company, userId),
+        legal_name: company.legal_name,
+        support_email: company.support_email,
+        phone: company.phone,
+        website: company.website,
+        contact_address: company.contact_address,
+        contact_state: company.contact_state,
+        contact_postal_code: company.contact_postal_code,
+        business_hours: company.business_hours,
+        timezone: company.timezone,
+        secondary_color: company.secondary_color,
+        my_tickets_count: myTickets.length,
+        last_ticket_created_at: myTickets[0]?.created_at ?? null,
+        has_unread_announcements: db.announcements.some((a) => a.company_id === company.id),
+    };
+};
+
+const serializeAnnouncement = (announcement: MockAnnouncement) => {
+    const company = findCompany(announcement.company_id);
+    return {
+        ...announcement,
+        company_name: company?.name ?? null,
+        company: company ? { id: company.id, name: company.name } : null,
+        status: 'PUBLISHED',
+    };
+};
+
+const serializeArticle = (article: MockArticle) => {
+    const company = findCompany(article.company_id);
+    const category = db.articleCategories.find((c) => c.code === article.category_code);
+    return {
+        ...article,
+        category: category ? { code: category.code, name: category.name } : null,
+        company: company ? { id: company.id, name: company.name, logo_url: company.logo_url } : null,
+        status: 'PUBLISHED',
+    };
+};
+
+const serializeSession = (session: MockSession, currentId: string | null) => ({
+    session_id: session.id,
+    device_name: session.deviceName,
+    ip_address: '192.168.0.10',
+    user_agent: 'HelpdeskMobile/1.0',
+    last_used_at: session.lastUsedAt,
+    expires_at: session.expiresAt,
+    is_current: session.id === currentId,
+    location: { city: 'La Paz', country: 'Bolivia', country_code: 'BO', latitude: -16.5, longitude: -68.15, timezone: 'America/La_Paz' },
+});
+
+const authPayload = (user: MockUser, session: MockSession) => ({
+    access_token: issueAccessToken(session),
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    user: serializeUser(user),
+    session_id: session.id,
+    login_timestamp: now(),
+});
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+const routes: Route[] = [];
+
+const route = (method: string, pattern: string, handler: Route['handler'], authenticated = true) => {
+    const keys: string[] = [];
+    const source = pattern.replace(/\{(\w+)\}/g, (_, key: string) => {
+        keys.push(key);
+        return '([^/]+)';
+    });
+    routes.push({ method, regex: new RegExp(`^${source}$`), keys, authenticated, handler });
+};
+
+const currentUser = (request: MockRequest) => db.users.find((u) => u.id === request.userId) as MockUser;
+
+const ownTicket = (request: MockRequest) =>
+    db.tickets.find((t) => t.ticket_code === request.params.ticket && t.created_by_user_id === request.userId);
+
+// Health
+route('GET', '/api/health', () => ok({ status: 'ok', timestamp: now() }), false);
+
+// Auth
+route('POST', '/api/auth/login', ({ body }) => {
+    if (!body.email || !body.password) {
+        return invalid({ ...(!body.email ? { email: 'El correo es obligatorio' } : {}), ...(!body.password ? { password: 'La contraseña es obligatoria' } : {}) });
+    }
+    const user = db.users.find((u) => u.email.toLowerCase() === asString(body.email).toLowerCase());
+    if (!user || user.password !== body.password) {
+        return fail(401, 'Credenciales inválidas', 'INVALID_CREDENTIALS');
+    }
+    return ok(authPayload(user, startSession(user, body.deviceName ?? null, body.rememberMe === true)));
+}, false);
+
+// Any well-formed Google ID token is accepted; unknown emails get a new account
+route('POST', '/api/auth/login/google', ({ body }) => {
+    const claims = decodeJwtPayload(asString(body.googleToken));
+    const email = asString(claims?.email);
+    if (!claims || !email) return fail(401, 'Invalid Google token', 'INVALID_GOOGLE_TOKEN');
+
+    let user = db.users.find((u) => u.email.toLowerCase() === email.toLowerCase());
+    if (!user) {
+        user = {
+            ...db.users[0],
+            id: nextId('usr'),
+            user_code: `USR-2025-${sequence}`,
+            email,
+            password: '',
+            first_name: asString(claims.given_name) || email.split('@')[0],
+            last_name: asString(claims.family_name),
+            phone_number: null,
+            avatar_url: asString(claims.picture) || null,
+            email_verified: true,
+            onboarding_completed: false,
+            created_at: now(),
+        };
+        db.users.push(user);
+    }
+    return ok(authPayload(user, startSession(user, body.deviceName ?? null)));
+}, false);
+
+route('POST', '/api/auth/register', ({ body }) => {
+    const errors: Record<string, string> = {};
+    if (db.users.some((u) => u.email.toLowerCase() === asString(body.email).toLowerCase())) {
+        errors.email = 'Este correo ya está registrado';
+    }
+    if (asString(body.password).length < 8) errors.password = 'La contraseña debe tener al menos 8 caracteres';
+    if (body.password !== body.passwordConfirmation) errors.password_confirmation = 'Las contraseñas no coinciden';
+    if (!body.acceptsTerms) errors.accepts_terms = 'Debes aceptar los términos y condiciones';
+    if (Object.keys(errors).length > 0) return invalid(errors);
+
+    const user: MockUser = {
+        ...db.users[0],
+        id: nextId('usr'),
+        user_code: `USR-2025-${sequence}`,
+        email: asString(body.email),
+        password: asString(body.password),
+        first_name: asString(body.firstName),
+        last_name: asString(body.lastName),
+        phone_number: null,
+        avatar_url: null,
+        email_verified: false,
+        onboarding_completed: false,
+        created_at: now(),
+    };
+    db.users.push(user);
+    return ok(authPayload(user, startSession(user, null)), 201);
+}, false);
+
+route('POST', '/api/auth/refresh', () => {
+    const session = cookieSessionId ? sessions.get(cookieSessionId) : undefined;
+    if (!isSessionActive(session)) {
+        return fail(401, 'Refresh token inválido o expirado', 'INVALID_REFRESH_TOKEN');
+    }
+    session.lastUsedAt = now();
+    return ok({ access_token: issueAccessToken(session), token_type: 'Bearer', expires_in: ACCESS_TOKEN_TTL_SECONDS });
+}, false);
+
+route('POST', '/api/auth/logout', ({ body, userId, sessionId }) => {
+    sessions.forEach((session) => {
+        if (session.id === sessionId || (body.everywhere && session.userId === userId)) session.revoked = true;
+    });
+    cookieSessionId = null;
+    return ok({ message: 'Sesión cerrada' });
+});
+
+route('GET', '/api/auth/sessions', ({ userId, sessionId }) => ok({
+    sessions: [...sessions.values()]
+        .filter((s) => s.userId === userId && isSessionActive(s))
+        .map((s) => serializeSession(s, sessionId)),
+}));
+
+route('DELETE', '/api/auth/sessions/{sessionId}', ({ params, userId }) => {
+    const session = sessions.get(params.sessionId);
+    if (!session || session.userId !== userId || session.revoked) return notFound('Sesión');
+    session.revoked = true;
+    return ok({ message: 'Sesión revocada' });
+});
+
+route('POST', '/api/auth/change-password', (request) => {
+    const user = currentUser(request);
+    if (request.body.currentPassword !== user.password) {
+        return invalid({ current_password: 'La contraseña actual es incorrecta' });
+    }
+    if (asString(request.body.newPassword).length < 8) {
+        return invalid({ new_password: 'La nueva contraseña debe tener al menos 8 caracteres' });
+    }
+    user.password = request.body.newPassword;
+    return ok({ message: 'Contraseña actualizada' });
+});
+
+route('POST', '/api/auth/password-reset', ({ body }) => {
+    if (!asString(body.email).includes('@')) return invalid({ email: 'Ingresa un correo válido' });
+    const email = asString(body.email).toLowerCase();
+    const previous = passwordResets.get(email);
+    const sent = (previous?.sent ?? []).filter((time) => Date.now() - time < RESEND_WINDOW_MS);
+    if (sent.length >= RESEND_MAX_ATTEMPTS || (sent.length > 0 && Date.now() - sent[sent.length - 1] < RESEND_COOLDOWN_MS)) {
+        return fail(429, 'Demasiados intentos. Inténtalo en unos minutos.', 'TOO_MANY_REQUESTS');
+    }
+    // A new email replaces the previous link
+    const token = `reset-${nextId('token')}`;
+    passwordResets.set(email, { token, expiresAt: Date.now() + PASSWORD_RESET_TTL_MS, sent: [...sent, Date.now()] });
+    // Same answer whether or not the account exists
+    return ok({
+        message: `Si el correo existe, enviamos un código (usa ${PASSWORD_RESET_CODE}) y un enlace (helpdesk://reset?token=${token})`,
+    });
+}, false);
+
+const findPasswordReset = (token: string) =>
+    [...passwordResets.entries()].find(([, reset]) => reset.token === token);
+
+route('GET', '/api/auth/password-reset/status', ({ query }) => {
+    const found = findPasswordReset(asString(query.token));
+    if (!found) return fail(404, 'El enlace no es válido', 'NOT_FOUND');
+    const [email, reset] = found;
+    if (Date.now() >= reset.expiresAt) return fail(410, 'El enlace expiró', 'EXPIRED');
+    return ok({
+        data: {
+            is_valid: true,
+            can_reset: true,
+            email,
+            expires_at: new Date(reset.expiresAt).toISOString(),
+            attempts_remaining: RESEND_MAX_ATTEMPTS - reset.sent.filter((time) => Date.now() - time < RESEND_WINDOW_MS).length,
+        },
+    });
+}, false);
+
+route('POST', '/api/auth/password-reset/confirm', ({ body }) => {
+    let email = asString(body.email).toLowerCase();
+    if (body.token) {
+        const found = findPasswordReset(asString(body.token));
+        if (!found || Date.now() >= found[1].expiresAt) return fail(410, 'El enlace expiró o ya fue usado', 'EXPIRED');
+        email = found[0];
+    } else if (body.code !== PASSWORD_RESET_CODE) {
+        return invalid({ code: 'Código inválido o expirado' });
+    }
+    if (asString(body.password).length < 8) return invalid({ password: 'La contraseña debe tener al menos 8 caracteres' });
+    if (body.password !== body.passwordConfirmation) return invalid({ password_confirmation: 'Las contraseñas no coinciden' });
+
+    const user = db.users.find((u) => u.email.toLowerCase() === email);
+    if (user) user.password = body.password;
+    passwordResets.delete(email);
+    return ok({ message: 'Contraseña restablecida' });
+}, false);
+
+// Email verification
+const resendState = (userId: string) => {
+    const sent = (verificationEmails.get(userId) ?? []).filter((time) => Date.now() - time < RESEND_WINDOW_MS);
+    const last = sent[sent.length - 1];
+    const attemptsRemaining = RESEND_MAX_ATTEMPTS - sent.length;
+    const availableAt = attemptsRemaining <= 0
+        ? sent[0] + RESEND_WINDOW_MS
+        : last !== undefined && Date.now() - last < RESEND_COOLDOWN_MS ? last + RESEND_COOLDOWN_MS : null;
+    return {
+        sent,
+        attemptsRemaining: Math.max(0, attemptsRemaining),
+        resendAvailableAt: availableAt ? new Date(availableAt).toISOString() : null,
+    };
+};
+
+// Public like the real endpoint: the code identifies the account of this device
+route('POST', '/api/auth/email/verify', ({ body, userId }) => {
+    const session = cookieSessionId ? sessions.get(cookieSessionId) : undefined;
+    const user = db.users.find((u) => u.id === (userId ?? session?.userId));
+    if (body.token !== EMAIL_VERIFICATION_CODE || !user) {
+        return ok({ success: false, message: `Código inválido o expirado (usa ${EMAIL_VERIFICATION_CODE})`, canResend: true, resendAvailableAt: null });
+    }
+    user.email_verified = true;
+    return ok({ success: true, message: '¡Email verificado exitosamente!', canResend: false, resendAvailableAt: null });
+}, false);
+
+route('POST', '/api/auth/email/verify/resend', (request) => {
+    const { sent, attemptsRemaining, resendAvailableAt } = resendState(request.userId as string);
+    if (attemptsRemaining === 0) return fail(429, 'Demasiados intentos. Inténtalo en unos minutos.', 'TOO_MANY_REQUESTS');
+    if (resendAvailableAt) {
+        return ok({ success: false, message: 'Espera antes de volver a enviar el correo', canResend: false, resendAvailableAt });
+    }
+    verificationEmails.set(request.userId as string, [...sent, Date.now()]);
+    return ok({
+        success: true,
+        message: 'Email de verificación enviado correctamente. Revisa tu bandeja de entrada.',
+        canResend: false,
+        resendAvailableAt: resendState(request.userId as string).resendAvailableAt,
+    });
+});
+
+route('GET', '/api/auth/email/status', (request) => {
+    const user = currentUser(request);
+    const { attemptsRemaining, resendAvailableAt } = resendState(user.id);
+    return ok({
+        is_verified: user.email_verified,
+        email: user.email,
+        verified_at: user.email_verified ? user.created_at : null,
+        can_resend: !user.email_verified && !resendAvailableAt,
+        resend_available_at: resendAvailableAt,
+        attempts_remaining: attemptsRemaining,
+    });
+});
+
+route('POST', '/api/auth/onboarding/completed', (request) => {
+    const user = currentUser(request);
+    user.onboarding_completed = true;
+    return ok({ success: true, message: 'Onboarding completado exitosamente', user: serializeUser(user) });
+});
+
+// Users
+route('GET', '/api/users/me', (request) => ok({ data: serializeUser(currentUser(request)) }));
+
+route('PATCH', '/api/users/me/profile', (request) => {
+    const user = currentUser(request);
+    const { firstName, lastName, phoneNumber } = request.body;
+    if (firstName !== undefined && asString(firstName).trim().length < 2) {
+        return invalid({ first_name: 'El nombre debe tener al menos 2 caracteres' });
+    }
+    Object.assign(user, {
+        ...(firstName !== undefined ? { first_name: firstName } : {}),
+        ...(lastName !== undefined ? { last_name: lastName } : {}),
+        ...(phoneNumber !== undefined ? { phone_number: phoneNumber || null } : {}),
+    });
+    return ok({ data: serializeUser(user) });
+});
+
+route('PATCH', '/api/users/me/preferences', (request) => {
+    const user = currentUser(request);
+    const { theme, language, timezone, pushWebNotifications, notificationsTickets } = request.body;
+    Object.assign(user, {
+        ...(theme !== undefined ? { theme } : {}),
+        ...(language !== undefined ? { language } : {}),
+        ...(timezone !== undefined ? { timezone } : {}),
+        ...(pushWebNotifications !== undefined ? { push_web_notifications: !!pushWebNotifications } : {}),
+        ...(notificationsTickets !== undefined ? { notifications_tickets: !!notificationsTickets } : {}),
+    });
+    return ok({ data: serializeUser(user) });
+});
+
+route('POST', '/api/users/me/avatar', (request) => {
+    const file = request.files[0];
+    if (!file) return invalid({ avatar: 'Selecciona una imagen' });
+    currentUser(request).avatar_url = file.uri;
+    return ok({ data: { avatar_url: file.uri } });
+});
+
+// Tickets (static paths before `{ticket}`)
+route('GET', '/api/tickets/categories', ({ query }) => ok({
+    data: db.categories
+        .filter((c) => c.company_id === asString(query.company_id))
+        .map((c) => ({
+            ...c,
+            is_active: true,
+            active_tickets_count: db.tickets.filter((t) => t.category_id === c.id && t.status !== 'closed').length,
+        })),
+}));
+
+route('GET', '/api/tickets', ({ query, userId }) => {
+    const search = asString(query.search);
+    const status = asString(query.status);
+    const categoryId = asString(query.category_id);
+    const sortBy = (asString(query.sort_by) || 'created_at') as 'created_at' | 'updated_at' | 'status';
+    const direction = query.sort_order === 'asc' ? 1 : -1;
+    // Inclusive date bounds (yyyy-MM-dd) compared against the ISO timestamps
+    const inRange = (timestamp: string, from: unknown, to: unknown) =>
+        (!from || timestamp.slice(0, 10) >= asString(from)) && (!to || timestamp.slice(0, 10) <= asString(to));
+
+    const tickets = db.tickets
+        .filter((t) => t.created_by_user_id === userId)
+        .filter((t) => !status || t.status === status)
+        .filter((t) => !categoryId || t.category_id === categoryId)
+        .filter((t) => inRange(t.created_at, query.created_from, query.created_to))
+        .filter((t) => !search || matches(`${t.ticket_code} ${t.title} ${t.description}`, search))
+        .sort((a, b) => a[sortBy].localeCompare(b[sortBy]) * direction)
+        .map((t) => serializeTicket(t));
+
+    return ok(paginate(tickets, query));
+});
+
+route('POST', '/api/tickets', (request) => {
+    const { companyId, categoryId, areaId, title, description, priority } = request.body;
+    const errors: Record<string, string> = {};
+    if (!findCompany(companyId)) errors.company_id = 'Selecciona una empresa válida';
+    if (asString(title).trim().length < 5) errors.title = 'El título debe tener al menos 5 caracteres';
+    if (asString(description).trim().length < 20) errors.description = 'La descripción debe tener al menos 20 caracteres';
+    if (Object.keys(errors).length > 0) return invalid(errors);
+
+    const number = db.tickets.length + 1;
+    const ticket: MockTicket = {
+        id: nextId('tkt'),
+        ticket_code: `TKT-2025-${String(number).padStart(5, '0')}`,
+        title,
+        description,
+        priority: priority ?? 'medium',
+        status: 'open',
+        last_response_author_type: 'none',
+        company_id: companyId,
+        category_id: categoryId ?? null,
+        area_id: areaId ?? null,
+        created_by_user_id: request.userId as string,
+        owner_agent_id: null,
+        rating: null,
+        created_at: now(),
+        updated_at: now(),
+        first_response_at: null,
+        resolved_at: null,
+        closed_at: null,
+    };
+    db.tickets.unshift(ticket);
+    return ok({ data: serializeTicket(ticket, true) }, 201);
+});
+
+route('GET', '/api/tickets/{ticket}', (request) => {
+    const ticket = ownTicket(request);
+    return ticket ? ok({ data: serializeTicket(ticket, true) }) : notFound('Ticket');
+});
+
+route('GET', '/api/tickets/{ticket}/responses', (request) => {
+    const ticket = ownTicket(request);
+    if (!ticket) return notFound('Ticket');
+    return ok({
+        data: db.responses
+            .filter((r) => r.ticket_id === ticket.id)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            .map(serializeResponse),
+    });
+});
+
+// An agent answers a few seconds after the user writes, so polling has something to show
+const scheduleAgentReply = (ticket: MockTicket) => {
+    const generation = db;
+    setTimeout(() => {
+        if (db !== generation || ticket.status === 'closed') return;
+        const agent = db.agents.find((a) => a.id === ticket.owner_agent_id) ?? db.agents[0];
+        db.responses.push({
+            id: nextId('rsp'),
+            ticket_id: ticket.id,
+            author_id: agent.id,
+            author_type: 'agent',
+            content: 'Gracias por la información, lo estamos revisando.',
+            created_at: now(),
+        });
+        Object.assign(ticket, {
+            owner_agent_id: agent.id,
+            status: 'pending',
+            last_response_author_type: 'agent',
+            first_response_at: ticket.first_response_at ?? now(),
+            updated_at: now(),
+        });
+    }, 6000);
+};
+
+route('POST', '/api/tickets/{ticket}/responses', (request) => {
+    const ticket = ownTicket(request);
+    if (!ticket) return notFound('Ticket');
+    if (!asString(request.body.content).trim()) return invalid({ content: 'Escribe un mensaje' });
+
+    const response: MockResponse = {
+        id: nextId('rsp'),
+        ticket_id: ticket.id,
+        author_id: request.userId as string,
+        author_type: 'user',
+        content: request.body.content,
+        created_at: now(),
+    };
+    db.responses.push(response);
+    Object.assign(ticket, { last_response_author_type: 'user', updated_at: now() });
+    scheduleAgentReply(ticket);
+    return ok({ data: serializeResponse(response) }, 201);
+});
+
+const storeAttachments = (request: MockRequest, ticket: MockTicket, responseId: string | null) => {
+    const user = currentUser(request);
+    const stored = request.files.map((file): MockAttachment => ({
+        id: nextId('att'),
+        ticket_id: ticket.id,
+        response_id: responseId,
+        file_name: file.name,
+        file_url: file.uri,
+        file_type: file.type,
+        file_size_bytes: 150_000 + Math.round(Math.random() * 500_000),
+        uploaded_by: { id: user.id, name: `${user.first_name} ${user.last_name}` },
+        created_at: now(),
+    }));
+    db.attachments.push(...stored);
+    return stored;
+};
+
+// Only the type can be checked here: the mock never sees the file contents
+const rejectedFileType = (request: MockRequest, ticket: MockTicket) => {
+    const allowed = findCompany(ticket.company_id)?.attachment_settings?.allowed_mime_types;
+    const file = request.files[0];
+    return allowed && file && !allowed.includes(file.type)
+        ? invalid({ file: 'El tipo de archivo no está permitido para esta empresa' })
+        : null;
+};
+
+route('POST', '/api/tickets/{ticket}/attachments', (request) => {
+    const ticket = ownTicket(request);
+    if (!ticket) return notFound('Ticket');
+    if (request.files.length === 0) return invalid({ file: 'Adjunta un archivo' });
+    const rejected = rejectedFileType(request, ticket);
+    if (rejected) return rejected;
+    return ok({ data: storeAttachments(request, ticket, null)[0] }, 201);
+});
+
+route('POST', '/api/tickets/{ticket}/responses/{response}/attachments', (request) => {
+    const ticket = ownTicket(request);
+    if (!ticket) return notFound('Ticket');
+    if (!db.responses.some((r) => r.id === request.params.response && r.ticket_id === ticket.id)) return notFound('Respuesta');
+    if (request.files.length === 0) return invalid({ file: 'Adjunta un archivo' });
+    const rejected = rejectedFileType(request, ticket);
+    if (rejected) return rejected;
+    return ok({ data: storeAttachments(request, ticket, request.params.response)[0] }, 201);
+});
+
+route('POST', '/api/tickets/{ticket}/rate', (request) => {
+    const ticket = ownTicket(request);
+    if (!ticket) return notFound('Ticket');
+    const rating = Number(request.body.rating);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) return invalid({ rating: 'La calificación debe ser de 1 a 5' });
+    if (ticket.status !== 'resolved' && ticket.status !== 'closed') {
+        return fail(422, 'Solo puedes calificar tickets resueltos', 'TICKET_NOT_RESOLVED');
+    }
+    ticket.rating = { rating, comment: request.body.comment ?? null, created_at: now() };
+    return ok({ data: serializeTicket(ticket, true) });
+});
+
+route('POST', '/api/tickets/{ticket}/reopen', (request) => {
+    const ticket = ownTicket(request);
+    if (!ticket) return notFound('Ticket');
+    if (ticket.status !== 'resolved' && ticket.status !== 'closed') {
+        return fail(422, 'Solo se pueden reabrir tickets resueltos o cerrados', 'TICKET_NOT_REOPENABLE');
+    }
+    Object.assign(ticket, { status: 'open', resolved_at: null, closed_at: null, updated_at: now() });
+    return ok({ data: serializeTicket(ticket, true) });
+});
+
+// Areas
+route('GET', '/api/areas', ({ query }) => ok({
+    data: db.areas
+        .filter((a) => a.company_id === asString(query.company_id))
+        .map((a) => ({
+            ...a,
+            is_active: true,
+            active_tickets_count: db.tickets.filter((t) => t.area_id === a.id && t.status !== 'closed').length,
+        })),
+}));
+
+route('GET', '/api/companies/{company}/settings/areas-enabled', ({ params }) => {
+    const company = findCompany(params.company);
+    return company ? ok({ data: { areas_enabled: company.areas_enabled } }) : notFound('Empresa');
+});
+
+route('GET', '/api/companies/{company}/settings/attachments', ({ params }) => {
+    const company = findCompany(params.company);
+    return company ? ok({ data: company.attachment_settings ?? {} }) : notFound('Empresa');
+});
+
+// Companies (static paths before `{company}`)
+route('GET', '/api/companies/explore', ({ query, userId }) => {
+    const search = asString(query.search);
+    const industryId = asString(query.industry_id);
+    const followedOnly = asBool(query.followed_by_me);
+
+    const companies = db.companies
+        .filter((c) => !search || matches(c.name, search))
+        .filter((c) => !industryId || c.industry_id === industryId)
+        .filter((c) => !followedOnly || isFollowing(userId, c.id))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((c) => serializeCompany(c, userId));
+
+    return ok(paginate(companies, query, 20));
+});
+
+route('GET', '/api/companies/minimal', ({ query }) => ok(paginate(
+    db.companies.map((c) => ({ id: c.id, company_code: c.company_code, name: c.name, logo_url: c.logo_url })),
+    query,
+    50
+)));
+
+route('GET', '/api/companies/{company}', ({ params, userId }) => {
+    const company = findCompany(params.company);
+    return company ? ok({ data: serializeCompanyDetail(company, userId) }) : notFound('Empresa');
+});
+
+route('POST', '/api/companies/{company}/follow', ({ params, userId }) => {
+    const company = findCompany(params.company);
+    if (!company) return notFound('Empresa');
+    if (isFollowing(userId, company.id)) return fail(409, 'Ya sigues a esta empresa', 'ALREADY_FOLLOWING');
+
+    db.follows.push({ user_id: userId as string, company_id: company.id });
+    company.followers_count++;
+    return ok({ message: 'Ahora sigues a esta empresa', data: { company_id: company.id, is_following: true } });
+});
+
+route('DELETE', '/api/companies/{company}/unfollow', ({ params, userId }) => {
+    const company = findCompany(params.company);
+    if (!company) return notFound('Empresa');
+    if (!isFollowing(userId, company.id)) return fail(409, 'No sigues a esta empresa', 'NOT_FOLLOWING');
+
+    db.follows = db.follows.filter((f) => !(f.user_id === userId && f.company_id === company.id));
+    company.followers_count = Math.max(0, company.followers_count - 1);
+    return ok({ message: 'Dejaste de seguir a esta empresa', data: { company_id: company.id, is_following: false } });
+});
+
+route('GET', '/api/company-industries', () => ok({ data: db.industries }));
+
+// Announcements
+route('GET', '/api/announcements', ({ query }) => {
+    const type = asString(query.type);
+    const search = asString(query.search);
+    const companyId = asString(query.company_id);
+    const sort = asString(query.sort) || '-published_at';
+
+    const announcements = db.announcements
+        .filter((a) => !type || a.type === type)
+        .filter((a) => !companyId || a.company_id === companyId)
+        .filter((a) => !search || matches(`${a.title} ${a.content}`, search))
+        .sort((a, b) => (sort === 'title' ? a.title.localeCompare(b.title) : b.published_at.localeCompare(a.published_at)))
+        .map(serializeAnnouncement);
+
+    return ok({ data: announcements });
+});
+
+route('GET', '/api/announcements/{announcement}', ({ params }) => {
+    const announcement = db.announcements.find((a) => a.id === params.announcement);
+    return announcement ? ok({ data: serializeAnnouncement(announcement) }) : notFound('Anuncio');
+});
+
+// Help center
+route('GET', '/api/help-center/categories', () => ok({
+    data: db.articleCategories.map((c) => ({
+        ...c,
+        article_count: db.articles.filter((a) => a.category_code === c.code).length,
+    })),
+}));
+
+const ARTICLE_SORTS: Record<string, (a: MockArticle, b: MockArticle) => number> = {
+    '-views': (a, b) => b.views_count - a.views_count,
+    views: (a, b) => a.views_count - b.views_count,
+    '-created_at': (a, b) => b.published_at.localeCompare(a.published_at),
+    created_at: (a, b) => a.published_at.localeCompare(b.published_at),
+    title: (a, b) => a.title.localeCompare(b.title),
+    '-title': (a, b) => b.title.localeCompare(a.title),
+};
+
+route('GET', '/api/help-center/articles', ({ query }) => {
+    const search = asString(query.search);
+    const category = asString(query.category);
+    const companyId = asString(query.company_id);
+    const sort = ARTICLE_SORTS[asString(query.sort)] ?? ARTICLE_SORTS['-created_at'];
+
+    const articles = db.articles
+        .filter((a) => !category || a.category_code === category)
+        .filter((a) => !companyId || a.company_id === companyId)
+        .filter((a) => !search || matches(`${a.title} ${a.excerpt} ${a.content}`, search))
+        .sort(sort)
+        .slice(0, asInt(query.per_page, 50))
+        .map(serializeArticle);
+
+    return ok({ data: articles });
+});
+
+route('GET', '/api/help-center/articles/{id}', ({ params }) => {
+    const article = db.articles.find((a) => a.id === params.id);
+    if (!article) return notFound('Artículo');
+    article.views_count++;
+    return ok({ data: serializeArticle(article) });
+});
+
+// ---------------------------------------------------------------------------
+// Adapter
+// ---------------------------------------------------------------------------
+
+const canceled = () => new CanceledError();
+
+const wait = (ms: number, signal?: GenericAbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(canceled());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(canceled());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener?.('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener?.('abort', onAbort);
+    });
+
+const latency = () => (failureMode === 'slow' ? 3000 + Math.random() * 3000 : 150 + Math.random() * 350);
+
+const parseQueryString = (queryString: string) =>
+    queryString.split('&').filter(Boolean).reduce<Record<string, string>>((acc, pair) => {
+        const [key, value = ''] = pair.split('=');
+        acc[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+        return acc;
+    }, {});
+
+// React Native's FormData exposes its parts; files carry a uri instead of contents
+const readFiles = (data: unknown) => {
+    const parts = (data as { getParts?: () => { uri?: string; name?: string; type?: string }[] } | null)?.getParts?.() ?? [];
+    return parts
+        .filter((part) => part.uri)
+        .map((part) => ({
+            uri: part.uri as string,
+            name: part.name || part.uri?.split('/').pop() || 'archivo',
+            type: part.type || 'application/octet-stream',
+        }));
+};
+
+const readBody = (data: unknown): Record<string, any> => {
+    if (typeof data !== 'string' || !data) return {};
+    try {
+        return camelizeKeys(JSON.parse(data)) as Record<string, any>;
+    } catch {
+        return {};
+    }
+};
+
+const toResponse = (config: InternalAxiosRequestConfig, result: MockResult): AxiosResponse => ({
+    data: result.body === undefined ? '' : JSON.stringify(result.body),
+    status: result.status,
+    statusText: String(result.status),
+    headers: new AxiosHeaders({ 'content-type': 'application/json', ...result.headers }),
+    config,
+    request: {},
+});
+
+const handle = (config: InternalAxiosRequestConfig): MockResult => {
+    const fullUrl = /^https?:\/\//.test(config.url ?? '') ? config.url ?? '' : `${config.baseURL ?? ''}${config.url ?? ''}`;
+    const [pathWithOrigin, queryString = ''] = fullUrl.split('?');
+    const path = pathWithOrigin.replace(/^https?:\/\/[^/]+/, '') || '/';
+    const method = (config.method ?? 'get').toUpperCase();
+
+    if (path !== '/api/health') {
+        if (failureMode === 'rate-limit') {
+            return { ...fail(429, 'Demasiadas solicitudes', 'TOO_MANY_REQUESTS'), headers: { 'retry-after': '2' } };
+        }
+        if (failureMode === 'server-error') return fail(500, 'Server Error');
+    }
+
+    for (const candidate of routes) {
+        if (candidate.method !== method) continue;
+        const match = candidate.regex.exec(path);
+        if (!match) continue;
+
+        const session = authenticate(asString(AxiosHeaders.from(config.headers).get('Authorization')));
+        if (candidate.authenticated && !session) return fail(401, 'Unauthenticated.', 'UNAUTHENTICATED');
+
+        const request: MockRequest = {
+            method,
+            path,
+            params: Object.fromEntries(candidate.keys.map((key, index) => [key, decodeURIComponent(match[index + 1])])),
+            query: { ...parseQueryString(queryString), ...(config.params ?? {}) },
+            body: readBody(config.data),
+            files: readFiles(config.data),
+            userId: session?.userId ?? null,
+            sessionId: session?.id ?? null,
+        };
+
+        // Replaying an idempotency key returns the original result instead of creating twice
+        const idempotencyKey = asString(AxiosHeaders.from(config.headers).get('Idempotency-Key'));
+        if (idempotencyKey && idempotentResults.has(idempotencyKey)) {
+            return idempotentResults.get(idempotencyKey) as MockResult;
+        }
+
+        const result = candidate.handler(request);
+        if (idempotencyKey && result.status < 300) idempotentResults.set(idempotencyKey, result);
+        return result;
+    }
+
+    return fail(404, `No route for ${method} ${path}`, 'NOT_FOUND');
+};
+
+// File uploads report progress in a few steps, like a real multipart upload
+const UPLOAD_PROGRESS_STEPS = 4;
+const simulateUpload = async (config: InternalAxiosRequestConfig) => {
+    const total = 150_000 + Math.round(Math.random() * 500_000);
+    const stepMs = (failureMode === 'slow' ? 6000 : 1200) / UPLOAD_PROGRESS_STEPS;
+    for (let step = 1; step <= UPLOAD_PROGRESS_STEPS; step++) {
+        await wait(stepMs, config.signal);
+        const loaded = Math.round((total * step) / UPLOAD_PROGRESS_STEPS);
+        config.onUploadProgress?.({ loaded, total, progress: loaded / total, bytes: total / UPLOAD_PROGRESS_STEPS, lengthComputable: true, upload: true });
+    }
+};
+
+const adapter: AxiosAdapter = async (config) => {
+    await wait(latency(), config.signal);
+    if (failureMode !== 'offline' && readFiles(config.data).length > 0) {
+        await simulateUpload(config);
+    }
+
+    if (failureMode === 'offline') {
+        throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {});
+    }
+
+    const response = toResponse(config, handle(config));
+    logger.debug(`Mock ${config.method?.toUpperCase()} ${config.url} → ${response.status}`, null, 'MockAPI');
+
+    const validateStatus = config.validateStatus;
+    if (!validateStatus || validateStatus(response.status)) return response;
+    throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        {},
+        response
+    );
+};
+
+export const mockServer = {
+    adapter,
+
+    getFailureMode: () => failureMode,
+
+    setFailureMode: (mode: MockFailureMode) => {
+        failureMode = mode;
+        logger.info(`Mock failure mode: ${mode}`, null, 'MockAPI');
+    },
+
+    // Access tokens already issued stop working; the refresh cookie still does
+    expireAccessTokens: () => {
+        tokenGeneration++;
+    },
+
+    // The device session is revoked server-side: requests and refresh both fail
+    revokeSession: () => {
+        const session = cookieSessionId ? sessions.get(cookieSessionId) : undefined;
+        if (session) session.revoked = true;
+        tokenGeneration++;
+    },
+
+    // Back to the seeded data (sessions included)
+    reset: () => {
+        db = createFixtures();
+        failureMode = 'none';
+        cookieSessionId = null;
+        idempotentResults = new Map();
+        verificationEmails = new Map();
+        passwordResets = new Map();
+        tokenGeneration++;
+        seedSessions();
+    },
+};
+
+// Plain axios calls that bypass the client (refresh, health) pick the adapter by URL
+export const adapterFor = (baseUrl: string): AxiosAdapter | undefined =>
+    baseUrl === MOCK_API_URL ? adapter : undefined;
@@ -0,0 +1,18 @@
+import { ApiOperationKey, ApiOperations, ApiPath } from './generated/operations';
+
+type ExtractParams<P extends string> =
+    P extends `${string}{${infer Param}}${infer Rest}` ? Param | ExtractParams<Rest> : never;
+
+export type PathParams<P extends ApiPath> = { [K in ExtractParams<P>]: string };
+
+export type ApiQuery<K extends ApiOperationKey> = ApiOperations[K]['query'];
+
+/**
+ * Fills the `{param}` placeholders of a spec path.
+ *
+ * @example buildPath('/api/tickets/{ticket}/responses', { ticket: 'TKT-2025-00001' })
+ */
+export const buildPath = <P extends ApiPath>(path: P, params: PathParams<P>): string =>
+    path.replace(/\{(\w+)\}/g, (_, key: string) =>
+        encodeURIComponent((params as Record<string, string>)[key])
+    );
@@ -0,0 +1,174 @@
+import { logger } from '../../utils/logger';
+import { ApiError, isCanceledError } from './errors';
+
+/**
+ * Shared cache for GET requests, keyed by endpoint + params.
+ *
+ * - Identical requests in flight are coalesced into a single network call.
+ * - Fresh entries (younger than `staleTime`) are served without touching the network.
+ * - Stale entries are served instantly when the caller passes `onRevalidate`,
+ *   which receives the fresh data once the background request resolves.
+ * - A caller passing `signal` stops waiting when it aborts; the network request
+ *   itself is aborted once no caller waits for it anymore.
+ *
+ * @example
+ * queryCache.fetch(['GET /api/tickets/{ticket}', code], () => api.tickets.get(code), {
+ *     onRevalidate: (ticket) => set({ currentTicket: ticket }),
+ * });
+ */
+
+export type QueryKey = readonly unknown[];
+
+export interface FetchOptions {
+    /** Skip the cache and hit the network (identical requests are still coalesced) */
+    force?: boolean;
+    /** Stop waiting for the result (e.g. the screen was closed) */
+    signal?: AbortSignal;
+}
+
+export interface QueryOptions<T> extends FetchOptions {
+    /** Milliseconds during which cached data is considered fresh */
+    staleTime?: number;
+    /** Receives fresh data after a stale entry was served */
+    onRevalidate?: (data: T) => void;
+}
+
+interface CacheEntry {
+    key: QueryKey;
+    data: unknown;
+    updatedAt: number;
+}
+
+const DEFAULT_STALE_TIME = 30 * 1000;
+
+interface InFlightRequest {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    waiters: number; // Callers that can still cancel
+    pinned: boolean; // A caller without a signal waits for it: never abort
+}
+
+type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, InFlightRequest>();
+
+// Bumped by clear() so responses requested before a logout never land in the cache
+let generation = 0;
+
+// Object keys are sorted so { a, b } and { b, a } hit the same entry
+const hashKey = (key: QueryKey) =>
+    JSON.stringify(key, (_, value) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+            ? Object.keys(value).sort().reduce<Record<string, unknown>>((acc, k) => {
+                acc[k] = value[k];
+                return acc;
+            }, {})
+            : value
+    );
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+    prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+
+const start = <T>(key: QueryKey, hash: string, fetcher: Fetcher<T>): InFlightRequest => {
+    const startedIn = generation;
+    const controller = new AbortController();
+    const request: InFlightRequest = { promise: Promise.resolve(), controller, waiters: 0, pinned: false };
+
+    request.promise = fetcher(controller.signal)
+        .then((data) => {
+            if (startedIn === generation) {
+                entries.set(hash, { key, data, updatedAt: Date.now() });
+            }
+            return data;
+        })
+        .finally(() => {
+            if (inFlight.get(hash) === request) inFlight.delete(hash);
+        });
+
+    inFlight.set(hash, request);
+    return request;
+};
+
+const run = <T>(key: QueryKey, hash: string, fetcher: Fetcher<T>, signal?: AbortSignal): Promise<T> => {
+    if (signal?.aborted) return Promise.reject(ApiError.canceled());
+
+    const request = inFlight.get(hash) ?? start(key, hash, fetcher);
+    const promise = request.promise as Promise<T>;
+    if (!signal) {
+        request.pinned = true;
+        return promise;
+    }
+
+    request.waiters++;
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            request.waiters--;
+            if (request.waiters === 0 && !request.pinned) {
+                request.controller.abort();
+                // The next caller starts a fresh request instead of joining the aborted one
+                if (inFlight.get(hash) === request) inFlight.delete(hash);
+            }
+            reject(ApiError.canceled());
+        };
+
+        signal.addEventListener('abort', onAbort);
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+export const queryCache = {
+    /**
+     * `fetcher` receives the signal of the shared network request; pass it to the API call.
+     */
+    fetch: <T>(key: QueryKey, fetcher: Fetcher<T>, options: QueryOptions<T> = {}): Promise<T> => {
+        const hash = hashKey(key);
+        const entry = entries.get(hash);
+
+        if (!entry || options.force) return run(key, hash, fetcher, options.signal);
+
+        const isStale = Date.now() - entry.updatedAt > (options.staleTime ?? DEFAULT_STALE_TIME);
+        if (!isStale) return Promise.resolve(entry.data as T);
+
+        if (!options.onRevalidate) return run(key, hash, fetcher, options.signal);
+
+        const onRevalidate = options.onRevalidate;
+        run(key, hash, fetcher, options.signal)
+            .then(onRevalidate)
+            .catch((error) => {
+                if (isCanceledError(error)) return;
+                logger.warn(`Background revalidation failed for ${hash}`, error, 'QueryCache');
+            });
+        return Promise.resolve(entry.data as T);
+    },
+
+    peek: <T>(key: QueryKey): T | undefined => entries.get(hashKey(key))?.data as T | undefined,
+
+    /**
+     * Writes data for a key (e.g. after a mutation returned the updated entity).
+     */
+    setData: <T>(key: QueryKey, updater: T | ((current: T | undefined) => T)) => {
+        const hash = hashKey(key);
+        const current = entries.get(hash)?.data as T | undefined;
+        const data = typeof updater === 'function' ? (updater as (current: T | undefined) => T)(current) : updater;
+        entries.set(hash, { key, data, updatedAt: Date.now() });
+    },
+
+    /**
+     * Marks every entry whose key starts with `prefix` as stale. Entries are kept
+     * so screens can still render them while the next fetch revalidates.
+     */
+    invalidate: (prefix: QueryKey) => {
+        entries.forEach((entry) => {
+            if (matchesPrefix(entry.key, prefix)) entry.updatedAt = 0;
+        });
+    },
+
+    // Also aborts the requests in flight: they belong to whoever was signed in before
+    clear: () => {
+        generation++;
+        entries.clear();
+        inFlight.forEach((request) => request.controller.abort());
+        inFlight.clear();
+    },
+};
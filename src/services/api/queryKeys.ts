@@ -0,0 +1,35 @@
+import { QueryKey } from './queryCache';
+
+// Without params the key works as a prefix that matches every page/filter
+const withParams = (operation: string, params?: object): QueryKey =>
+    params ? [operation, params] : [operation];
+
+/**
+ * Cache keys shared by the stores. The first element is the operation key from
+ * the spec so `queryCache.invalidate([...])` can target a whole endpoint.
+ */
+export const queryKeys = {
+    tickets: (params?: object): QueryKey => withParams('GET /api/tickets', params),
+    // Under the list prefix, so invalidating the tickets also refreshes the counts
+    ticketStats: (): QueryKey => ['GET /api/tickets', 'stats'],
+    ticket: (ticketCode: string): QueryKey => ['GET /api/tickets/{ticket}', ticketCode],
+    ticketResponses: (ticketCode: string): QueryKey => ['GET /api/tickets/{ticket}/responses', ticketCode],
+    ticketCategories: (companyId: string): QueryKey => ['GET /api/tickets/categories', companyId],
+    areas: (companyId: string): QueryKey => ['GET /api/areas', companyId],
+    areasEnabled: (companyId: string): QueryKey => ['GET /api/companies/{company}/settings/areas-enabled', companyId],
+    attachmentSettings: (companyId: string): QueryKey => ['GET /api/companies/{company}/settings/attachments', companyId],
+
+    companies: (params?: object): QueryKey => withParams('GET /api/companies/explore', params),
+    company: (companyId: string): QueryKey => ['GET /api/companies/{company}', companyId],
+    companiesMinimal: (page: number): QueryKey => ['GET /api/companies/minimal', page],
+    industries: (): QueryKey => ['GET /api/company-industries'],
+
+    announcements: (params?: object): QueryKey => withParams('GET /api/announcements', params),
+    announcement: (id: string): QueryKey => ['GET /api/announcements/{announcement}', id],
+
+    articleCategories: (): QueryKey => ['GET /api/help-center/categories'],
+    articles: (params?: object): QueryKey => withParams('GET /api/help-center/articles', params),
+    article: (id: string): QueryKey => ['GET /api/help-center/articles/{id}', id],
+
+    sessions: (): QueryKey => ['GET /api/auth/sessions'],
+};
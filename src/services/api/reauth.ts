@@ -0,0 +1,45 @@
+import { router } from 'expo-router';
+import { tokenStorage } from '../storage/tokenStorage';
+import { queryCache } from './queryCache';
+import { tokenRefresh } from './tokenRefresh';
+
+/**
+ * Decides what happens when the session can no longer be refreshed.
+ *
+ * The handler resolves to true once the user signed in again (queued requests
+ * are then replayed) or false when the session is over. The UI registers a
+ * handler that asks for the password in place (see ReauthSheet); without one
+ * we fall back to clearing the session and redirecting to the login screen.
+ */
+
+type ReauthHandler = () => Promise<boolean>;
+
+const redirectToLogin: ReauthHandler = async () => {
+    tokenRefresh.stop();
+    await tokenStorage.clearAccessToken();
+    queryCache.clear();
+    router.replace('/(auth)/login');
+    return false;
+};
+
+let handler: ReauthHandler | null = null;
+let pending: Promise<boolean> | null = null;
+
+export const reauth = {
+    setHandler: (next: ReauthHandler) => {
+        handler = next;
+        return () => {
+            if (handler === next) handler = null;
+        };
+    },
+
+    // Concurrent failures share a single prompt
+    request: (): Promise<boolean> => {
+        if (pending) return pending;
+
+        pending = (handler ?? redirectToLogin)().finally(() => {
+            pending = null;
+        });
+        return pending;
+    },
+};
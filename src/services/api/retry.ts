@@ -0,0 +1,111 @@
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { logger } from '../../utils/logger';
+
+/**
+ * Retries transient failures (network errors, 408/429/5xx) with exponential
+ * backoff and full jitter. Only requests that are safe to repeat are retried:
+ * idempotent methods, or POSTs carrying an idempotency key (the backend
+ * answers a repeated key with the original result instead of creating twice).
+ */
+
+export interface RetryPolicy {
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+declare module 'axios' {
+    interface AxiosRequestConfig {
+        // false disables retries for the request
+        retry?: Partial<RetryPolicy> | false;
+        // Sent as the Idempotency-Key header and makes the POST retryable
+        idempotencyKey?: string;
+    }
+}
+
+type RetryableConfig = InternalAxiosRequestConfig & { _retryCount?: number };
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 10 * 1000,
+};
+
+// Never wait longer than this for a Retry-After; the user is looking at a spinner
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+export const createIdempotencyKey = () =>
+    'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+        const random = (Math.random() * 16) | 0;
+        return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+    });
+
+const isRetryable = (error: AxiosError, config: RetryableConfig) => {
+    if (axios.isCancel(error)) return false;
+
+    const method = (config.method ?? 'get').toLowerCase();
+    if (!IDEMPOTENT_METHODS.includes(method) && !config.idempotencyKey) return false;
+
+    if (!error.response) return true; // Network error or timeout
+    return RETRYABLE_STATUSES.includes(error.response.status);
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: unknown): number | null => {
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const getDelay = (error: AxiosError, attempt: number, policy: RetryPolicy) => {
+    const status = error.response?.status;
+    if (status === 429 || status === 503) {
+        const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+        if (retryAfter !== null) return Math.min(retryAfter, MAX_RETRY_AFTER_MS);
+    }
+
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return Math.random() * exponential;
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const attachRetry = (instance: AxiosInstance) => {
+    instance.interceptors.request.use((config) => {
+        if (config.idempotencyKey) {
+            config.headers.set(IDEMPOTENCY_HEADER, config.idempotencyKey);
+        }
+        return config;
+    });
+
+    instance.interceptors.response.use(undefined, async (error: AxiosError) => {
+        const config = error.config as RetryableConfig | undefined;
+        if (!config || config.retry === false || !isRetryable(error, config)) {
+            return Promise.reject(error);
+        }
+
+        const policy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+        const attempt = config._retryCount ?? 0;
+        if (attempt >= policy.retries) return Promise.reject(error);
+
+        const delay = getDelay(error, attempt, policy);
+        config._retryCount = attempt + 1;
+        logger.warn(
+            `Retrying ${config.method?.toUpperCase()} ${config.url} (${config._retryCount}/${policy.retries}) in ${Math.round(delay)}ms`,
+            { status: error.response?.status },
+            'API'
+        );
+
+        await wait(delay);
+        return instance(config);
+    });
+};
@@ -0,0 +1,169 @@
+import axios from 'axios';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { tokenStorage } from '../storage/tokenStorage';
+import { getTokenExpiry, getTokenUserId } from '../../utils/jwt';
+import { logger } from '../../utils/logger';
+import { decode } from './decoders/common';
+import { ApiError } from './errors';
+import { refreshResponseSchema } from './decoders/auth';
+import { getApiUrl, whenEnvironmentReady } from '../../stores/environmentStore';
+import { adapterFor } from './mock/server';
+
+/**
+ * Keeps the access token alive before it expires:
+ * - schedules a refresh shortly before `exp` (or `expiresIn`),
+ * - re-checks when the app returns to the foreground (timers don't run in background),
+ * - lets the request interceptor hold outgoing requests while a refresh is in flight.
+ *
+ * The 401 handler in client.ts uses the same `refresh()`, so there is never more
+ * than one refresh request at a time.
+ */
+
+// Refresh this long before expiry. Also the minimum validity a request leaves with,
+// so long multipart uploads don't expire half-way.
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Retry delay when a scheduled refresh fails because of the network. Also how long
+// requests inside the margin go out with the current token after a failed refresh,
+// instead of each one starting another.
+const RETRY_DELAY_MS = 30 * 1000;
+
+type TokenListener = (accessToken: string) => void;
+
+let expiresAt: number | null = null;
+let refreshPromise: Promise<string> | null = null;
+let lastFailureAt: number | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let appStateSubscription: NativeEventSubscription | null = null;
+const listeners = new Set<TokenListener>();
+
+const isNearExpiry = () => expiresAt !== null && expiresAt - Date.now() <= REFRESH_MARGIN_MS;
+
+const isBackingOff = () => lastFailureAt !== null && Date.now() - lastFailureAt < RETRY_DELAY_MS;
+
+const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+};
+
+const schedule = (delay: number) => {
+    clearTimer();
+    timer = setTimeout(() => {
+        timer = null;
+        tokenRefresh.refresh().catch((error) => {
+            // Without a response the session may still be valid: try again later.
+            // Rejections are left to the 401 flow on the next request.
+            if (axios.isAxiosError(error) && !error.response) schedule(RETRY_DELAY_MS);
+        });
+    }, Math.max(0, delay));
+};
+
+const handleAppStateChange = (state: AppStateStatus) => {
+    if (state !== 'active' || !isNearExpiry()) return;
+    logger.info('Token near expiry on foreground, refreshing', null, 'Auth');
+    tokenRefresh.refresh().catch(() => undefined);
+};
+
+const startWatching = () => {
+    if (expiresAt !== null) schedule(expiresAt - Date.now() - REFRESH_MARGIN_MS);
+    if (!appStateSubscription) {
+        appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+    }
+};
+
+export const tokenRefresh = {
+    /**
+     * Stores a freshly issued token and schedules its renewal.
+     */
+    setSession: async (accessToken: string, expiresIn?: number | null) => {
+        expiresAt = getTokenExpiry(accessToken, expiresIn);
+        lastFailureAt = null;
+        await tokenStorage.setAccessToken(accessToken);
+        await tokenStorage.setAccessTokenExpiry(expiresAt);
+        listeners.forEach((listener) => listener(accessToken));
+        startWatching();
+    },
+
+    /**
+     * Picks up the stored session on app start. Refreshes right away when the
+     * token is already (about to be) expired.
+     */
+    resume: async () => {
+        const accessToken = await tokenStorage.getAccessToken();
+        if (!accessToken) return;
+
+        expiresAt = (await tokenStorage.getAccessTokenExpiry()) ?? getTokenExpiry(accessToken);
+        if (isNearExpiry()) {
+            await tokenRefresh.refresh().catch(() => undefined);
+            return;
+        }
+        startWatching();
+    },
+
+    /**
+     * Requests a new access token. Concurrent callers share the same request.
+     */
+    refresh: (): Promise<string> => {
+        if (refreshPromise) return refreshPromise;
+
+        refreshPromise = (async () => {
+            logger.info('Refreshing access token', null, 'Auth');
+            await whenEnvironmentReady();
+            // Plain axios: this must not go through the client interceptors
+            const apiUrl = getApiUrl();
+            const response = await axios.post(`${apiUrl}/api/auth/refresh`, {}, {
+                withCredentials: true, // Refresh token lives in an HttpOnly cookie
+                adapter: adapterFor(apiUrl),
+            });
+            const { accessToken, expiresIn } = decode(refreshResponseSchema, response.data, 'POST /api/auth/refresh');
+
+            // The cookie belongs to the account that signed in last; after switching
+            // accounts it must not hand this one the other account's session
+            const accountId = await tokenStorage.getActiveAccountId();
+            const tokenUserId = getTokenUserId(accessToken);
+            if (accountId && tokenUserId && tokenUserId !== accountId) {
+                // Same as a rejected refresh: this account has to sign in again
+                throw new ApiError({ message: 'Refresh token belongs to another account', status: 401, code: 'REFRESH_ACCOUNT_MISMATCH' });
+            }
+
+            await tokenRefresh.setSession(accessToken, expiresIn);
+            logger.info('Access token refreshed', null, 'Auth');
+            return accessToken;
+        })().catch((error) => {
+            lastFailureAt = Date.now();
+            throw error;
+        }).finally(() => {
+            refreshPromise = null;
+        });
+
+        return refreshPromise;
+    },
+
+    /**
+     * Called before every request: waits for an in-flight refresh, or starts one
+     * when the current token would expire during the request. Right after a failed
+     * refresh it doesn't start another; the scheduled retry or a 401 will.
+     */
+    ensureFresh: async () => {
+        if (!refreshPromise && (!isNearExpiry() || isBackingOff())) return;
+        try {
+            await tokenRefresh.refresh();
+        } catch {
+            // The request goes out with the current token; a 401 is handled by the interceptor
+        }
+    },
+
+    stop: () => {
+        clearTimer();
+        appStateSubscription?.remove();
+        appStateSubscription = null;
+        expiresAt = null;
+        lastFailureAt = null;
+    },
+
+    subscribe: (listener: TokenListener) => {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+};
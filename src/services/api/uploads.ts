@@ -0,0 +1,66 @@
+import { client } from './client';
+import { buildPath } from './paths';
+
+/**
+ * Minimal shape of a file picked with expo-image-picker (or copied into the outbox).
+ * Files picked in the app go through services/attachments first, so `mimeType`
+ * is the detected type rather than the picker's guess.
+ */
+export interface UploadableFile {
+    uri: string;
+    fileName?: string | null;
+    mimeType?: string | null;
+}
+
+// What React Native's FormData takes for a file: it reads the file from `uri` itself
+interface NativeFilePart {
+    uri: string;
+    name: string;
+    type: string;
+}
+
+const buildFormData = (file: UploadableFile) => {
+    const part: NativeFilePart = {
+        uri: file.uri,
+        name: file.fileName || file.uri.split('/').pop() || 'file',
+        type: file.mimeType || 'application/octet-stream',
+    };
+    const formData = new FormData();
+    // The DOM typings only know Blob parts
+    formData.append('file', part as unknown as Blob);
+    return formData;
+};
+
+export interface UploadOptions {
+    signal?: AbortSignal;
+    // Fraction sent (0-1); not called when the platform can't tell the size
+    onProgress?: (fraction: number) => void;
+}
+
+// Where an attachment goes: the ticket itself or one of its responses
+export interface UploadTarget {
+    ticketCode: string;
+    responseId?: string | null;
+}
+
+const postFile = (url: string, file: UploadableFile, { signal, onProgress }: UploadOptions = {}) =>
+    client.post(url, buildFormData(file), {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        signal,
+        onUploadProgress: onProgress
+            ? (event) => {
+                if (event.total) onProgress(Math.min(1, event.loaded / event.total));
+            }
+            : undefined,
+    });
+
+export const uploadTicketAttachment = (ticketCode: string, file: UploadableFile, options?: UploadOptions) =>
+    postFile(buildPath('/api/tickets/{ticket}/attachments', { ticket: ticketCode }), file, options);
+
+export const uploadResponseAttachment = (ticketCode: string, responseId: string, file: UploadableFile, options?: UploadOptions) =>
+    postFile(buildPath('/api/tickets/{ticket}/responses/{response}/attachments', { ticket: ticketCode, response: responseId }), file, options);
+
+export const uploadAttachment = ({ ticketCode, responseId }: UploadTarget, file: UploadableFile, options?: UploadOptions) =>
+    responseId
+        ? uploadResponseAttachment(ticketCode, responseId, file, options)
+        : uploadTicketAttachment(ticketCode, file, options);
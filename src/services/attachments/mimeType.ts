@@ -0,0 +1,94 @@
+import { File } from 'expo-file-system';
+import { logger } from '../../utils/logger';
+
+const EXTENSION_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    heic: 'image/heic',
+    heif: 'image/heif',
+    pdf: 'application/pdf',
+    txt: 'text/plain',
+    csv: 'text/csv',
+    doc: 'application/msword',
+    xls: 'application/vnd.ms-excel',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    zip: 'application/zip',
+    mp4: 'video/mp4',
+    mov: 'video/quicktime',
+};
+
+// Preferred extension when a file is renamed after conversion
+const TYPE_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+};
+
+// Brands of the ISO media `ftyp` box that are HEIF images rather than video
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'mif1', 'msf1'];
+
+const HEADER_LENGTH = 16;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+
+export const getExtension = (name: string) => {
+    const match = /\.([a-z0-9]+)$/i.exec(name.split('?')[0]);
+    return match ? match[1].toLowerCase() : null;
+};
+
+export const mimeTypeFromName = (name: string) => {
+    const extension = getExtension(name);
+    return extension ? EXTENSION_TYPES[extension] ?? null : null;
+};
+
+export const extensionForMimeType = (mimeType: string) => TYPE_EXTENSIONS[mimeType] ?? null;
+
+// Office formats share their container (zip or OLE) with other files; the name decides
+const fromContainer = (container: string, name: string) => {
+    const byName = mimeTypeFromName(name);
+    if (container === 'zip') return byName?.startsWith('application/vnd.openxmlformats') ? byName : 'application/zip';
+    return byName === 'application/msword' || byName === 'application/vnd.ms-excel' ? byName : 'application/x-ole-storage';
+};
+
+const fromHeader = (bytes: Uint8Array, name: string): string | null => {
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+    if (ascii(bytes, 0, 4) === 'GIF8') return 'image/gif';
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'image/webp';
+    if (ascii(bytes, 0, 5) === '%PDF-') return 'application/pdf';
+    if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return fromContainer('zip', name);
+    if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return fromContainer('ole', name);
+    if (ascii(bytes, 4, 8) === 'ftyp') {
+        const brand = ascii(bytes, 8, 12);
+        if (HEIF_BRANDS.includes(brand)) return brand.startsWith('hei') ? 'image/heic' : 'image/heif';
+        return brand === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+    }
+    return null;
+};
+
+/**
+ * MIME type of a local file from its first bytes, so a renamed or mislabeled
+ * file is judged by what it contains. Formats without a signature (plain
+ * text, CSV) fall back to the extension; null when neither tells.
+ */
+export const detectMimeType = (uri: string, name: string): string | null => {
+    try {
+        const handle = new File(uri).open();
+        try {
+            const detected = fromHeader(handle.readBytes(HEADER_LENGTH), name);
+            if (detected) return detected;
+        } finally {
+            handle.close();
+        }
+    } catch (error) {
+        logger.warn(`Could not read the header of ${name}`, error, 'Attachments');
+    }
+    return mimeTypeFromName(name);
+};
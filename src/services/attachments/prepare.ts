@@ -0,0 +1,168 @@
+import { File } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { AttachmentLimits } from '../../types/company';
+import { UploadableFile } from '../api/uploads';
+import { detectMimeType, extensionForMimeType, getExtension } from './mimeType';
+import { logger } from '../../utils/logger';
+
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+    maxFileSizeBytes: 10 * 1024 * 1024,
+    allowedMimeTypes: [
+        'image/*',
+        'application/pdf',
+        'text/plain',
+        'text/csv',
+        'application/msword',
+        'application/vnd.ms-excel',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ],
+    maxImageDimension: 2048,
+    imageQuality: 0.8,
+};
+
+// Images the manipulator can decode and write back. GIFs are left alone so
+// they keep their animation.
+const REENCODED_IMAGES: Record<string, SaveFormat> = {
+    'image/jpeg': SaveFormat.JPEG,
+    'image/heic': SaveFormat.JPEG,
+    'image/heif': SaveFormat.JPEG,
+    'image/png': SaveFormat.PNG,
+    'image/webp': SaveFormat.WEBP,
+};
+
+const SAVE_FORMAT_TYPES: Record<SaveFormat, string> = {
+    [SaveFormat.JPEG]: 'image/jpeg',
+    [SaveFormat.PNG]: 'image/png',
+    [SaveFormat.WEBP]: 'image/webp',
+};
+
+const TYPE_LABELS: [prefix: string, label: string][] = [
+    ['image/', 'imágenes'],
+    ['video/', 'videos'],
+    ['application/pdf', 'PDF'],
+    ['application/msword', 'Word'],
+    ['application/vnd.openxmlformats-officedocument.wordprocessingml', 'Word'],
+    ['application/vnd.ms-excel', 'Excel'],
+    ['application/vnd.openxmlformats-officedocument.spreadsheetml', 'Excel'],
+    ['text/', 'texto'],
+];
+
+/**
+ * A picked file that can't be attached. The message is meant for the user
+ * and already names the file.
+ */
+export class AttachmentRejectedError extends Error {
+    readonly fileName: string;
+
+    constructor(fileName: string, reason: string) {
+        super(`"${fileName}": ${reason}`);
+        this.name = 'AttachmentRejectedError';
+        this.fileName = fileName;
+    }
+}
+
+export const mergeAttachmentLimits = (overrides: Partial<AttachmentLimits> = {}): AttachmentLimits => ({
+    ...DEFAULT_ATTACHMENT_LIMITS,
+    ...overrides,
+});
+
+export const isAllowedMimeType = (mimeType: string, allowed: string[]) =>
+    allowed.some((pattern) =>
+        pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : pattern === mimeType
+    );
+
+// "imágenes, PDF y Word" for the rejection message
+export const describeAllowedTypes = (allowed: string[]) => {
+    const labels = [...new Set(allowed.map((type) =>
+        TYPE_LABELS.find(([prefix]) => type.startsWith(prefix))?.[1] ?? type
+    ))];
+    return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} y ${labels[labels.length - 1]}` : labels[0] ?? '';
+};
+
+export const formatFileSize = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const renameForType = (fileName: string, mimeType: string) => {
+    const extension = extensionForMimeType(mimeType);
+    if (!extension || getExtension(fileName) === extension) return fileName;
+    return `${fileName.replace(/\.[a-z0-9]+$/i, '')}.${extension}`;
+};
+
+// Scales the longest side down to the limit and writes a fresh file. The new
+// file carries no EXIF block, so GPS location and device data are gone too.
+const reencodeImage = async (uri: string, format: SaveFormat, limits: AttachmentLimits) => {
+    const context = ImageManipulator.manipulate(uri);
+    let image = await context.renderAsync();
+    const longest = Math.max(image.width, image.height);
+    if (longest > limits.maxImageDimension) {
+        context.resize(image.width >= image.height ? { width: limits.maxImageDimension } : { height: limits.maxImageDimension });
+        image = await context.renderAsync();
+    }
+    const result = await image.saveAsync({ format, compress: limits.imageQuality });
+    return result.uri;
+};
+
+/**
+ * Checks one picked file against the company limits and returns what should
+ * be uploaded instead: the real MIME type, and for images a downsized,
+ * recompressed copy without metadata. Throws AttachmentRejectedError when the
+ * file is not allowed or still too big.
+ */
+export const prepareAttachment = async (file: UploadableFile, limits: AttachmentLimits): Promise<UploadableFile> => {
+    const fileName = file.fileName || file.uri.split('/').pop() || 'archivo';
+
+    const mimeType = detectMimeType(file.uri, fileName) ?? file.mimeType ?? null;
+    if (!mimeType || !isAllowedMimeType(mimeType, limits.allowedMimeTypes)) {
+        throw new AttachmentRejectedError(
+            fileName,
+            `tipo de archivo no permitido. Puedes adjuntar ${describeAllowedTypes(limits.allowedMimeTypes)}.`
+        );
+    }
+
+    let prepared: UploadableFile = { uri: file.uri, fileName, mimeType };
+    const format = REENCODED_IMAGES[mimeType];
+    if (format) {
+        try {
+            const outputType = SAVE_FORMAT_TYPES[format];
+            prepared = {
+                uri: await reencodeImage(file.uri, format, limits),
+                fileName: renameForType(fileName, outputType),
+                mimeType: outputType,
+            };
+        } catch (error) {
+            logger.warn(`Could not process image ${fileName}`, error, 'Attachments');
+            throw new AttachmentRejectedError(fileName, 'no se pudo procesar la imagen.');
+        }
+    }
+
+    const size = new File(prepared.uri).size;
+    if (size > limits.maxFileSizeBytes) {
+        throw new AttachmentRejectedError(
+            fileName,
+            `pesa ${formatFileSize(size)} y el máximo es ${formatFileSize(limits.maxFileSizeBytes)}.`
+        );
+    }
+
+    return prepared;
+};
+
+export interface PreparedAttachments {
+    files: UploadableFile[];
+    // One message per rejected file
+    errors: string[];
+}
+
+// Files are processed one at a time: decoding several full-size photos at once can run out of memory
+export const prepareAttachments = async (files: UploadableFile[], limits: AttachmentLimits): Promise<PreparedAttachments> => {
+    const result: PreparedAttachments = { files: [], errors: [] };
+    for (const file of files) {
+        try {
+            result.files.push(await prepareAttachment(file, limits));
+        } catch (error) {
+            if (!(error instanceof AttachmentRejectedError)) logger.error('Attachment preprocessing failed', error, 'Attachments');
+            result.errors.push(error instanceof AttachmentRejectedError ? error.message : 'No se pudo adjuntar un archivo.');
+        }
+    }
+    return result;
+};
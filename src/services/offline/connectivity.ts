@@ -0,0 +1,18 @@
+import NetInfo from '@react-native-community/netinfo';
+import axios from 'axios';
+import { ApiError } from '../api/errors';
+
+/**
+ * Returns false only when the device reports no connection at all.
+ * Unknown reachability (null) is treated as online so requests are still attempted.
+ */
+export const isOnline = async () => {
+    const state = await NetInfo.fetch();
+    return state.isConnected !== false && state.isInternetReachable !== false;
+};
+
+/**
+ * True when the request never got an HTTP response (no signal, DNS failure, timeout).
+ */
+export const isNetworkError = (error: unknown) =>
+    error instanceof ApiError ? error.isNetworkError : axios.isAxiosError(error) && !error.response;
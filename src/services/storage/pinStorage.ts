@@ -0,0 +1,62 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+
+const PIN_KEY = 'app_lock_pin';
+const ATTEMPTS_KEY = 'app_lock_attempts';
+
+interface StoredPin {
+    salt: string;
+    hash: string;
+}
+
+export interface PinAttempts {
+    failedAttempts: number;
+    // Epoch ms
+    lockedOutUntil: number | null;
+}
+
+const NO_ATTEMPTS: PinAttempts = { failedAttempts: 0, lockedOutUntil: null };
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const hashPin = (pin: string, salt: string) =>
+    Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+// Only a salted hash of the app-lock PIN is kept, in the keychain/keystore
+export const pinStorage = {
+    async setPin(pin: string) {
+        const salt = toHex(Crypto.getRandomBytes(16));
+        const stored: StoredPin = { salt, hash: await hashPin(pin, salt) };
+        await SecureStore.setItemAsync(PIN_KEY, JSON.stringify(stored));
+    },
+
+    async hasPin() {
+        return (await SecureStore.getItemAsync(PIN_KEY)) !== null;
+    },
+
+    async verifyPin(pin: string) {
+        const value = await SecureStore.getItemAsync(PIN_KEY);
+        if (!value) return false;
+        const { salt, hash } = JSON.parse(value) as StoredPin;
+        return (await hashPin(pin, salt)) === hash;
+    },
+
+    async clearPin() {
+        await SecureStore.deleteItemAsync(PIN_KEY);
+        await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+    },
+
+    // Wrong PINs survive an app restart, so killing the app doesn't reset the lockout
+    async getAttempts(): Promise<PinAttempts> {
+        const value = await SecureStore.getItemAsync(ATTEMPTS_KEY);
+        return value ? { ...NO_ATTEMPTS, ...(JSON.parse(value) as Partial<PinAttempts>) } : NO_ATTEMPTS;
+    },
+
+    async setAttempts(attempts: PinAttempts) {
+        if (attempts.failedAttempts === 0 && attempts.lockedOutUntil === null) {
+            await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+        } else {
+            await SecureStore.setItemAsync(ATTEMPTS_KEY, JSON.stringify(attempts));
+        }
+    },
+};
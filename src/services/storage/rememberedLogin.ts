@@ -0,0 +1,22 @@
+import * as SecureStore from 'expo-secure-store';
+
+const REMEMBERED_EMAIL_KEY = 'login_remembered_email';
+
+// Email prefilled on the login screen after signing in with "Recordarme"
+export const rememberedLogin = {
+    async getEmail() {
+        return await SecureStore.getItemAsync(REMEMBERED_EMAIL_KEY);
+    },
+
+    async remember(email: string) {
+        await SecureStore.setItemAsync(REMEMBERED_EMAIL_KEY, email);
+    },
+
+    // Only when it is this email: another account may have been remembered since
+    async forget(email: string) {
+        const remembered = await SecureStore.getItemAsync(REMEMBERED_EMAIL_KEY);
+        if (remembered?.toLowerCase() === email.toLowerCase()) {
+            await SecureStore.deleteItemAsync(REMEMBERED_EMAIL_KEY);
+        }
+    },
+};
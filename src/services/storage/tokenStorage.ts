@@ -1,17 +1,168 @@
 import * as SecureStore from 'expo-secure-store';
+import { User } from '../../types/user';
+import { logger } from '../../utils/logger';
 
-const ACCESS_TOKEN_KEY = 'auth_access_token';
+// Ids of the signed-in accounts, most recently used first
+const ACCOUNTS_KEY = 'auth_accounts';
+const ACTIVE_ACCOUNT_KEY = 'auth_active_account';
+// One entry per value: SecureStore may reject values above 2 KB
+const accessTokenKey = (accountId: string) => `auth_account_${accountId}_access_token`;
+const accessTokenExpiryKey = (accountId: string) => `auth_account_${accountId}_expires_at`;
+const userKey = (accountId: string) => `auth_account_${accountId}_user`;
+// Signed in with "Recordarme"
+const rememberKey = (accountId: string) => `auth_account_${accountId}_remember`;
 
+// Written before multi-account support, and while signing in before the user is known
+const LEGACY_ACCESS_TOKEN_KEY = 'auth_access_token';
+const LEGACY_ACCESS_TOKEN_EXPIRY_KEY = 'auth_access_token_expires_at';
+
+// Read on every request: kept in memory once loaded
+let activeAccountId: string | null | undefined;
+
+const getActiveAccountId = async () => {
+    if (activeAccountId === undefined) {
+        activeAccountId = await SecureStore.getItemAsync(ACTIVE_ACCOUNT_KEY);
+    }
+    return activeAccountId;
+};
+
+const setActiveAccountId = async (accountId: string | null) => {
+    activeAccountId = accountId;
+    if (accountId === null) {
+        await SecureStore.deleteItemAsync(ACTIVE_ACCOUNT_KEY);
+    } else {
+        await SecureStore.setItemAsync(ACTIVE_ACCOUNT_KEY, accountId);
+    }
+};
+
+const getAccountIds = async (): Promise<string[]> => {
+    const value = await SecureStore.getItemAsync(ACCOUNTS_KEY);
+    if (!value) return [];
+    try {
+        return JSON.parse(value);
+    } catch {
+        return [];
+    }
+};
+
+const setAccountIds = (ids: string[]) => SecureStore.setItemAsync(ACCOUNTS_KEY, JSON.stringify(ids));
+
+const tokenKeys = async () => {
+    const accountId = await getActiveAccountId();
+    return accountId
+        ? { token: accessTokenKey(accountId), expiry: accessTokenExpiryKey(accountId) }
+        : { token: LEGACY_ACCESS_TOKEN_KEY, expiry: LEGACY_ACCESS_TOKEN_EXPIRY_KEY };
+};
+
+const moveItem = async (from: string, to: string) => {
+    const value = await SecureStore.getItemAsync(from);
+    if (value !== null) await SecureStore.setItemAsync(to, value);
+    await SecureStore.deleteItemAsync(from);
+};
+
+const deleteAccountItems = async (accountId: string) => {
+    await SecureStore.deleteItemAsync(accessTokenKey(accountId));
+    await SecureStore.deleteItemAsync(accessTokenExpiryKey(accountId));
+    await SecureStore.deleteItemAsync(userKey(accountId));
+    await SecureStore.deleteItemAsync(rememberKey(accountId));
+};
+
+/**
+ * Access tokens of every signed-in account, each with its cached user. The
+ * token getters and setters always act on the active account, so the API
+ * client and tokenRefresh don't need to know about accounts.
+ *
+ * The refresh token is a single HttpOnly cookie owned by the account that
+ * signed in last: other accounts keep working while their access token is
+ * valid, then need their password again (see tokenRefresh).
+ */
 export const tokenStorage = {
     async setAccessToken(token: string) {
-        await SecureStore.setItemAsync(ACCESS_TOKEN_KEY, token);
+        await SecureStore.setItemAsync((await tokenKeys()).token, token);
     },
 
     async getAccessToken() {
-        return await SecureStore.getItemAsync(ACCESS_TOKEN_KEY);
+        return await SecureStore.getItemAsync((await tokenKeys()).token);
+    },
+
+    // Epoch milliseconds, null when unknown
+    async setAccessTokenExpiry(expiresAt: number | null) {
+        const { expiry } = await tokenKeys();
+        if (expiresAt === null) {
+            await SecureStore.deleteItemAsync(expiry);
+        } else {
+            await SecureStore.setItemAsync(expiry, String(expiresAt));
+        }
+    },
+
+    async getAccessTokenExpiry() {
+        const value = await SecureStore.getItemAsync((await tokenKeys()).expiry);
+        return value ? Number(value) : null;
     },
 
     async clearAccessToken() {
-        await SecureStore.deleteItemAsync(ACCESS_TOKEN_KEY);
+        const { token, expiry } = await tokenKeys();
+        await SecureStore.deleteItemAsync(token);
+        await SecureStore.deleteItemAsync(expiry);
+    },
+
+    getActiveAccountId,
+
+    /**
+     * Adds or updates an account and makes it the active one. A token stored
+     * before the user was known (sign-in, older app versions) moves to it.
+     * `rememberMe` is recorded when given (sign-in) and kept otherwise.
+     */
+    async saveAccount(user: User, rememberMe?: boolean) {
+        if ((await getActiveAccountId()) === null) {
+            await moveItem(LEGACY_ACCESS_TOKEN_KEY, accessTokenKey(user.id));
+            await moveItem(LEGACY_ACCESS_TOKEN_EXPIRY_KEY, accessTokenExpiryKey(user.id));
+        }
+        await SecureStore.setItemAsync(userKey(user.id), JSON.stringify(user));
+        if (rememberMe === true) await SecureStore.setItemAsync(rememberKey(user.id), 'true');
+        if (rememberMe === false) await SecureStore.deleteItemAsync(rememberKey(user.id));
+        await setAccountIds([user.id, ...(await getAccountIds()).filter((id) => id !== user.id)]);
+        await setActiveAccountId(user.id);
+    },
+
+    // Makes a stored account the active one; its token is used from now on
+    async activateAccount(accountId: string) {
+        const ids = await getAccountIds();
+        if (!ids.includes(accountId)) throw new Error(`Unknown account ${accountId}`);
+        await setAccountIds([accountId, ...ids.filter((id) => id !== accountId)]);
+        await setActiveAccountId(accountId);
+    },
+
+    async isRemembered(accountId: string) {
+        return (await SecureStore.getItemAsync(rememberKey(accountId))) === 'true';
+    },
+
+    // Cached users of every stored account, most recently used first
+    async getAccounts(): Promise<User[]> {
+        const users = await Promise.all((await getAccountIds()).map(async (id) => {
+            const value = await SecureStore.getItemAsync(userKey(id));
+            try {
+                return value ? (JSON.parse(value) as User) : null;
+            } catch (error) {
+                logger.warn(`Could not read cached user for account ${id}`, error, 'Auth');
+                return null;
+            }
+        }));
+        return users.filter((user): user is User => user !== null);
+    },
+
+    async removeAccount(accountId: string) {
+        await deleteAccountItems(accountId);
+        await setAccountIds((await getAccountIds()).filter((id) => id !== accountId));
+        if ((await getActiveAccountId()) === accountId) await setActiveAccountId(null);
+    },
+
+    // Forgets every account (e.g. they belong to another server)
+    async clearAccounts() {
+        for (const id of await getAccountIds()) await deleteAccountItems(id);
+        await SecureStore.deleteItemAsync(ACCOUNTS_KEY);
+        await SecureStore.deleteItemAsync(LEGACY_ACCESS_TOKEN_KEY);
+        await SecureStore.deleteItemAsync(LEGACY_ACCESS_TOKEN_EXPIRY_KEY);
+        await setActiveAccountId(null);
     },
 };
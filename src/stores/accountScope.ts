@@ -0,0 +1,19 @@
+import { StoreApi } from 'zustand';
+
+type AccountScopedStore = Pick<StoreApi<any>, 'setState' | 'getInitialState'>;
+
+const stores = new Set<AccountScopedStore>();
+
+/**
+ * Marks a store as holding data of the signed-in account: it goes back to its
+ * initial state whenever the account changes (sign-in, switch, sign-out), so
+ * one account's tickets or companies never show up under another.
+ */
+export const scopeToAccount = <S extends AccountScopedStore>(store: S): S => {
+    stores.add(store);
+    return store;
+};
+
+export const resetAccountScopedStores = () => {
+    stores.forEach((store) => store.setState(store.getInitialState(), true));
+};
@@ -1,12 +1,19 @@
 import { create } from 'zustand';
 import { Announcement, AnnouncementType } from '../types/announcement';
-import { client } from '../services/api/client';
+import { api } from '../services/api/endpoints';
+import { ApiQuery } from '../services/api/paths';
+import { FetchOptions, queryCache } from '../services/api/queryCache';
+import { queryKeys } from '../services/api/queryKeys';
+import { createLatestRequest } from '../services/api/cancellation';
+import { isCanceledError } from '../services/api/errors';
+import { useEntityStore, withCompany } from './entityStore';
+import { scopeToAccount } from './accountScope';
 
 interface AnnouncementFilters {
     type?: AnnouncementType;
     search?: string;
     company_id?: string;
-    sort?: string;
+    sort?: ApiQuery<'GET /api/announcements'>['sort'];
 }
 
 interface AnnouncementState {
@@ -15,74 +22,82 @@ interface AnnouncementState {
     isLoading: boolean;
     error: string | null;
 
-    fetchAnnouncements: (filters?: AnnouncementFilters) => Promise<void>;
-    getAnnouncementById: (id: string) => Promise<Announcement>;
+    // Latest wins: a newer call cancels this one, which then resolves without applying results
+    fetchAnnouncements: (filters?: AnnouncementFilters, options?: FetchOptions) => Promise<void>;
+    // Rejects with a canceled ApiError when options.signal aborts (screen closed)
+    getAnnouncementById: (id: string, options?: FetchOptions) => Promise<Announcement>;
 }
 
-export const useAnnouncementStore = create<AnnouncementState>((set) => ({
+// The API sends company name but no logo; both are completed from the entity store
+const withCompanies = async (announcements: Announcement[]) => {
+    const entities = useEntityStore.getState();
+    entities.upsertCompanies(announcements.map((a) => a.company));
+    await entities.resolveCompanies(announcements.filter((a) => !a.company.name).map((a) => a.company.id));
+    return announcements.map(withCompany);
+};
+
+const loadAnnouncements = async (filters: AnnouncementFilters, signal?: AbortSignal) =>
+    withCompanies(await api.announcements.list(filters, signal));
+
+const loadAnnouncement = async (id: string, signal?: AbortSignal) => {
+    const [announcement] = await withCompanies([await api.announcements.get(id, signal)]);
+    return announcement;
+};
+
+// New filters abort the previous request, so a slow response never overwrites the current list
+const announcementsRequest = createLatestRequest();
+
+export const useAnnouncementStore = create<AnnouncementState>((set, get) => ({
     announcements: [],
     currentAnnouncement: null,
     isLoading: false,
     error: null,
 
-    fetchAnnouncements: async (filters = {}) => {
-        set({ isLoading: true, error: null });
+    fetchAnnouncements: async (filters = {}, options = {}) => {
+        const key = queryKeys.announcements(filters);
+        const signal = announcementsRequest.start(options.signal);
+
+        const cached = queryCache.peek<Announcement[]>(key);
+        set(cached ? { announcements: cached, error: null } : { isLoading: true, error: null });
         try {
-            const response = await client.get('/api/announcements', { params: filters });
-            const mappedAnnouncements = response.data.data.map(mapAnnouncementFromApi);
-            set({ announcements: mappedAnnouncements, isLoading: false });
+            const announcements = await queryCache.fetch(key, (requestSignal) => loadAnnouncements(filters, requestSignal), {
+                ...options,
+                signal,
+                onRevalidate: (fresh) => {
+                    if (announcementsRequest.isCurrent(signal)) set({ announcements: fresh });
+                },
+            });
+            if (announcementsRequest.isCurrent(signal)) set({ announcements, isLoading: false });
         } catch (error: any) {
+            // A superseded request leaves the loading state to the one that replaced it
+            if (announcementsRequest.isSuperseded(signal)) return;
+            if (isCanceledError(error)) {
+                set({ isLoading: false });
+                return;
+            }
             set({ isLoading: false, error: error.message || 'Failed to fetch announcements' });
             throw error;
         }
     },
 
-    getAnnouncementById: async (id: string) => {
-        set({ isLoading: true, error: null });
+    getAnnouncementById: async (id: string, options = {}) => {
+        const key = queryKeys.announcement(id);
+        const cached = queryCache.peek<Announcement>(key);
+        set(cached ? { currentAnnouncement: cached, error: null } : { isLoading: true, error: null });
         try {
-            const response = await client.get(`/api/announcements/${id}`);
-            const mappedAnnouncement = mapAnnouncementFromApi(response.data.data);
-            set({ currentAnnouncement: mappedAnnouncement, isLoading: false });
-            return mappedAnnouncement;
+            const announcement = await queryCache.fetch(key, (requestSignal) => loadAnnouncement(id, requestSignal), {
+                ...options,
+                onRevalidate: (fresh) => {
+                    if (get().currentAnnouncement?.id === id) set({ currentAnnouncement: fresh });
+                },
+            });
+            set({ currentAnnouncement: announcement, isLoading: false });
+            return announcement;
         } catch (error: any) {
-            set({ isLoading: false, error: error.message || 'Failed to fetch announcement' });
+            set({ isLoading: false, error: isCanceledError(error) ? null : error.message || 'Failed to fetch announcement' });
             throw error;
         }
     },
 }));
 
-const mapAnnouncementFromApi = (data: any): Announcement => {
-    const base = {
-        id: data.id,
-        type: data.type,
-        title: data.title,
-        content: data.content,
-        excerpt: data.excerpt || data.content.substring(0, 100) + '...',
-        company: {
-            id: data.company_id,
-            name: data.company_name,
-            logoUrl: null, // API doesn't return logo yet
-        },
-        publishedAt: data.published_at,
-        status: data.status,
-    };
-
-    // Map metadata keys from snake_case to camelCase
-    const metadata = data.metadata ? mapKeysToCamelCase(data.metadata) : {};
-
-    return {
-        ...base,
-        metadata,
-    } as Announcement;
-};
-
-const mapKeysToCamelCase = (obj: any): any => {
-    if (typeof obj !== 'object' || obj === null) return obj;
-    if (Array.isArray(obj)) return obj.map(mapKeysToCamelCase);
-
-    return Object.keys(obj).reduce((acc, key) => {
-        const camelKey = key.replace(/_([a-z])/g, (g) => g[1].toUpperCase());
-        acc[camelKey] = mapKeysToCamelCase(obj[key]);
-        return acc;
-    }, {} as any);
-};
+scopeToAccount(useAnnouncementStore);
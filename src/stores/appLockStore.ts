@@ -0,0 +1,182 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { PinAttempts, pinStorage } from '../services/storage/pinStorage';
+import { logger } from '../utils/logger';
+
+export const PIN_LENGTH = 4;
+
+// Seconds in the background before the lock kicks in
+export const LOCK_TIMEOUT_OPTIONS: { value: number; label: string }[] = [
+    { value: 0, label: 'Inmediatamente' },
+    { value: 30, label: 'Después de 30 segundos' },
+    { value: 60, label: 'Después de 1 minuto' },
+    { value: 5 * 60, label: 'Después de 5 minutos' },
+    { value: 15 * 60, label: 'Después de 15 minutos' },
+];
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 30 * 1000;
+
+interface AppLockState {
+    // Settings (persisted; the PIN itself lives in pinStorage)
+    enabled: boolean;
+    biometricsEnabled: boolean;
+    timeoutSeconds: number;
+
+    // Runtime
+    hasHydrated: boolean;
+    isLocked: boolean;
+    backgroundedAt: number | null;
+    // Kept in pinStorage (secure storage) rather than with the settings
+    failedAttempts: number;
+    // Too many wrong PINs: input disabled until then (epoch ms)
+    lockedOutUntil: number | null;
+
+    enable: (pin: string) => Promise<void>;
+    changePin: (pin: string) => Promise<void>;
+    disable: () => Promise<void>;
+    setBiometricsEnabled: (enabled: boolean) => void;
+    setTimeoutSeconds: (seconds: number) => void;
+
+    // Resolves true when the PIN matched and the app was unlocked
+    unlockWithPin: (pin: string) => Promise<boolean>;
+    unlockWithBiometrics: () => Promise<boolean>;
+
+    // Driven by AppState (see useAppLockLifecycle)
+    onBackground: () => void;
+    onForeground: () => void;
+}
+
+// Hardware present and at least one fingerprint/face enrolled
+export const isBiometricsAvailable = async () => {
+    try {
+        return (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+    } catch (error) {
+        logger.warn('Could not check biometrics availability', error, 'AppLock');
+        return false;
+    }
+};
+
+const saveAttempts = (attempts: PinAttempts) => {
+    pinStorage.setAttempts(attempts).catch((error) => logger.warn('Could not save PIN attempts', error, 'AppLock'));
+};
+
+// A lockout that ended while the app was closed is over
+const restoreAttempts = async (): Promise<PinAttempts> => {
+    try {
+        const attempts = await pinStorage.getAttempts();
+        const isLockedOut = attempts.lockedOutUntil !== null && attempts.lockedOutUntil > Date.now();
+        return { failedAttempts: attempts.failedAttempts, lockedOutUntil: isLockedOut ? attempts.lockedOutUntil : null };
+    } catch (error) {
+        logger.warn('Could not restore PIN attempts', error, 'AppLock');
+        return { failedAttempts: 0, lockedOutUntil: null };
+    }
+};
+
+export const useAppLockStore = create<AppLockState>()(
+    persist(
+        (set, get) => {
+            // Every change to the attempts is written through to pinStorage
+            const setAttempts = (attempts: PinAttempts, changes: Partial<AppLockState> = {}) => {
+                set({ ...changes, ...attempts });
+                saveAttempts(attempts);
+            };
+
+            return {
+                enabled: false,
+                biometricsEnabled: false,
+                timeoutSeconds: 60,
+
+                hasHydrated: false,
+                isLocked: false,
+                backgroundedAt: null,
+                failedAttempts: 0,
+                lockedOutUntil: null,
+
+                enable: async (pin) => {
+                    await pinStorage.setPin(pin);
+                    setAttempts({ failedAttempts: 0, lockedOutUntil: null }, { enabled: true, isLocked: false });
+                },
+
+                changePin: async (pin) => {
+                    await pinStorage.setPin(pin);
+                },
+
+                disable: async () => {
+                    await pinStorage.clearPin();
+                    set({ enabled: false, biometricsEnabled: false, isLocked: false, failedAttempts: 0, lockedOutUntil: null });
+                },
+
+                setBiometricsEnabled: (biometricsEnabled) => set({ biometricsEnabled }),
+
+                setTimeoutSeconds: (timeoutSeconds) => set({ timeoutSeconds }),
+
+                unlockWithPin: async (pin) => {
+                    const { lockedOutUntil, failedAttempts } = get();
+                    if (lockedOutUntil && lockedOutUntil > Date.now()) return false;
+
+                    if (await pinStorage.verifyPin(pin)) {
+                        setAttempts({ failedAttempts: 0, lockedOutUntil: null }, { isLocked: false });
+                        return true;
+                    }
+
+                    const attempts = failedAttempts + 1;
+                    setAttempts(attempts >= MAX_FAILED_ATTEMPTS
+                        ? { failedAttempts: 0, lockedOutUntil: Date.now() + LOCKOUT_MS }
+                        : { failedAttempts: attempts, lockedOutUntil: null });
+                    return false;
+                },
+
+                unlockWithBiometrics: async () => {
+                    try {
+                        const result = await LocalAuthentication.authenticateAsync({
+                            promptMessage: 'Desbloquear Helpdesk',
+                            cancelLabel: 'Usar PIN',
+                            // The PIN is the fallback, not the device passcode
+                            disableDeviceFallback: true,
+                        });
+                        if (result.success) {
+                            setAttempts({ failedAttempts: 0, lockedOutUntil: null }, { isLocked: false });
+                        }
+                        return result.success;
+                    } catch (error) {
+                        logger.warn('Biometric unlock failed', error, 'AppLock');
+                        return false;
+                    }
+                },
+
+                onBackground: () => {
+                    // Only the first transition counts
+                    if (get().backgroundedAt === null) set({ backgroundedAt: Date.now() });
+                },
+
+                onForeground: () => {
+                    const { enabled, backgroundedAt, timeoutSeconds, isLocked } = get();
+                    const elapsed = backgroundedAt === null ? 0 : Date.now() - backgroundedAt;
+                    set({
+                        backgroundedAt: null,
+                        isLocked: isLocked || (enabled && backgroundedAt !== null && elapsed >= timeoutSeconds * 1000),
+                    });
+                },
+            };
+        },
+        {
+            name: 'app-lock',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                enabled: state.enabled,
+                biometricsEnabled: state.biometricsEnabled,
+                timeoutSeconds: state.timeoutSeconds,
+            }),
+            // Cold start: locked from the first frame when the lock is on. hasHydrated
+            // waits for the attempts, so no PIN is checked before the lockout is known.
+            onRehydrateStorage: () => (state, error) => {
+                if (error) logger.warn('Could not restore app lock settings', error, 'AppLock');
+                useAppLockStore.setState({ isLocked: !!state?.enabled });
+                restoreAttempts().then((attempts) => useAppLockStore.setState({ ...attempts, hasHydrated: true }));
+            },
+        }
+    )
+);
@@ -1,6 +1,12 @@
 import { create } from 'zustand';
 import { Article, ArticleCategory, ArticleFilters } from '../types/article';
-import { client } from '../services/api/client';
+import { api } from '../services/api/endpoints';
+import { ApiQuery } from '../services/api/paths';
+import { FetchOptions, queryCache } from '../services/api/queryCache';
+import { queryKeys } from '../services/api/queryKeys';
+import { createLatestRequest } from '../services/api/cancellation';
+import { isCanceledError } from '../services/api/errors';
+import { scopeToAccount } from './accountScope';
 
 interface ArticleState {
     articles: Article[];
@@ -10,13 +16,23 @@ interface ArticleState {
     isLoading: boolean;
     error: string | null;
 
-    fetchCategories: () => Promise<void>;
-    fetchArticles: (filters?: ArticleFilters) => Promise<void>;
-    getArticleById: (id: string) => Promise<Article>;
-    fetchPopularArticles: () => Promise<void>;
+    fetchCategories: (options?: FetchOptions) => Promise<void>;
+    // Latest wins: a newer search cancels this one, which then resolves without applying results
+    fetchArticles: (filters?: ArticleFilters, options?: FetchOptions) => Promise<void>;
+    // Rejects with a canceled ApiError when options.signal aborts (screen closed)
+    getArticleById: (id: string, options?: FetchOptions) => Promise<Article>;
+    fetchPopularArticles: (options?: FetchOptions) => Promise<void>;
 }
 
-export const useArticleStore = create<ArticleState>((set) => ({
+// Help center content is edited rarely
+const HELP_CENTER_STALE_TIME = 5 * 60 * 1000;
+
+const POPULAR_ARTICLES_QUERY: Partial<ApiQuery<'GET /api/help-center/articles'>> = { sort: '-views', per_page: 5 };
+
+// A new search aborts the previous one, so a slow response never overwrites newer results
+const articlesRequest = createLatestRequest();
+
+export const useArticleStore = create<ArticleState>((set, get) => ({
     articles: [],
     currentArticle: null,
     categories: [],
@@ -24,16 +40,22 @@ export const useArticleStore = create<ArticleState>((set) => ({
     isLoading: false,
     error: null,
 
-    fetchCategories: async () => {
+    fetchCategories: async (options = {}) => {
         // Hardcoded categories for now based on prompt, or fetch from API if available
         // The prompt implies these are global categories: 
         // ACCOUNT_PROFILE, SECURITY_PRIVACY, BILLING_PAYMENTS, TECHNICAL_SUPPORT
         // But also mentions GET /api/help-center/categories
 
-        set({ isLoading: true, error: null });
+        const key = queryKeys.articleCategories();
+        const cached = queryCache.peek<ArticleCategory[]>(key);
+        set(cached ? { categories: cached, error: null } : { isLoading: true, error: null });
         try {
-            const response = await client.get('/api/help-center/categories');
-            set({ categories: response.data.data, isLoading: false });
+            const categories = await queryCache.fetch(key, () => api.helpCenter.categories(), {
+                ...options,
+                staleTime: HELP_CENTER_STALE_TIME,
+                onRevalidate: (fresh) => set({ categories: fresh }),
+            });
+            set({ categories, isLoading: false });
         } catch (error: any) {
             console.warn('Failed to fetch categories, using defaults if needed');
             // Fallback or error handling
@@ -41,38 +63,85 @@ export const useArticleStore = create<ArticleState>((set) => ({
         }
     },
 
-    fetchArticles: async (filters = {}) => {
-        set({ isLoading: true, error: null });
+    fetchArticles: async (filters = {}, options = {}) => {
+        const query = toArticleQuery(filters);
+        const key = queryKeys.articles(query);
+        const signal = articlesRequest.start(options.signal);
+
+        const cached = queryCache.peek<Article[]>(key);
+        set(cached ? { articles: cached, error: null } : { isLoading: true, error: null });
         try {
-            const response = await client.get('/api/help-center/articles', { params: filters });
-            set({ articles: response.data.data, isLoading: false });
+            const articles = await queryCache.fetch(key, (requestSignal) => api.helpCenter.articles(query, requestSignal), {
+                ...options,
+                signal,
+                staleTime: HELP_CENTER_STALE_TIME,
+                onRevalidate: (fresh) => {
+                    if (articlesRequest.isCurrent(signal)) set({ articles: fresh });
+                },
+            });
+            if (articlesRequest.isCurrent(signal)) set({ articles, isLoading: false });
         } catch (error: any) {
+            // A superseded search leaves the loading state to the one that replaced it
+            if (articlesRequest.isSuperseded(signal)) return;
+            if (isCanceledError(error)) {
+                set({ isLoading: false });
+                return;
+            }
             set({ isLoading: false, error: error.message || 'Failed to fetch articles' });
             throw error;
         }
     },
 
-    getArticleById: async (id: string) => {
-        set({ isLoading: true, error: null });
+    getArticleById: async (id: string, options = {}) => {
+        const key = queryKeys.article(id);
+        const cached = queryCache.peek<Article>(key);
+        set(cached ? { currentArticle: cached, error: null } : { isLoading: true, error: null });
         try {
-            const response = await client.get(`/api/help-center/articles/${id}`);
-            set({ currentArticle: response.data.data, isLoading: false });
-            return response.data.data;
+            const article = await queryCache.fetch(key, (requestSignal) => api.helpCenter.article(id, requestSignal), {
+                ...options,
+                staleTime: HELP_CENTER_STALE_TIME,
+                onRevalidate: (fresh) => {
+                    if (get().currentArticle?.id === id) set({ currentArticle: fresh });
+                },
+            });
+            set({ currentArticle: article, isLoading: false });
+            return article;
         } catch (error: any) {
-            set({ isLoading: false, error: error.message || 'Failed to fetch article' });
+            set({ isLoading: false, error: isCanceledError(error) ? null : error.message || 'Failed to fetch article' });
             throw error;
         }
     },
 
-    fetchPopularArticles: async () => {
+    fetchPopularArticles: async (options = {}) => {
         // Assuming there's a way to get popular articles, maybe sort=views
         try {
-            const response = await client.get('/api/help-center/articles', {
-                params: { sort: 'views', per_page: 5 }
-            });
-            set({ popularArticles: response.data.data });
+            const popularArticles = await queryCache.fetch(
+                queryKeys.articles(POPULAR_ARTICLES_QUERY),
+                () => api.helpCenter.articles(POPULAR_ARTICLES_QUERY),
+                {
+                    ...options,
+                    staleTime: HELP_CENTER_STALE_TIME,
+                    onRevalidate: (fresh) => set({ popularArticles: fresh }),
+                }
+            );
+            set({ popularArticles });
         } catch (error) {
             console.error('Failed to fetch popular articles', error);
         }
     },
 }));
+
+scopeToAccount(useArticleStore);
+
+const ARTICLE_SORT: Record<NonNullable<ArticleFilters['sort']>, ApiQuery<'GET /api/help-center/articles'>['sort']> = {
+    views: '-views',
+    date: '-created_at',
+    helpful: '-views', // No helpfulness sort in the API yet
+};
+
+const toArticleQuery = (filters: ArticleFilters): Partial<ApiQuery<'GET /api/help-center/articles'>> => ({
+    search: filters.search || undefined,
+    category: filters.category,
+    company_id: filters.companyId,
+    sort: filters.sort ? ARTICLE_SORT[filters.sort] : undefined,
+});
@@ -1,72 +1,209 @@
 import { create } from 'zustand';
 import { User } from '../types/user';
-import { RegisterData, AuthResponse } from '../types/auth';
-import { client } from '../services/api/client';
+import { RegisterData } from '../types/auth';
+import { api } from '../services/api/endpoints';
+import { cancelLatestRequests } from '../services/api/cancellation';
+import { ApiError } from '../services/api/errors';
+import { queryCache } from '../services/api/queryCache';
+import { tokenRefresh } from '../services/api/tokenRefresh';
 import { tokenStorage } from '../services/storage/tokenStorage';
-import { router } from 'expo-router';
+import { rememberedLogin } from '../services/storage/rememberedLogin';
+import { Href, router } from 'expo-router';
 import * as Device from 'expo-device';
+import { useEntityStore } from './entityStore';
+import { useOutboxStore } from './outboxStore';
+import { useUploadStore } from './uploadStore';
+import { useTicketDraftStore } from './ticketDraftStore';
+import { useTicketFilterPresetsStore } from './ticketFilterPresetsStore';
+import { EnvironmentId, useEnvironmentStore } from './environmentStore';
+import { useAppLockStore } from './appLockStore';
+import { lastActivityStorage, useInactivityStore } from './inactivityStore';
+import { resetAccountScopedStores } from './accountScope';
+import { decodeJwtPayload } from '../utils/jwt';
 
 interface AuthState {
     accessToken: string | null;
     user: User | null;
+    // Every account signed in on this device (including the current one), most recent first
+    accounts: User[];
     isAuthenticated: boolean;
     isLoading: boolean;
     isUploadingAvatar: boolean;
 
     // Actions
-    login: (email: string, password: string) => Promise<void>;
+    // returnTo: screen to land on after signing in (defaults to home).
+    // rememberMe: keep the email for the next sign-in and ask for a longer session
+    login: (email: string, password: string, returnTo?: string, rememberMe?: boolean) => Promise<void>;
+    // Exchanges a Google ID token for a session on the backend
+    loginWithGoogle: (idToken: string, returnTo?: string) => Promise<void>;
+    // Signs the current user in again after the session could not be refreshed
+    reauthenticate: (password: string) => Promise<void>;
+    // Drops the local session without calling the API and sends the user to login
+    expireSession: (returnTo?: string) => Promise<void>;
+    // Creates the account, signs it in and continues to email verification
     register: (data: RegisterData) => Promise<void>;
-    logout: (everywhere?: boolean) => Promise<void>;
+    // Reflects a verification confirmed by the backend without refetching the user
+    markEmailVerified: (verifiedAt?: string | null) => void;
+    // Records the end (or skip) of the first-run onboarding
+    completeOnboarding: () => Promise<void>;
+    // Signs out of the current server, then points the app at another environment
+    switchEnvironment: (environmentId: EnvironmentId, customUrl?: string | null) => Promise<void>;
+    // Continues with the next stored account, if any, or goes to login.
+    // revokeSession: end this device's session with DELETE /api/auth/sessions/{id}
+    // instead of the regular logout call. allAccounts: also forget the other
+    // accounts stored on this device (both used by the inactivity timeout).
+    logout: (everywhere?: boolean, options?: { revokeSession?: boolean; allAccounts?: boolean }) => Promise<void>;
+    // Makes another stored account the current one
+    switchAccount: (accountId: string) => Promise<void>;
     refreshToken: () => Promise<boolean>;
     checkAuth: () => Promise<void>;
     invalidateToken: () => Promise<void>;
     updateAvatar: (uri: string) => Promise<void>;
 }
 
+// Capture device name - OS info is handled by backend user agent parsing
+const getDeviceName = () => Device.deviceName || Device.modelName || 'Unknown Device';
+
+// Only in-app paths, and never back into the auth screens
+const isSafeReturnUrl = (url?: string): url is string =>
+    !!url && url.startsWith('/') && !url.startsWith('//') && !url.startsWith('/(auth)') && url !== '/';
+
+// Cached data belongs to one account: start over whenever it changes
+const resetAccountData = (accountId: string | null) => {
+    // Responses still on their way for the previous account must not land in the reset stores
+    cancelLatestRequests();
+    queryCache.clear();
+    // Files still uploading would go out with the next account's token
+    useUploadStore.getState().reset();
+    useEntityStore.getState().clear();
+    resetAccountScopedStores();
+    useOutboxStore.getState().setAccount(accountId);
+};
+
+// What an account keeps on the device besides its tokens
+const removeAccountData = (accountId: string) => {
+    useTicketDraftStore.getState().deleteAccountDrafts(accountId);
+    useTicketFilterPresetsStore.getState().deleteAccountPresets(accountId);
+    useOutboxStore.getState().clearAccount(accountId);
+};
+
+// Signs the current account out of this device; other stored accounts stay.
+// Without "Recordarme" its drafts, saved filters and unsent items go too,
+// unless the session merely expired and the user is about to sign in again.
+const clearLocalSession = async ({ keepAccountData = false } = {}) => {
+    tokenRefresh.stop();
+    const accountId = await tokenStorage.getActiveAccountId();
+    if (accountId) {
+        if (!keepAccountData && !(await tokenStorage.isRemembered(accountId))) removeAccountData(accountId);
+        await tokenStorage.removeAccount(accountId);
+    } else {
+        await tokenStorage.clearAccessToken();
+    }
+    resetAccountData(null);
+};
+
+// Server-side session of an access token (`session_id` claim)
+const getSessionId = (accessToken: string | null) => {
+    const sessionId = accessToken ? decodeJwtPayload(accessToken)?.session_id : null;
+    return typeof sessionId === 'string' ? sessionId : null;
+};
+
+const homeOr = (returnTo?: string) => (isSafeReturnUrl(returnTo) ? returnTo : '/(tabs)/home') as Href;
+
+// Stores a freshly issued session for a (possibly different) account
+const startSession = async (
+    set: (state: Partial<AuthState>) => void,
+    { accessToken, expiresIn, user }: { accessToken: string; expiresIn?: number | null; user: User },
+    rememberMe?: boolean
+) => {
+    // Added (or updated) first, so the token is stored under this account
+    await tokenStorage.saveAccount(user, rememberMe);
+    await tokenRefresh.setSession(accessToken, expiresIn);
+    // Never serve data cached for a previous account
+    resetAccountData(user.id);
+    set({ accessToken, user, isAuthenticated: true, accounts: await tokenStorage.getAccounts() });
+};
+
+// /users/me does not say whether onboarding is done: keep what the last auth response said
+const withKnownOnboarding = (user: User, known?: User | null): User =>
+    user.onboardingCompleted === undefined && known?.onboardingCompleted !== undefined
+        ? { ...user, onboardingCompleted: known.onboardingCompleted }
+        : user;
+
+// Continues with a stored account, showing its cached user until /users/me answers
+const resumeAccount = async (set: (state: Partial<AuthState>) => void, account: User) => {
+    tokenRefresh.stop();
+    await tokenStorage.activateAccount(account.id);
+    resetAccountData(account.id);
+    set({
+        accessToken: await tokenStorage.getAccessToken(),
+        user: account,
+        isAuthenticated: true,
+        accounts: await tokenStorage.getAccounts(),
+    });
+    // Renews an expired token; if the refresh cookie belongs to another account,
+    // the next request asks for this account's password instead (ReauthSheet)
+    await tokenRefresh.resume();
+
+    // Not awaited: the cached user is enough to show the account right away
+    api.users.me()
+        .then(async (fresh) => {
+            if (useAuthStore.getState().user?.id !== fresh.id) return;
+            const user = withKnownOnboarding(fresh, account);
+            await tokenStorage.saveAccount(user);
+            set({ user, accounts: await tokenStorage.getAccounts() });
+        })
+        .catch((error) => console.error('Could not refresh the account user', error));
+};
+
 export const useAuthStore = create<AuthState>((set, get) => ({
     accessToken: null,
     user: null,
+    accounts: [],
     isAuthenticated: false,
     isLoading: true,
     isUploadingAvatar: false,
 
-    login: async (email, password) => {
+    login: async (email, password, returnTo, rememberMe = false) => {
         set({ isLoading: true });
         try {
-            // Capture device name - OS info is handled by backend user agent parsing
-            const deviceName = Device.deviceName || Device.modelName || 'Unknown Device';
-
-            const response = await client.post<AuthResponse>('/api/auth/login', {
+            const session = await api.auth.login({
                 email,
                 password,
-                deviceName,
+                deviceName: getDeviceName(),
+                rememberMe,
             });
-
-            console.log('LOGIN RESPONSE:', JSON.stringify(response.data, null, 2));
-
-            if (!response.data || !response.data.accessToken) {
-                throw new Error('Invalid response structure');
-            }
-
-            const { accessToken, user: rawUser } = response.data;
-
-            // Normalize user data
-            const userRaw = (rawUser as any).profile
-                ? { ...rawUser, ...(rawUser as any).profile }
-                : rawUser;
-
-            const user = mapUser(userRaw);
-
-            await tokenStorage.setAccessToken(accessToken);
-            set({ accessToken, user, isAuthenticated: true });
-
-            router.replace('/(tabs)/home');
+            await startSession(set, session, rememberMe);
+            if (rememberMe) await rememberedLogin.remember(email);
+            router.replace(homeOr(returnTo));
         } catch (error: any) {
             console.log('LOGIN ERROR:', {
                 message: error.message,
-                status: error.response?.status,
-                data: error.response?.data,
-                headers: error.response?.headers
+                status: error.status,
+                code: error.code,
+                fieldErrors: error.fieldErrors,
+            });
+            throw error;
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    loginWithGoogle: async (idToken, returnTo) => {
+        set({ isLoading: true });
+        try {
+            // New Google users are created by the backend on first sign-in
+            const session = await api.auth.loginWithGoogle({
+                googleToken: idToken,
+                deviceName: getDeviceName(),
+            });
+            await startSession(set, session);
+            router.replace(homeOr(returnTo));
+        } catch (error: any) {
+            console.log('GOOGLE LOGIN ERROR:', {
+                message: error.message,
+                status: error.status,
+                code: error.code,
             });
             throw error;
         } finally {
@@ -86,15 +223,15 @@ export const useAuthStore = create<AuthState>((set, get) => ({
                 acceptsTerms: data.termsAccepted,
                 acceptsPrivacyPolicy: data.privacyAccepted,
             };
-            await client.post('/api/auth/register', payload);
-            // Usually redirect to verification or login
-            // Prompt says: "Post-registro: Mostrar mensaje de verificación de email pendiente"
+            const session = await api.auth.register(payload);
+            await startSession(set, session);
+            router.replace(session.user.emailVerified ? '/(tabs)/home' : '/(auth)/verify-email');
         } catch (error: any) {
             console.log('REGISTER ERROR:', {
                 message: error.message,
-                status: error.response?.status,
-                data: error.response?.data,
-                headers: error.response?.headers
+                status: error.status,
+                code: error.code,
+                fieldErrors: error.fieldErrors,
             });
             throw error;
         } finally {
@@ -102,36 +239,133 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         }
     },
 
-    logout: async (everywhere = false) => {
+    markEmailVerified: (verifiedAt) => {
+        set((state) => ({
+            user: state.user
+                ? { ...state.user, emailVerified: true, emailVerifiedAt: verifiedAt ?? state.user.emailVerifiedAt ?? new Date().toISOString() }
+                : null,
+        }));
+    },
+
+    completeOnboarding: async () => {
+        await api.auth.completeOnboarding();
+        const user = get().user;
+        if (!user) return;
+        const completed = { ...user, onboardingCompleted: true };
+        // The cached account is what /users/me answers are merged with on the next start
+        await tokenStorage.saveAccount(completed);
+        set({ user: completed, accounts: await tokenStorage.getAccounts() });
+    },
+
+    logout: async (everywhere = false, options) => {
         set({ isLoading: true });
+        const signedOutUser = get().user;
+        let nextAccount: User | undefined;
         try {
-            await client.post('/api/auth/logout', { everywhere });
+            // Without "Recordarme" nothing of the account outlives the session, not even the email
+            if (signedOutUser && !(await tokenStorage.isRemembered(signedOutUser.id))) {
+                await rememberedLogin.forget(signedOutUser.email);
+            }
+
+            const sessionId = options?.revokeSession ? getSessionId(get().accessToken) : null;
+            if (sessionId) {
+                await api.auth.revokeSession(sessionId);
+            } else {
+                await api.auth.logout(everywhere);
+            }
         } catch (error) {
             console.error('Logout failed', error);
         } finally {
-            await tokenStorage.clearAccessToken();
-            set({ accessToken: null, user: null, isAuthenticated: false, isLoading: false });
-            router.replace('/(auth)/login');
+            await clearLocalSession();
+            if (options?.allAccounts) {
+                // Only the current session can be ended on the server: the other
+                // tokens are dropped and their sessions left to expire
+                for (const account of await tokenStorage.getAccounts()) {
+                    if (!(await tokenStorage.isRemembered(account.id))) removeAccountData(account.id);
+                }
+                await tokenStorage.clearAccounts();
+            }
+            [nextAccount] = await tokenStorage.getAccounts();
+            if (!nextAccount) {
+                // The PIN belongs to whoever was signed in
+                await useAppLockStore.getState().disable();
+                set({ accessToken: null, user: null, accounts: [], isAuthenticated: false, isLoading: false });
+                router.replace('/(auth)/login');
+            }
+        }
+
+        if (nextAccount) {
+            await resumeAccount(set, nextAccount);
+            set({ isLoading: false });
+            router.replace('/(tabs)/home');
         }
     },
 
-    refreshToken: async () => {
-        try {
-            console.log('🔄 Manual refresh token attempt...');
-            const response = await client.post('/api/auth/refresh');
-            console.log('🔄 Refresh response:', JSON.stringify(response.data, null, 2));
+    switchAccount: async (accountId) => {
+        if (accountId === get().user?.id) return;
+        const account = get().accounts.find((item) => item.id === accountId);
+        if (!account) return;
 
-            const { data } = response.data;
-            const accessToken = data?.accessToken || response.data.accessToken;
+        set({ isLoading: true });
+        try {
+            await resumeAccount(set, account);
+            router.replace('/(tabs)/home');
+        } finally {
+            set({ isLoading: false });
+        }
+    },
 
-            if (!accessToken) {
-                console.error('❌ No access token in refresh response:', response.data);
-                throw new Error('No access token in refresh response');
+    switchEnvironment: async (environmentId, customUrl) => {
+        set({ isLoading: true });
+        if (get().isAuthenticated) {
+            try {
+                // Revoke the refresh token while requests still go to the old server
+                await api.auth.logout(false);
+            } catch (error) {
+                console.error('Logout before switching environment failed', error);
             }
+        }
 
-            await tokenStorage.setAccessToken(accessToken);
-            client.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`;
-            set({ accessToken });
+        await clearLocalSession();
+        // Accounts and tokens belong to the previous server
+        await tokenStorage.clearAccounts();
+        await useAppLockStore.getState().disable();
+        // Queued tickets and responses were meant for the previous server
+        useOutboxStore.getState().clear();
+        useEnvironmentStore.getState().setEnvironment(environmentId, customUrl);
+        set({ accessToken: null, user: null, accounts: [], isAuthenticated: false, isLoading: false });
+        router.replace('/(auth)/welcome');
+    },
+
+    reauthenticate: async (password) => {
+        const email = get().user?.email;
+        if (!email) throw new Error('No active session to re-authenticate');
+
+        const { accessToken, expiresIn, user } = await api.auth.login({
+            email,
+            password,
+            deviceName: getDeviceName(),
+        });
+
+        // Same account: caches stay valid
+        await tokenStorage.saveAccount(user);
+        await tokenRefresh.setSession(accessToken, expiresIn);
+        set({ accessToken, user, isAuthenticated: true, accounts: await tokenStorage.getAccounts() });
+    },
+
+    expireSession: async (returnTo) => {
+        await clearLocalSession({ keepAccountData: true });
+        set({ accessToken: null, user: null, isAuthenticated: false, isLoading: false, accounts: await tokenStorage.getAccounts() });
+        router.replace({
+            pathname: '/(auth)/login',
+            params: isSafeReturnUrl(returnTo) ? { returnTo } : {},
+        });
+    },
+
+    refreshToken: async () => {
+        try {
+            console.log('🔄 Manual refresh token attempt...');
+            await tokenRefresh.refresh();
             console.log('✅ Token refreshed successfully');
             return true;
         } catch (error: any) {
@@ -147,31 +381,41 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     checkAuth: async () => {
         set({ isLoading: true });
         try {
+            if ((await tokenStorage.getActiveAccountId()) === null) {
+                // Signed out of the last used account: continue with another stored one
+                const [account] = await tokenStorage.getAccounts();
+                if (account) await tokenStorage.activateAccount(account.id);
+            }
+
             const token = await tokenStorage.getAccessToken();
             if (!token) {
                 set({ isAuthenticated: false, isLoading: false });
                 return;
             }
 
-            // If status is good, maybe fetch user details if not included
-            const userResponse = await client.get('/api/users/me');
-            console.log('CHECK_AUTH USER RESPONSE:', JSON.stringify(userResponse.data, null, 2));
-
-            // Handle both flat and nested structure
-            const rawData = userResponse.data.data || userResponse.data;
-
-            // Normalize user data: flatten profile if it exists
-            const userData = (rawData as any).profile
-                ? { ...rawData, ...(rawData as any).profile }
-                : rawData;
+            // Left idle past the inactivity timeout and closed: the timer would start over otherwise
+            if (await lastActivityStorage.hasExpired()) {
+                await get().logout(false, {
+                    revokeSession: useInactivityStore.getState().revokeServerSession,
+                    allAccounts: true,
+                });
+                return;
+            }
 
-            const mappedUser = mapUser(userData);
+            // Schedules the next refresh, or refreshes now if the stored token is expiring
+            await tokenRefresh.resume();
 
-            console.log('Normalized User Data:', JSON.stringify(mappedUser, null, 2));
+            // If status is good, maybe fetch user details if not included
+            const me = await api.users.me();
+            const mappedUser = withKnownOnboarding(me, (await tokenStorage.getAccounts()).find((account) => account.id === me.id));
+            // Also adopts a token stored before accounts existed
+            await tokenStorage.saveAccount(mappedUser);
+            useOutboxStore.getState().setAccount(mappedUser.id);
 
             set({
-                accessToken: token,
+                accessToken: await tokenStorage.getAccessToken(),
                 user: mappedUser,
+                accounts: await tokenStorage.getAccounts(),
                 isAuthenticated: true,
                 isLoading: false
             });
@@ -179,8 +423,36 @@ export const useAuthStore = create<AuthState>((set, get) => ({
             // Navigate to home if on splash/login
             // This logic might be better placed in the Splash Screen component
         } catch (error) {
-            await tokenStorage.clearAccessToken();
-            set({ accessToken: null, user: null, isAuthenticated: false, isLoading: false });
+            const accountId = await tokenStorage.getActiveAccountId();
+            // Only a rejected token (or refresh) ends the session. Offline at a cold
+            // start or a server error keeps it, showing the cached user meanwhile.
+            if (error instanceof ApiError && error.status === 401) {
+                tokenRefresh.stop();
+                if (accountId) {
+                    await tokenStorage.removeAccount(accountId);
+                } else {
+                    await tokenStorage.clearAccessToken();
+                }
+                set({ accessToken: null, user: null, isAuthenticated: false, isLoading: false, accounts: await tokenStorage.getAccounts() });
+                return;
+            }
+
+            console.warn('Could not verify the session, continuing with the cached user', error);
+            const accounts = await tokenStorage.getAccounts();
+            const cachedUser = accounts.find((account) => account.id === accountId);
+            if (!cachedUser) {
+                // Nothing to show without /users/me; the stored token stays for the next start
+                set({ isAuthenticated: false, isLoading: false });
+                return;
+            }
+            useOutboxStore.getState().setAccount(cachedUser.id);
+            set({
+                accessToken: await tokenStorage.getAccessToken(),
+                user: cachedUser,
+                accounts,
+                isAuthenticated: true,
+                isLoading: false,
+            });
         }
     },
 
@@ -209,13 +481,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
                 type,
             } as any);
 
-            const response = await client.post('/api/users/me/avatar', formData, {
-                headers: {
-                    'Content-Type': 'multipart/form-data',
-                },
-            });
-
-            const newAvatarUrl = response.data.data.avatarUrl;
+            const { avatarUrl: newAvatarUrl } = await api.users.uploadAvatar(formData);
 
             set((state) => ({
                 user: state.user ? { ...state.user, avatarUrl: newAvatarUrl } : null
@@ -230,26 +496,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     },
 }));
 
-const mapUser = (data: any): User => ({
-    id: data.id,
-    userCode: data.user_code || data.userCode,
-    email: data.email,
-    status: data.status,
-    emailVerified: data.email_verified || data.emailVerified,
-    emailVerifiedAt: data.email_verified_at || data.emailVerifiedAt,
-    lastLoginAt: data.last_login_at || data.lastLoginAt,
-    createdAt: data.created_at || data.createdAt,
-    firstName: data.first_name || data.firstName,
-    lastName: data.last_name || data.lastName,
-    displayName: data.display_name || data.displayName,
-    phoneNumber: data.phone_number || data.phoneNumber,
-    avatarUrl: data.avatar_url || data.avatarUrl,
-    theme: data.theme,
-    language: data.language,
-    timezone: data.timezone,
-    pushWebNotifications: data.push_web_notifications || data.pushWebNotifications,
-    notificationsTickets: data.notifications_tickets || data.notificationsTickets,
-    roleContext: data.role_context || data.roleContext || [],
-    ticketsCount: data.tickets_count || data.ticketsCount || 0,
-    resolvedTicketsCount: data.resolved_tickets_count || data.resolvedTicketsCount || 0,
+// Keep the store in sync with tokens renewed in the background
+tokenRefresh.subscribe((accessToken) => {
+    useAuthStore.setState({ accessToken });
 });
@@ -1,6 +1,12 @@
 import { create } from 'zustand';
 import { CompanyExploreItem, CompanyDetail, CompanyExploreFilters, Industry } from '../types/company';
-import { client } from '../services/api/client';
+import { api } from '../services/api/endpoints';
+import { ApiQuery } from '../services/api/paths';
+import { ApiError, isCanceledError } from '../services/api/errors';
+import { FetchOptions, QueryKey, queryCache } from '../services/api/queryCache';
+import { queryKeys } from '../services/api/queryKeys';
+import { useEntityStore } from './entityStore';
+import { scopeToAccount } from './accountScope';
 
 interface CompanyState {
     // Lista
@@ -27,8 +33,8 @@ interface CompanyState {
     industries: Industry[];
 
     // Acciones
-    fetchCompanies: (page?: number) => Promise<void>;
-    fetchCompanyDetail: (id: string) => Promise<void>;
+    fetchCompanies: (page?: number, options?: FetchOptions) => Promise<void>;
+    fetchCompanyDetail: (id: string, options?: FetchOptions) => Promise<void>;
     fetchIndustries: () => Promise<void>;
     followCompany: (id: string) => Promise<void>;
     unfollowCompany: (id: string) => Promise<void>;
@@ -40,6 +46,34 @@ interface CompanyState {
     updateCompanyFollowStatus: (id: string, isFollowing: boolean) => void;
 }
 
+type CompanyExplorePage = Awaited<ReturnType<typeof api.companies.explore>>;
+
+const INDUSTRIES_STALE_TIME = 60 * 60 * 1000;
+
+// Guards against a slow response for previous filters overwriting the current list
+let latestCompaniesKey: QueryKey | null = null;
+
+const loadCompaniesPage = async (params: Partial<ApiQuery<'GET /api/companies/explore'>>) => {
+    const page = await api.companies.explore(params);
+    useEntityStore.getState().upsertCompanies(page.data);
+    return page;
+};
+
+const loadCompany = async (id: string, signal?: AbortSignal) => {
+    const company = await api.companies.get(id, signal);
+    useEntityStore.getState().upsertCompanies([company]);
+    return company;
+};
+
+const applyFollowStatus = <T extends { isFollowedByMe?: boolean; followersCount?: number }>(company: T, isFollowing: boolean): T => {
+    const followersCount = company.followersCount ?? 0;
+    return {
+        ...company,
+        isFollowedByMe: isFollowing,
+        followersCount: isFollowing ? followersCount + 1 : Math.max(0, followersCount - 1),
+    };
+};
+
 export const useCompanyStore = create<CompanyState>((set, get) => ({
     companies: [],
     companiesLoading: false,
@@ -61,60 +95,72 @@ export const useCompanyStore = create<CompanyState>((set, get) => ({
 
     industries: [],
 
-    fetchCompanies: async (page = 1) => {
-        set({ companiesLoading: true, companiesError: null });
+    fetchCompanies: async (page = 1, options = {}) => {
         const { filters } = get();
+        const params: Partial<ApiQuery<'GET /api/companies/explore'>> = {
+            page,
+            per_page: 20, // Default per page
+        };
 
-        try {
-            const params: any = {
-                page,
-                per_page: 20, // Default per page
-            };
-
-            if (filters.search) params.search = filters.search;
-            if (filters.industryId) params.industry_id = filters.industryId;
-            if (filters.followedByMe) params.followed_by_me = true;
+        if (filters.search) params.search = filters.search;
+        if (filters.industryId) params.industry_id = filters.industryId;
+        if (filters.followedByMe) params.followed_by_me = true;
 
-            const response = await client.get('/api/companies/explore', { params });
+        const key = queryKeys.companies(params);
+        latestCompaniesKey = key;
 
+        const applyPage = ({ data, meta }: CompanyExplorePage) => {
+            if (latestCompaniesKey !== key) return;
             set({
-                companies: page === 1 ? response.data.data : [...get().companies, ...response.data.data],
-                companiesLoading: false,
+                companies: page === 1 ? data : [...get().companies, ...data],
                 pagination: {
-                    currentPage: response.data.meta.current_page,
-                    lastPage: response.data.meta.last_page,
-                    total: response.data.meta.total,
+                    currentPage: meta.currentPage,
+                    lastPage: meta.lastPage,
+                    total: meta.total,
                 },
             });
+        };
+
+        const cached = page === 1 ? queryCache.peek<CompanyExplorePage>(key) : undefined;
+        if (cached) applyPage(cached);
+        set({ companiesLoading: !cached, companiesError: null });
+
+        try {
+            const result = await queryCache.fetch(key, () => loadCompaniesPage(params), {
+                ...options,
+                // Later pages are appended, so only page 1 can be swapped in the background
+                onRevalidate: page === 1 ? applyPage : undefined,
+            });
+            applyPage(result);
+            set({ companiesLoading: false });
         } catch (error) {
             set({ companiesLoading: false, companiesError: 'Error al cargar empresas' });
             console.error(error);
         }
     },
 
-    fetchCompanyDetail: async (id: string) => {
-        const state = get();
-
-        // 1. Prevent duplicate requests if already loading the same company
-        if (state.selectedCompanyLoading && state.selectedCompany?.id === id) {
-            console.log(`🚫 fetchCompanyDetail(${id}): Already loading this company, skipping duplicate request`);
-            return;
-        }
-
-        // 2. Use cached data if we already have this company loaded
-        if (state.selectedCompany?.id === id && !state.selectedCompanyError) {
-            console.log(`✅ fetchCompanyDetail(${id}): Using cached data`);
-            return;
-        }
-
-        console.log(`🔄 fetchCompanyDetail(${id}): Fetching from API...`);
-        set({ selectedCompanyLoading: true, selectedCompanyError: null });
+    fetchCompanyDetail: async (id: string, options = {}) => {
+        const key = queryKeys.company(id);
+        const cached = queryCache.peek<CompanyDetail>(key);
+        set(cached
+            ? { selectedCompany: cached, selectedCompanyError: null }
+            : { selectedCompanyLoading: true, selectedCompanyError: null });
 
         try {
-            const response = await client.get(`/api/companies/${id}`);
-            set({ selectedCompany: response.data.data, selectedCompanyLoading: false });
-            console.log(`✅ fetchCompanyDetail(${id}): Success`);
+            // Concurrent calls for the same company share one request
+            const company = await queryCache.fetch(key, (requestSignal) => loadCompany(id, requestSignal), {
+                ...options,
+                onRevalidate: (fresh) => {
+                    if (get().selectedCompany?.id === id) set({ selectedCompany: fresh });
+                },
+            });
+            set({ selectedCompany: company, selectedCompanyLoading: false });
         } catch (error) {
+            // The screen was closed: nothing to report
+            if (isCanceledError(error)) {
+                set({ selectedCompanyLoading: false });
+                return;
+            }
             set({ selectedCompanyLoading: false, selectedCompanyError: 'Error al cargar detalle de empresa' });
             console.error(`❌ fetchCompanyDetail(${id}): Error`, error);
         }
@@ -122,8 +168,10 @@ export const useCompanyStore = create<CompanyState>((set, get) => ({
 
     fetchIndustries: async () => {
         try {
-            const response = await client.get('/api/company-industries');
-            set({ industries: response.data.data });
+            const industries = await queryCache.fetch(queryKeys.industries(), () => api.companies.industries(), {
+                staleTime: INDUSTRIES_STALE_TIME,
+            });
+            set({ industries });
         } catch (error) {
             console.error(error);
         }
@@ -134,10 +182,10 @@ export const useCompanyStore = create<CompanyState>((set, get) => ({
         get().updateCompanyFollowStatus(id, true);
 
         try {
-            await client.post(`/api/companies/${id}/follow`);
-        } catch (error: any) {
+            await api.companies.follow(id);
+        } catch (error) {
             // Revert if error (unless it's 409 - already following)
-            if (error.response?.status !== 409) {
+            if (!(error instanceof ApiError && error.status === 409)) {
                 get().updateCompanyFollowStatus(id, false);
                 throw error;
             }
@@ -149,10 +197,10 @@ export const useCompanyStore = create<CompanyState>((set, get) => ({
         get().updateCompanyFollowStatus(id, false);
 
         try {
-            await client.delete(`/api/companies/${id}/unfollow`);
-        } catch (error: any) {
+            await api.companies.unfollow(id);
+        } catch (error) {
             // Revert if error (unless it's 409 - not following)
-            if (error.response?.status !== 409) {
+            if (!(error instanceof ApiError && error.status === 409)) {
                 get().updateCompanyFollowStatus(id, true);
                 throw error;
             }
@@ -191,33 +239,24 @@ export const useCompanyStore = create<CompanyState>((set, get) => ({
     },
 
     updateCompanyFollowStatus: (id: string, isFollowing: boolean) => {
-        set((state) => {
+        set((state) => ({
             // Update in list
-            const updatedCompanies = state.companies.map((c) => {
-                if (c.id === id) {
-                    return {
-                        ...c,
-                        isFollowedByMe: isFollowing,
-                        followersCount: isFollowing ? c.followersCount + 1 : Math.max(0, c.followersCount - 1)
-                    };
-                }
-                return c;
-            });
-
+            companies: state.companies.map((c) => (c.id === id ? applyFollowStatus(c, isFollowing) : c)),
             // Update in detail if selected
-            let updatedSelectedCompany = state.selectedCompany;
-            if (state.selectedCompany && state.selectedCompany.id === id) {
-                updatedSelectedCompany = {
-                    ...state.selectedCompany,
-                    isFollowedByMe: isFollowing,
-                    followersCount: isFollowing ? state.selectedCompany.followersCount + 1 : Math.max(0, state.selectedCompany.followersCount - 1)
-                };
-            }
+            selectedCompany: state.selectedCompany?.id === id
+                ? applyFollowStatus(state.selectedCompany, isFollowing)
+                : state.selectedCompany,
+        }));
 
-            return {
-                companies: updatedCompanies,
-                selectedCompany: updatedSelectedCompany
-            };
-        });
+        // Keep cached copies in line with the optimistic state
+        const entity = useEntityStore.getState().companies[id];
+        if (entity?.followersCount !== undefined) {
+            useEntityStore.getState().upsertCompanies([applyFollowStatus(entity, isFollowing)]);
+        }
+        const cachedDetail = queryCache.peek<CompanyDetail>(queryKeys.company(id));
+        if (cachedDetail) queryCache.setData(queryKeys.company(id), applyFollowStatus(cachedDetail, isFollowing));
+        queryCache.invalidate(queryKeys.companies());
     }
 }));
+
+scopeToAccount(useCompanyStore);
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { Announcement, Article, ContentFilters } from '../types/content';
 import { client } from '../services/api/client';
+import { scopeToAccount } from './accountScope';
 
 interface ContentState {
     announcements: Announcement[];
@@ -80,3 +81,5 @@ export const useContentStore = create<ContentState>((set, get) => ({
         });
     },
 }));
+
+scopeToAccount(useContentStore);
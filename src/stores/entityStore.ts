@@ -0,0 +1,187 @@
+import { create } from 'zustand';
+import { CompanyDetail } from '../types/company';
+import { Ticket, TicketResponse } from '../types/ticket';
+import { api } from '../services/api/endpoints';
+import { queryCache } from '../services/api/queryCache';
+import { queryKeys } from '../services/api/queryKeys';
+import { logger } from '../utils/logger';
+
+/**
+ * Normalized entities shared by the feature stores. Lists keep their own
+ * ordering, but every company/ticket/user they contain is registered here so
+ * data fetched once (e.g. a company name) is reused everywhere.
+ */
+
+export interface CompanyRef {
+    id: string;
+    name: string;
+    logoUrl: string | null;
+}
+
+// Whatever we know about a company: at least the ref, sometimes the full detail
+export type CompanyEntity = CompanyRef & Partial<Omit<CompanyDetail, keyof CompanyRef>>;
+
+export interface UserEntity {
+    id: string;
+    displayName: string;
+    avatarUrl: string | null;
+    email?: string;
+}
+
+interface EntityState {
+    companies: Record<string, CompanyEntity>;
+    tickets: Record<string, Ticket>; // By ticketCode
+    users: Record<string, UserEntity>;
+
+    upsertCompanies: (companies: CompanyEntity[]) => void;
+    upsertTickets: (tickets: Ticket[]) => void;
+    upsertUsers: (users: Array<Partial<UserEntity> & { id: string }>) => void;
+    resolveCompanies: (ids: string[]) => Promise<void>;
+    clear: () => void;
+}
+
+const DIRECTORY_PAGE_SIZE = 100;
+const DIRECTORY_STALE_TIME = 10 * 60 * 1000;
+
+// Ids the API could not resolve, so list loads don't keep retrying them
+const unresolvableCompanyIds = new Set<string>();
+
+/**
+ * One page of the active companies directory (id, name, logo), cached for a
+ * while. Also used by pickers that list every company.
+ */
+export const fetchCompanyDirectoryPage = (page: number) =>
+    queryCache.fetch(
+        queryKeys.companiesMinimal(page),
+        () => api.companies.minimal({ page, per_page: DIRECTORY_PAGE_SIZE }),
+        { staleTime: DIRECTORY_STALE_TIME }
+    );
+
+// Incoming partial data never erases what we already know
+const mergeCompany = (current: CompanyEntity | undefined, incoming: CompanyEntity): CompanyEntity => ({
+    ...current,
+    ...incoming,
+    name: incoming.name || current?.name || '',
+    logoUrl: incoming.logoUrl ?? current?.logoUrl ?? null,
+});
+
+const mergeUser = (current: UserEntity | undefined, incoming: Partial<UserEntity> & { id: string }): UserEntity => ({
+    id: incoming.id,
+    displayName: incoming.displayName || current?.displayName || '',
+    avatarUrl: incoming.avatarUrl ?? current?.avatarUrl ?? null,
+    email: incoming.email ?? current?.email,
+});
+
+export const useEntityStore = create<EntityState>((set, get) => ({
+    companies: {},
+    tickets: {},
+    users: {},
+
+    upsertCompanies: (companies) => {
+        const known = companies.filter((company) => company.id);
+        if (known.length === 0) return;
+
+        set((state) => {
+            const next = { ...state.companies };
+            known.forEach((company) => {
+                next[company.id] = mergeCompany(next[company.id], company);
+            });
+            return { companies: next };
+        });
+    },
+
+    upsertTickets: (tickets) => {
+        if (tickets.length === 0) return;
+
+        get().upsertCompanies(tickets.map((ticket) => ticket.company));
+        get().upsertUsers(tickets.flatMap((ticket) => [
+            ticket.createdBy,
+            ...(ticket.ownerAgent ? [ticket.ownerAgent] : []),
+        ]).filter((user) => user.id));
+
+        set((state) => {
+            const next = { ...state.tickets };
+            tickets.forEach((ticket) => {
+                next[ticket.ticketCode] = ticket;
+            });
+            return { tickets: next };
+        });
+    },
+
+    upsertUsers: (users) => {
+        if (users.length === 0) return;
+
+        set((state) => {
+            const next = { ...state.users };
+            users.forEach((user) => {
+                next[user.id] = mergeUser(next[user.id], user);
+            });
+            return { users: next };
+        });
+    },
+
+    resolveCompanies: async (ids) => {
+        const missing = () => [...new Set(ids)].filter((id) =>
+            id && !get().companies[id]?.name && !unresolvableCompanyIds.has(id)
+        );
+        if (missing().length === 0) return;
+
+        // One paginated directory request instead of GET /api/companies/{id} per company
+        try {
+            let page = 1;
+            let lastPage = 1;
+            do {
+                const { data, meta } = await fetchCompanyDirectoryPage(page);
+                get().upsertCompanies(data);
+                lastPage = meta.lastPage;
+                page++;
+            } while (missing().length > 0 && page <= lastPage);
+        } catch (error) {
+            logger.warn('Could not load company directory', error, 'Entities');
+        }
+
+        // The directory only lists active companies; anything else is looked up by id
+        await Promise.all(missing().map(async (id) => {
+            try {
+                const company = await queryCache.fetch(queryKeys.company(id), () => api.companies.get(id));
+                get().upsertCompanies([company]);
+            } catch (error) {
+                unresolvableCompanyIds.add(id);
+                logger.warn(`Could not resolve company ${id}`, error, 'Entities');
+            }
+        }));
+    },
+
+    clear: () => {
+        unresolvableCompanyIds.clear();
+        set({ companies: {}, tickets: {}, users: {} });
+    },
+}));
+
+/**
+ * Fills an embedded company reference (name/logo) from the entity store.
+ */
+export const withCompany = <T extends { company: CompanyRef }>(item: T): T => {
+    if (item.company.name && item.company.logoUrl) return item;
+
+    const company = useEntityStore.getState().companies[item.company.id];
+    if (!company) return item;
+
+    return {
+        ...item,
+        company: {
+            ...item.company,
+            name: item.company.name || company.name,
+            logoUrl: item.company.logoUrl ?? company.logoUrl,
+        },
+    };
+};
+
+/**
+ * Registers the authors of a conversation.
+ */
+export const registerResponseAuthors = (responses: TicketResponse[]) => {
+    useEntityStore.getState().upsertUsers(
+        responses.map((response) => response.author).filter((author) => author.id)
+    );
+};
@@ -0,0 +1,90 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { config } from '../constants/config';
+import { logger } from '../utils/logger';
+import { MOCK_API_URL } from '../services/api/mock/server';
+
+export type EnvironmentId = 'production' | 'staging' | 'mock' | 'custom';
+
+export interface EnvironmentOption {
+    id: EnvironmentId;
+    label: string;
+    apiUrl: string | null; // null: not available in this build
+}
+
+interface EnvironmentState {
+    environmentId: EnvironmentId;
+    customUrl: string | null;
+
+    // Only points the app at another server; use authStore.switchEnvironment to
+    // also sign out of the current one
+    setEnvironment: (environmentId: EnvironmentId, customUrl?: string | null) => void;
+}
+
+export const ENVIRONMENT_LABELS: Record<EnvironmentId, string> = {
+    production: 'Producción',
+    staging: 'Staging',
+    mock: 'Simulado (local)',
+    custom: 'Personalizado',
+};
+
+// The mock backend never ships enabled in store builds unless explicitly asked for
+export const isMockApiAvailable = () => __DEV__ || config.enableMockApi;
+
+export const getEnvironmentOptions = (): EnvironmentOption[] => [
+    { id: 'production', label: ENVIRONMENT_LABELS.production, apiUrl: config.apiUrl },
+    { id: 'staging', label: ENVIRONMENT_LABELS.staging, apiUrl: config.stagingApiUrl ?? null },
+    ...(isMockApiAvailable() ? [{ id: 'mock' as const, label: ENVIRONMENT_LABELS.mock, apiUrl: MOCK_API_URL }] : []),
+];
+
+const resolveApiUrl = ({ environmentId, customUrl }: Pick<EnvironmentState, 'environmentId' | 'customUrl'>) => {
+    if (environmentId === 'staging' && config.stagingApiUrl) return config.stagingApiUrl;
+    if (environmentId === 'mock' && isMockApiAvailable()) return MOCK_API_URL;
+    if (environmentId === 'custom' && customUrl) return customUrl;
+    return config.apiUrl;
+};
+
+// Resolved once the persisted selection was read (or could not be)
+let markReady: () => void = () => {};
+const ready = new Promise<void>((resolve) => {
+    markReady = resolve;
+});
+
+export const useEnvironmentStore = create<EnvironmentState>()(
+    persist(
+        (set) => ({
+            environmentId: 'production',
+            customUrl: null,
+
+            setEnvironment: (environmentId, customUrl = null) => {
+                set({ environmentId, customUrl: environmentId === 'custom' ? customUrl : null });
+            },
+        }),
+        {
+            name: 'api-environment',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({ environmentId: state.environmentId, customUrl: state.customUrl }),
+            // A build without a staging URL (or without the mock) falls back to production
+            onRehydrateStorage: () => (state, error) => {
+                if (error) {
+                    logger.warn('Could not restore the selected environment', error, 'Config');
+                } else if (
+                    (state?.environmentId === 'staging' && !config.stagingApiUrl) ||
+                    (state?.environmentId === 'mock' && !isMockApiAvailable())
+                ) {
+                    useEnvironmentStore.setState({ environmentId: 'production', customUrl: null });
+                }
+                markReady();
+            },
+        }
+    )
+);
+
+// Base URL of the active environment (no trailing slash)
+export const getApiUrl = () => resolveApiUrl(useEnvironmentStore.getState());
+
+export const useApiUrl = () => useEnvironmentStore(resolveApiUrl);
+
+// Requests made before AsyncStorage answered would go to the default server
+export const whenEnvironmentReady = () => ready;
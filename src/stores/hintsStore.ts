@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger } from '../utils/logger';
+
+/**
+ * One-time hints and coach marks ("¡Crea tu ticket aquí!"). Every hint has an
+ * id here instead of its own AsyncStorage flag, so they can be listed and
+ * reset together (Preferencias → Volver a mostrar consejos).
+ */
+export type HintId = 'create-ticket';
+
+interface HintsState {
+    // Hint id → when it was shown
+    seen: Partial<Record<HintId, string>>;
+    // False until the persisted registry was read; hints must wait for it
+    hasHydrated: boolean;
+
+    markSeen: (id: HintId) => void;
+    reset: () => void;
+}
+
+// Flags written before the registry existed
+const LEGACY_KEYS: Record<string, HintId> = {
+    hasSeenCreateTicketHint: 'create-ticket',
+};
+
+const migrateLegacyFlags = async () => {
+    const entries = await AsyncStorage.multiGet(Object.keys(LEGACY_KEYS));
+    const seenAt = new Date().toISOString();
+    const migrated = entries
+        .filter(([, value]) => value === 'true')
+        .reduce<Partial<Record<HintId, string>>>((acc, [key]) => ({ ...acc, [LEGACY_KEYS[key]]: seenAt }), {});
+
+    if (Object.keys(migrated).length > 0) {
+        useHintsStore.setState((state) => ({ seen: { ...migrated, ...state.seen } }));
+    }
+    await AsyncStorage.multiRemove(Object.keys(LEGACY_KEYS));
+};
+
+export const useHintsStore = create<HintsState>()(
+    persist(
+        (set) => ({
+            seen: {},
+            hasHydrated: false,
+
+            markSeen: (id) => {
+                set((state) => (state.seen[id] ? state : { seen: { ...state.seen, [id]: new Date().toISOString() } }));
+            },
+
+            reset: () => set({ seen: {} }),
+        }),
+        {
+            name: 'seen-hints',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({ seen: state.seen }),
+            onRehydrateStorage: () => (_state, error) => {
+                if (error) logger.warn('Could not restore seen hints', error, 'Hints');
+                migrateLegacyFlags()
+                    .catch((migrationError) => logger.warn('Could not migrate legacy hint flags', migrationError, 'Hints'))
+                    .finally(() => useHintsStore.setState({ hasHydrated: true }));
+            },
+        }
+    )
+);
+
+// True when the hint should be shown now: registry loaded and not seen yet
+export const useShouldShowHint = (id: HintId) =>
+    useHintsStore((state) => state.hasHydrated && !state.seen[id]);
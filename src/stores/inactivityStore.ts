@@ -0,0 +1,93 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger } from '../utils/logger';
+
+// Minutes without interaction before signing out (0 = never)
+export const IDLE_TIMEOUT_OPTIONS: { value: number; label: string }[] = [
+    { value: 0, label: 'Nunca' },
+    { value: 5, label: 'Después de 5 minutos' },
+    { value: 15, label: 'Después de 15 minutos' },
+    { value: 30, label: 'Después de 30 minutos' },
+    { value: 60, label: 'Después de 1 hora' },
+];
+
+// How long the "¿Sigues ahí?" warning counts down before signing out
+export const IDLE_WARNING_SECONDS = 30;
+
+// Outside the persisted settings: it changes with every touch and is written on its own
+const LAST_ACTIVITY_KEY = 'inactivity-last-activity';
+
+interface InactivityState {
+    timeoutMinutes: number;
+    // Also end the session on the server, not just on this device
+    revokeServerSession: boolean;
+    hasHydrated: boolean;
+
+    setTimeoutMinutes: (minutes: number) => void;
+    setRevokeServerSession: (revoke: boolean) => void;
+}
+
+/**
+ * Auto-logout policy for shared devices. The timer itself lives in
+ * useInactivityTimeout; this only keeps the settings.
+ */
+export const useInactivityStore = create<InactivityState>()(
+    persist(
+        (set) => ({
+            timeoutMinutes: 0,
+            revokeServerSession: false,
+            hasHydrated: false,
+
+            setTimeoutMinutes: (timeoutMinutes) => set({ timeoutMinutes }),
+
+            setRevokeServerSession: (revokeServerSession) => set({ revokeServerSession }),
+        }),
+        {
+            name: 'inactivity-timeout',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({
+                timeoutMinutes: state.timeoutMinutes,
+                revokeServerSession: state.revokeServerSession,
+            }),
+            onRehydrateStorage: () => (_state, error) => {
+                if (error) logger.warn('Could not restore inactivity settings', error, 'Inactivity');
+                useInactivityStore.setState({ hasHydrated: true });
+            },
+        }
+    )
+);
+
+const settingsHydrated = () =>
+    useInactivityStore.persist.hasHydrated()
+        ? Promise.resolve()
+        : new Promise<void>((resolve) => {
+            const unsubscribe = useInactivityStore.persist.onFinishHydration(() => {
+                unsubscribe();
+                resolve();
+            });
+        });
+
+/**
+ * Last time somebody used the app, kept across restarts: a session left idle
+ * and then closed must not come back with a fresh timer.
+ */
+export const lastActivityStorage = {
+    save: (at: number) =>
+        AsyncStorage.setItem(LAST_ACTIVITY_KEY, String(at))
+            .catch((error) => logger.warn('Could not save the last activity time', error, 'Inactivity')),
+
+    // Whether the timeout ran out since the last recorded activity (false without a timeout or a record)
+    hasExpired: async () => {
+        await settingsHydrated();
+        const { timeoutMinutes } = useInactivityStore.getState();
+        if (timeoutMinutes === 0) return false;
+        try {
+            const value = await AsyncStorage.getItem(LAST_ACTIVITY_KEY);
+            return value !== null && Date.now() - Number(value) >= timeoutMinutes * 60 * 1000;
+        } catch (error) {
+            logger.warn('Could not read the last activity time', error, 'Inactivity');
+            return false;
+        }
+    },
+};
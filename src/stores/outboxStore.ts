@@ -0,0 +1,321 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { CreateTicketData } from '../types/ticket';
+import { OutboxAttachment, OutboxItem, OutboxResponseItem, OutboxTicketItem } from '../types/outbox';
+import { api } from '../services/api/endpoints';
+import { UploadableFile, uploadResponseAttachment, uploadTicketAttachment } from '../services/api/uploads';
+import { queryCache } from '../services/api/queryCache';
+import { queryKeys } from '../services/api/queryKeys';
+import { createIdempotencyKey } from '../services/api/retry';
+import { ApiError, getErrorMessage, isCanceledError } from '../services/api/errors';
+import { isNetworkError } from '../services/offline/connectivity';
+import { logger } from '../utils/logger';
+
+interface FlushResult {
+    sent: OutboxItem[];
+    failed: OutboxItem[];
+}
+
+interface OutboxState {
+    // Items of the active account
+    items: OutboxItem[];
+    // Items queued by other signed-in accounts, kept until they are active again
+    parkedItems: OutboxItem[];
+    accountId: string | null;
+    isFlushing: boolean;
+
+    // idempotencyKey: the key of a create attempt that may have reached the server
+    enqueueTicket: (data: CreateTicketData, attachments?: UploadableFile[], companyName?: string | null, idempotencyKey?: string) => Promise<OutboxTicketItem>;
+    enqueueResponse: (ticketCode: string, content: string, attachments?: UploadableFile[], idempotencyKey?: string) => Promise<OutboxResponseItem>;
+    flush: () => Promise<FlushResult>;
+    retry: (id: string) => Promise<FlushResult>;
+    discard: (id: string) => void;
+    // Drops every queued item and its files (e.g. the items belong to another server)
+    clear: () => void;
+    // Drops the items one account queued, active or parked
+    clearAccount: (accountId: string) => void;
+    // Swaps in the queue of the account now signed in (null: nobody)
+    setAccount: (accountId: string | null) => void;
+}
+
+const OUTBOX_DIR_NAME = 'outbox';
+
+const generateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Picker URIs live in the cache directory and can be purged by the OS before
+// connectivity returns, so attachments are copied next to the queue. A file that
+// can't be copied (gone already, disk full) is left out rather than losing the
+// whole item; its name is kept so the queued item can say so.
+const persistAttachments = (itemId: string, files: UploadableFile[]) => {
+    const dir = new Directory(Paths.document, OUTBOX_DIR_NAME, itemId);
+    try {
+        dir.create({ intermediates: true, idempotent: true });
+    } catch (error) {
+        // Every copy below fails too and the item is queued without files
+        logger.warn(`Could not create the outbox folder for ${itemId}`, error, 'Outbox');
+    }
+
+    const attachments: OutboxAttachment[] = [];
+    const skippedAttachments: string[] = [];
+    files.forEach((file, index) => {
+        const fileName = file.fileName || file.uri.split('/').pop() || `file-${index}`;
+        try {
+            const destination = new File(dir, `${index}-${fileName}`);
+            new File(file.uri).copy(destination);
+            attachments.push({ uri: destination.uri, fileName, mimeType: file.mimeType ?? null });
+        } catch (error) {
+            logger.warn(`Could not copy ${fileName} into the outbox`, error, 'Outbox');
+            skippedAttachments.push(fileName);
+        }
+    });
+    return { attachments, skippedAttachments };
+};
+
+const removeAttachments = (itemId: string) => {
+    try {
+        const dir = new Directory(Paths.document, OUTBOX_DIR_NAME, itemId);
+        if (dir.exists) dir.delete();
+    } catch (error) {
+        logger.warn(`Could not remove outbox files for ${itemId}`, error, 'Outbox');
+    }
+};
+
+// Items queued before accounts were tracked go to the first account that signs in.
+// Nothing is being sent while items move, so none of them stays "sending".
+const partitionByAccount = (items: OutboxItem[], accountId: string | null) => {
+    const belongs = (item: OutboxItem) => accountId !== null && (!item.accountId || item.accountId === accountId);
+    const settled = items.map((item) => (item.status === 'sending' ? { ...item, status: 'pending' } as OutboxItem : item));
+    return {
+        items: settled.filter(belongs).map((item) => ({ ...item, accountId }) as OutboxItem),
+        parkedItems: settled.filter((item) => !belongs(item)),
+    };
+};
+
+// The flush in progress, so an account switch can stop it and wait for it to end
+let flushController: AbortController | null = null;
+let flushing: Promise<FlushResult> | null = null;
+
+// Between the steps of an item: the next request would go out with another account's token
+const throwIfAborted = (signal: AbortSignal) => {
+    if (signal.aborted) throw ApiError.canceled();
+};
+
+const invalidateSentItem = (item: OutboxItem) => {
+    queryCache.invalidate(queryKeys.tickets());
+    if (item.kind === 'response') {
+        queryCache.invalidate(queryKeys.ticket(item.ticketCode));
+        queryCache.invalidate(queryKeys.ticketResponses(item.ticketCode));
+    }
+};
+
+
+export const useOutboxStore = create<OutboxState>()(
+    persist(
+        (set, get) => {
+            const patchItem = (id: string, patch: Partial<OutboxItem>) => {
+                set((state) => ({
+                    items: state.items.map((item) => (item.id === id ? { ...item, ...patch } as OutboxItem : item)),
+                }));
+            };
+
+            const sendTicket = async (item: OutboxTicketItem, signal: AbortSignal) => {
+                let ticketCode = item.ticketCode;
+                if (!ticketCode) {
+                    const created = await api.tickets.create(item.data, item.idempotencyKey);
+                    ticketCode = created.ticketCode;
+                    patchItem(item.id, { ticketCode });
+                }
+
+                for (let i = item.uploadedCount; i < item.attachments.length; i++) {
+                    throwIfAborted(signal);
+                    await uploadTicketAttachment(ticketCode, item.attachments[i], { signal });
+                    patchItem(item.id, { uploadedCount: i + 1 });
+                }
+            };
+
+            const sendResponse = async (item: OutboxResponseItem, signal: AbortSignal) => {
+                let responseId = item.responseId;
+                if (!responseId) {
+                    const created = await api.tickets.createResponse(item.ticketCode, item.content, item.idempotencyKey);
+                    responseId = created.id;
+                    patchItem(item.id, { responseId });
+                }
+
+                for (let i = item.uploadedCount; i < item.attachments.length; i++) {
+                    throwIfAborted(signal);
+                    await uploadResponseAttachment(item.ticketCode, responseId, item.attachments[i], { signal });
+                    patchItem(item.id, { uploadedCount: i + 1 });
+                }
+            };
+
+            return {
+                items: [],
+                parkedItems: [],
+                accountId: null,
+                isFlushing: false,
+
+                enqueueTicket: async (data, attachments = [], companyName = null, idempotencyKey = createIdempotencyKey()) => {
+                    const id = generateId();
+                    const item: OutboxTicketItem = {
+                        id,
+                        kind: 'ticket',
+                        status: 'pending',
+                        data,
+                        companyName,
+                        ticketCode: null,
+                        ...persistAttachments(id, attachments),
+                        uploadedCount: 0,
+                        attempts: 0,
+                        idempotencyKey,
+                        accountId: get().accountId,
+                        error: null,
+                        createdAt: new Date().toISOString(),
+                    };
+                    set((state) => ({ items: [...state.items, item] }));
+                    logger.info(`Ticket queued offline (${id})`, null, 'Outbox');
+                    return item;
+                },
+
+                enqueueResponse: async (ticketCode, content, attachments = [], idempotencyKey = createIdempotencyKey()) => {
+                    const id = generateId();
+                    const item: OutboxResponseItem = {
+                        id,
+                        kind: 'response',
+                        status: 'pending',
+                        ticketCode,
+                        content,
+                        responseId: null,
+                        ...persistAttachments(id, attachments),
+                        uploadedCount: 0,
+                        attempts: 0,
+                        idempotencyKey,
+                        accountId: get().accountId,
+                        error: null,
+                        createdAt: new Date().toISOString(),
+                    };
+                    set((state) => ({ items: [...state.items, item] }));
+                    logger.info(`Response queued offline for ${ticketCode} (${id})`, null, 'Outbox');
+                    return item;
+                },
+
+                flush: async () => {
+                    const result: FlushResult = { sent: [], failed: [] };
+                    if (get().isFlushing) return result;
+
+                    const controller = new AbortController();
+                    flushController = controller;
+                    set({ isFlushing: true });
+                    const run = async () => {
+                        // Items are replayed strictly in the order they were queued
+                        const queue = get().items.filter((item) => item.status === 'pending');
+                        for (const queued of queue) {
+                            if (controller.signal.aborted) break;
+                            const item = get().items.find((i) => i.id === queued.id);
+                            if (!item || item.status !== 'pending') continue;
+
+                            patchItem(item.id, { status: 'sending', attempts: item.attempts + 1, error: null });
+                            try {
+                                if (item.kind === 'ticket') {
+                                    await sendTicket(item, controller.signal);
+                                } else {
+                                    await sendResponse(item, controller.signal);
+                                }
+
+                                const sent = get().items.find((i) => i.id === item.id) ?? item;
+                                set((state) => ({ items: state.items.filter((i) => i.id !== item.id) }));
+                                removeAttachments(item.id);
+                                invalidateSentItem(item);
+                                result.sent.push(sent);
+                                logger.info(`Outbox item sent (${item.id})`, null, 'Outbox');
+                            } catch (error) {
+                                if (isCanceledError(error) || controller.signal.aborted) {
+                                    // The account changed: the item resumes where it stopped when it is back
+                                    patchItem(item.id, { status: 'pending' });
+                                    break;
+                                }
+                                if (isNetworkError(error)) {
+                                    // Still offline: keep the rest of the queue for the next attempt
+                                    patchItem(item.id, { status: 'pending' });
+                                    logger.warn('Outbox flush interrupted: network unavailable', null, 'Outbox');
+                                    break;
+                                }
+
+                                patchItem(item.id, { status: 'failed', error: getErrorMessage(error, 'No se pudo enviar') });
+                                result.failed.push(get().items.find((i) => i.id === item.id) ?? item);
+                                logger.error(`Outbox item rejected (${item.id})`, error, 'Outbox');
+                            }
+                        }
+                        return result;
+                    };
+
+                    flushing = run().finally(() => {
+                        flushController = null;
+                        flushing = null;
+                        set({ isFlushing: false });
+                    });
+                    return flushing;
+                },
+
+                retry: async (id) => {
+                    patchItem(id, { status: 'pending', error: null });
+                    return get().flush();
+                },
+
+                discard: (id) => {
+                    set((state) => ({ items: state.items.filter((item) => item.id !== id) }));
+                    removeAttachments(id);
+                },
+
+                clear: () => {
+                    const ids = [...get().items, ...get().parkedItems].map((item) => item.id);
+                    set({ items: [], parkedItems: [] });
+                    ids.forEach(removeAttachments);
+                },
+
+                clearAccount: (accountId) => {
+                    const isOwn = (item: OutboxItem) => item.accountId === accountId;
+                    const ids = [...get().items, ...get().parkedItems].filter(isOwn).map((item) => item.id);
+                    set((state) => ({
+                        items: state.items.filter((item) => !isOwn(item)),
+                        parkedItems: state.parkedItems.filter((item) => !isOwn(item)),
+                    }));
+                    ids.forEach(removeAttachments);
+                },
+
+                setAccount: (accountId) => {
+                    if (accountId === get().accountId) return;
+                    set({ accountId });
+                    const repartition = () =>
+                        set((state) => partitionByAccount([...state.items, ...state.parkedItems], state.accountId));
+                    if (!flushing) {
+                        repartition();
+                        return;
+                    }
+                    // The item being sent must finish recording its progress (a ticket created on
+                    // the server, an upload done) before it is parked, so the flush stops first
+                    flushController?.abort();
+                    flushing.then(repartition, repartition);
+                },
+            };
+        },
+        {
+            name: 'ticket-outbox',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({ items: state.items, parkedItems: state.parkedItems }),
+            // An item interrupted mid-send (app killed) goes back to pending on rehydration.
+            // Items queued before idempotency keys existed get one now.
+            // The account may already be known when the queue is read.
+            onRehydrateStorage: () => (state) => {
+                if (!state) return;
+                const restored = [...state.items, ...(state.parkedItems ?? [])].map((item) => ({
+                    ...item,
+                    status: item.status === 'sending' ? 'pending' : item.status,
+                    idempotencyKey: item.idempotencyKey ?? createIdempotencyKey(),
+                }));
+                useOutboxStore.setState(partitionByAccount(restored, useOutboxStore.getState().accountId));
+            },
+        }
+    )
+);
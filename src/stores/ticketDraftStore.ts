@@ -0,0 +1,179 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { TicketDraft, TicketDraftFields } from '../types/ticketDraft';
+import { OutboxAttachment } from '../types/outbox';
+import { UploadableFile } from '../services/api/uploads';
+import { useUploadStore } from './uploadStore';
+import { logger } from '../utils/logger';
+
+interface TicketDraftState {
+    // Drafts of every account on this device; screens filter by account
+    drafts: TicketDraft[];
+    // False until the persisted drafts were read; the resume prompt waits for it
+    hasHydrated: boolean;
+
+    // Creates the draft when `id` is null; resolves to the draft id
+    saveDraft: (accountId: string, id: string | null, fields: Omit<TicketDraftFields, 'attachments'> & { attachments: UploadableFile[] }) => string;
+    renameDraft: (id: string, name: string) => void;
+    deleteDraft: (id: string) => void;
+    // Every draft of the account, with its files
+    deleteAccountDrafts: (accountId: string) => void;
+}
+
+const DRAFTS_DIR_NAME = 'ticket-drafts';
+export const MAX_DRAFT_NAME_LENGTH = 40;
+
+const generateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const draftDirectory = (draftId: string) => new Directory(Paths.document, DRAFTS_DIR_NAME, draftId);
+
+// Picked file URI -> its copy in the draft folder, per draft. The wizard keeps
+// the picked URIs, so without it every auto-save would copy every file again.
+const copies = new Map<string, Map<string, string>>();
+
+// Same reason as the outbox: picker URIs live in the cache directory and can be
+// purged before the draft is resumed. Files already copied are kept as they are,
+// and files removed from the draft are deleted.
+const persistAttachments = (draftId: string, files: UploadableFile[]): OutboxAttachment[] => {
+    const dir = draftDirectory(draftId);
+    dir.create({ intermediates: true, idempotent: true });
+    const draftCopies = copies.get(draftId) ?? new Map<string, string>();
+    copies.set(draftId, draftCopies);
+
+    const attachments = files.map((file, index) => {
+        const fileName = file.fileName || file.uri.split('/').pop() || `file-${index}`;
+        if (file.uri.startsWith(dir.uri)) return { uri: file.uri, fileName, mimeType: file.mimeType ?? null };
+
+        const copied = draftCopies.get(file.uri);
+        if (copied && new File(copied).exists) return { uri: copied, fileName, mimeType: file.mimeType ?? null };
+
+        const destination = new File(dir, `${generateId()}-${fileName}`);
+        new File(file.uri).copy(destination);
+        draftCopies.set(file.uri, destination.uri);
+        return { uri: destination.uri, fileName, mimeType: file.mimeType ?? null };
+    });
+
+    const kept = new Set(attachments.map((attachment) => attachment.uri));
+    dir.list().forEach((entry) => {
+        if (entry instanceof File && !kept.has(entry.uri)) entry.delete();
+    });
+    return attachments;
+};
+
+const removeAttachments = (draftId: string) => {
+    copies.delete(draftId);
+    try {
+        const dir = draftDirectory(draftId);
+        if (dir.exists) dir.delete();
+    } catch (error) {
+        logger.warn(`Could not remove draft files for ${draftId}`, error, 'Drafts');
+    }
+};
+
+// Files of a draft an upload batch still reads from: a resumed draft uploads
+// straight from its folder, and failed files can be retried later
+const isUploadingFrom = (draftId: string) => {
+    const dirUri = draftDirectory(draftId).uri;
+    return Object.values(useUploadStore.getState().batches).some((batch) =>
+        batch.items.some((item) => item.status !== 'done' && item.file.uri.startsWith(dirUri))
+    );
+};
+
+// Waits until no batch needs the files: every upload done, or the batch dismissed
+const removeAttachmentsAfterUploads = (draftId: string) => {
+    if (!isUploadingFrom(draftId)) {
+        removeAttachments(draftId);
+        return;
+    }
+    const unsubscribe = useUploadStore.subscribe(() => {
+        if (isUploadingFrom(draftId)) return;
+        unsubscribe();
+        removeAttachments(draftId);
+    });
+};
+
+// Folders left behind when the app was closed before their uploads settled
+const removeOrphanedAttachments = (drafts: TicketDraft[]) => {
+    try {
+        const root = new Directory(Paths.document, DRAFTS_DIR_NAME);
+        if (!root.exists) return;
+        const ids = new Set(drafts.map((draft) => draft.id));
+        root.list().forEach((entry) => {
+            if (entry instanceof Directory && !ids.has(entry.name)) entry.delete();
+        });
+    } catch (error) {
+        logger.warn('Could not clean up draft files', error, 'Drafts');
+    }
+};
+
+export const getDraftLabel = (draft: TicketDraft) =>
+    draft.name || draft.title.trim() || `Borrador del ${format(new Date(draft.createdAt), "d 'de' MMMM, HH:mm", { locale: es })}`;
+
+/**
+ * Create-ticket wizard drafts, saved as the user goes so backing out or the
+ * app being killed loses nothing. A user can keep several (and name them);
+ * the one that gets sent is deleted.
+ */
+export const useTicketDraftStore = create<TicketDraftState>()(
+    persist(
+        (set, get) => ({
+            drafts: [],
+            hasHydrated: false,
+
+            saveDraft: (accountId, id, fields) => {
+                const draftId = id ?? generateId();
+                const now = new Date().toISOString();
+                const existing = get().drafts.find((draft) => draft.id === draftId);
+                // A file that can't be copied keeps the attachments of the last save
+                let attachments: OutboxAttachment[] = existing?.attachments ?? [];
+                try {
+                    attachments = persistAttachments(draftId, fields.attachments);
+                } catch (error) {
+                    logger.warn(`Could not save draft files for ${draftId}`, error, 'Drafts');
+                }
+
+                const draft: TicketDraft = {
+                    ...fields,
+                    attachments,
+                    id: draftId,
+                    accountId,
+                    name: existing?.name ?? null,
+                    createdAt: existing?.createdAt ?? now,
+                    updatedAt: now,
+                };
+                set((state) => ({ drafts: [draft, ...state.drafts.filter((d) => d.id !== draftId)] }));
+                return draftId;
+            },
+
+            renameDraft: (id, name) => {
+                const trimmed = name.trim().slice(0, MAX_DRAFT_NAME_LENGTH);
+                set((state) => ({
+                    drafts: state.drafts.map((draft) => (draft.id === id ? { ...draft, name: trimmed || null } : draft)),
+                }));
+            },
+
+            deleteDraft: (id) => {
+                removeAttachmentsAfterUploads(id);
+                set((state) => ({ drafts: state.drafts.filter((draft) => draft.id !== id) }));
+            },
+
+            deleteAccountDrafts: (accountId) => {
+                get().drafts.filter((draft) => draft.accountId === accountId).forEach((draft) => get().deleteDraft(draft.id));
+            },
+        }),
+        {
+            name: 'ticket-drafts',
+            storage: createJSONStorage(() => AsyncStorage),
+            partialize: (state) => ({ drafts: state.drafts }),
+            onRehydrateStorage: () => (state, error) => {
+                if (error) logger.warn('Could not restore ticket drafts', error, 'Drafts');
+                else removeOrphanedAttachments(state?.drafts ?? []);
+                useTicketDraftStore.setState({ hasHydrated: true });
+            },
+        }
+    )
+);
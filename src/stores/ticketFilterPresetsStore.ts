@@ -0,0 +1,83 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TicketFilterValues } from '../utils/ticketFilters';
+import { logger } from '../utils/logger';
+
+/**
+ * Named ticket filters saved on this device ("Mis abiertos de alta prioridad
+ * en ACME"). Company, category and area ids only make sense for the account
+ * that saved them, so every preset remembers its account.
+ */
+export interface TicketFilterPreset {
+    id: string;
+    accountId: string;
+    name: string;
+    filters: TicketFilterValues;
+    createdAt: string;
+}
+
+interface TicketFilterPresetsState {
+    presets: TicketFilterPreset[];
+
+    savePreset: (accountId: string, name: string, filters: TicketFilterValues) => TicketFilterPreset;
+    deletePreset: (id: string) => void;
+    deleteAccountPresets: (accountId: string) => void;
+}
+
+export const MAX_PRESET_NAME_LENGTH = 40;
+
+const createPresetId = () => `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const useTicketFilterPresetsStore = create<TicketFilterPresetsState>()(
+    persist(
+        (set) => ({
+            presets: [],
+
+            // Saving with an existing name (same account) replaces that preset
+            savePreset: (accountId, name, filters) => {
+                const preset: TicketFilterPreset = {
+                    id: createPresetId(),
+                    accountId,
+                    name: name.trim().slice(0, MAX_PRESET_NAME_LENGTH),
+                    filters,
+                    createdAt: new Date().toISOString(),
+                };
+                set((state) => ({
+                    presets: [
+                        ...state.presets.filter((p) =>
+                            p.accountId !== accountId || p.name.toLowerCase() !== preset.name.toLowerCase()
+                        ),
+                        preset,
+                    ],
+                }));
+                return preset;
+            },
+
+            deletePreset: (id) => set((state) => ({ presets: state.presets.filter((p) => p.id !== id) })),
+
+            deleteAccountPresets: (accountId) =>
+                set((state) => ({ presets: state.presets.filter((p) => p.accountId !== accountId) })),
+        }),
+        {
+            name: 'ticket-filter-presets',
+            storage: createJSONStorage(() => AsyncStorage),
+            // v1: the sort direction is sent as `sort_order`, the name the API documents
+            version: 1,
+            migrate: (persisted, version) => {
+                const state = persisted as { presets: (TicketFilterPreset & { filters: { sort_direction?: 'asc' | 'desc' } })[] };
+                if (version > 0) return state as TicketFilterPresetsState;
+                return {
+                    ...state,
+                    presets: state.presets.map(({ filters: { sort_direction, ...filters }, ...preset }) => ({
+                        ...preset,
+                        filters: sort_direction ? { ...filters, sort_order: sort_direction } : filters,
+                    })),
+                } as TicketFilterPresetsState;
+            },
+            onRehydrateStorage: () => (_state, error) => {
+                if (error) logger.warn('Could not restore ticket filter presets', error, 'Tickets');
+            },
+        }
+    )
+);
@@ -1,114 +1,246 @@
 import { create } from 'zustand';
-import { Ticket, TicketFilters, CreateTicketData, TicketResponse, TicketCategory } from '../types/ticket';
-import { client } from '../services/api/client';
+import { Ticket, TicketFilters, CreateTicketData, TicketResponse, TicketCategory, Area } from '../types/ticket';
+import { AttachmentLimits } from '../types/company';
+import { api } from '../services/api/endpoints';
+import { UploadableFile } from '../services/api/uploads';
+import { DEFAULT_ATTACHMENT_LIMITS, mergeAttachmentLimits } from '../services/attachments/prepare';
+import { createIdempotencyKey } from '../services/api/retry';
+import { isNetworkError, isOnline } from '../services/offline/connectivity';
+import { FetchOptions, queryCache } from '../services/api/queryCache';
+import { queryKeys } from '../services/api/queryKeys';
+import { createLatestRequest } from '../services/api/cancellation';
+import { PaginationMeta } from '../services/api/decoders/common';
+import { isCanceledError } from '../services/api/errors';
+import { useOutboxStore } from './outboxStore';
+import { registerResponseAuthors, useEntityStore, withCompany } from './entityStore';
+import { scopeToAccount } from './accountScope';
+import { hasClientFilters, matchesClientFilters, toTicketQuery } from '../utils/ticketFilters';
+import { useUploadStore } from './uploadStore';
+
+// Counts for the whole account, not just the loaded pages
+export interface TicketStats {
+    total: number;
+    // open + pending
+    active: number;
+    // resolved + closed
+    resolved: number;
+}
 
 interface TicketState {
     tickets: Ticket[];
+    // Filters of the last fetchTickets call, reused to load the next page
+    ticketFilters: TicketFilters;
+    pagination: {
+        currentPage: number;
+        lastPage: number;
+        // Server total: it ignores the filters applied on the device
+        total: number;
+        // Tickets read from the server so far. With filters applied on the device the list
+        // only covers these, until the last page is loaded.
+        scanned: number;
+    };
+    isLoadingMore: boolean;
+    stats: TicketStats | null;
     currentTicket: Ticket | null;
     currentTicketResponses: TicketResponse[];
     categories: TicketCategory[];
     isLoading: boolean;
     isCreating: boolean;
     creationStatus: string;
+    // Attachments of the last ticket created here (see useUploadStore); some may be missing
+    creationUploadBatchId: string | null;
 
-    fetchTickets: (filters?: TicketFilters) => Promise<void>;
-    fetchTicket: (ticketCode: string) => Promise<Ticket>;
-    createTicket: (data: CreateTicketData, attachments?: any[]) => Promise<Ticket>;
-    fetchTicketResponses: (ticketCode: string) => Promise<void>;
-    createResponse: (ticketCode: string, content: string, attachments?: any[]) => Promise<void>;
+    // Latest wins: a newer call cancels this one, which then resolves without applying results.
+    // Page 1 replaces the list; later pages are appended to it.
+    fetchTickets: (filters?: TicketFilters, options?: FetchOptions) => Promise<void>;
+    // Next page for the current filters; does nothing on the last page or while loading
+    fetchMoreTickets: () => Promise<void>;
+    fetchTicketStats: (options?: FetchOptions) => Promise<void>;
+    // Rejects with a canceled ApiError when options.signal aborts (screen closed)
+    fetchTicket: (ticketCode: string, options?: FetchOptions) => Promise<Ticket>;
+    // Resolves to null when the ticket was queued in the offline outbox. Attachments that
+    // fail to upload don't reject it: they stay in the `creationUploadBatchId` batch.
+    createTicket: (data: CreateTicketData, attachments?: UploadableFile[], companyName?: string | null) => Promise<Ticket | null>;
+    fetchTicketResponses: (ticketCode: string, options?: FetchOptions) => Promise<void>;
+    // Resolves to false when the response was queued in the offline outbox. Attachments
+    // that fail to upload stay in a batch of useUploadStore for this ticket.
+    createResponse: (ticketCode: string, content: string, attachments?: UploadableFile[]) => Promise<boolean>;
     fetchCategories: (companyId: string) => Promise<void>;
     checkCompanyAreasEnabled: (companyId: string) => Promise<boolean>;
-    fetchAreas: (companyId: string) => Promise<any[]>;
+    // Falls back to the app defaults when the company has none or they can't be loaded
+    fetchAttachmentLimits: (companyId: string) => Promise<AttachmentLimits>;
+    fetchAreas: (companyId: string) => Promise<Area[]>;
     rateTicket: (ticketCode: string, rating: number, comment?: string) => Promise<void>;
     reopenTicket: (ticketCode: string) => Promise<void>;
 }
 
+// Categories and areas change rarely compared to tickets
+const COMPANY_SETTINGS_STALE_TIME = 5 * 60 * 1000;
+const TICKETS_PER_PAGE = 20;
+
+interface TicketPage {
+    tickets: Ticket[];
+    meta: PaginationMeta;
+}
+
+// A new filter/search (or ticket) aborts the previous request, so a slow
+// response can never overwrite the current one
+const ticketsRequest = createLatestRequest();
+const responsesRequest = createLatestRequest();
+
+// Client-side filters can leave a page empty: later pages are read (up to this
+// many per call) until something matches, so the list never stalls on an empty page
+const MAX_PAGES_PER_LOAD = 5;
+
+const loadTickets = async (filters: TicketFilters, signal?: AbortSignal): Promise<TicketPage> => {
+    let page = await loadTicketPage(filters, signal);
+    if (!hasClientFilters(filters)) return page;
+
+    let tickets = page.tickets.filter((t) => matchesClientFilters(t, filters));
+    for (let loaded = 1; tickets.length === 0 && page.meta.currentPage < page.meta.lastPage && loaded < MAX_PAGES_PER_LOAD; loaded++) {
+        page = await loadTicketPage({ ...filters, page: page.meta.currentPage + 1 }, signal);
+        tickets = page.tickets.filter((t) => matchesClientFilters(t, filters));
+    }
+    return { tickets, meta: page.meta };
+};
+
+const loadTicketPage = async (filters: TicketFilters, signal?: AbortSignal): Promise<TicketPage> => {
+    const response = await api.tickets.list({ ...toTicketQuery(filters), include: 'company,category,area' }, signal);
+
+    // Companies the API only sent as company_id are filled from the entity store,
+    // which loads unknown ones in a single directory request
+    const entities = useEntityStore.getState();
+    entities.upsertCompanies(response.data.map((t) => t.company));
+    await entities.resolveCompanies(response.data.filter((t) => !t.company.name).map((t) => t.company.id));
+
+    const tickets = response.data.map(withCompany);
+    entities.upsertTickets(tickets);
+    return { tickets, meta: response.meta };
+};
+
+// The list endpoint has no stats: one single-item page per status gives its total
+const loadTicketStats = async (signal?: AbortSignal): Promise<TicketStats> => {
+    const statuses = ['open', 'pending', 'resolved', 'closed'] as const;
+    const [open, pending, resolved, closed] = await Promise.all(
+        statuses.map(async (status) => (await api.tickets.list({ status, per_page: 1 }, signal)).meta.total)
+    );
+    return { total: open + pending + resolved + closed, active: open + pending, resolved: resolved + closed };
+};
+
+const loadTicket = async (ticketCode: string, signal?: AbortSignal) => {
+    const fetched = await api.tickets.get(ticketCode, 'company,category,owner,creator,attachments,area', signal);
+
+    const entities = useEntityStore.getState();
+    entities.upsertCompanies([fetched.company]);
+    if (!fetched.company.name) {
+        await entities.resolveCompanies([fetched.company.id]);
+    }
+
+    const ticket = withCompany(fetched);
+    entities.upsertTickets([ticket]);
+    return ticket;
+};
+
+const loadResponses = async (ticketCode: string, signal?: AbortSignal) => {
+    const responses = await api.tickets.responses(ticketCode, signal);
+    registerResponseAuthors(responses);
+    return responses;
+};
+
 export const useTicketStore = create<TicketState>((set, get) => ({
     tickets: [],
+    ticketFilters: {},
+    pagination: {
+        currentPage: 1,
+        lastPage: 1,
+        total: 0,
+        scanned: 0,
+    },
+    isLoadingMore: false,
+    stats: null,
     currentTicket: null,
     currentTicketResponses: [],
     categories: [],
     isLoading: false,
     isCreating: false,
     creationStatus: '',
+    creationUploadBatchId: null,
 
-    fetchTickets: async (filters = {}) => {
-        set({ isLoading: true });
-        try {
-            const response = await client.get('/api/tickets', {
-                params: { ...filters, include: 'company,category,area' }
+    fetchTickets: async (filters = {}, options = {}) => {
+        const page = filters.page ?? 1;
+        const params = { per_page: TICKETS_PER_PAGE, ...filters, page };
+        const key = queryKeys.tickets(params);
+        const signal = ticketsRequest.start(options.signal);
+
+        const applyPage = ({ tickets, meta }: TicketPage) => {
+            if (!ticketsRequest.isCurrent(signal)) return;
+            // A ticket created meanwhile shifts the pages, so the next one can repeat items
+            const loaded = page === 1 ? [] : get().tickets;
+            const loadedIds = new Set(loaded.map((t) => t.id));
+            set({
+                tickets: [...loaded, ...tickets.filter((t) => !loadedIds.has(t.id))],
+                pagination: {
+                    currentPage: meta.currentPage,
+                    lastPage: meta.lastPage,
+                    total: meta.total,
+                    scanned: Math.min(meta.currentPage * (meta.perPage ?? TICKETS_PER_PAGE), meta.total),
+                },
             });
-            let tickets = response.data.data.map(mapTicket);
-
-            // Patch: Fetch missing company info if needed
-            const missingCompanyIds = [...new Set(tickets.filter((t: Ticket) => t.company.id && !t.company.name).map((t: Ticket) => t.company.id as string))] as string[];
-
-            if (missingCompanyIds.length > 0) {
-                try {
-                    const companyPromises = missingCompanyIds.map((id: string) => client.get(`/api/companies/${id}`).catch(() => null));
-                    const companiesResponses = await Promise.all(companyPromises);
-                    const companiesMap = new Map();
-
-                    companiesResponses.forEach((res: any) => {
-                        if (res && res.data && res.data.data) {
-                            companiesMap.set(res.data.data.id, res.data.data);
-                        }
-                    });
-
-                    tickets = tickets.map((t: Ticket) => {
-                        if (t.company.id && !t.company.name && companiesMap.has(t.company.id)) {
-                            const comp = companiesMap.get(t.company.id);
-                            return {
-                                ...t,
-                                company: {
-                                    id: comp.id,
-                                    name: comp.name,
-                                    logoUrl: comp.logo_url || comp.logoUrl || null,
-                                }
-                            };
-                        }
-                        return t;
-                    });
-                } catch (err) {
-                    console.error('Error patching companies:', err);
-                }
-            }
+        };
 
-            set({ tickets, isLoading: false });
+        // Cached lists render immediately; the request below only revalidates them
+        const cached = page === 1 ? queryCache.peek<TicketPage>(key) : undefined;
+        if (cached) applyPage(cached);
+        set({ ticketFilters: filters, ...(page === 1 ? { isLoading: !cached } : { isLoadingMore: true }) });
+
+        try {
+            const result = await queryCache.fetch(key, (requestSignal) => loadTickets(params, requestSignal), {
+                ...options,
+                signal,
+                // Later pages are appended, so only page 1 can be swapped in the background
+                onRevalidate: page === 1 ? applyPage : undefined,
+            });
+            applyPage(result);
+            if (ticketsRequest.isCurrent(signal)) set({ isLoading: false, isLoadingMore: false });
         } catch (error) {
-            set({ isLoading: false });
+            // A superseded request leaves the loading state to the one that replaced it
+            if (ticketsRequest.isSuperseded(signal)) return;
+            set({ isLoading: false, isLoadingMore: false });
+            if (isCanceledError(error)) return;
             throw error;
         }
     },
 
-    fetchTicket: async (ticketCode) => {
-        set({ isLoading: true });
+    fetchMoreTickets: async () => {
+        const { ticketFilters, pagination, isLoading, isLoadingMore } = get();
+        if (isLoading || isLoadingMore || pagination.currentPage >= pagination.lastPage) return;
+        await get().fetchTickets({ ...ticketFilters, page: pagination.currentPage + 1 });
+    },
+
+    fetchTicketStats: async (options = {}) => {
+        const key = queryKeys.ticketStats();
+        const cached = queryCache.peek<TicketStats>(key);
+        if (cached) set({ stats: cached });
+
+        const stats = await queryCache.fetch(key, (requestSignal) => loadTicketStats(requestSignal), {
+            ...options,
+            onRevalidate: (fresh) => set({ stats: fresh }),
+        });
+        set({ stats });
+    },
+
+    fetchTicket: async (ticketCode, options = {}) => {
+        const key = queryKeys.ticket(ticketCode);
+        const cached = queryCache.peek<Ticket>(key);
+        set(cached ? { currentTicket: cached } : { isLoading: true });
+
         try {
-            const response = await client.get(`/api/tickets/${ticketCode}`, {
-                params: { include: 'company,category,owner,creator,attachments,area' }
+            const ticket = await queryCache.fetch(key, (requestSignal) => loadTicket(ticketCode, requestSignal), {
+                ...options,
+                onRevalidate: (fresh) => {
+                    if (get().currentTicket?.ticketCode === ticketCode) set({ currentTicket: fresh });
+                },
             });
-            let ticket = mapTicket(response.data.data);
-
-            // Patch for single ticket if needed
-            if (ticket.company.id && !ticket.company.name) {
-                try {
-                    const compRes = await client.get(`/api/companies/${ticket.company.id}`);
-                    if (compRes.data.data) {
-                        const comp = compRes.data.data;
-                        ticket = {
-                            ...ticket,
-                            company: {
-                                id: comp.id,
-                                name: comp.name,
-                                logoUrl: comp.logo_url || comp.logoUrl || null,
-                            }
-                        };
-                    }
-                } catch (e) {
-                    console.error('Error patching company for ticket:', e);
-                }
-            }
-
             set({ currentTicket: ticket, isLoading: false });
             return ticket;
         } catch (error) {
@@ -117,33 +249,38 @@ export const useTicketStore = create<TicketState>((set, get) => ({
         }
     },
 
-    createTicket: async (data, attachments = []) => {
-        set({ isCreating: true, creationStatus: 'Creando ticket...' });
+    createTicket: async (data, attachments = [], companyName = null) => {
+        set({ isCreating: true, creationStatus: 'Creando ticket...', creationUploadBatchId: null });
         try {
+            if (!(await isOnline())) {
+                await useOutboxStore.getState().enqueueTicket(data, attachments, companyName);
+                set({ isCreating: false, creationStatus: '' });
+                return null;
+            }
+
             // 1. Create ticket
-            const response = await client.post('/api/tickets', data);
-            const newTicket = mapTicket(response.data.data);
+            const idempotencyKey = createIdempotencyKey();
+            let newTicket: Ticket;
+            try {
+                newTicket = await api.tickets.create(data, idempotencyKey);
+            } catch (error) {
+                if (!isNetworkError(error)) throw error;
+                // Connection dropped (retries exhausted): keep it for later with the same key,
+                // in case the request did reach the server
+                await useOutboxStore.getState().enqueueTicket(data, attachments, companyName, idempotencyKey);
+                set({ isCreating: false, creationStatus: '' });
+                return null;
+            }
 
-            // 2. Upload attachments if any
+            // 2. Upload attachments if any; the ticket exists whatever happens to them
             if (attachments.length > 0) {
-                set({ creationStatus: `Subiendo ${attachments.length} archivos...` });
-                for (let i = 0; i < attachments.length; i++) {
-                    const file = attachments[i];
-                    set({ creationStatus: `Subiendo archivo ${i + 1} de ${attachments.length}...` });
-                    const formData = new FormData();
-                    // @ts-ignore
-                    formData.append('file', {
-                        uri: file.uri,
-                        name: file.fileName || file.uri.split('/').pop() || 'file',
-                        type: file.mimeType || 'image/jpeg',
-                    });
-
-                    await client.post(`/api/tickets/${newTicket.ticketCode}/attachments`, formData, {
-                        headers: { 'Content-Type': 'multipart/form-data' },
-                    });
-                }
+                const { batchId, result } = useUploadStore.getState().upload({ ticketCode: newTicket.ticketCode }, attachments);
+                set({ creationStatus: `Subiendo ${attachments.length} archivos...`, creationUploadBatchId: batchId });
+                await result;
             }
 
+            useEntityStore.getState().upsertTickets([withCompany(newTicket)]);
+            queryCache.invalidate(queryKeys.tickets());
             set({ isCreating: false, creationStatus: '' });
             return newTicket;
         } catch (error) {
@@ -152,68 +289,115 @@ export const useTicketStore = create<TicketState>((set, get) => ({
         }
     },
 
-    fetchTicketResponses: async (ticketCode) => {
-        const response = await client.get(`/api/tickets/${ticketCode}/responses`);
-        const responses = response.data.data.map(mapTicketResponse);
-        set({ currentTicketResponses: responses });
+    fetchTicketResponses: async (ticketCode, options = {}) => {
+        const key = queryKeys.ticketResponses(ticketCode);
+        const signal = responsesRequest.start(options.signal);
+
+        const cached = queryCache.peek<TicketResponse[]>(key);
+        if (cached) set({ currentTicketResponses: cached });
+
+        try {
+            const responses = await queryCache.fetch(key, (requestSignal) => loadResponses(ticketCode, requestSignal), {
+                ...options,
+                signal,
+                onRevalidate: (fresh) => {
+                    if (responsesRequest.isCurrent(signal)) set({ currentTicketResponses: fresh });
+                },
+            });
+            if (responsesRequest.isCurrent(signal)) set({ currentTicketResponses: responses });
+        } catch (error) {
+            if (responsesRequest.isSuperseded(signal) || isCanceledError(error)) return;
+            throw error;
+        }
     },
 
     createResponse: async (ticketCode, content, attachments = []) => {
+        if (!(await isOnline())) {
+            await useOutboxStore.getState().enqueueResponse(ticketCode, content, attachments);
+            return false;
+        }
+
         // 1. Create response
-        const response = await client.post(`/api/tickets/${ticketCode}/responses`, { content });
-        const newResponse = mapTicketResponse(response.data.data); // Map the new response
+        const idempotencyKey = createIdempotencyKey();
+        let newResponse: TicketResponse;
+        try {
+            newResponse = await api.tickets.createResponse(ticketCode, content, idempotencyKey);
+        } catch (error) {
+            if (!isNetworkError(error)) throw error;
+            await useOutboxStore.getState().enqueueResponse(ticketCode, content, attachments, idempotencyKey);
+            return false;
+        }
 
         // 2. Upload attachments if any
         if (attachments.length > 0) {
-            for (const file of attachments) {
-                const formData = new FormData();
-                // @ts-ignore
-                formData.append('file', {
-                    uri: file.uri,
-                    name: file.fileName || file.uri.split('/').pop() || 'file',
-                    type: file.mimeType || 'image/jpeg',
-                });
-
-                await client.post(`/api/tickets/${ticketCode}/responses/${newResponse.id}/attachments`, formData, {
-                    headers: { 'Content-Type': 'multipart/form-data' },
-                });
-            }
+            await useUploadStore.getState().upload({ ticketCode, responseId: newResponse.id }, attachments).result;
         }
 
+        queryCache.invalidate(queryKeys.ticket(ticketCode));
+        queryCache.invalidate(queryKeys.tickets());
+
         // Refresh responses
-        await get().fetchTicketResponses(ticketCode);
+        await get().fetchTicketResponses(ticketCode, { force: true });
+        return true;
     },
 
     fetchCategories: async (companyId) => {
-        const response = await client.get('/api/tickets/categories', { params: { company_id: companyId } });
-        set({ categories: response.data.data });
+        const categories = await queryCache.fetch(
+            queryKeys.ticketCategories(companyId),
+            () => api.tickets.categories({ company_id: companyId }),
+            { staleTime: COMPANY_SETTINGS_STALE_TIME }
+        );
+        set({ categories });
     },
 
     rateTicket: async (ticketCode, rating, comment) => {
-        await client.post(`/api/tickets/${ticketCode}/rate`, { rating, comment });
+        await api.tickets.rate(ticketCode, rating, comment);
+        queryCache.invalidate(queryKeys.tickets());
         // Refresh ticket
-        await get().fetchTicket(ticketCode);
+        await get().fetchTicket(ticketCode, { force: true });
     },
 
     reopenTicket: async (ticketCode) => {
-        await client.post(`/api/tickets/${ticketCode}/reopen`);
+        await api.tickets.reopen(ticketCode);
+        queryCache.invalidate(queryKeys.tickets());
         // Refresh ticket
-        await get().fetchTicket(ticketCode);
+        await get().fetchTicket(ticketCode, { force: true });
     },
     checkCompanyAreasEnabled: async (companyId: string) => {
         try {
-            const response = await client.get(`/api/companies/${companyId}/settings/areas-enabled`);
-            return response.data.data.areas_enabled;
+            const { areasEnabled } = await queryCache.fetch(
+                queryKeys.areasEnabled(companyId),
+                () => api.areas.enabled(companyId),
+                { staleTime: COMPANY_SETTINGS_STALE_TIME }
+            );
+            return areasEnabled;
         } catch (error) {
             console.error('Error checking areas enabled:', error);
             return false;
         }
     },
 
+    fetchAttachmentLimits: async (companyId: string) => {
+        try {
+            const settings = await queryCache.fetch(
+                queryKeys.attachmentSettings(companyId),
+                () => api.companies.attachmentSettings(companyId),
+                { staleTime: COMPANY_SETTINGS_STALE_TIME }
+            );
+            return mergeAttachmentLimits(settings ?? {});
+        } catch (error) {
+            console.error('Error fetching attachment limits:', error);
+            return DEFAULT_ATTACHMENT_LIMITS;
+        }
+    },
+
     fetchAreas: async (companyId: string) => {
         try {
-            const response = await client.get('/api/areas', { params: { company_id: companyId, is_active: true } });
-            return response.data.data;
+            return await queryCache.fetch(
+                queryKeys.areas(companyId),
+                () => api.areas.list(companyId),
+                { staleTime: COMPANY_SETTINGS_STALE_TIME }
+            );
         } catch (error) {
             console.error('Error fetching areas:', error);
             return [];
@@ -221,85 +405,4 @@ export const useTicketStore = create<TicketState>((set, get) => ({
     },
 }));
 
-// Helper to map API response (snake_case) to Ticket interface (camelCase)
-const mapAttachment = (data: any): any => ({
-    id: data.id,
-    ticketId: data.ticket_id,
-    responseId: data.response_id,
-    fileName: data.file_name || data.name,
-    fileUrl: data.file_url || data.url,
-    fileType: data.file_type || data.mime_type,
-    fileSizeBytes: data.file_size_bytes || data.size,
-    uploadedBy: {
-        id: data.uploaded_by?.id,
-        displayName: data.uploaded_by?.name,
-    },
-    createdAt: data.created_at,
-});
-
-const mapTicket = (data: any): Ticket => ({
-    id: data.id,
-    ticketCode: data.ticket_code,
-    title: data.title,
-    description: data.description,
-    priority: data.priority || 'medium', // Default to medium if missing
-    status: data.status,
-    lastResponseAuthorType: data.last_response_author_type,
-    company: {
-        id: data.company?.id || data.company_id,
-        name: data.company?.name,
-        logoUrl: data.company?.logo_url || data.company?.logoUrl || null,
-    },
-    category: data.category ? {
-        id: data.category.id,
-        name: data.category.name,
-    } : null,
-    area: data.area ? {
-        id: data.area.id,
-        name: data.area.name,
-    } : null,
-    createdBy: {
-        id: data.created_by_user?.id,
-        displayName: data.created_by_user?.name,
-        email: data.created_by_user?.email,
-    },
-    ownerAgent: data.owner_agent ? {
-        id: data.owner_agent.id,
-        displayName: data.owner_agent.name,
-        avatarUrl: data.owner_agent.avatar_url || null,
-    } : null,
-    rating: data.rating ? {
-        rating: data.rating.rating,
-        comment: data.rating.comment,
-        createdAt: data.rating.created_at,
-    } : null,
-    attachmentsCount: data.attachments_count || 0,
-    attachments: (data.attachments || []).map(mapAttachment),
-    responsesCount: data.responses_count || 0,
-    createdAt: data.created_at,
-    updatedAt: data.updated_at,
-    timeline: {
-        createdAt: data.timeline?.created_at || data.created_at,
-        firstResponseAt: data.timeline?.first_response_at || null,
-        resolvedAt: data.timeline?.resolved_at || data.resolved_at || null,
-        closedAt: data.timeline?.closed_at || data.closed_at || null,
-    },
-    firstResponseAt: data.timeline?.first_response_at || null,
-    resolvedAt: data.resolved_at,
-    closedAt: data.closed_at,
-});
-
-const mapTicketResponse = (data: any): TicketResponse => ({
-    id: data.id,
-    ticketId: data.ticket_id,
-    authorId: data.author_id,
-    content: data.content,
-    authorType: data.author_type,
-    createdAt: data.created_at,
-    author: {
-        id: data.author?.id,
-        displayName: data.author?.name,
-        avatarUrl: data.author?.avatar_url || null,
-    },
-    attachments: (data.attachments || []).map(mapAttachment),
-});
+scopeToAccount(useTicketStore);
@@ -0,0 +1,222 @@
+import { create } from 'zustand';
+import { UploadableFile, UploadTarget, uploadAttachment } from '../services/api/uploads';
+import { ApiError, getErrorMessage, isCanceledError } from '../services/api/errors';
+import { isNetworkError } from '../services/offline/connectivity';
+import { queryCache } from '../services/api/queryCache';
+import { queryKeys } from '../services/api/queryKeys';
+import { logger } from '../utils/logger';
+
+export type UploadStatus = 'queued' | 'uploading' | 'done' | 'failed' | 'canceled';
+
+export interface UploadItem {
+    id: string;
+    file: UploadableFile;
+    status: UploadStatus;
+    // Fraction sent, 0-1
+    progress: number;
+    error: string | null;
+}
+
+// The attachments sent together for one ticket or response
+export interface UploadBatch {
+    id: string;
+    target: UploadTarget;
+    items: UploadItem[];
+    createdAt: string;
+}
+
+export interface UploadBatchResult {
+    uploaded: UploadItem[];
+    // Failed or canceled; `retry` sends them again to the same ticket/response
+    missing: UploadItem[];
+}
+
+interface UploadState {
+    batches: Record<string, UploadBatch>;
+
+    // Starts right away; `result` settles when every file is done, failed or canceled
+    upload: (target: UploadTarget, files: UploadableFile[]) => { batchId: string; result: Promise<UploadBatchResult> };
+    // Only the missing files of the batch (or the given ones) are sent again
+    retry: (batchId: string, itemIds?: string[]) => Promise<UploadBatchResult>;
+    // Without itemId, cancels every file still queued or uploading
+    cancel: (batchId: string, itemId?: string) => void;
+    dismiss: (batchId: string) => void;
+    // Aborts every upload (and pending retry) and drops all batches: they belong to the account signed out
+    reset: () => void;
+}
+
+const MAX_CONCURRENT_UPLOADS = 3;
+// Transient failures (network, 5xx) are tried again before a file counts as failed
+const UPLOAD_ATTEMPTS = 2;
+const RETRY_DELAY_MS = 1000;
+
+// One per file in flight, so a single file can be canceled
+const controllers = new Map<string, AbortController>();
+
+const generateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isTransient = (error: unknown) =>
+    isNetworkError(error) || (error instanceof ApiError && error.status !== null && error.status >= 500);
+
+const isMissing = (item: UploadItem) => item.status === 'failed' || item.status === 'canceled';
+
+export const getBatchProgress = (batch: UploadBatch) =>
+    batch.items.length === 0 ? 1 : batch.items.reduce((sum, item) => sum + item.progress, 0) / batch.items.length;
+
+export const getMissingUploads = (batch: UploadBatch) => batch.items.filter(isMissing);
+
+export const isBatchActive = (batch: UploadBatch) =>
+    batch.items.some((item) => item.status === 'queued' || item.status === 'uploading');
+
+/**
+ * Attachment uploads with bounded concurrency, per-file progress, automatic
+ * retry of transient failures and cancellation. Files that still fail stay in
+ * their batch so the user can send just those again: the ticket (or response)
+ * already exists, so nothing else has to be repeated.
+ */
+export const useUploadStore = create<UploadState>((set, get) => {
+    const updateItem = (batchId: string, itemId: string, changes: Partial<UploadItem>) => {
+        set((state) => {
+            const batch = state.batches[batchId];
+            if (!batch) return state;
+            return {
+                batches: {
+                    ...state.batches,
+                    [batchId]: {
+                        ...batch,
+                        items: batch.items.map((item) => (item.id === itemId ? { ...item, ...changes } : item)),
+                    },
+                },
+            };
+        });
+    };
+
+    const findItem = (batchId: string, itemId: string) => get().batches[batchId]?.items.find((item) => item.id === itemId);
+
+    const uploadItem = async (batchId: string, itemId: string) => {
+        const batch = get().batches[batchId];
+        const item = findItem(batchId, itemId);
+        // Canceled while queued, or the batch was dismissed (account switch)
+        if (!batch || item?.status !== 'queued') return;
+
+        const controller = new AbortController();
+        controllers.set(itemId, controller);
+        updateItem(batchId, itemId, { status: 'uploading', progress: 0, error: null });
+
+        let lastPercent = 0;
+        const onProgress = (fraction: number) => {
+            // Re-render once per percent, not once per chunk
+            const percent = Math.floor(fraction * 100);
+            if (percent === lastPercent) return;
+            lastPercent = percent;
+            updateItem(batchId, itemId, { progress: fraction });
+        };
+
+        try {
+            for (let attempt = 1; ; attempt++) {
+                try {
+                    await uploadAttachment(batch.target, item.file, { signal: controller.signal, onProgress });
+                    updateItem(batchId, itemId, { status: 'done', progress: 1 });
+                    return;
+                } catch (error) {
+                    if (isCanceledError(error) || controller.signal.aborted) {
+                        updateItem(batchId, itemId, { status: 'canceled', progress: 0 });
+                        return;
+                    }
+                    if (attempt < UPLOAD_ATTEMPTS && isTransient(error)) {
+                        await wait(RETRY_DELAY_MS * attempt);
+                        continue;
+                    }
+                    logger.warn(`Upload failed for ${item.file.fileName ?? item.file.uri}`, error, 'Uploads');
+                    updateItem(batchId, itemId, {
+                        status: 'failed',
+                        progress: 0,
+                        error: getErrorMessage(error, 'No se pudo subir el archivo'),
+                    });
+                    return;
+                }
+            }
+        } finally {
+            controllers.delete(itemId);
+        }
+    };
+
+    const run = async (batchId: string, itemIds: string[]): Promise<UploadBatchResult> => {
+        const queue = [...itemIds];
+        const worker = async () => {
+            while (queue.length > 0) {
+                await uploadItem(batchId, queue.shift() as string);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_UPLOADS, queue.length) }, worker));
+
+        const batch = get().batches[batchId];
+        if (!batch) return { uploaded: [], missing: [] };
+
+        queryCache.invalidate(queryKeys.ticket(batch.target.ticketCode));
+        if (batch.target.responseId) queryCache.invalidate(queryKeys.ticketResponses(batch.target.ticketCode));
+
+        const result = {
+            uploaded: batch.items.filter((item) => item.status === 'done'),
+            missing: getMissingUploads(batch),
+        };
+        // Only batches with something left to do are kept around
+        if (result.missing.length === 0 && !isBatchActive(batch)) get().dismiss(batchId);
+        return result;
+    };
+
+    return {
+        batches: {},
+
+        upload: (target, files) => {
+            const batchId = generateId();
+            const items = files.map((file): UploadItem => ({
+                id: generateId(),
+                file,
+                status: 'queued',
+                progress: 0,
+                error: null,
+            }));
+            set((state) => ({
+                batches: { ...state.batches, [batchId]: { id: batchId, target, items, createdAt: new Date().toISOString() } },
+            }));
+            return { batchId, result: run(batchId, items.map((item) => item.id)) };
+        },
+
+        retry: (batchId, itemIds) => {
+            const batch = get().batches[batchId];
+            const toRetry = (batch?.items ?? []).filter((item) =>
+                isMissing(item) && (!itemIds || itemIds.includes(item.id))
+            );
+            toRetry.forEach((item) => updateItem(batchId, item.id, { status: 'queued', progress: 0, error: null }));
+            return run(batchId, toRetry.map((item) => item.id));
+        },
+
+        cancel: (batchId, itemId) => {
+            const batch = get().batches[batchId];
+            batch?.items
+                .filter((item) => !itemId || item.id === itemId)
+                .forEach((item) => {
+                    if (item.status === 'queued') updateItem(batchId, item.id, { status: 'canceled' });
+                    if (item.status === 'uploading') controllers.get(item.id)?.abort();
+                });
+        },
+
+        dismiss: (batchId) => {
+            get().cancel(batchId);
+            set((state) => {
+                const { [batchId]: _removed, ...batches } = state.batches;
+                return { batches };
+            });
+        },
+
+        reset: () => {
+            // Dropping the batches first makes the queued files and the retries of aborted ones stop
+            set({ batches: {} });
+            controllers.forEach((controller) => controller.abort());
+            controllers.clear();
+        },
+    };
+});
@@ -1,7 +1,12 @@
 import { create } from 'zustand';
-import { User } from '../types/user';
-import { client } from '../services/api/client';
+import { User, Session } from '../types/user';
+import { api } from '../services/api/endpoints';
+import { queryCache } from '../services/api/queryCache';
+import { queryKeys } from '../services/api/queryKeys';
 import { useAuthStore } from './authStore';
+import { scopeToAccount } from './accountScope';
+
+export type { Location, Session } from '../types/user';
 
 interface UserState {
     updateProfile: (data: Partial<Pick<User, 'firstName' | 'lastName' | 'displayName' | 'phoneNumber' | 'avatarUrl'>>) => Promise<void>;
@@ -11,29 +16,9 @@ interface UserState {
     revokeAllOtherSessions: () => Promise<void>;
 }
 
-export interface Location {
-    city: string | null;
-    country: string | null;
-    country_code: string | null;
-    latitude: number | null;
-    longitude: number | null;
-    timezone: string | null;
-}
-
-export interface Session {
-    id: string;
-    deviceName: string | null;
-    ipAddress: string | null;
-    userAgent: string | null;
-    lastUsedAt: string;
-    expiresAt: string;
-    isCurrent: boolean;
-    location: Location | null;
-}
-
 export const useUserStore = create<UserState>((set, get) => ({
     updateProfile: async (data) => {
-        const response = await client.patch('/api/users/me/profile', data);
+        await api.users.updateProfile(data);
         // Update auth store user
         const currentUser = useAuthStore.getState().user;
         if (currentUser) {
@@ -47,7 +32,7 @@ export const useUserStore = create<UserState>((set, get) => ({
     },
 
     updatePreferences: async (data) => {
-        await client.patch('/api/users/me/preferences', data);
+        await api.users.updatePreferences(data);
         const currentUser = useAuthStore.getState().user;
         if (currentUser) {
             useAuthStore.setState({
@@ -60,22 +45,12 @@ export const useUserStore = create<UserState>((set, get) => ({
     },
 
     fetchSessions: async () => {
-        const response = await client.get('/api/auth/sessions');
-        const sessions = response.data.sessions || [];
-        return sessions.map((session: any) => ({
-            id: session.sessionId,
-            deviceName: session.deviceName,
-            ipAddress: session.ipAddress,
-            userAgent: session.userAgent,
-            lastUsedAt: session.lastUsedAt,
-            expiresAt: session.expiresAt,
-            isCurrent: session.isCurrent,
-            location: session.location,
-        }));
+        // Always fresh (the list is security sensitive) but concurrent calls share one request
+        return queryCache.fetch(queryKeys.sessions(), () => api.auth.sessions(), { force: true });
     },
 
     revokeSession: async (sessionId) => {
-        await client.delete(`/api/auth/sessions/${sessionId}`);
+        await api.auth.revokeSession(sessionId);
     },
 
     revokeAllOtherSessions: async () => {
@@ -96,3 +71,5 @@ export const useUserStore = create<UserState>((set, get) => ({
         }
     }
 }));
+
+scopeToAccount(useUserStore);
@@ -62,3 +62,14 @@ export interface Industry {
     code: string;
 }
 
+
+// Rules a company sets for ticket attachments
+export interface AttachmentLimits {
+    maxFileSizeBytes: number;
+    // MIME types; `image/*` allows every image
+    allowedMimeTypes: string[];
+    // Longest side, in pixels, images are scaled down to
+    maxImageDimension: number;
+    // JPEG/WebP quality (0-1) images are recompressed with
+    imageQuality: number;
+}
@@ -0,0 +1,40 @@
+import { CreateTicketData } from './ticket';
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxAttachment {
+    uri: string; // Copy inside the app document directory
+    fileName: string;
+    mimeType: string | null;
+}
+
+interface BaseOutboxItem {
+    id: string;
+    status: OutboxStatus;
+    attachments: OutboxAttachment[];
+    // Names of picked files that could not be copied next to the queue; the item is sent without
+    // them. Missing on items queued before this was tracked.
+    skippedAttachments?: string[];
+    uploadedCount: number; // Attachments already sent, so a replay resumes instead of re-uploading
+    attempts: number;
+    idempotencyKey: string; // Reused on every replay so the server never creates the entity twice
+    accountId: string | null; // Account that queued it; only replayed while that account is active
+    error: string | null;
+    createdAt: string;
+}
+
+export interface OutboxTicketItem extends BaseOutboxItem {
+    kind: 'ticket';
+    data: CreateTicketData;
+    companyName: string | null;
+    ticketCode: string | null; // Set once the ticket exists on the server
+}
+
+export interface OutboxResponseItem extends BaseOutboxItem {
+    kind: 'response';
+    ticketCode: string;
+    content: string;
+    responseId: string | null; // Set once the response exists on the server
+}
+
+export type OutboxItem = OutboxTicketItem | OutboxResponseItem;
@@ -70,12 +70,22 @@ export interface Area {
     activeTicketsCount: number;
 }
 
+// company_id, priority, area_id and updated_from/to are not query params of
+// GET /api/tickets: the store applies them to the loaded tickets instead
 export interface TicketFilters {
     status?: 'open' | 'pending' | 'resolved' | 'closed';
     company_id?: string;
+    priority?: 'low' | 'medium' | 'high';
+    category_id?: string;
+    area_id?: string;
+    // Inclusive dates (yyyy-MM-dd)
+    created_from?: string;
+    created_to?: string;
+    updated_from?: string;
+    updated_to?: string;
     search?: string;
     sort_by?: 'created_at' | 'updated_at' | 'status';
-    sort_direction?: 'asc' | 'desc';
+    sort_order?: 'asc' | 'desc';
     page?: number;
     per_page?: number;
 }
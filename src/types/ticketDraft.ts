@@ -0,0 +1,24 @@
+import { OutboxAttachment } from './outbox';
+
+// What the create-ticket wizard has so far; every field is optional until sent
+export interface TicketDraftFields {
+    companyId: string | null;
+    companyName: string | null;
+    areaId: string | null;
+    categoryId: string | null;
+    priority: 'low' | 'medium' | 'high' | null;
+    title: string;
+    description: string;
+    attachments: OutboxAttachment[];
+    // Wizard step (1-4) to resume on
+    step: number;
+}
+
+export interface TicketDraft extends TicketDraftFields {
+    id: string;
+    accountId: string;
+    // Chosen by the user; until then the title (or a date) is shown instead
+    name: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
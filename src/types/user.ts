@@ -5,6 +5,8 @@ export interface User {
     status: 'ACTIVE' | 'SUSPENDED' | 'DELETED';
     emailVerified: boolean;
     emailVerifiedAt: string | null;
+    // undefined when the response did not say (/api/users/me)
+    onboardingCompleted?: boolean;
     lastLoginAt: string | null;
     createdAt: string;
     firstName: string;
@@ -27,3 +29,23 @@ export interface User {
     ticketsCount: number;
     resolvedTicketsCount: number;
 }
+
+export interface Location {
+    city: string | null;
+    country: string | null;
+    country_code: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    timezone: string | null;
+}
+
+export interface Session {
+    id: string;
+    deviceName: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    lastUsedAt: string;
+    expiresAt: string;
+    isCurrent: boolean;
+    location: Location | null;
+}
@@ -0,0 +1,29 @@
+import { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { ApiError } from '../services/api/errors';
+
+/**
+ * Pushes backend validation errors (ApiError.fieldErrors) into a react-hook-form
+ * form so the rejected fields are highlighted.
+ *
+ * `fields` lists the form fields that may receive server errors; `aliases` maps
+ * API field names to form fields when they differ (e.g. passwordConfirmation).
+ * Returns true when at least one field error was set.
+ */
+export const applyFieldErrors = <T extends FieldValues>(
+    error: unknown,
+    setError: UseFormSetError<T>,
+    fields: readonly Path<T>[],
+    aliases: Record<string, Path<T>> = {}
+): boolean => {
+    if (!(error instanceof ApiError)) return false;
+
+    let applied = false;
+    Object.entries(error.fieldErrors).forEach(([apiField, messages]) => {
+        const field = aliases[apiField] ?? fields.find((name) => name === apiField);
+        if (!field) return;
+
+        setError(field, { type: 'server', message: messages[0] }, { shouldFocus: !applied });
+        applied = true;
+    });
+    return applied;
+};
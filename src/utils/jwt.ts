@@ -0,0 +1,34 @@
+/**
+ * Reads the payload of a JWT without verifying it. Only meant for client-side
+ * hints such as the expiry; the backend remains the source of truth.
+ */
+export const decodeJwtPayload = (token: string): Record<string, unknown> | null => {
+    try {
+        const payload = token.split('.')[1];
+        if (!payload) return null;
+
+        const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+        const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+        return JSON.parse(atob(padded));
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Expiry of an access token in epoch milliseconds. Falls back to `expiresIn`
+ * (seconds) when the token has no readable `exp` claim.
+ */
+export const getTokenExpiry = (token: string, expiresIn?: number | null): number | null => {
+    const exp = decodeJwtPayload(token)?.exp;
+    if (typeof exp === 'number') return exp * 1000;
+    if (expiresIn) return Date.now() + expiresIn * 1000;
+    return null;
+};
+
+// Account a token was issued for (`user_id`, or the standard `sub`)
+export const getTokenUserId = (token: string): string | null => {
+    const payload = decodeJwtPayload(token);
+    const userId = payload?.user_id ?? payload?.sub;
+    return typeof userId === 'string' ? userId : null;
+};
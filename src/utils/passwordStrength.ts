@@ -0,0 +1,144 @@
+import { COMMON_PASSWORDS } from '../constants/commonPasswords';
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+// Personal data a password should not be built from
+export interface PasswordContext {
+    email?: string | null;
+    firstName?: string | null;
+    lastName?: string | null;
+}
+
+export interface PasswordEvaluation {
+    score: PasswordScore;
+    label: string;
+    // Estimated after discounting repeats, sequences and personal data
+    entropyBits: number;
+    // Most relevant first, ready to show to the user
+    warnings: string[];
+    // Score 0: forms must not accept it
+    isTooWeak: boolean;
+}
+
+export const PASSWORD_SCORE_LABELS: Record<PasswordScore, string> = {
+    0: 'Muy débil',
+    1: 'Débil',
+    2: 'Regular',
+    3: 'Buena',
+    4: 'Fuerte',
+};
+
+// Minimum estimated bits for scores 1 to 4
+const SCORE_THRESHOLDS = [28, 36, 50, 65];
+
+const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm', '1234567890'];
+
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' };
+
+const normalize = (value: string) =>
+    value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const unleet = (value: string) => value.replace(/[013457@$!]/g, (char) => LEET[char]);
+
+const isCommon = (password: string) => {
+    const lower = normalize(password);
+    // "Maria2024!" → "maria"; "P@ssw0rd" → "password"
+    const core = lower.replace(/^[^a-z]+|[^a-z]+$/g, '');
+    return [lower, core, unleet(lower), unleet(core)].some((candidate) => COMMON_PASSWORDS.has(candidate));
+};
+
+const charsetSize = (password: string) => {
+    let size = 0;
+    if (/[a-z]/.test(password)) size += 26;
+    if (/[A-Z]/.test(password)) size += 26;
+    if (/[0-9]/.test(password)) size += 10;
+    if (/[ -/:-@[-`{-~]/.test(password)) size += 33;
+    if (/[^\x00-\x7f]/.test(password)) size += 100;
+    return Math.max(size, 1);
+};
+
+const isStep = (a: string, b: string) => {
+    const diff = b.charCodeAt(0) - a.charCodeAt(0);
+    if (Math.abs(diff) === 1) return true;
+    return KEYBOARD_ROWS.some((row) => {
+        const index = row.indexOf(a);
+        return index !== -1 && (row[index + 1] === b || row[index - 1] === b);
+    });
+};
+
+/**
+ * Characters that actually add guesswork: a run of the same character counts
+ * once, and an alphabetical, numeric or keyboard sequence ("abcd", "4321",
+ * "qwer") of three or more counts as two.
+ */
+const effectiveLength = (password: string) => {
+    const chars = [...normalize(password)];
+    let length = 0;
+    let i = 0;
+    while (i < chars.length) {
+        let j = i + 1;
+        while (j < chars.length && chars[j] === chars[i]) j++;
+        if (j - i > 1) {
+            length += 1;
+            i = j;
+            continue;
+        }
+        while (j < chars.length && isStep(chars[j - 1], chars[j])) j++;
+        length += j - i >= 3 ? 2 : 1;
+        i = j - i >= 3 ? j : i + 1;
+    }
+    return length;
+};
+
+const personalTokens = ({ email, firstName, lastName }: PasswordContext) => {
+    const [local = '', domain = ''] = normalize(email ?? '').split('@');
+    return [
+        ...local.split(/[._+-]/),
+        domain.split('.')[0],
+        ...normalize(firstName ?? '').split(/\s+/),
+        ...normalize(lastName ?? '').split(/\s+/),
+    ].filter((token) => token && token.length >= 3);
+};
+
+/**
+ * Offline password strength estimate used by the register, change-password and
+ * reset forms. Not a substitute for the backend rules; it catches what those
+ * can't see: common passwords and passwords built from the user's own data.
+ *
+ * @example
+ * evaluatePassword('Maria2024!', { firstName: 'María' }).isTooWeak // true
+ */
+export const evaluatePassword = (password: string, context: PasswordContext = {}): PasswordEvaluation => {
+    const warnings: string[] = [];
+    let remainder = normalize(password);
+
+    const common = isCommon(password);
+    if (common) warnings.push('Es una de las contraseñas más usadas');
+
+    const comparable = unleet(remainder);
+    const personal = personalTokens(context).filter((token) => comparable.includes(token));
+    if (personal.length > 0) {
+        warnings.push('No uses tu nombre ni tu correo');
+        remainder = personal.reduce((rest, token) => rest.split(token).join(''), comparable);
+    }
+
+    const length = effectiveLength(remainder) + (personal.length > 0 ? 1 : 0);
+    const entropyBits = Math.round(length * Math.log2(charsetSize(password)));
+
+    if (!common && effectiveLength(password) < [...password].length - 2) {
+        warnings.push('Evita repeticiones y secuencias como "aaa" o "1234"');
+    }
+
+    const score = (common ? 0 : SCORE_THRESHOLDS.filter((threshold) => entropyBits >= threshold).length) as PasswordScore;
+    if (score < 3 && warnings.length === 0) {
+        warnings.push('Una frase de varias palabras es más fácil de recordar y más segura');
+    }
+
+    return {
+        score,
+        label: PASSWORD_SCORE_LABELS[score],
+        entropyBits,
+        warnings,
+        isTooWeak: score === 0,
+    };
+};
@@ -0,0 +1,138 @@
+import { format, subDays } from 'date-fns';
+import { Ticket, TicketFilters } from '../types/ticket';
+import { ApiQuery } from '../services/api/paths';
+
+/**
+ * The tickets screen keeps its filters in the route params (same names as the
+ * API query), so a filtered list survives navigation and can be linked to.
+ * These helpers convert between those params and `TicketFilters`.
+ */
+
+// Filters a preset or the route can hold; search and paging stay on the screen
+export type TicketFilterValues = Omit<TicketFilters, 'search' | 'page' | 'per_page'>;
+
+export type TicketFilterParams = Record<keyof TicketFilterValues, string | undefined>;
+
+type SortOption = Pick<TicketFilters, 'sort_by' | 'sort_order'> & { id: string; label: string };
+
+const FILTER_KEYS: (keyof TicketFilterValues)[] = [
+    'status',
+    'company_id',
+    'priority',
+    'category_id',
+    'area_id',
+    'created_from',
+    'created_to',
+    'updated_from',
+    'updated_to',
+    'sort_by',
+    'sort_order',
+];
+
+// Filters GET /api/tickets does not support; they are matched against the loaded tickets
+export const CLIENT_FILTER_KEYS = ['company_id', 'priority', 'area_id', 'updated_from', 'updated_to'] as const;
+
+const STATUSES = ['open', 'pending', 'resolved', 'closed'] as const;
+const PRIORITIES = ['low', 'medium', 'high'] as const;
+const SORT_FIELDS = ['created_at', 'updated_at', 'status'] as const;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const PRIORITY_OPTIONS: { id: NonNullable<TicketFilters['priority']>; label: string }[] = [
+    { id: 'high', label: 'Alta' },
+    { id: 'medium', label: 'Media' },
+    { id: 'low', label: 'Baja' },
+];
+
+// The first one is what the API does without sort params
+export const SORT_OPTIONS: SortOption[] = [
+    { id: 'created_at:desc', label: 'Más recientes', sort_by: 'created_at', sort_order: 'desc' },
+    { id: 'created_at:asc', label: 'Más antiguos', sort_by: 'created_at', sort_order: 'asc' },
+    { id: 'updated_at:desc', label: 'Última actividad', sort_by: 'updated_at', sort_order: 'desc' },
+    { id: 'status:asc', label: 'Por estado', sort_by: 'status', sort_order: 'asc' },
+];
+
+export const RECENT_RANGE_OPTIONS = [
+    { days: 7, label: 'Últimos 7 días' },
+    { days: 30, label: 'Últimos 30 días' },
+    { days: 90, label: 'Últimos 90 días' },
+];
+
+export const isValidFilterDate = (value: string) =>
+    DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+
+export const daysAgo = (days: number) => format(subDays(new Date(), days), 'yyyy-MM-dd');
+
+const pick = <T extends string>(value: string | undefined, allowed: readonly T[]): T | undefined =>
+    allowed.find((option) => option === value);
+
+const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) || undefined;
+
+const date = (value: string | undefined) => (value && isValidFilterDate(value) ? value : undefined);
+
+/**
+ * Reads filters from route params, dropping anything malformed (an old link,
+ * a hand-edited URL) instead of sending it to the API.
+ */
+export const parseTicketFilters = (params: Record<string, string | string[] | undefined>): TicketFilterValues => {
+    const read = (key: keyof TicketFilterValues) => first(params[key]);
+    const sortBy = pick(read('sort_by'), SORT_FIELDS);
+
+    return removeEmpty({
+        status: pick(read('status'), STATUSES),
+        company_id: read('company_id'),
+        priority: pick(read('priority'), PRIORITIES),
+        // Categories and areas belong to a company
+        category_id: read('company_id') ? read('category_id') : undefined,
+        area_id: read('company_id') ? read('area_id') : undefined,
+        created_from: date(read('created_from')),
+        created_to: date(read('created_to')),
+        updated_from: date(read('updated_from')),
+        updated_to: date(read('updated_to')),
+        sort_by: sortBy,
+        sort_order: sortBy ? pick(read('sort_order'), ['asc', 'desc'] as const) : undefined,
+    });
+};
+
+// Every key is present so `router.setParams` also clears the ones that were removed
+export const toTicketFilterParams = (filters: TicketFilterValues): TicketFilterParams =>
+    FILTER_KEYS.reduce((params, key) => ({ ...params, [key]: filters[key] || undefined }), {} as TicketFilterParams);
+
+export const removeEmpty = (filters: TicketFilterValues): TicketFilterValues =>
+    FILTER_KEYS.reduce<TicketFilterValues>((result, key) => (filters[key] ? { ...result, [key]: filters[key] } : result), {});
+
+export const getSortOption = (filters: TicketFilterValues) =>
+    SORT_OPTIONS.find((option) => option.sort_by === filters.sort_by && option.sort_order === filters.sort_order)
+    ?? SORT_OPTIONS[0];
+
+// Filters set in the sheet (status has its own pills); each date range counts once
+export const countSheetFilters = (filters: TicketFilterValues) =>
+    [
+        filters.company_id,
+        filters.priority,
+        filters.category_id,
+        filters.area_id,
+        filters.created_from || filters.created_to,
+        filters.updated_from || filters.updated_to,
+        getSortOption(filters) !== SORT_OPTIONS[0],
+    ].filter(Boolean).length;
+
+export const areSameFilters = (a: TicketFilterValues, b: TicketFilterValues) =>
+    FILTER_KEYS.every((key) => (a[key] || undefined) === (b[key] || undefined));
+
+export const hasClientFilters = (filters: TicketFilters) => CLIENT_FILTER_KEYS.some((key) => !!filters[key]);
+
+// What is sent to the API: the filters the spec documents
+export const toTicketQuery = (filters: TicketFilters): Partial<ApiQuery<'GET /api/tickets'>> => {
+    const { company_id, priority, area_id, updated_from, updated_to, ...query } = filters;
+    return query;
+};
+
+// The rest, checked against each ticket of a page
+export const matchesClientFilters = (ticket: Ticket, filters: TicketFilters) => {
+    const updated = ticket.updatedAt.slice(0, 10);
+    return (!filters.company_id || ticket.company.id === filters.company_id)
+        && (!filters.priority || ticket.priority === filters.priority)
+        && (!filters.area_id || ticket.area?.id === filters.area_id)
+        && (!filters.updated_from || updated >= filters.updated_from)
+        && (!filters.updated_to || updated <= filters.updated_to);
+};